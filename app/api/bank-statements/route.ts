@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { BankImportService } from '@/lib/services/bank-import.service';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const bankImportService = new BankImportService();
+
+// Statements are a few hundred KB at most; anything bigger is not a statement
+const MAX_STATEMENT_BYTES = 5 * 1024 * 1024;
+
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No statement file uploaded' }, { status: 400 });
+    }
+    if (file.size > MAX_STATEMENT_BYTES) {
+      return NextResponse.json({ error: 'Statement file is too large' }, { status: 400 });
+    }
+
+    const content = Buffer.from(await file.arrayBuffer());
+    const result = await bankImportService.importStatement(file.name, content);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to import bank statement');
+  }
+}
+
+export const dynamic = 'force-dynamic';
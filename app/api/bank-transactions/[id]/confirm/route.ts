@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { BankImportService } from '@/lib/services/bank-import.service';
+import { ConfirmBankTransactionSchema } from '@/lib/schemas/bank';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const bankImportService = new BankImportService();
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid bank transaction ID' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { invoice_id } = ConfirmBankTransactionSchema.parse(body);
+
+    const transaction = await bankImportService.confirm(id, invoice_id);
+
+    return NextResponse.json(transaction);
+  } catch (error) {
+    return handleApiError(error, 'Failed to confirm bank transaction');
+  }
+}
+
+export const dynamic = 'force-dynamic';
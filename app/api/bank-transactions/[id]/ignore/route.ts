@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { BankImportService } from '@/lib/services/bank-import.service';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const bankImportService = new BankImportService();
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid bank transaction ID' }, { status: 400 });
+    }
+
+    const transaction = await bankImportService.ignore(id);
+
+    return NextResponse.json(transaction);
+  } catch (error) {
+    return handleApiError(error, 'Failed to ignore bank transaction');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { BankImportService } from '@/lib/services/bank-import.service';
+import { BankTransactionQuerySchema } from '@/lib/schemas/bank';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const bankImportService = new BankImportService();
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { status } = BankTransactionQuerySchema.parse({
+      status: searchParams.get('status') || undefined,
+    });
+
+    const transactions = await bankImportService.getTransactions(status);
+    return NextResponse.json(transactions);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch bank transactions');
+  }
+}
+
+export const dynamic = 'force-dynamic';
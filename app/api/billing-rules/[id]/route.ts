@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { BillingRuleService } from '@/lib/services/billing-rule.service';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const billingRuleService = new BillingRuleService();
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid billing rule ID' }, { status: 400 });
+    }
+
+    const success = await billingRuleService.deleteRule(id);
+    if (!success) {
+      return NextResponse.json({ error: 'Billing rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete billing rule');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { BillingRuleService } from '@/lib/services/billing-rule.service';
+import { BillingRuleSchema } from '@/lib/schemas/billing-rules';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const billingRuleService = new BillingRuleService();
+
+export async function GET() {
+  try {
+    const rules = await billingRuleService.getRules();
+    return NextResponse.json(rules);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch billing rules');
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validatedData = BillingRuleSchema.parse(body);
+
+    const rule = await billingRuleService.createRule(validatedData);
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to create billing rule');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { DocumentService } from '@/lib/services/document.service';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const documentService = new DocumentService();
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid document ID' }, { status: 400 });
+    }
+
+    const { document, content } = await documentService.getFile(id);
+
+    return new NextResponse(new Uint8Array(content), {
+      status: 200,
+      headers: {
+        'Content-Type': document.mime_type,
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(document.original_name)}`,
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, 'Failed to download document');
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid document ID' }, { status: 400 });
+    }
+
+    await documentService.deleteDocument(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete document');
+  }
+}
+
+export const dynamic = 'force-dynamic';
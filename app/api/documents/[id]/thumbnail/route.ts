@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { DocumentService } from '@/lib/services/document.service';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const documentService = new DocumentService();
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid document ID' }, { status: 400 });
+    }
+
+    const { content } = await documentService.getFile(id, true);
+
+    // A document's file never changes, so neither does its thumbnail
+    return new NextResponse(new Uint8Array(content), {
+      status: 200,
+      headers: {
+        'Content-Type': 'image/jpeg',
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, 'Failed to load thumbnail');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import type { DocumentLink } from '@/types';
+import { DocumentService } from '@/lib/services/document.service';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const documentService = new DocumentService();
+
+// Phone photos of receipts are a few MB; scanned invoices are smaller
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+function parseLink(get: (key: string) => string | null): DocumentLink | null {
+  const expenseId = get('expense_id');
+  const fuelTransactionId = get('fuel_transaction_id');
+  const link = {
+    expense_id: expenseId ? parseInt(expenseId) : null,
+    fuel_transaction_id: fuelTransactionId ? parseInt(fuelTransactionId) : null,
+  };
+  if (Number.isNaN(link.expense_id) || Number.isNaN(link.fuel_transaction_id)) return null;
+  if (!link.expense_id === !link.fuel_transaction_id) return null;
+  return link;
+}
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const link = parseLink((key) => searchParams.get(key));
+    if (!link) {
+      return NextResponse.json({ error: 'Either expense_id or fuel_transaction_id is required' }, { status: 400 });
+    }
+
+    const documents = await documentService.getDocuments(link);
+    return NextResponse.json(documents);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch documents');
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No document uploaded' }, { status: 400 });
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      return NextResponse.json({ error: 'Document is too large' }, { status: 400 });
+    }
+
+    const link = parseLink((key) => {
+      const value = formData.get(key);
+      return typeof value === 'string' ? value : null;
+    });
+    if (!link) {
+      return NextResponse.json({ error: 'Either expense_id or fuel_transaction_id is required' }, { status: 400 });
+    }
+
+    const content = Buffer.from(await file.arrayBuffer());
+    const document = await documentService.uploadDocument(file.name, content, link);
+
+    return NextResponse.json(document, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to upload document');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { ExchangeRateService } from '@/lib/services/exchange-rate.service';
+import { ExchangeRateQuerySchema } from '@/lib/schemas/invoice';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const exchangeRateService = new ExchangeRateService();
+
+// Rate an invoice with this currency and sale date would be converted at
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { currency, sale_date } = ExchangeRateQuerySchema.parse({
+      currency: searchParams.get('currency') ?? '',
+      sale_date: searchParams.get('sale_date') ?? '',
+    });
+
+    const rate = await exchangeRateService.getRateForSaleDate(currency, sale_date);
+    return NextResponse.json(rate);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch exchange rate');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { ExpenseService } from '@/lib/services/expense.service';
+import { ExpenseSchema } from '@/lib/schemas/expense';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const expenseService = new ExpenseService();
+
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid expense ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = ExpenseSchema.parse(body);
+
+    const expense = await expenseService.updateExpense(id, validatedData);
+
+    return NextResponse.json(expense);
+  } catch (error) {
+    return handleApiError(error, 'Failed to update expense');
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid expense ID' }, { status: 400 });
+    }
+
+    await expenseService.deleteExpense(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete expense');
+  }
+}
+
+export const dynamic = 'force-dynamic';
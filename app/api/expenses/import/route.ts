@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { ExpenseImportService } from '@/lib/services/expense-import.service';
+import { ExpenseImportSchema } from '@/lib/schemas/expense';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const expenseImportService = new ExpenseImportService();
+
+// Even invoices with hundreds of lines stay well below this
+const MAX_INVOICE_XML_BYTES = 5 * 1024 * 1024;
+
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No invoice file uploaded' }, { status: 400 });
+    }
+    if (file.size > MAX_INVOICE_XML_BYTES) {
+      return NextResponse.json({ error: 'Invoice file is too large' }, { status: 400 });
+    }
+
+    const options = ExpenseImportSchema.parse({
+      category: formData.get('category') ?? undefined,
+      vat_deductible_percent: formData.get('vat_deductible_percent') ?? undefined,
+    });
+
+    const content = Buffer.from(await file.arrayBuffer());
+    const result = await expenseImportService.importFa3Invoice(content, options);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to import invoice');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { ExpenseService } from '@/lib/services/expense.service';
+import { ExpenseSchema } from '@/lib/schemas/expense';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const expenseService = new ExpenseService();
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month') || format(new Date(), 'yyyy-MM');
+
+    if (!/^\d{4}-\d{2}$/.test(month)) {
+      return NextResponse.json({ error: 'Month must be in YYYY-MM format' }, { status: 400 });
+    }
+
+    const expenses = await expenseService.getExpenses(month);
+    return NextResponse.json(expenses);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch expenses');
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validatedData = ExpenseSchema.parse(body);
+
+    const expense = await expenseService.createExpense(validatedData);
+
+    return NextResponse.json(expense, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to create expense');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { ForecastService } from '@/lib/services/forecast.service';
+import { handleApiError } from '@/lib/utils/api-error';
+import { getCurrentMonth, isValidMonth } from '@/lib/utils/date';
+
+const forecastService = new ForecastService();
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month') || getCurrentMonth();
+
+    if (!isValidMonth(month)) {
+      return NextResponse.json(
+        { error: 'Invalid month format. Expected YYYY-MM.' },
+        { status: 400 }
+      );
+    }
+
+    const forecast = await forecastService.getMonthForecast(month);
+    return NextResponse.json(forecast);
+  } catch (error) {
+    return handleApiError(error, 'Failed to calculate forecast');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -1,15 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fuelTransactionsDb } from '@/lib/db';
+import { ExpenseService } from '@/lib/services/expense.service';
 import { handleApiError } from '@/lib/utils/api-error';
 import { z } from 'zod';
 
+const expenseService = new ExpenseService();
+
 // Validation schema
 const createTransactionSchema = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
   fuel_type: z.enum(['Pb95', 'Pb98', 'ON', 'LPG']),
   liters: z.number().positive('Liters must be positive'),
   price_per_liter: z.number().positive('Price per liter must be positive'),
-  total_amount: z.number().positive('Total amount must be positive')
+  total_amount: z.number().positive('Total amount must be positive'),
+  vehicle_id: z.number().int().positive().nullish(),
+  odometer_km: z.number().int().nonnegative('Odometer reading must not be negative').nullish()
 });
 
 export async function GET(request: NextRequest) {
@@ -57,8 +62,8 @@ export async function POST(request: NextRequest) {
 
     const data = validationResult.data;
 
-    // Create transaction
-    const transaction = fuelTransactionsDb.create(data);
+    // Create transaction with its fuel expense
+    const transaction = await expenseService.recordFuelTransaction(data);
 
     return NextResponse.json(transaction, { status: 201 });
   } catch (error) {
@@ -78,7 +83,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const deleted = fuelTransactionsDb.delete(parseInt(id, 10));
+    const deleted = await expenseService.deleteFuelTransaction(parseInt(id, 10));
 
     if (!deleted) {
       return NextResponse.json(
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { InvoiceService } from '@/lib/services/invoice.service';
+import { ConvertProformaSchema } from '@/lib/schemas/invoice';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const invoiceService = new InvoiceService();
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid invoice ID' }, { status: 400 });
+    }
+
+    // Dates are optional; an empty body converts with today's date
+    const body = await request.json().catch(() => ({}));
+    const validatedData = ConvertProformaSchema.parse(body);
+
+    const invoice = await invoiceService.convertProforma(id, validatedData);
+
+    return NextResponse.json(invoice, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to convert proforma invoice');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { InvoiceService } from '@/lib/services/invoice.service';
+import { CreateCorrectionSchema } from '@/lib/schemas/invoice';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const invoiceService = new InvoiceService();
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid invoice ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = CreateCorrectionSchema.parse(body);
+
+    const correction = await invoiceService.createCorrection(id, validatedData);
+
+    return NextResponse.json(correction, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to create correction invoice');
+  }
+}
+
+export const dynamic = 'force-dynamic';
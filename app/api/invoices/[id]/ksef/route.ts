@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { KsefService } from '@/lib/services/ksef.service';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const ksefService = new KsefService();
+
+// Refreshes the KSeF status of a sent invoice
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid invoice ID' }, { status: 400 });
+    }
+
+    const invoice = await ksefService.refreshStatus(id);
+    return NextResponse.json(invoice);
+  } catch (error) {
+    return handleApiError(error, 'Failed to check KSeF status');
+  }
+}
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid invoice ID' }, { status: 400 });
+    }
+
+    const invoice = await ksefService.submitInvoice(id);
+    return NextResponse.json(invoice);
+  } catch (error) {
+    return handleApiError(error, 'Failed to send invoice to KSeF');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { InvoiceService } from '@/lib/services/invoice.service';
+import { handleApiError } from '@/lib/utils/api-error';
+import { sanitizeFilenameFromInvoiceNumber } from '@/lib/utils/invoice-files';
+import fs from 'fs/promises';
+
+const invoiceService = new InvoiceService();
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid invoice ID' }, { status: 400 });
+    }
+
+    const data = await invoiceService.getInvoice(id);
+    if (!data) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    const { invoice } = data;
+    if (!invoice.ksef_upo_path) {
+      return NextResponse.json({ error: 'No UPO for this invoice yet' }, { status: 404 });
+    }
+
+    const upoContent = await fs.readFile(invoice.ksef_upo_path, 'utf-8');
+    const filename = `UPO-${sanitizeFilenameFromInvoiceNumber(invoice.invoice_number, 'xml')}`;
+
+    return new NextResponse(upoContent, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, 'Failed to download UPO');
+  }
+}
+
+export const dynamic = 'force-dynamic';
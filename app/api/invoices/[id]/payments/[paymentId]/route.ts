@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { PaymentService } from '@/lib/services/payment.service';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const paymentService = new PaymentService();
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; paymentId: string }> }
+) {
+  try {
+    const { id: idStr, paymentId: paymentIdStr } = await params;
+    const id = parseInt(idStr);
+    const paymentId = parseInt(paymentIdStr);
+    if (isNaN(id) || isNaN(paymentId)) {
+      return NextResponse.json({ error: 'Invalid invoice or payment ID' }, { status: 400 });
+    }
+
+    await paymentService.deletePayment(id, paymentId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete payment');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { PaymentService } from '@/lib/services/payment.service';
+import { CreatePaymentSchema } from '@/lib/schemas/payment';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const paymentService = new PaymentService();
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid invoice ID' }, { status: 400 });
+    }
+
+    const data = await paymentService.getPayments(id);
+    return NextResponse.json(data);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch payments');
+  }
+}
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid invoice ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = CreatePaymentSchema.parse(body);
+
+    const payment = await paymentService.addPayment(id, validatedData);
+
+    return NextResponse.json(payment, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to record payment');
+  }
+}
+
+export const dynamic = 'force-dynamic';
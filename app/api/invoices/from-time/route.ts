@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { TimeBillingService } from '@/lib/services/time-billing.service';
+import { BillTimeSchema, TimeBillingGroupBySchema } from '@/lib/schemas/invoice';
+import { handleApiError } from '@/lib/utils/api-error';
+import { isValidMonth } from '@/lib/utils/date';
+
+const timeBillingService = new TimeBillingService();
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month');
+    const groupBy = TimeBillingGroupBySchema.parse(searchParams.get('group_by') || 'project');
+
+    if (!month || !isValidMonth(month)) {
+      return NextResponse.json(
+        { error: 'Invalid month format. Expected YYYY-MM.' },
+        { status: 400 }
+      );
+    }
+
+    const preview = await timeBillingService.getBillableTime(month, groupBy);
+    return NextResponse.json(preview);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch billable time');
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validatedData = BillTimeSchema.parse(body);
+
+    const invoice = await timeBillingService.createDraftFromTime(validatedData);
+
+    return NextResponse.json(invoice, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to create invoice from tracked time');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -10,6 +10,8 @@ export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
     const q = searchParams.get('q') || undefined;
     const status = searchParams.get('status') as any;
+    const type = searchParams.get('type') as any;
+    const payment = searchParams.get('payment') as any;
     const from = searchParams.get('from') || undefined;
     const to = searchParams.get('to') || undefined;
     const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : undefined;
@@ -18,6 +20,8 @@ export async function GET(request: Request) {
     const result = await invoiceService.getAllInvoices({
       q,
       status,
+      type,
+      payment,
       from,
       to,
       limit,
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { JpkService } from '@/lib/services/jpk.service';
+import { handleApiError } from '@/lib/utils/api-error';
+import { isValidMonth } from '@/lib/utils/date';
+import { getJpkV7mFilename } from '@/lib/utils/invoice-files';
+import fs from 'fs/promises';
+
+const jpkService = new JpkService();
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month') || '';
+    const correction = searchParams.get('correction') === 'true';
+    const carryOver = parseInt(searchParams.get('carry_over') || '0');
+
+    if (!isValidMonth(month)) {
+      return NextResponse.json(
+        { error: 'Invalid month format. Expected YYYY-MM.' },
+        { status: 400 }
+      );
+    }
+    if (isNaN(carryOver) || carryOver < 0) {
+      return NextResponse.json({ error: 'carry_over must be a whole, non-negative PLN amount' }, { status: 400 });
+    }
+
+    const xmlPath = await jpkService.generateV7m(month, { purpose: correction ? 2 : 1, carryOver });
+    const xmlContent = await fs.readFile(xmlPath, 'utf-8');
+
+    return new NextResponse(xmlContent, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-Disposition': `attachment; filename="${getJpkV7mFilename(month)}"`,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, 'Failed to generate JPK_V7M');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clientsDb, projectClientsDb } from '@/lib/db';
+import { ProjectClientSchema } from '@/lib/schemas/project-clients';
+import { handleApiError } from '@/lib/utils/api-error';
+
+export async function GET() {
+  try {
+    const mappings = projectClientsDb.getAll();
+    return NextResponse.json(mappings);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch project clients');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { project_id, client_id } = ProjectClientSchema.parse(body);
+
+    if (client_id === null) {
+      projectClientsDb.delete(project_id);
+      return NextResponse.json({ success: true });
+    }
+
+    if (!clientsDb.getById(client_id)) {
+      return NextResponse.json(
+        { error: 'Client not found' },
+        { status: 404 }
+      );
+    }
+
+    const mapping = projectClientsDb.set(project_id, client_id);
+    return NextResponse.json(mapping, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to link project to client');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { ProjectRateService } from '@/lib/services/project-rate.service';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const projectRateService = new ProjectRateService();
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid rate period ID' }, { status: 400 });
+    }
+
+    const success = await projectRateService.deletePeriod(id);
+    if (!success) {
+      return NextResponse.json({ error: 'Rate period not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete rate period');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { projectRatesDb } from '@/lib/db';
+import { ProjectRateService } from '@/lib/services/project-rate.service';
 import { ProjectRateSchema } from '@/lib/schemas/project-rates';
 import { handleApiError } from '@/lib/utils/api-error';
 
+const projectRateService = new ProjectRateService();
+
 export async function GET() {
   try {
-    const rates = projectRatesDb.getAll();
+    const rates = await projectRateService.getRates();
     return NextResponse.json(rates);
   } catch (error) {
     return handleApiError(error, 'Failed to fetch project rates');
@@ -17,7 +19,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = ProjectRateSchema.parse(body);
     
-    const rate = projectRatesDb.upsert(validatedData);
+    const rate = await projectRateService.setRate(validatedData);
     return NextResponse.json(rate, { status: 201 });
   } catch (error) {
     return handleApiError(error, 'Failed to create/update project rate');
@@ -36,7 +38,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
     
-    const success = projectRatesDb.delete(parseInt(id, 10));
+    const success = await projectRateService.deleteRate(parseInt(id, 10));
     
     if (!success) {
       return NextResponse.json(
@@ -52,4 +54,3 @@ export async function DELETE(request: NextRequest) {
 }
 
 export const dynamic = 'force-dynamic';
-
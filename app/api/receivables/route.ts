@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { PaymentService } from '@/lib/services/payment.service';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const paymentService = new PaymentService();
+
+export async function GET() {
+  try {
+    const receivables = await paymentService.getReceivables();
+    return NextResponse.json(receivables);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch receivables');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { RecurringInvoiceService } from '@/lib/services/recurring-invoice.service';
+import { UpdateRecurringInvoiceSchema } from '@/lib/schemas/recurring-invoice';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const recurringInvoiceService = new RecurringInvoiceService();
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid recurring invoice ID' }, { status: 400 });
+    }
+
+    const template = await recurringInvoiceService.getTemplate(id);
+    if (!template) {
+      return NextResponse.json({ error: 'Recurring invoice not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(template);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch recurring invoice');
+  }
+}
+
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid recurring invoice ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = UpdateRecurringInvoiceSchema.parse(body);
+
+    const template = await recurringInvoiceService.updateTemplate(id, validatedData);
+
+    return NextResponse.json(template);
+  } catch (error) {
+    return handleApiError(error, 'Failed to update recurring invoice');
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid recurring invoice ID' }, { status: 400 });
+    }
+
+    await recurringInvoiceService.deleteTemplate(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete recurring invoice');
+  }
+}
+
+export const dynamic = 'force-dynamic';
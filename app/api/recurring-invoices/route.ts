@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { RecurringInvoiceService } from '@/lib/services/recurring-invoice.service';
+import { CreateRecurringInvoiceSchema } from '@/lib/schemas/recurring-invoice';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const recurringInvoiceService = new RecurringInvoiceService();
+
+export async function GET() {
+  try {
+    const schedule = await recurringInvoiceService.getSchedule();
+    return NextResponse.json(schedule);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch recurring invoices');
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validatedData = CreateRecurringInvoiceSchema.parse(body);
+
+    const template = await recurringInvoiceService.createTemplate(validatedData);
+
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to create recurring invoice');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { RecurringInvoiceService } from '@/lib/services/recurring-invoice.service';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const recurringInvoiceService = new RecurringInvoiceService();
+
+// Same catch-up as on startup, for when the app has been running across a due date
+export async function POST() {
+  try {
+    const result = await recurringInvoiceService.runDue();
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleApiError(error, 'Failed to create recurring invoices');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -2,9 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { settingsDb } from '@/lib/db';
 import { SettingsSchema } from '@/lib/schemas/settings';
 import { GeocodingService } from '@/lib/services/geocoding.service';
+import { ProjectRateService } from '@/lib/services/project-rate.service';
 import { handleApiError } from '@/lib/utils/api-error';
 
 const geocodingService = new GeocodingService();
+const projectRateService = new ProjectRateService();
 
 export async function GET() {
   try {
@@ -48,6 +50,11 @@ export async function PUT(request: NextRequest) {
       }
     }
     
+    // The setting shows the current default rate; months are priced by its periods
+    if (validatedData.default_hourly_rate !== undefined) {
+      await projectRateService.setDefaultRate(parseFloat(validatedData.default_hourly_rate));
+    }
+
     // Update each provided setting
     Object.entries(validatedData).forEach(([key, value]) => {
       if (value !== undefined) {
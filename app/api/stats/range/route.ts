@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { DashboardStatsService } from '@/lib/services/dashboard-stats.service';
+import { handleApiError } from '@/lib/utils/api-error';
+import { getMonthsInRange, isValidMonth } from '@/lib/utils/date';
+
+const statsService = new DashboardStatsService();
+
+// Every month may need a sync with the time provider, so very long ranges are refused
+const MAX_RANGE_MONTHS = 36;
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (!from || !to || !isValidMonth(from) || !isValidMonth(to)) {
+      return NextResponse.json(
+        { error: 'Invalid range. Expected from and to in YYYY-MM format.' },
+        { status: 400 }
+      );
+    }
+
+    if (from > to) {
+      return NextResponse.json({ error: 'Range start must not be after its end.' }, { status: 400 });
+    }
+
+    if (getMonthsInRange(`${from}-01`, `${to}-01`).length > MAX_RANGE_MONTHS) {
+      return NextResponse.json(
+        { error: `Range may span at most ${MAX_RANGE_MONTHS} months.` },
+        { status: 400 }
+      );
+    }
+
+    const stats = await statsService.calculateRangeStats(from, to);
+    return NextResponse.json(stats);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch statistics');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { TaxService } from '@/lib/services/tax.service';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const taxService = new TaxService();
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const yearParam = searchParams.get('year');
+    const year = yearParam ? parseInt(yearParam) : new Date().getFullYear();
+
+    if (isNaN(year) || year < 2000 || year > 2100) {
+      return NextResponse.json({ error: 'Invalid year' }, { status: 400 });
+    }
+
+    const estimate = await taxService.getYearEstimate(year);
+    return NextResponse.json(estimate);
+  } catch (error) {
+    return handleApiError(error, 'Failed to calculate tax estimate');
+  }
+}
+
+export const dynamic = 'force-dynamic';
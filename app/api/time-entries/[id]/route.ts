@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { TimeEntryService } from '@/lib/services/time-entry.service';
+import { UpdateManualTimeEntrySchema } from '@/lib/schemas/time-entries';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const timeEntryService = new TimeEntryService();
+
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid time entry ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = UpdateManualTimeEntrySchema.parse(body);
+
+    const entry = await timeEntryService.updateManualEntry(id, validatedData);
+
+    return NextResponse.json(entry);
+  } catch (error) {
+    return handleApiError(error, 'Failed to update time entry');
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid time entry ID' }, { status: 400 });
+    }
+
+    await timeEntryService.deleteManualEntry(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete time entry');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { TimeEntryService } from '@/lib/services/time-entry.service';
+import { TimesheetColumnMappingSchema } from '@/lib/schemas/time-entries';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const timeEntryService = new TimeEntryService();
+
+// A year of daily rows is well under a megabyte
+const MAX_TIMESHEET_BYTES = 5 * 1024 * 1024;
+
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No timesheet file uploaded' }, { status: 400 });
+    }
+    if (file.size > MAX_TIMESHEET_BYTES) {
+      return NextResponse.json({ error: 'Timesheet file is too large' }, { status: 400 });
+    }
+
+    // Without a mapping the columns are recognised by their headers
+    const mappingField = formData.get('mapping');
+    const mapping = typeof mappingField === 'string' && mappingField
+      ? TimesheetColumnMappingSchema.parse(JSON.parse(mappingField))
+      : undefined;
+
+    const result = await timeEntryService.importTimesheet(await file.text(), mapping);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to import timesheet');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { TimeEntryService } from '@/lib/services/time-entry.service';
+import { ManualTimeEntrySchema } from '@/lib/schemas/time-entries';
+import { handleApiError } from '@/lib/utils/api-error';
+import { getCurrentMonthRange, getMonthRange } from '@/lib/utils/date';
+
+const timeEntryService = new TimeEntryService();
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month');
+    const { startFormatted, endFormatted } = month ? getMonthRange(month) : getCurrentMonthRange();
+
+    const entries = await timeEntryService.getManualEntries(startFormatted, endFormatted);
+    return NextResponse.json(entries);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch time entries');
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validatedData = ManualTimeEntrySchema.parse(body);
+
+    const entry = await timeEntryService.createManualEntry(validatedData);
+
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to create time entry');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { TimeOffService } from '@/lib/services/time-off.service';
+import { TimeOffSchema } from '@/lib/schemas/time-off';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const timeOffService = new TimeOffService();
+
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid time off ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = TimeOffSchema.parse(body);
+
+    const timeOff = await timeOffService.updateTimeOff(id, validatedData);
+
+    return NextResponse.json(timeOff);
+  } catch (error) {
+    return handleApiError(error, 'Failed to update time off');
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid time off ID' }, { status: 400 });
+    }
+
+    await timeOffService.deleteTimeOff(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete time off');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { TimeOffService } from '@/lib/services/time-off.service';
+import { handleApiError } from '@/lib/utils/api-error';
+import { getCurrentMonth, isValidMonth } from '@/lib/utils/date';
+
+const timeOffService = new TimeOffService();
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month') || getCurrentMonth();
+
+    if (!isValidMonth(month)) {
+      return NextResponse.json(
+        { error: 'Invalid month format. Expected YYYY-MM.' },
+        { status: 400 }
+      );
+    }
+
+    const calendar = await timeOffService.getCalendar(month);
+    return NextResponse.json(calendar);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch calendar');
+  }
+}
+
+export const dynamic = 'force-dynamic';
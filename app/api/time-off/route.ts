@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { TimeOffService } from '@/lib/services/time-off.service';
+import { TimeOffSchema } from '@/lib/schemas/time-off';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const timeOffService = new TimeOffService();
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const yearParam = searchParams.get('year');
+    const year = yearParam ? parseInt(yearParam) : undefined;
+
+    if (year !== undefined && (isNaN(year) || year < 2000 || year > 2100)) {
+      return NextResponse.json({ error: 'Invalid year' }, { status: 400 });
+    }
+
+    const timeOff = await timeOffService.getTimeOff(year);
+    return NextResponse.json(timeOff);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch time off');
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validatedData = TimeOffSchema.parse(body);
+
+    const timeOff = await timeOffService.createTimeOff(validatedData);
+
+    return NextResponse.json(timeOff, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to create time off');
+  }
+}
+
+export const dynamic = 'force-dynamic';
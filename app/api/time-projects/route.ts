@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { TimeEntryService } from '@/lib/services/time-entry.service';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const timeEntryService = new TimeEntryService();
+
+export async function GET() {
+  try {
+    const projects = await timeEntryService.getProjects();
+    return NextResponse.json(projects);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch projects');
+  }
+}
+
+export const dynamic = 'force-dynamic';
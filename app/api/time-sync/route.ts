@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { TimeEntrySyncService } from '@/lib/services/time-entry-sync.service';
+import { TimeSyncRequestSchema } from '@/lib/schemas/time-sync';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const timeEntrySyncService = new TimeEntrySyncService();
+
+export async function GET() {
+  try {
+    return NextResponse.json(timeEntrySyncService.getStatus());
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch time sync status');
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { month } = TimeSyncRequestSchema.parse(body);
+
+    if (month) {
+      return NextResponse.json(await timeEntrySyncService.resyncMonth(month));
+    }
+    return NextResponse.json(await timeEntrySyncService.syncOpenMonths());
+  } catch (error) {
+    return handleApiError(error, 'Failed to sync time entries');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { VehicleService } from '@/lib/services/vehicle.service';
+import { TripSchema } from '@/lib/schemas/vehicle';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const vehicleService = new VehicleService();
+
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid trip ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = TripSchema.parse(body);
+
+    const trip = await vehicleService.updateTrip(id, validatedData);
+
+    return NextResponse.json(trip);
+  } catch (error) {
+    return handleApiError(error, 'Failed to update trip');
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid trip ID' }, { status: 400 });
+    }
+
+    await vehicleService.deleteTrip(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete trip');
+  }
+}
+
+export const dynamic = 'force-dynamic';
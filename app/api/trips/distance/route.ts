@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VehicleService } from '@/lib/services/vehicle.service';
+import { TripRouteSchema } from '@/lib/schemas/vehicle';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const vehicleService = new VehicleService();
+
+// Origin and destination default to the home location and the client's address
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const clientId = searchParams.get('client_id');
+
+    const input = TripRouteSchema.parse({
+      origin: searchParams.get('origin'),
+      destination: searchParams.get('destination'),
+      project_id: searchParams.get('project_id'),
+      client_id: clientId ? parseInt(clientId) : null,
+    });
+
+    const route = await vehicleService.estimateRoute(input);
+    return NextResponse.json(route);
+  } catch (error) {
+    return handleApiError(error, 'Failed to estimate distance');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { VehicleService } from '@/lib/services/vehicle.service';
+import { TripSchema } from '@/lib/schemas/vehicle';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const vehicleService = new VehicleService();
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validatedData = TripSchema.parse(body);
+
+    const trip = await vehicleService.createTrip(validatedData);
+
+    return NextResponse.json(trip, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to create trip');
+  }
+}
+
+export const dynamic = 'force-dynamic';
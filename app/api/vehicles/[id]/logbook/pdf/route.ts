@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { vehiclesDb } from '@/lib/db';
+import { VehicleService } from '@/lib/services/vehicle.service';
+import { handleApiError } from '@/lib/utils/api-error';
+import { isValidMonth } from '@/lib/utils/date';
+import { getLogbookPdfFilename } from '@/lib/utils/invoice-files';
+
+const vehicleService = new VehicleService();
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid vehicle ID' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month') || '';
+    if (!isValidMonth(month)) {
+      return NextResponse.json({ error: 'Invalid month format. Expected YYYY-MM.' }, { status: 400 });
+    }
+
+    const vehicle = vehiclesDb.getById(id);
+    if (!vehicle) {
+      return NextResponse.json({ error: 'Vehicle not found' }, { status: 404 });
+    }
+
+    const pdfBuffer = await vehicleService.generateLogbookPdf(id, month);
+
+    return new NextResponse(new Uint8Array(pdfBuffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getLogbookPdfFilename(vehicle.registration_number, month)}"`,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, 'Failed to generate logbook PDF');
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { VehicleService } from '@/lib/services/vehicle.service';
+import { handleApiError } from '@/lib/utils/api-error';
+import { getCurrentMonth, isValidMonth } from '@/lib/utils/date';
+
+const vehicleService = new VehicleService();
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid vehicle ID' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month') || getCurrentMonth();
+    if (!isValidMonth(month)) {
+      return NextResponse.json({ error: 'Invalid month format. Expected YYYY-MM.' }, { status: 400 });
+    }
+
+    const logbook = await vehicleService.getLogbook(id, month);
+    return NextResponse.json(logbook);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch logbook');
+  }
+}
+
+export const dynamic = 'force-dynamic';
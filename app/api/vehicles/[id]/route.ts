@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { VehicleService } from '@/lib/services/vehicle.service';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const vehicleService = new VehicleService();
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseInt(idStr);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid vehicle ID' }, { status: 400 });
+    }
+
+    await vehicleService.deleteVehicle(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete vehicle');
+  }
+}
+
+export const dynamic = 'force-dynamic';
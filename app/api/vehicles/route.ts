@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { VehicleService } from '@/lib/services/vehicle.service';
+import { VehicleSchema } from '@/lib/schemas/vehicle';
+import { handleApiError } from '@/lib/utils/api-error';
+
+const vehicleService = new VehicleService();
+
+export async function GET() {
+  try {
+    const vehicles = await vehicleService.getVehicles();
+    return NextResponse.json(vehicles);
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch vehicles');
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validatedData = VehicleSchema.parse(body);
+
+    const vehicle = await vehicleService.createVehicle(validatedData);
+
+    return NextResponse.json(vehicle, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, 'Failed to create vehicle');
+  }
+}
+
+export const dynamic = 'force-dynamic';
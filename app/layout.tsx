@@ -15,8 +15,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Freelance Dashboard - Everhour Time & Income Tracking",
-  description: "Personal dashboard for tracking freelance work hours and income via Everhour integration",
+  title: "Freelance Dashboard - Time & Income Tracking",
+  description: "Personal dashboard for tracking freelance work hours and income via Everhour, Toggl, Clockify or a CSV timesheet",
 };
 
 export default function RootLayout({
@@ -1,25 +1,38 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { DashboardStats, Settings, FuelMonthlyStats } from '@/types';
+import { DashboardStats, RangeStats, PeriodTotals, Settings, FuelMonthlyStats, ReceivablesSummary } from '@/types';
 import StatCard from '@/components/StatCard';
 import ProjectTable from '@/components/ProjectTable';
+import ClientRevenue from '@/components/ClientRevenue';
+import Receivables from '@/components/Receivables';
 import Charts from '@/components/Charts';
 import ProjectRateForm from '@/components/ProjectRateForm';
 import SettingsModal from '@/components/SettingsModal';
 import FuelExpenseModal from '@/components/FuelExpenseModal';
 import InvoiceWizardModal from '@/components/invoices/InvoiceWizardModal';
 import InvoiceListModal from '@/components/invoices/InvoiceListModal';
+import RecurringInvoicesModal from '@/components/invoices/RecurringInvoicesModal';
 import ClientManagementModal from '@/components/clients/ClientManagementModal';
+import TimeEntriesModal from '@/components/TimeEntriesModal';
+import TimeOffCalendarModal from '@/components/TimeOffCalendarModal';
+import TaxEstimateModal from '@/components/TaxEstimateModal';
+import ExpensesModal from '@/components/ExpensesModal';
+import VehicleLogbookModal from '@/components/VehicleLogbookModal';
+import RangeSelector, { MonthRange } from '@/components/RangeSelector';
+import RangeOverview from '@/components/RangeOverview';
+import ForecastCard from '@/components/ForecastCard';
 import { ThemeToggle } from '@/components/theme/ThemeToggle';
 import { StatCardSkeleton, TableSkeleton, ChartSkeleton } from '@/components/ui/Skeleton';
-import { getCurrentMonth, addMonths, isCurrentMonth } from '@/lib/utils/date';
+import { getCurrentMonth, addMonths, isCurrentMonth, getQuarterMonths } from '@/lib/utils/date';
+import { percentageChange } from '@/lib/utils/formatters';
 import { format, parse } from 'date-fns';
 
 export default function DashboardPage() {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [settings, setSettings] = useState<Settings>({ default_hourly_rate: '50', currency: 'PLN', daily_hours_target: '8' });
   const [fuelStats, setFuelStats] = useState<FuelMonthlyStats | null>(null);
+  const [receivables, setReceivables] = useState<ReceivablesSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
@@ -27,8 +40,18 @@ export default function DashboardPage() {
   const [isFuelModalOpen, setIsFuelModalOpen] = useState(false);
   const [isInvoiceWizardOpen, setIsInvoiceWizardOpen] = useState(false);
   const [isInvoiceListOpen, setIsInvoiceListOpen] = useState(false);
+  const [isRecurringInvoicesOpen, setIsRecurringInvoicesOpen] = useState(false);
   const [isClientManagementOpen, setIsClientManagementOpen] = useState(false);
+  const [isTimeEntriesOpen, setIsTimeEntriesOpen] = useState(false);
+  const [isTimeOffOpen, setIsTimeOffOpen] = useState(false);
+  const [isTaxEstimateOpen, setIsTaxEstimateOpen] = useState(false);
+  const [isExpensesOpen, setIsExpensesOpen] = useState(false);
+  const [isLogbookOpen, setIsLogbookOpen] = useState(false);
   const [selectedMonth, setSelectedMonth] = useState<string>(getCurrentMonth());
+  const [viewMode, setViewMode] = useState<'month' | 'range'>('month');
+  const [selectedRange, setSelectedRange] = useState<MonthRange>(getQuarterMonths(getCurrentMonth()));
+  const [rangeStats, setRangeStats] = useState<RangeStats | null>(null);
+  const [resyncing, setResyncing] = useState(false);
 
   const fetchSettings = async () => {
     try {
@@ -60,6 +83,18 @@ export default function DashboardPage() {
     }
   };
 
+  const fetchReceivables = async () => {
+    try {
+      const response = await fetch('/api/receivables', { cache: 'no-store' });
+      if (response.ok) {
+        const data = await response.json();
+        setReceivables(data);
+      }
+    } catch (err) {
+      console.error('Error fetching receivables:', err);
+    }
+  };
+
   const fetchStats = async (month?: string) => {
     try {
       setLoading(true);
@@ -85,21 +120,90 @@ export default function DashboardPage() {
     }
   };
 
+  const fetchRangeStats = async (range: MonthRange) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/stats/range?from=${range.from}&to=${range.to}`, {
+        cache: 'no-store',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to fetch statistics');
+      }
+
+      const data = await response.json();
+      setRangeStats(data);
+      setLastRefresh(new Date());
+    } catch (err) {
+      console.error('Error fetching range stats:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load dashboard data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCurrentView = () => {
+    if (viewMode === 'range') {
+      fetchRangeStats(selectedRange);
+    } else {
+      fetchStats(selectedMonth);
+    }
+  };
+
   const handleRefresh = () => {
     fetchSettings();
-    fetchStats(selectedMonth);
+    fetchCurrentView();
     fetchFuelStats();
+    fetchReceivables();
+  };
+
+  const handleResyncMonth = async () => {
+    try {
+      setResyncing(true);
+      const response = await fetch('/api/time-sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ month: selectedMonth }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to resync month');
+      }
+    } catch (err) {
+      console.error('Error resyncing month:', err);
+    } finally {
+      setResyncing(false);
+      // The sync status is reported with the stats, including a failed resync
+      fetchStats(selectedMonth);
+    }
   };
 
   const handleMonthChange = (newMonth: string) => {
     setSelectedMonth(newMonth);
+    setViewMode('month');
     // Update URL without reloading the page
     const url = new URL(window.location.href);
     url.searchParams.set('month', newMonth);
+    url.searchParams.delete('from');
+    url.searchParams.delete('to');
     window.history.pushState({}, '', url);
     fetchStats(newMonth);
   };
 
+  const handleRangeChange = (range: MonthRange) => {
+    setSelectedRange(range);
+    setViewMode('range');
+    const url = new URL(window.location.href);
+    url.searchParams.set('from', range.from);
+    url.searchParams.set('to', range.to);
+    url.searchParams.delete('month');
+    window.history.pushState({}, '', url);
+    fetchRangeStats(range);
+  };
+
   const handlePreviousMonth = () => {
     const prevMonth = addMonths(selectedMonth, -1);
     handleMonthChange(prevMonth);
@@ -123,12 +227,15 @@ export default function DashboardPage() {
   const handleFuelModalClose = () => {
     setIsFuelModalOpen(false);
     fetchFuelStats(); // Refresh fuel stats when modal closes
+    fetchCurrentView(); // Fuel is an expense, so profit changes with it
   };
 
   useEffect(() => {
     // Initialize month from URL on mount
     const urlParams = new URLSearchParams(window.location.search);
     const monthParam = urlParams.get('month');
+    const fromParam = urlParams.get('from');
+    const toParam = urlParams.get('to');
     
     if (monthParam) {
       setSelectedMonth(monthParam);
@@ -136,19 +243,26 @@ export default function DashboardPage() {
     
     fetchSettings();
     fetchStats(monthParam || undefined);
+    if (fromParam && toParam) {
+      setSelectedRange({ from: fromParam, to: toParam });
+      setViewMode('range');
+      fetchRangeStats({ from: fromParam, to: toParam });
+    }
     fetchFuelStats();
+    fetchReceivables();
   }, []);
 
-  // Auto-refresh every 5 minutes based on selected month
+  // Auto-refresh every 5 minutes based on selected month or range
   useEffect(() => {
     const interval = setInterval(() => {
       fetchSettings();
-      fetchStats(selectedMonth);
+      fetchCurrentView();
       fetchFuelStats();
+      fetchReceivables();
     }, 5 * 60 * 1000);
 
     return () => clearInterval(interval);
-  }, [selectedMonth]);
+  }, [viewMode, selectedMonth, selectedRange]);
 
   const formatCurrency = (amount: number) => {
     const currencyMap: Record<string, string> = {
@@ -171,6 +285,11 @@ export default function DashboardPage() {
     return `${hours.toFixed(2)}h`;
   };
 
+  // Sync timestamps come from SQLite as UTC without a zone marker
+  const formatSyncedAt = (value: string) => {
+    return new Date(`${value.replace(' ', 'T')}Z`).toLocaleString();
+  };
+
   if (loading && !stats) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-slate-900 transition-colors">
@@ -230,6 +349,23 @@ export default function DashboardPage() {
     return null;
   }
 
+  // Range mode falls back to the month's numbers until the range has loaded
+  const rangeView = viewMode === 'range' ? rangeStats : null;
+  const view = rangeView ?? stats;
+
+  const yearOverYear = (key: keyof PeriodTotals) => {
+    const change = rangeView ? percentageChange(rangeView.totals[key], rangeView.previous_year?.totals[key]) : null;
+    return change === null ? undefined : { value: change, isPositive: change >= 0 };
+  };
+
+  // Across the vehicles with odometer readings this month
+  const fuelConsumption = (() => {
+    const measured = fuelStats?.byVehicle?.filter((row) => row.distance_km > 0) ?? [];
+    const distance = measured.reduce((sum, row) => sum + row.distance_km, 0);
+    const liters = measured.reduce((sum, row) => sum + row.liters, 0);
+    return distance > 0 ? (liters / distance) * 100 : null;
+  })();
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-slate-900 transition-colors">
       {/* Header */}
@@ -241,45 +377,89 @@ export default function DashboardPage() {
               <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">
                 Last updated: {lastRefresh.toLocaleTimeString()}
               </p>
+              {viewMode === 'month' && stats.time_sync && (
+                <p className="text-xs mt-1 flex items-center gap-2">
+                  {stats.time_sync.status === 'error' ? (
+                    <span className="text-red-600 dark:text-red-400" title={stats.time_sync.error || undefined}>
+                      Time sync failed
+                      {stats.time_sync.synced_at &&
+                        ` — showing entries from ${formatSyncedAt(stats.time_sync.synced_at)}`}
+                    </span>
+                  ) : (
+                    <span className="text-gray-500 dark:text-slate-400">
+                      {stats.time_sync.frozen ? 'Month closed' : 'Time entries synced'}
+                      {stats.time_sync.synced_at && ` ${formatSyncedAt(stats.time_sync.synced_at)}`}
+                    </span>
+                  )}
+                  <button
+                    onClick={handleResyncMonth}
+                    disabled={resyncing || loading}
+                    className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                    title="Fetch this month's time entries from the time tracker again"
+                  >
+                    {resyncing ? 'Resyncing...' : 'Resync month'}
+                  </button>
+                </p>
+              )}
             </div>
             <div className="flex flex-wrap items-center gap-3">
-              {/* Month Navigation */}
-              <div className="flex items-center gap-2 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-lg p-1">
-                <button
-                  onClick={handlePreviousMonth}
-                  className="p-2 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
-                  aria-label="Previous month"
-                  title="Previous month"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-                  </svg>
-                </button>
-                <div className="flex items-center gap-2 px-2">
-                  <span className="text-sm font-medium text-gray-900 dark:text-slate-100 whitespace-nowrap">
-                    {getMonthDisplayName(selectedMonth)}
-                  </span>
-                  {!isCurrentMonth(selectedMonth) && (
-                    <button
-                      onClick={handleToday}
-                      className="text-xs bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 px-2 py-1 rounded hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors"
-                      title="Jump to current month"
-                    >
-                      Today
-                    </button>
-                  )}
-                </div>
-                <button
-                  onClick={handleNextMonth}
-                  className="p-2 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
-                  aria-label="Next month"
-                  title="Next month"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                  </svg>
-                </button>
+              {/* Month or range view */}
+              <div className="flex bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-lg p-1">
+                {(['month', 'range'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => (mode === 'month' ? handleMonthChange(selectedMonth) : handleRangeChange(selectedRange))}
+                    className={`px-3 py-1 text-sm font-medium rounded transition-colors ${
+                      viewMode === mode
+                        ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+                        : 'text-gray-700 dark:text-slate-200 hover:bg-gray-50 dark:hover:bg-slate-700'
+                    }`}
+                  >
+                    {mode === 'month' ? 'Month' : 'Range'}
+                  </button>
+                ))}
               </div>
+              {viewMode === 'range' ? (
+                <RangeSelector range={selectedRange} onChange={handleRangeChange} disabled={loading} />
+              ) : (
+                /* Month Navigation */
+                <div className="flex items-center gap-2 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-lg p-1">
+                  <button
+                    onClick={handlePreviousMonth}
+                    className="p-2 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                    aria-label="Previous month"
+                    title="Previous month"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                    </svg>
+                  </button>
+                  <div className="flex items-center gap-2 px-2">
+                    <span className="text-sm font-medium text-gray-900 dark:text-slate-100 whitespace-nowrap">
+                      {getMonthDisplayName(selectedMonth)}
+                    </span>
+                    {!isCurrentMonth(selectedMonth) && (
+                      <button
+                        onClick={handleToday}
+                        className="text-xs bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 px-2 py-1 rounded hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors"
+                        title="Jump to current month"
+                      >
+                        Today
+                      </button>
+                    )}
+                  </div>
+                  <button
+                    onClick={handleNextMonth}
+                    className="p-2 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                    aria-label="Next month"
+                    title="Next month"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                    </svg>
+                  </button>
+                </div>
+              )}
               <button
                 onClick={handleRefresh}
                 disabled={loading}
@@ -289,6 +469,26 @@ export default function DashboardPage() {
                 {loading ? 'Refreshing...' : 'Refresh'}
               </button>
               <ThemeToggle />
+              <button
+                onClick={() => setIsTimeEntriesOpen(true)}
+                className="bg-white dark:bg-slate-800 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 p-2 rounded-lg transition-colors border border-gray-200 dark:border-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                title="Time Entries"
+                aria-label="Manage manual time entries"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => setIsTimeOffOpen(true)}
+                className="bg-white dark:bg-slate-800 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 p-2 rounded-lg transition-colors border border-gray-200 dark:border-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                title="Time Off"
+                aria-label="Open time-off calendar"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+              </button>
               <button
                 onClick={() => setIsInvoiceWizardOpen(true)}
                 className="bg-white dark:bg-slate-800 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 p-2 rounded-lg transition-colors border border-gray-200 dark:border-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
@@ -309,6 +509,26 @@ export default function DashboardPage() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                 </svg>
               </button>
+              <button
+                onClick={() => setIsTaxEstimateOpen(true)}
+                className="bg-white dark:bg-slate-800 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 p-2 rounded-lg transition-colors border border-gray-200 dark:border-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                title="Tax Estimate"
+                aria-label="Open tax estimate"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => setIsRecurringInvoicesOpen(true)}
+                className="bg-white dark:bg-slate-800 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 p-2 rounded-lg transition-colors border border-gray-200 dark:border-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                title="Recurring Invoices"
+                aria-label="Manage recurring invoices"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+              </button>
               <button
                 onClick={() => setIsClientManagementOpen(true)}
                 className="bg-white dark:bg-slate-800 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 p-2 rounded-lg transition-colors border border-gray-200 dark:border-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
@@ -319,6 +539,26 @@ export default function DashboardPage() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
                 </svg>
               </button>
+              <button
+                onClick={() => setIsExpensesOpen(true)}
+                className="bg-white dark:bg-slate-800 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 p-2 rounded-lg transition-colors border border-gray-200 dark:border-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                title="Expenses"
+                aria-label="Open expenses"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => setIsLogbookOpen(true)}
+                className="bg-white dark:bg-slate-800 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 p-2 rounded-lg transition-colors border border-gray-200 dark:border-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                title="Vehicle Logbook"
+                aria-label="Open vehicle logbook"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+                </svg>
+              </button>
               <button
                 onClick={() => setIsFuelModalOpen(true)}
                 className="bg-white dark:bg-slate-800 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 p-2 rounded-lg transition-colors border border-gray-200 dark:border-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
@@ -351,11 +591,12 @@ export default function DashboardPage() {
         {/* Summary Cards */}
         <section aria-labelledby="stats-heading" className="mb-8">
           <h2 id="stats-heading" className="sr-only">Dashboard Statistics</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-6">
           <StatCard
             title="Total Hours"
-            value={formatHours(stats.total_hours)}
-            subtitle="This month"
+            value={formatHours(view.total_hours)}
+            subtitle={rangeView ? 'Selected range' : 'This month'}
+            trend={yearOverYear('hours')}
             color="blue"
             icon={
               <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -365,8 +606,9 @@ export default function DashboardPage() {
           />
           <StatCard
             title="Estimated Income"
-            value={formatCurrency(stats.total_income)}
+            value={formatCurrency(view.total_income)}
             subtitle="Based on logged hours"
+            trend={yearOverYear('income')}
             color="green"
             icon={
               <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -376,8 +618,19 @@ export default function DashboardPage() {
           />
           <StatCard
             title="Fuel Expenses"
-            value={fuelStats?.total?.total_spent ? formatCurrency(fuelStats.total.total_spent) : formatCurrency(0)}
-            subtitle={fuelStats?.total?.transaction_count ? `${fuelStats.total.transaction_count} tankowanie` : "Brak transakcji"}
+            value={
+              rangeView
+                ? formatCurrency(rangeView.totals.fuel_cost)
+                : fuelStats?.total?.total_spent ? formatCurrency(fuelStats.total.total_spent) : formatCurrency(0)
+            }
+            subtitle={
+              rangeView
+                ? 'Selected range'
+                : fuelStats?.total?.transaction_count
+                  ? `${fuelStats.total.transaction_count} tankowanie` +
+                    (fuelConsumption !== null ? ` · ${fuelConsumption.toFixed(1)} L/100 km` : '')
+                  : "Brak transakcji"
+            }
             color="orange"
             icon={
               <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -385,9 +638,21 @@ export default function DashboardPage() {
               </svg>
             }
           />
+          <StatCard
+            title="Profit"
+            value={formatCurrency(rangeView ? rangeView.totals.profit : stats.profit)}
+            subtitle={`Expenses ${formatCurrency(rangeView ? rangeView.totals.expenses : stats.total_expenses)}`}
+            trend={yearOverYear('profit')}
+            color="green"
+            icon={
+              <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+              </svg>
+            }
+          />
           <StatCard
             title="Active Projects"
-            value={stats.active_projects}
+            value={view.active_projects}
             subtitle="Projects with logged time"
             color="purple"
             icon={
@@ -397,9 +662,9 @@ export default function DashboardPage() {
             }
           />
           <StatCard
-            title="Monthly Goal"
-            value={`${stats.goal_percentage.toFixed(1)}%`}
-            subtitle={`${formatHours(stats.total_hours)} / ${formatHours(stats.monthly_goal)}`}
+            title={rangeView ? 'Range Goal' : 'Monthly Goal'}
+            value={`${view.goal_percentage.toFixed(1)}%`}
+            subtitle={`${formatHours(view.total_hours)} / ${formatHours(rangeView ? rangeView.hours_goal : stats.monthly_goal)}`}
             color="indigo"
             icon={
               <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -410,16 +675,48 @@ export default function DashboardPage() {
           </div>
         </section>
 
+        {/* Month-end forecast; past months are final */}
+        {!rangeView && selectedMonth >= getCurrentMonth() && (
+          <section aria-labelledby="forecast-heading" className="mb-8">
+            <h2 id="forecast-heading" className="sr-only">Forecast</h2>
+            <ForecastCard month={selectedMonth} currency={settings.currency} refreshedAt={lastRefresh} />
+          </section>
+        )}
+
         {/* Charts */}
         <section aria-labelledby="charts-heading" className="mb-8">
           <h2 id="charts-heading" className="sr-only">Data Visualization</h2>
-          <Charts dailyBreakdown={stats.daily_breakdown} projects={stats.projects} />
+          <Charts dailyBreakdown={view.daily_breakdown} projects={view.projects} monthly={rangeView?.monthly} />
         </section>
 
+        {/* Monthly totals of the range */}
+        {rangeView && (
+          <section aria-labelledby="monthly-heading" className="mb-8">
+            <h2 id="monthly-heading" className="sr-only">Monthly Totals</h2>
+            <RangeOverview stats={rangeView} currency={settings.currency} />
+          </section>
+        )}
+
+        {/* Revenue per Client */}
+        {view.clients.some((c) => c.client_id !== null) && (
+          <section aria-labelledby="clients-heading" className="mb-8">
+            <h2 id="clients-heading" className="sr-only">Revenue by Client</h2>
+            <ClientRevenue clients={view.clients} currency={settings.currency} />
+          </section>
+        )}
+
+        {/* Outstanding invoices */}
+        {receivables && receivables.invoices.length > 0 && (
+          <section aria-labelledby="receivables-heading" className="mb-8">
+            <h2 id="receivables-heading" className="sr-only">Receivables</h2>
+            <Receivables receivables={receivables} />
+          </section>
+        )}
+
         {/* Project Breakdown Table */}
         <section aria-labelledby="projects-heading">
           <h2 id="projects-heading" className="text-2xl font-bold text-gray-900 dark:text-slate-100 mb-4">Project Breakdown</h2>
-          <ProjectTable projects={stats.projects} currency={settings.currency} />
+          <ProjectTable projects={view.projects} currency={settings.currency} />
         </section>
       </main>
 
@@ -447,7 +744,16 @@ export default function DashboardPage() {
       {/* Invoice List Modal */}
       <InvoiceListModal
         isOpen={isInvoiceListOpen}
-        onClose={() => setIsInvoiceListOpen(false)}
+        onClose={() => {
+          setIsInvoiceListOpen(false);
+          fetchReceivables();
+        }}
+      />
+
+      {/* Recurring Invoices Modal */}
+      <RecurringInvoicesModal
+        isOpen={isRecurringInvoicesOpen}
+        onClose={() => setIsRecurringInvoicesOpen(false)}
       />
 
       {/* Client Management Modal */}
@@ -455,6 +761,43 @@ export default function DashboardPage() {
         isOpen={isClientManagementOpen}
         onClose={() => setIsClientManagementOpen(false)}
       />
+
+      {/* Time Entries Modal */}
+      <TimeEntriesModal
+        isOpen={isTimeEntriesOpen}
+        onClose={() => setIsTimeEntriesOpen(false)}
+        month={selectedMonth}
+        onChanged={fetchCurrentView}
+      />
+
+      {/* Time Off Calendar Modal */}
+      <TimeOffCalendarModal
+        isOpen={isTimeOffOpen}
+        onClose={() => setIsTimeOffOpen(false)}
+        month={viewMode === 'range' ? getCurrentMonth() : selectedMonth}
+        onChanged={fetchCurrentView}
+      />
+
+      {/* Expenses Modal */}
+      <ExpensesModal
+        isOpen={isExpensesOpen}
+        onClose={() => setIsExpensesOpen(false)}
+        month={viewMode === 'range' ? getCurrentMonth() : selectedMonth}
+        onChanged={fetchCurrentView}
+      />
+
+      {/* Vehicle Logbook Modal */}
+      <VehicleLogbookModal
+        isOpen={isLogbookOpen}
+        onClose={() => setIsLogbookOpen(false)}
+        month={viewMode === 'range' ? getCurrentMonth() : selectedMonth}
+      />
+
+      {/* Tax Estimate Modal */}
+      <TaxEstimateModal
+        isOpen={isTaxEstimateOpen}
+        onClose={() => setIsTaxEstimateOpen(false)}
+      />
     </div>
   );
 }
@@ -0,0 +1,273 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BillingRule, BillingRuleMatch, TrackedProject } from '@/types';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+interface BillingRulesPanelProps {
+  projects: TrackedProject[];
+  onChanged: () => void;
+}
+
+const MATCH_LABELS: Record<BillingRuleMatch, string> = {
+  task_id: 'Task ID',
+  task_name: 'Task name',
+  tag: 'Tag',
+};
+
+const PATTERN_PLACEHOLDERS: Record<BillingRuleMatch, string> = {
+  task_id: 'ev:123456',
+  task_name: 'Meeting*',
+  tag: 'on-call',
+};
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 transition-colors';
+
+const emptyForm = () => ({
+  project_id: '',
+  match_type: 'task_name' as BillingRuleMatch,
+  pattern: '',
+  billable: 'false',
+  hourly_rate: '',
+  effective_from: `${format(new Date(), 'yyyy-MM')}-01`,
+});
+
+export default function BillingRulesPanel({ projects, onChanged }: BillingRulesPanelProps) {
+  const [rules, setRules] = useState<BillingRule[]>([]);
+  const [formData, setFormData] = useState(emptyForm());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch('/api/billing-rules');
+      if (response.ok) {
+        setRules(await response.json());
+      }
+    } catch (err) {
+      console.error('Error fetching billing rules:', err);
+    }
+  };
+
+  const getProjectName = (projectId: string | null) =>
+    projectId === null ? 'All projects' : projects.find((p) => p.id === projectId)?.name || projectId;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const billable = formData.billable === 'true';
+      const response = await fetch('/api/billing-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          project_id: formData.project_id || null,
+          match_type: formData.match_type,
+          pattern: formData.pattern,
+          billable,
+          hourly_rate: billable && formData.hourly_rate ? parseFloat(formData.hourly_rate) : null,
+          effective_from: formData.effective_from,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to save billing rule');
+      }
+
+      toast.success('Billing rule added');
+      setFormData(emptyForm());
+      await fetchRules();
+      onChanged();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (rule: BillingRule) => {
+    if (!confirm('Remove this billing rule? Closed months keep being billed by it.')) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/billing-rules/${rule.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to remove billing rule');
+      }
+
+      toast.success('Billing rule removed');
+      await fetchRules();
+      onChanged();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200 dark:border-slate-700">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">Billing Rules</h3>
+      <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">
+        Bill matching tasks at their own rate or not at all. Project rules win over rules for all projects.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Project</label>
+          <select
+            value={formData.project_id}
+            onChange={(e) => setFormData({ ...formData, project_id: e.target.value })}
+            className={inputClassName}
+            disabled={loading}
+          >
+            <option value="">All projects</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Match</label>
+          <div className="flex gap-2">
+            <select
+              value={formData.match_type}
+              onChange={(e) => setFormData({ ...formData, match_type: e.target.value as BillingRuleMatch })}
+              className={`${inputClassName} w-36`}
+              disabled={loading}
+            >
+              {(Object.keys(MATCH_LABELS) as BillingRuleMatch[]).map((match) => (
+                <option key={match} value={match}>
+                  {MATCH_LABELS[match]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={formData.pattern}
+              onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+              placeholder={PATTERN_PLACEHOLDERS[formData.match_type]}
+              className={inputClassName}
+              required
+              disabled={loading}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Billing</label>
+          <div className="flex gap-2">
+            <select
+              value={formData.billable}
+              onChange={(e) => setFormData({ ...formData, billable: e.target.value })}
+              className={inputClassName}
+              disabled={loading}
+            >
+              <option value="false">Non-billable</option>
+              <option value="true">Billable at</option>
+            </select>
+            {formData.billable === 'true' && (
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.hourly_rate}
+                onChange={(e) => setFormData({ ...formData, hourly_rate: e.target.value })}
+                placeholder="Project rate"
+                className={inputClassName}
+                disabled={loading}
+              />
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Effective From</label>
+          <input
+            type="date"
+            value={formData.effective_from}
+            onChange={(e) => setFormData({ ...formData, effective_from: e.target.value })}
+            className={inputClassName}
+            required
+            disabled={loading}
+          />
+        </div>
+
+        <div className="sm:col-span-2 flex justify-end">
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Add Rule
+          </button>
+        </div>
+      </form>
+
+      {rules.length > 0 && (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className={`flex items-center justify-between p-3 bg-gray-50 dark:bg-slate-700/50 rounded-md border border-gray-200 dark:border-slate-600 ${
+                rule.effective_until ? 'opacity-60' : ''
+              }`}
+            >
+              <div>
+                <p className="font-medium text-gray-900 dark:text-slate-100">
+                  {MATCH_LABELS[rule.match_type]} “{rule.pattern}”
+                  <span className="ml-2 text-sm font-normal text-gray-600 dark:text-slate-400">
+                    {!rule.billable
+                      ? 'non-billable'
+                      : rule.hourly_rate !== null
+                        ? `${rule.hourly_rate} PLN/hour`
+                        : 'project rate'}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500 dark:text-slate-400">
+                  {getProjectName(rule.project_id)} · from {rule.effective_from}
+                  {rule.effective_until && ` until ${rule.effective_until}`}
+                </p>
+              </div>
+              {!rule.effective_until && (
+                <button
+                  onClick={() => handleDelete(rule)}
+                  disabled={loading}
+                  className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium text-sm disabled:opacity-50 transition-colors"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
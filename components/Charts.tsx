@@ -1,17 +1,19 @@
 'use client';
 
-import { DailyStats, ProjectStats } from '@/types';
+import { DailyStats, MonthlyTotals, ProjectStats } from '@/types';
 import { BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { motion } from 'framer-motion';
+import { format, parse } from 'date-fns';
 
 interface ChartsProps {
   dailyBreakdown: DailyStats[];
   projects: ProjectStats[];
+  monthly?: MonthlyTotals[]; // set for a range of months; hours are then charted per month
 }
 
 const COLORS = ['#3b82f6', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#06b6d4', '#6366f1', '#f97316'];
 
-export default function Charts({ dailyBreakdown, projects }: ChartsProps) {
+export default function Charts({ dailyBreakdown, projects, monthly }: ChartsProps) {
   // Prepare data for project distribution pie chart
   const projectDistribution = projects.map((project) => ({
     name: project.project_name,
@@ -29,10 +31,21 @@ export default function Charts({ dailyBreakdown, projects }: ChartsProps) {
   // Format daily data for chart
   const dailyData = dailyBreakdown.map((day) => ({
     date: new Date(day.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-    hours: day.hours,
+    billable: day.billable_hours,
+    non_billable: day.non_billable_hours,
     income: day.income,
   }));
 
+  const monthlyData = monthly?.map((month) => ({
+    date: format(parse(month.month, 'yyyy-MM', new Date()), 'MMM yyyy'),
+    billable: month.billable_hours,
+    non_billable: Math.round((month.hours - month.billable_hours) * 100) / 100,
+    income: month.income,
+    invoiced: month.invoiced,
+    fuel_cost: month.fuel_cost,
+  }));
+  const hoursData = monthlyData ?? dailyData;
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
       {/* Daily Hours Chart */}
@@ -42,16 +55,19 @@ export default function Charts({ dailyBreakdown, projects }: ChartsProps) {
         transition={{ duration: 0.4, delay: 0.1 }}
         className="bg-white dark:bg-slate-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-slate-700"
       >
-        <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-4">Daily Hours</h3>
-        {dailyData.length > 0 ? (
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-4">
+          {monthlyData ? 'Monthly Hours' : 'Daily Hours'}
+        </h3>
+        {hoursData.length > 0 ? (
           <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={dailyData}>
+            <BarChart data={hoursData}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="date" style={{ fontSize: '12px' }} />
               <YAxis style={{ fontSize: '12px' }} />
               <Tooltip />
               <Legend />
-              <Bar dataKey="hours" fill="#3b82f6" name="Hours" />
+              <Bar dataKey="billable" stackId="hours" fill="#3b82f6" name="Billable" />
+              <Bar dataKey="non_billable" stackId="hours" fill="#94a3b8" name="Non-billable" />
             </BarChart>
           </ResponsiveContainer>
         ) : (
@@ -96,6 +112,30 @@ export default function Charts({ dailyBreakdown, projects }: ChartsProps) {
         )}
       </motion.div>
 
+      {/* Income, Invoiced and Fuel by Month */}
+      {monthlyData && monthlyData.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4, delay: 0.3 }}
+          className="bg-white dark:bg-slate-800 rounded-lg shadow-md p-6 lg:col-span-2 border border-gray-200 dark:border-slate-700"
+        >
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-4">Income by Month</h3>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={monthlyData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" style={{ fontSize: '12px' }} />
+              <YAxis style={{ fontSize: '12px' }} />
+              <Tooltip formatter={(value) => Number(value).toFixed(2)} />
+              <Legend />
+              <Bar dataKey="income" fill="#10b981" name="Income" />
+              <Bar dataKey="invoiced" fill="#3b82f6" name="Invoiced" />
+              <Bar dataKey="fuel_cost" fill="#f59e0b" name="Fuel" />
+            </BarChart>
+          </ResponsiveContainer>
+        </motion.div>
+      )}
+
       {/* Income by Project Bar Chart */}
       {incomeByProject.length > 0 && (
         <motion.div 
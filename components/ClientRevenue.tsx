@@ -0,0 +1,46 @@
+'use client';
+
+import { ClientStats } from '@/types';
+import { motion } from 'framer-motion';
+import { formatCurrency, formatHours } from '@/lib/utils/formatters';
+
+interface ClientRevenueProps {
+  clients: ClientStats[];
+  currency?: string;
+}
+
+export default function ClientRevenue({ clients, currency = 'PLN' }: ClientRevenueProps) {
+  if (clients.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: 0.2 }}
+      className="bg-white dark:bg-slate-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-slate-700"
+    >
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-4">Revenue by Client</h3>
+      <div className="space-y-3">
+        {clients.map((client) => (
+          <div key={client.client_id ?? 'unassigned'}>
+            <div className="flex justify-between items-baseline text-sm">
+              <span className={client.client_id === null ? 'text-gray-500 dark:text-slate-400 italic' : 'font-medium text-gray-900 dark:text-slate-100'}>
+                {client.client_name ?? 'No client assigned'}
+              </span>
+              <span className="text-gray-900 dark:text-slate-200">
+                <span className="text-gray-500 dark:text-slate-400 mr-3">{formatHours(client.hours)}</span>
+                <span className="font-medium text-green-600 dark:text-green-400">{formatCurrency(client.income, currency)}</span>
+              </span>
+            </div>
+            <div className="mt-1 w-full bg-gray-200 dark:bg-slate-700 rounded-full h-2">
+              <div
+                className="bg-green-600 dark:bg-green-500 h-2 rounded-full transition-all"
+                style={{ width: `${Math.min(client.percentage, 100)}%` }}
+              ></div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
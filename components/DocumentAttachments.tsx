@@ -0,0 +1,144 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { DocumentLink, StoredDocument } from '@/types';
+import { toast } from 'sonner';
+
+interface DocumentAttachmentsProps {
+  link: DocumentLink;
+  onChanged?: (count: number) => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export default function DocumentAttachments({ link, onChanged }: DocumentAttachmentsProps) {
+  const [documents, setDocuments] = useState<StoredDocument[]>([]);
+  const [uploading, setUploading] = useState(false);
+
+  const query = link.expense_id ? `expense_id=${link.expense_id}` : `fuel_transaction_id=${link.fuel_transaction_id}`;
+
+  const fetchDocuments = async () => {
+    try {
+      const response = await fetch(`/api/documents?${query}`);
+      if (!response.ok) throw new Error('Failed to fetch documents');
+      const data: StoredDocument[] = await response.json();
+      setDocuments(data);
+      return data;
+    } catch (err) {
+      console.error('Error fetching documents:', err);
+      toast.error('Failed to load documents');
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [query]);
+
+  const refresh = async () => {
+    const data = await fetchDocuments();
+    if (data && onChanged) onChanged(data.length);
+  };
+
+  const handleUpload = async (file: File) => {
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (link.expense_id) formData.append('expense_id', String(link.expense_id));
+      if (link.fuel_transaction_id) formData.append('fuel_transaction_id', String(link.fuel_transaction_id));
+
+      const response = await fetch('/api/documents', { method: 'POST', body: formData });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to upload document');
+      }
+      await refresh();
+    } catch (err) {
+      console.error('Error uploading document:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to upload document');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (document: StoredDocument) => {
+    if (!confirm(`Delete ${document.original_name}?`)) return;
+
+    try {
+      const response = await fetch(`/api/documents/${document.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to delete document');
+      }
+      await refresh();
+    } catch (err) {
+      console.error('Error deleting document:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to delete document');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-start gap-3">
+      {documents.map((document) => (
+        <div key={document.id} className="relative group w-28">
+          <a
+            href={`/api/documents/${document.id}`}
+            title={`Download ${document.original_name}`}
+            className="block h-28 rounded border border-gray-200 dark:border-slate-600 bg-white dark:bg-slate-800 overflow-hidden hover:border-blue-400 dark:hover:border-blue-500 transition-colors"
+          >
+            {document.thumbnail_path ? (
+              <img
+                src={`/api/documents/${document.id}/thumbnail`}
+                alt={document.original_name}
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <div className="w-full h-full flex flex-col items-center justify-center text-red-600 dark:text-red-400">
+                <svg className="w-10 h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                </svg>
+                <span className="text-xs font-semibold mt-1">PDF</span>
+              </div>
+            )}
+          </a>
+          <p className="mt-1 text-xs text-gray-700 dark:text-slate-300 truncate" title={document.original_name}>
+            {document.original_name}
+          </p>
+          <p className="text-[10px] text-gray-500 dark:text-slate-400">{formatSize(document.size_bytes)}</p>
+          <button
+            type="button"
+            onClick={() => handleDelete(document)}
+            className="absolute top-1 right-1 w-6 h-6 rounded-full bg-white/90 dark:bg-slate-800/90 text-gray-500 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+            aria-label={`Delete ${document.original_name}`}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <label
+        className={`w-28 h-28 flex flex-col items-center justify-center rounded border-2 border-dashed border-gray-300 dark:border-slate-600 text-gray-500 dark:text-slate-400 text-xs cursor-pointer hover:border-blue-400 hover:text-blue-600 dark:hover:border-blue-500 dark:hover:text-blue-400 transition-colors ${
+          uploading ? 'opacity-50 pointer-events-none' : ''
+        }`}
+      >
+        <svg className="w-6 h-6 mb-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+        </svg>
+        {uploading ? 'Uploading...' : 'PDF, JPG, PNG'}
+        <input
+          type="file"
+          accept=".pdf,.jpg,.jpeg,.png,application/pdf,image/jpeg,image/png"
+          className="hidden"
+          disabled={uploading}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleUpload(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+    </div>
+  );
+}
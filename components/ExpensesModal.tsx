@@ -0,0 +1,588 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import type { Expense, ExpenseCategory, ExpenseImportResult, VatRate } from '@/types';
+import { addMonths } from '@/lib/utils/date';
+import { formatCurrency } from '@/lib/utils/formatters';
+import { deductibleVatGrosze, expenseCostGrosze } from '@/lib/utils/expenses';
+import { format, parse } from 'date-fns';
+import DocumentAttachments from '@/components/DocumentAttachments';
+import { toast } from 'sonner';
+
+interface ExpensesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  month: string; // YYYY-MM, shown first
+  onChanged?: () => void;
+}
+
+interface ExpenseForm {
+  date: string;
+  category: Exclude<ExpenseCategory, 'fuel'>;
+  description: string;
+  supplier_name: string;
+  supplier_nip: string;
+  document_number: string;
+  net_amount: string;
+  vat_rate: string;
+  vat_amount: string; // empty: net × rate
+  vat_deductible_percent: string;
+}
+
+const CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  fuel: 'Fuel',
+  software: 'Software',
+  hardware: 'Hardware',
+  coworking: 'Coworking',
+  phone: 'Phone & internet',
+  office: 'Office',
+  travel: 'Travel',
+  services: 'Services',
+  other: 'Other',
+};
+
+const VAT_RATES: VatRate[] = [23, 8, 5, 0, 'ZW', 'NP'];
+
+const inputClassName =
+  'px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-slate-100';
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1';
+
+const emptyForm = (month: string): ExpenseForm => ({
+  date: `${month}-01`,
+  category: 'software',
+  description: '',
+  supplier_name: '',
+  supplier_nip: '',
+  document_number: '',
+  net_amount: '',
+  vat_rate: '23',
+  vat_amount: '',
+  vat_deductible_percent: '100',
+});
+
+const toGrosze = (amount: string) => Math.round(parseFloat(amount.replace(',', '.')) * 100);
+
+export default function ExpensesModal({ isOpen, onClose, month, onChanged }: ExpensesModalProps) {
+  const [visibleMonth, setVisibleMonth] = useState(month);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [form, setForm] = useState<ExpenseForm>(emptyForm(month));
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [documentsId, setDocumentsId] = useState<number | null>(null); // expense whose documents are open
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setVisibleMonth(month);
+      setForm(emptyForm(month));
+      setEditingId(null);
+      setDocumentsId(null);
+      setError(null);
+    }
+  }, [isOpen, month]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchExpenses();
+    }
+  }, [isOpen, visibleMonth]);
+
+  const fetchExpenses = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/expenses?month=${visibleMonth}`);
+      if (!response.ok) throw new Error('Failed to fetch expenses');
+      setExpenses(await response.json());
+    } catch (err) {
+      console.error('Error fetching expenses:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load expenses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refresh = async () => {
+    await fetchExpenses();
+    if (onChanged) onChanged();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(editingId ? `/api/expenses/${editingId}` : '/api/expenses', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date: form.date,
+          category: form.category,
+          description: form.description.trim(),
+          supplier_name: form.supplier_name.trim() || null,
+          supplier_nip: form.supplier_nip.trim() || null,
+          document_number: form.document_number.trim() || null,
+          net_grosze: toGrosze(form.net_amount),
+          vat_rate: form.vat_rate === 'ZW' || form.vat_rate === 'NP' ? form.vat_rate : Number(form.vat_rate),
+          vat_grosze: form.vat_amount.trim() ? toGrosze(form.vat_amount) : null,
+          vat_deductible_percent: Number(form.vat_deductible_percent),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to save expense');
+      }
+
+      setForm(emptyForm(visibleMonth));
+      setEditingId(null);
+      await refresh();
+    } catch (err) {
+      console.error('Error saving expense:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save expense');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (expense: Expense) => {
+    if (expense.category === 'fuel') return;
+    setEditingId(expense.id);
+    setError(null);
+    setForm({
+      date: expense.date,
+      category: expense.category,
+      description: expense.description,
+      supplier_name: expense.supplier_name ?? '',
+      supplier_nip: expense.supplier_nip ?? '',
+      document_number: expense.document_number ?? '',
+      net_amount: (expense.net_grosze / 100).toFixed(2),
+      vat_rate: String(expense.vat_rate),
+      vat_amount: (expense.vat_grosze / 100).toFixed(2),
+      vat_deductible_percent: String(expense.vat_deductible_percent),
+    });
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Delete this expense?')) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/expenses/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to delete expense');
+      }
+      if (editingId === id) {
+        setEditingId(null);
+        setForm(emptyForm(visibleMonth));
+      }
+      await refresh();
+    } catch (err) {
+      console.error('Error deleting expense:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete expense');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The category and VAT share selected in the form apply to the imported invoice
+  const handleImport = async (file: File) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('category', form.category);
+      formData.append('vat_deductible_percent', form.vat_deductible_percent);
+
+      const response = await fetch('/api/expenses/import', { method: 'POST', body: formData });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to import invoice');
+      }
+
+      const result: ExpenseImportResult = await response.json();
+      toast.success(
+        `Imported ${result.invoice.invoice_number} from ${result.counterparty.name}` +
+          (result.counterparty_created ? ' (new supplier)' : '')
+      );
+
+      const importedMonth = result.invoice.issue_date.slice(0, 7);
+      if (importedMonth !== visibleMonth) {
+        setVisibleMonth(importedMonth);
+        if (onChanged) onChanged();
+      } else {
+        await refresh();
+      }
+    } catch (err) {
+      console.error('Error importing invoice:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import invoice');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setDocumentCount = (id: number, count: number) => {
+    setExpenses((current) => current.map((e) => (e.id === id ? { ...e, document_count: count } : e)));
+  };
+
+  if (!isOpen) return null;
+
+  const totals = expenses.reduce(
+    (sum, expense) => ({
+      gross: sum.gross + expense.gross_grosze,
+      cost: sum.cost + expenseCostGrosze(expense),
+      deductibleVat: sum.deductibleVat + deductibleVatGrosze(expense),
+    }),
+    { gross: 0, cost: 0, deductibleVat: 0 }
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-slate-700">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-slate-100">Expenses</h2>
+            <p className="text-sm text-gray-500 dark:text-slate-400">
+              Business costs in PLN · fuel comes from the fuel log
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-slate-200 transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-red-700 dark:text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Month navigation */}
+          <div className="flex justify-between items-center">
+            <button
+              onClick={() => setVisibleMonth(addMonths(visibleMonth, -1))}
+              className="p-2 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 rounded transition-colors"
+              aria-label="Previous month"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <span className="text-lg font-semibold text-gray-900 dark:text-slate-100">
+              {format(parse(visibleMonth, 'yyyy-MM', new Date()), 'MMMM yyyy')}
+            </span>
+            <button
+              onClick={() => setVisibleMonth(addMonths(visibleMonth, 1))}
+              className="p-2 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 rounded transition-colors"
+              aria-label="Next month"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Month totals */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="p-4 bg-gray-50 dark:bg-slate-700/50 rounded-lg border border-gray-200 dark:border-slate-600">
+              <p className="text-sm text-gray-500 dark:text-slate-400">Paid (gross)</p>
+              <p className="text-xl font-semibold text-gray-900 dark:text-slate-100">{formatCurrency(totals.gross / 100)}</p>
+            </div>
+            <div className="p-4 bg-gray-50 dark:bg-slate-700/50 rounded-lg border border-gray-200 dark:border-slate-600">
+              <p className="text-sm text-gray-500 dark:text-slate-400">Cost</p>
+              <p className="text-xl font-semibold text-gray-900 dark:text-slate-100">{formatCurrency(totals.cost / 100)}</p>
+            </div>
+            <div className="p-4 bg-gray-50 dark:bg-slate-700/50 rounded-lg border border-gray-200 dark:border-slate-600">
+              <p className="text-sm text-gray-500 dark:text-slate-400">Deductible VAT</p>
+              <p className="text-xl font-semibold text-gray-900 dark:text-slate-100">
+                {formatCurrency(totals.deductibleVat / 100)}
+              </p>
+            </div>
+          </div>
+
+          {/* Expense form */}
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div>
+              <label className={labelClassName}>Date</label>
+              <input
+                type="date"
+                required
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+                className={`${inputClassName} w-full`}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Category</label>
+              <select
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value as ExpenseForm['category'] })}
+                className={`${inputClassName} w-full`}
+              >
+                {(Object.keys(CATEGORY_LABELS) as ExpenseCategory[])
+                  .filter((category) => category !== 'fuel')
+                  .map((category) => (
+                    <option key={category} value={category}>
+                      {CATEGORY_LABELS[category]}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className={labelClassName}>Description</label>
+              <input
+                type="text"
+                required
+                placeholder="e.g. IDE licence"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className={`${inputClassName} w-full`}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Supplier</label>
+              <input
+                type="text"
+                placeholder="Optional"
+                value={form.supplier_name}
+                onChange={(e) => setForm({ ...form, supplier_name: e.target.value })}
+                className={`${inputClassName} w-full`}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Supplier NIP</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                placeholder="Optional"
+                value={form.supplier_nip}
+                onChange={(e) => setForm({ ...form, supplier_nip: e.target.value })}
+                className={`${inputClassName} w-full`}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Document No.</label>
+              <input
+                type="text"
+                placeholder="Invoice or receipt number"
+                value={form.document_number}
+                onChange={(e) => setForm({ ...form, document_number: e.target.value })}
+                className={`${inputClassName} w-full`}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Net (PLN)</label>
+              <input
+                type="number"
+                required
+                min="0"
+                step="0.01"
+                value={form.net_amount}
+                onChange={(e) => setForm({ ...form, net_amount: e.target.value })}
+                className={`${inputClassName} w-full`}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>VAT Rate</label>
+              <select
+                value={form.vat_rate}
+                onChange={(e) => setForm({ ...form, vat_rate: e.target.value, vat_amount: '' })}
+                className={`${inputClassName} w-full`}
+              >
+                {VAT_RATES.map((rate) => (
+                  <option key={rate} value={String(rate)}>
+                    {typeof rate === 'number' ? `${rate}%` : rate}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClassName}>VAT (PLN)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Net × rate"
+                value={form.vat_amount}
+                onChange={(e) => setForm({ ...form, vat_amount: e.target.value })}
+                className={`${inputClassName} w-full`}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>VAT Deductible</label>
+              <select
+                value={form.vat_deductible_percent}
+                onChange={(e) => setForm({ ...form, vat_deductible_percent: e.target.value })}
+                className={`${inputClassName} w-full`}
+              >
+                <option value="100">100%</option>
+                <option value="50">50% (mixed-use car)</option>
+                <option value="0">Not deductible</option>
+              </select>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                {editingId ? 'Save' : 'Add'}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingId(null);
+                    setForm(emptyForm(visibleMonth));
+                  }}
+                  className="px-3 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+
+          {/* FA(3) import */}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-gray-500 dark:text-slate-400">
+              Received an FA(3) invoice? Import the XML with the category and VAT share selected above.
+            </p>
+            <label
+              className={`px-3 py-2 text-sm text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors ${
+                loading ? 'opacity-50 pointer-events-none' : ''
+              }`}
+            >
+              Import FA(3) XML
+              <input
+                type="file"
+                accept=".xml,application/xml,text/xml"
+                className="hidden"
+                disabled={loading}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+
+          {/* Expenses of the month */}
+          {expenses.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-4">No expenses this month</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-slate-700">
+                <thead className="bg-gray-50 dark:bg-slate-700/50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-slate-400 uppercase">Date</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-slate-400 uppercase">Expense</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-slate-400 uppercase">Net</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-slate-400 uppercase">VAT</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-slate-400 uppercase">Gross</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-slate-400 uppercase">Documents</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                  {expenses.map((expense) => (
+                    <Fragment key={expense.id}>
+                      <tr className="hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
+                        <td className="px-3 py-2 text-sm text-gray-900 dark:text-slate-100 whitespace-nowrap">{expense.date}</td>
+                        <td className="px-3 py-2 text-sm">
+                          <div className="text-gray-900 dark:text-slate-100">{expense.description}</div>
+                          <div className="text-xs text-gray-500 dark:text-slate-400">
+                            {CATEGORY_LABELS[expense.category]}
+                            {expense.supplier_name && ` · ${expense.supplier_name}`}
+                            {expense.document_number && ` · ${expense.document_number}`}
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 text-sm text-right text-gray-900 dark:text-slate-100 whitespace-nowrap">
+                          {formatCurrency(expense.net_grosze / 100)}
+                        </td>
+                        <td className="px-3 py-2 text-sm text-right text-gray-900 dark:text-slate-100 whitespace-nowrap">
+                          {formatCurrency(expense.vat_grosze / 100)}
+                          {expense.vat_deductible_percent < 100 && expense.vat_grosze > 0 && (
+                            <span className="block text-xs text-gray-500 dark:text-slate-400">
+                              {expense.vat_deductible_percent}% deductible
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-sm text-right text-gray-900 dark:text-slate-100 whitespace-nowrap">
+                          {formatCurrency(expense.gross_grosze / 100)}
+                        </td>
+                        <td className="px-3 py-2 text-sm whitespace-nowrap">
+                          <button
+                            onClick={() => setDocumentsId(documentsId === expense.id ? null : expense.id)}
+                            className="inline-flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium transition-colors"
+                            aria-expanded={documentsId === expense.id}
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+                            </svg>
+                            {expense.document_count > 0 ? expense.document_count : 'Attach'}
+                          </button>
+                        </td>
+                        <td className="px-3 py-2 text-sm text-right whitespace-nowrap">
+                          {expense.category === 'fuel' ? (
+                            <span className="text-xs text-gray-500 dark:text-slate-400">Fuel log</span>
+                          ) : (
+                            <div className="flex justify-end gap-3">
+                              <button
+                                onClick={() => handleEdit(expense)}
+                                disabled={loading}
+                                className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium disabled:opacity-50 transition-colors"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handleDelete(expense.id)}
+                                disabled={loading}
+                                className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium disabled:opacity-50 transition-colors"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                      {documentsId === expense.id && (
+                        <tr>
+                          <td colSpan={7} className="px-3 py-3 bg-gray-50 dark:bg-slate-700/30">
+                            <DocumentAttachments
+                              link={
+                                expense.fuel_transaction_id !== null
+                                  ? { fuel_transaction_id: expense.fuel_transaction_id }
+                                  : { expense_id: expense.id }
+                              }
+                              onChanged={(count) => setDocumentCount(expense.id, count)}
+                            />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { IncomeForecast } from '@/types';
+import { motion } from 'framer-motion';
+import { formatCurrency, formatHours } from '@/lib/utils/formatters';
+
+interface ForecastCardProps {
+  month: string;
+  currency?: string;
+  refreshedAt: Date; // refetched whenever the dashboard refreshes
+}
+
+export default function ForecastCard({ month, currency = 'PLN', refreshedAt }: ForecastCardProps) {
+  const [forecast, setForecast] = useState<IncomeForecast | null>(null);
+
+  useEffect(() => {
+    fetchForecast();
+  }, [month, refreshedAt]);
+
+  const fetchForecast = async () => {
+    try {
+      const response = await fetch(`/api/forecast?month=${month}`, { cache: 'no-store' });
+      if (response.ok) {
+        setForecast(await response.json());
+      }
+    } catch (err) {
+      console.error('Error fetching forecast:', err);
+    }
+  };
+
+  if (!forecast) return null;
+
+  const onTrack = forecast.goal_shortfall_hours === 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: 0.15 }}
+      className="bg-white dark:bg-slate-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-slate-700"
+    >
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100">Month-End Forecast</h3>
+        <p className="text-sm text-gray-500 dark:text-slate-400">
+          {forecast.working_days_remaining} of {forecast.working_days} working days left
+          {forecast.planned_days_off > 0 && ` (${forecast.planned_days_off} off)`} · pace{' '}
+          {formatHours(forecast.daily_pace_hours)} per day over the last 4 weeks
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <p className="text-sm text-gray-500 dark:text-slate-400">Forecast Hours</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-slate-100">{formatHours(forecast.forecast_hours)}</p>
+          <p className="text-xs text-gray-500 dark:text-slate-400">Goal {formatHours(forecast.monthly_goal)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500 dark:text-slate-400">Forecast Income</p>
+          <p className="text-2xl font-bold text-green-600 dark:text-green-400">
+            {formatCurrency(forecast.forecast_income, currency)}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-slate-400">
+            {formatCurrency(forecast.income_to_date, currency)} so far
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500 dark:text-slate-400">Shortfall</p>
+          <p className={`text-2xl font-bold ${onTrack ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+            {onTrack ? 'On track' : formatHours(forecast.goal_shortfall_hours)}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-slate-400">Against the monthly goal</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500 dark:text-slate-400">Needed per Day</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-slate-100">
+            {forecast.required_daily_hours !== null ? formatHours(forecast.required_daily_hours) : '—'}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-slate-400">To reach the goal</p>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
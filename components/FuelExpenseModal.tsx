@@ -2,8 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FuelTransaction, FuelType, FuelPriceApiResponse, FuelStation } from '@/types';
+import { FuelTransaction, FuelType, FuelPriceApiResponse, FuelStation, Vehicle } from '@/types';
 import StationPicker from '@/components/StationPicker';
+import DocumentAttachments from '@/components/DocumentAttachments';
 import { toast } from 'sonner';
 
 interface FuelExpenseModalProps {
@@ -17,6 +18,7 @@ export default function FuelExpenseModal({ isOpen, onClose, currency }: FuelExpe
   const [currentPrices, setCurrentPrices] = useState<FuelPriceApiResponse>({});
   const [loading, setLoading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [receiptsId, setReceiptsId] = useState<number | null>(null); // transaction whose receipts are open
 
   // Form state
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
@@ -24,6 +26,9 @@ export default function FuelExpenseModal({ isOpen, onClose, currency }: FuelExpe
   const [liters, setLiters] = useState('');
   const [pricePerLiter, setPricePerLiter] = useState('');
   const [selectedStation, setSelectedStation] = useState<FuelStation | null>(null);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [vehicleId, setVehicleId] = useState('');
+  const [odometer, setOdometer] = useState('');
 
   // Get current month in YYYY-MM format
   const getCurrentMonth = () => {
@@ -62,10 +67,26 @@ export default function FuelExpenseModal({ isOpen, onClose, currency }: FuelExpe
     }
   };
 
+  const fetchVehicles = async () => {
+    try {
+      const response = await fetch('/api/vehicles');
+      if (response.ok) {
+        const data: Vehicle[] = await response.json();
+        setVehicles(data);
+        // Most fill-ups are for the only car
+        if (data.length === 1) {
+          setVehicleId(String(data[0].id));
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch vehicles:', error);
+    }
+  };
+
   useEffect(() => {
     if (isOpen) {
       setLoading(true);
-      Promise.all([fetchTransactions(), fetchCurrentPrices()]).finally(() => {
+      Promise.all([fetchTransactions(), fetchCurrentPrices(), fetchVehicles()]).finally(() => {
         setLoading(false);
       });
     }
@@ -124,19 +145,22 @@ export default function FuelExpenseModal({ isOpen, onClose, currency }: FuelExpe
           total_amount: totalAmount,
           station_id: selectedStation?.id,
           station_name: selectedStation?.name,
-          station_address: selectedStation?.address
+          station_address: selectedStation?.address,
+          vehicle_id: vehicleId ? Number(vehicleId) : null,
+          odometer_km: vehicleId && odometer ? parseInt(odometer) : null
         })
       });
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || 'Failed to create transaction');
+        throw new Error(error.message || error.error || 'Nie udało się dodać transakcji');
       }
 
       toast.success('Transakcja dodana pomyślnie');
       
       // Reset form
       setLiters('');
+      setOdometer('');
       setDate(new Date().toISOString().split('T')[0]);
       setSelectedStation(null);
       
@@ -144,7 +168,7 @@ export default function FuelExpenseModal({ isOpen, onClose, currency }: FuelExpe
       await fetchTransactions();
     } catch (error) {
       console.error('Failed to create transaction:', error);
-      toast.error('Nie udało się dodać transakcji');
+      toast.error(error instanceof Error ? error.message : 'Nie udało się dodać transakcji');
     } finally {
       setSubmitting(false);
     }
@@ -337,6 +361,48 @@ export default function FuelExpenseModal({ isOpen, onClose, currency }: FuelExpe
                       required
                     />
                   </div>
+
+                  {vehicles.length > 0 && (
+                    <>
+                      {/* Vehicle */}
+                      <div>
+                        <label htmlFor="vehicle" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                          Pojazd
+                        </label>
+                        <select
+                          id="vehicle"
+                          value={vehicleId}
+                          onChange={(e) => setVehicleId(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 transition-colors"
+                        >
+                          <option value="">Bez pojazdu</option>
+                          {vehicles.map((vehicle) => (
+                            <option key={vehicle.id} value={vehicle.id}>
+                              {vehicle.name} ({vehicle.registration_number})
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      {/* Odometer */}
+                      <div>
+                        <label htmlFor="odometer" className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                          Stan licznika (km)
+                        </label>
+                        <input
+                          type="number"
+                          id="odometer"
+                          value={odometer}
+                          onChange={(e) => setOdometer(e.target.value)}
+                          step="1"
+                          min="0"
+                          placeholder="Do liczenia spalania"
+                          disabled={!vehicleId}
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 disabled:opacity-50 transition-colors"
+                        />
+                      </div>
+                    </>
+                  )}
                 </div>
 
                 {/* Total Amount Display */}
@@ -399,47 +465,76 @@ export default function FuelExpenseModal({ isOpen, onClose, currency }: FuelExpe
                       key={transaction.id}
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
-                      className="flex items-center justify-between p-4 bg-gray-50 dark:bg-slate-700 rounded-lg border border-gray-200 dark:border-slate-600"
+                      className="p-4 bg-gray-50 dark:bg-slate-700 rounded-lg border border-gray-200 dark:border-slate-600"
                     >
-                      <div className="flex-1">
-                        <div className="flex items-center gap-3">
-                          <span className="px-3 py-1 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 rounded-full text-sm font-medium">
-                            {transaction.fuel_type}
-                          </span>
-                          <span className="text-gray-600 dark:text-slate-300 text-sm">
-                            {formatDate(transaction.date)}
-                          </span>
+                      <div className="flex items-center justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-3">
+                            <span className="px-3 py-1 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 rounded-full text-sm font-medium">
+                              {transaction.fuel_type}
+                            </span>
+                            <span className="text-gray-600 dark:text-slate-300 text-sm">
+                              {formatDate(transaction.date)}
+                            </span>
+                          </div>
+                          {transaction.station_name && (
+                            <div className="mt-1 flex items-center gap-1 text-sm text-gray-600 dark:text-slate-400">
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                              </svg>
+                              <span className="font-medium">{transaction.station_name}</span>
+                            </div>
+                          )}
+                          <div className="mt-2 flex items-center gap-4 text-sm text-gray-500 dark:text-slate-400">
+                            <span>{transaction.liters.toFixed(2)} L</span>
+                            <span>×</span>
+                            <span>{formatCurrency(transaction.price_per_liter)}/L</span>
+                            {transaction.odometer_km != null && (
+                              <span>{transaction.odometer_km.toLocaleString('pl-PL')} km</span>
+                            )}
+                          </div>
                         </div>
-                        {transaction.station_name && (
-                          <div className="mt-1 flex items-center gap-1 text-sm text-gray-600 dark:text-slate-400">
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                            </svg>
-                            <span className="font-medium">{transaction.station_name}</span>
+                        <div className="flex items-center gap-4">
+                          <div className="text-right">
+                            <p className="text-lg font-bold text-gray-900 dark:text-slate-100">
+                              {formatCurrency(transaction.total_amount)}
+                            </p>
                           </div>
-                        )}
-                        <div className="mt-2 flex items-center gap-4 text-sm text-gray-500 dark:text-slate-400">
-                          <span>{transaction.liters.toFixed(2)} L</span>
-                          <span>×</span>
-                          <span>{formatCurrency(transaction.price_per_liter)}/L</span>
+                          <button
+                            onClick={() => setReceiptsId(receiptsId === transaction.id ? null : transaction.id)}
+                            className="flex items-center gap-1 text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 p-2 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
+                            aria-label="Paragony"
+                            aria-expanded={receiptsId === transaction.id}
+                            title="Paragony"
+                          >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+                            </svg>
+                            {!!transaction.document_count && <span className="text-sm font-medium">{transaction.document_count}</span>}
+                          </button>
+                          <button
+                            onClick={() => handleDelete(transaction.id)}
+                            className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 p-2 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                            aria-label="Delete transaction"
+                          >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                          </button>
                         </div>
                       </div>
-                      <div className="flex items-center gap-4">
-                        <div className="text-right">
-                          <p className="text-lg font-bold text-gray-900 dark:text-slate-100">
-                            {formatCurrency(transaction.total_amount)}
-                          </p>
+                      {receiptsId === transaction.id && (
+                        <div className="mt-4 pt-4 border-t border-gray-200 dark:border-slate-600">
+                          <DocumentAttachments
+                            link={{ fuel_transaction_id: transaction.id }}
+                            onChanged={(count) =>
+                              setTransactions((current) =>
+                                current.map((t) => (t.id === transaction.id ? { ...t, document_count: count } : t))
+                              )
+                            }
+                          />
                         </div>
-                        <button
-                          onClick={() => handleDelete(transaction.id)}
-                          className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 p-2 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
-                          aria-label="Delete transaction"
-                        >
-                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                        </button>
-                      </div>
+                      )}
                     </motion.div>
                   ))}
                 </div>
@@ -281,9 +281,18 @@ export default function ProjectDetailsModal({
                       {details.tasks.map((task) => (
                         <div key={task.task_id} className="p-4 hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
                           <div className="flex justify-between items-start mb-2">
-                            <h4 className="font-medium text-gray-900 dark:text-slate-100 flex-1">
-                              {task.task_name}
-                            </h4>
+                            <div className="flex-1">
+                              <h4 className="font-medium text-gray-900 dark:text-slate-100">
+                                {task.task_name}
+                              </h4>
+                              <p className="text-xs text-gray-500 dark:text-slate-400 mt-0.5">
+                                {!task.billable
+                                  ? 'Non-billable'
+                                  : task.hourly_rate !== null
+                                    ? `${task.hourly_rate} ${currency}/h`
+                                    : 'No rate set'}
+                              </p>
+                            </div>
                             <span className="text-lg font-bold text-blue-600 dark:text-blue-400 ml-4">
                               {formatHours(task.hours)}
                             </span>
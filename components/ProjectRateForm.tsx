@@ -1,23 +1,32 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { ProjectRate, EverhourProject } from '@/types';
+import { ProjectRateWithPeriods, TrackedProject, Client, ProjectClient } from '@/types';
 import { toast } from 'sonner';
+import BillingRulesPanel from '@/components/BillingRulesPanel';
+import { format } from 'date-fns';
 
 interface ProjectRateFormProps {
   onSuccess: () => void;
 }
 
+const firstDayOfMonth = () => `${format(new Date(), 'yyyy-MM')}-01`;
+
 export default function ProjectRateForm({ onSuccess }: ProjectRateFormProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [everhourProjects, setEverhourProjects] = useState<EverhourProject[]>([]);
-  const [existingRates, setExistingRates] = useState<ProjectRate[]>([]);
+  const [trackedProjects, setTrackedProjects] = useState<TrackedProject[]>([]);
+  const [existingRates, setExistingRates] = useState<ProjectRateWithPeriods[]>([]);
+  const [expandedRateId, setExpandedRateId] = useState<number | null>(null);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [projectClients, setProjectClients] = useState<ProjectClient[]>([]);
   const [formData, setFormData] = useState({
-    everhour_project_id: '',
+    project_id: '',
     project_name: '',
     hourly_rate: '',
+    effective_from: firstDayOfMonth(),
+    client_id: '',
   });
 
   useEffect(() => {
@@ -29,20 +38,32 @@ export default function ProjectRateForm({ onSuccess }: ProjectRateFormProps) {
   const fetchData = async () => {
     try {
       setLoading(true);
-      const [projectsRes, ratesRes] = await Promise.all([
-        fetch('/api/everhour-projects'),
+      const [projectsRes, ratesRes, clientsRes, projectClientsRes] = await Promise.all([
+        fetch('/api/time-projects'),
         fetch('/api/project-rates'),
+        fetch('/api/clients'),
+        fetch('/api/project-clients'),
       ]);
 
       if (projectsRes.ok) {
         const projects = await projectsRes.json();
-        setEverhourProjects(projects);
+        setTrackedProjects(projects);
       }
 
       if (ratesRes.ok) {
         const rates = await ratesRes.json();
         setExistingRates(rates);
       }
+
+      if (clientsRes.ok) {
+        const data = await clientsRes.json();
+        setClients(data.rows || []);
+      }
+
+      if (projectClientsRes.ok) {
+        const mappings = await projectClientsRes.json();
+        setProjectClients(mappings);
+      }
     } catch (err) {
       console.error('Error fetching data:', err);
       setError('Failed to load projects');
@@ -52,18 +73,24 @@ export default function ProjectRateForm({ onSuccess }: ProjectRateFormProps) {
   };
 
   const handleProjectSelect = (projectId: string) => {
-    const project = everhourProjects.find((p) => p.id === projectId);
-    const existingRate = existingRates.find((r) => r.everhour_project_id === projectId);
+    const project = trackedProjects.find((p) => p.id === projectId);
+    const existingRate = existingRates.find((r) => r.project_id === projectId);
+    const existingClient = projectClients.find((pc) => pc.project_id === projectId);
 
     if (project) {
       setFormData({
-        everhour_project_id: project.id,
+        project_id: project.id,
         project_name: project.name,
-        hourly_rate: existingRate ? existingRate.hourly_rate.toString() : '',
+        hourly_rate: existingRate ? (existingRate.current_rate ?? existingRate.hourly_rate).toString() : '',
+        effective_from: firstDayOfMonth(),
+        client_id: existingClient ? existingClient.client_id.toString() : '',
       });
     }
   };
 
+  const getClientName = (projectId: string) =>
+    projectClients.find((pc) => pc.project_id === projectId)?.client_name;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -76,19 +103,36 @@ export default function ProjectRateForm({ onSuccess }: ProjectRateFormProps) {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          everhour_project_id: formData.everhour_project_id,
+          project_id: formData.project_id,
           project_name: formData.project_name,
           hourly_rate: parseFloat(formData.hourly_rate),
+          effective_from: formData.effective_from,
         }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to save project rate');
+        throw new Error(errorData.message || errorData.error || 'Failed to save project rate');
+      }
+
+      const clientResponse = await fetch('/api/project-clients', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          project_id: formData.project_id,
+          client_id: formData.client_id ? parseInt(formData.client_id, 10) : null,
+        }),
+      });
+
+      if (!clientResponse.ok) {
+        const errorData = await clientResponse.json();
+        throw new Error(errorData.error || 'Failed to link project to client');
       }
 
       toast.success('Project rate saved successfully!');
-      setFormData({ everhour_project_id: '', project_name: '', hourly_rate: '' });
+      setFormData({ project_id: '', project_name: '', hourly_rate: '', effective_from: firstDayOfMonth(), client_id: '' });
       setIsOpen(false);
       onSuccess();
     } catch (err) {
@@ -112,7 +156,8 @@ export default function ProjectRateForm({ onSuccess }: ProjectRateFormProps) {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to delete project rate');
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to delete project rate');
       }
 
       toast.success('Project rate deleted successfully!');
@@ -127,6 +172,34 @@ export default function ProjectRateForm({ onSuccess }: ProjectRateFormProps) {
     }
   };
 
+  const handleDeletePeriod = async (periodId: number) => {
+    if (!confirm('Remove this rate change? The previous rate will apply again.')) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/project-rates/periods/${periodId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to delete rate period');
+      }
+
+      toast.success('Rate change removed');
+      onSuccess();
+      fetchData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div>
       <button
@@ -163,14 +236,14 @@ export default function ProjectRateForm({ onSuccess }: ProjectRateFormProps) {
                       Select Project
                     </label>
                     <select
-                      value={formData.everhour_project_id}
+                      value={formData.project_id}
                       onChange={(e) => handleProjectSelect(e.target.value)}
                       className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 transition-colors"
                       required
                       disabled={loading}
                     >
                       <option value="">Choose a project...</option>
-                      {everhourProjects.map((project) => (
+                      {trackedProjects.map((project) => (
                         <option key={project.id} value={project.id}>
                           {project.name}
                         </option>
@@ -207,6 +280,42 @@ export default function ProjectRateForm({ onSuccess }: ProjectRateFormProps) {
                       disabled={loading}
                     />
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                      Effective From
+                    </label>
+                    <input
+                      type="date"
+                      value={formData.effective_from}
+                      onChange={(e) => setFormData({ ...formData, effective_from: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 transition-colors"
+                      required
+                      disabled={loading}
+                    />
+                    <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                      Earlier days keep their previous rate; closed months cannot be repriced
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                      Client
+                    </label>
+                    <select
+                      value={formData.client_id}
+                      onChange={(e) => setFormData({ ...formData, client_id: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 transition-colors"
+                      disabled={loading}
+                    >
+                      <option value="">No client</option>
+                      {clients.map((client) => (
+                        <option key={client.id} value={client.id}>
+                          {client.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
 
                 <div className="mt-4 flex justify-end">
@@ -227,24 +336,65 @@ export default function ProjectRateForm({ onSuccess }: ProjectRateFormProps) {
                     {existingRates.map((rate) => (
                       <div
                         key={rate.id}
-                        className="flex items-center justify-between p-3 bg-gray-50 dark:bg-slate-700/50 rounded-md border border-gray-200 dark:border-slate-600"
+                        className="p-3 bg-gray-50 dark:bg-slate-700/50 rounded-md border border-gray-200 dark:border-slate-600"
                       >
-                        <div>
-                          <p className="font-medium text-gray-900 dark:text-slate-100">{rate.project_name}</p>
-                          <p className="text-sm text-gray-600 dark:text-slate-400">{rate.hourly_rate} PLN/hour</p>
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium text-gray-900 dark:text-slate-100">{rate.project_name}</p>
+                            <p className="text-sm text-gray-600 dark:text-slate-400">
+                              {rate.current_rate !== null ? `${rate.current_rate} PLN/hour` : 'No rate yet'}
+                              {rate.periods.length > 1 && (
+                                <button
+                                  onClick={() => setExpandedRateId(expandedRateId === rate.id ? null : rate.id)}
+                                  className="ml-2 text-blue-600 dark:text-blue-400 hover:underline text-xs"
+                                >
+                                  {expandedRateId === rate.id ? 'Hide history' : `History (${rate.periods.length})`}
+                                </button>
+                              )}
+                            </p>
+                            {getClientName(rate.project_id) && (
+                              <p className="text-xs text-gray-500 dark:text-slate-400">{getClientName(rate.project_id)}</p>
+                            )}
+                          </div>
+                          <button
+                            onClick={() => handleDelete(rate.id)}
+                            disabled={loading}
+                            className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium text-sm disabled:opacity-50 transition-colors"
+                          >
+                            Delete
+                          </button>
                         </div>
-                        <button
-                          onClick={() => handleDelete(rate.id)}
-                          disabled={loading}
-                          className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium text-sm disabled:opacity-50 transition-colors"
-                        >
-                          Delete
-                        </button>
+                        {expandedRateId === rate.id && (
+                          <ul className="mt-2 space-y-1 border-t border-gray-200 dark:border-slate-600 pt-2">
+                            {[...rate.periods].reverse().map((period) => (
+                              <li key={period.id} className="flex items-center justify-between text-sm">
+                                <span className="text-gray-600 dark:text-slate-400">
+                                  {period.effective_from ? `From ${period.effective_from}` : 'From the start'}
+                                </span>
+                                <span className="flex items-center gap-3">
+                                  <span className="text-gray-900 dark:text-slate-100">{period.hourly_rate} PLN/hour</span>
+                                  {period.effective_from && (
+                                    <button
+                                      onClick={() => handleDeletePeriod(period.id)}
+                                      disabled={loading}
+                                      className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 text-xs disabled:opacity-50 transition-colors"
+                                      aria-label={`Remove rate from ${period.effective_from}`}
+                                    >
+                                      Remove
+                                    </button>
+                                  )}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
                       </div>
                     ))}
                   </div>
                 </div>
               )}
+
+              <BillingRulesPanel projects={trackedProjects} onChanged={onSuccess} />
             </div>
           </div>
         </div>
@@ -252,4 +402,3 @@ export default function ProjectRateForm({ onSuccess }: ProjectRateFormProps) {
     </div>
   );
 }
-
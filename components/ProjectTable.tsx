@@ -208,9 +208,17 @@ export default function ProjectTable({ projects, currency = 'PLN' }: ProjectTabl
               >
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="text-sm font-medium text-gray-900 dark:text-slate-100">{project.project_name}</div>
+                  {project.client_name && (
+                    <div className="text-xs text-gray-500 dark:text-slate-400">{project.client_name}</div>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="text-sm text-gray-900 dark:text-slate-200">{formatHours(project.hours)}</div>
+                  {project.non_billable_hours > 0 && (
+                    <div className="text-xs text-gray-500 dark:text-slate-400">
+                      {formatHours(project.non_billable_hours)} non-billable
+                    </div>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="text-sm text-gray-900 dark:text-slate-200">
@@ -227,6 +235,11 @@ export default function ProjectTable({ projects, currency = 'PLN' }: ProjectTabl
                   <div className={`text-sm font-medium ${project.income !== null ? 'text-green-600 dark:text-green-400' : 'text-gray-400 dark:text-slate-500'}`}>
                     {formatCurrency(project.income)}
                   </div>
+                  {project.travel_cost > 0 && (
+                    <div className="text-xs text-gray-500 dark:text-slate-400">
+                      {formatCurrency(project.net_profit)} after {formatCurrency(project.travel_cost)} travel
+                    </div>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="flex items-center">
@@ -286,7 +299,12 @@ export default function ProjectTable({ projects, currency = 'PLN' }: ProjectTabl
               className="bg-white dark:bg-slate-800 rounded-lg shadow-md p-4 border border-gray-200 dark:border-slate-700 cursor-pointer hover:border-blue-500 dark:hover:border-blue-400 transition-colors"
             >
               <div className="flex justify-between items-start mb-3">
-                <h3 className="font-semibold text-gray-900 dark:text-slate-100 text-lg">{project.project_name}</h3>
+                <div>
+                  <h3 className="font-semibold text-gray-900 dark:text-slate-100 text-lg">{project.project_name}</h3>
+                  {project.client_name && (
+                    <p className="text-sm text-gray-500 dark:text-slate-400">{project.client_name}</p>
+                  )}
+                </div>
                 <span className="text-sm text-gray-500 dark:text-slate-400">{project.percentage.toFixed(1)}%</span>
               </div>
               
@@ -295,6 +313,13 @@ export default function ProjectTable({ projects, currency = 'PLN' }: ProjectTabl
                   <span className="text-sm text-gray-600 dark:text-slate-400">Hours</span>
                   <span className="text-sm font-medium text-gray-900 dark:text-slate-200">{formatHours(project.hours)}</span>
                 </div>
+
+                {project.non_billable_hours > 0 && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-600 dark:text-slate-400">Non-billable</span>
+                    <span className="text-sm text-gray-500 dark:text-slate-400">{formatHours(project.non_billable_hours)}</span>
+                  </div>
+                )}
                 
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-gray-600 dark:text-slate-400">Rate</span>
@@ -311,6 +336,13 @@ export default function ProjectTable({ projects, currency = 'PLN' }: ProjectTabl
                     {formatCurrency(project.income)}
                   </span>
                 </div>
+
+                {project.travel_cost > 0 && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-600 dark:text-slate-400">After travel ({project.travel_km.toFixed(0)} km)</span>
+                    <span className="text-sm text-gray-500 dark:text-slate-400">{formatCurrency(project.net_profit)}</span>
+                  </div>
+                )}
               </div>
               
               <div className="mt-3">
@@ -0,0 +1,107 @@
+'use client';
+
+import { MonthlyTotals, PeriodTotals, RangeStats } from '@/types';
+import { motion } from 'framer-motion';
+import { format, parse } from 'date-fns';
+import { formatCurrency, formatHours, percentageChange } from '@/lib/utils/formatters';
+
+interface RangeOverviewProps {
+  stats: RangeStats;
+  currency?: string;
+}
+
+const COLUMNS: { key: keyof PeriodTotals; label: string; money: boolean }[] = [
+  { key: 'hours', label: 'Hours', money: false },
+  { key: 'billable_hours', label: 'Billable', money: false },
+  { key: 'income', label: 'Income', money: true },
+  { key: 'invoiced', label: 'Invoiced', money: true },
+  { key: 'fuel_cost', label: 'Fuel', money: true },
+  { key: 'expenses', label: 'Expenses', money: true },
+  { key: 'profit', label: 'Profit', money: true },
+];
+
+// Costs going down is the good direction
+const INVERSE_COLUMNS: (keyof PeriodTotals)[] = ['fuel_cost', 'expenses'];
+
+function Change({ value, inverse = false }: { value: number | null; inverse?: boolean }) {
+  if (value === null) return null;
+  const good = inverse ? value <= 0 : value >= 0;
+  return (
+    <span className={`ml-1 text-xs ${good ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+      {value >= 0 ? '↑' : '↓'}
+      {Math.abs(value)}%
+    </span>
+  );
+}
+
+export default function RangeOverview({ stats, currency = 'PLN' }: RangeOverviewProps) {
+  const previousByMonth = new Map<string, MonthlyTotals>();
+  // Months line up by position: the comparison covers the same months one year back
+  stats.previous_year?.monthly.forEach((month, index) => {
+    const current = stats.monthly[index];
+    if (current) previousByMonth.set(current.month, month);
+  });
+
+  const formatValue = (value: number, money: boolean) => (money ? formatCurrency(value, currency) : formatHours(value));
+
+  const renderCells = (totals: PeriodTotals, previous: PeriodTotals | undefined) =>
+    COLUMNS.map((column) => (
+      <td key={column.key} className="px-4 py-3 text-right text-sm text-gray-900 dark:text-slate-200 whitespace-nowrap">
+        {formatValue(totals[column.key], column.money)}
+        <Change value={percentageChange(totals[column.key], previous?.[column.key])} inverse={INVERSE_COLUMNS.includes(column.key)} />
+      </td>
+    ));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: 0.2 }}
+      className="bg-white dark:bg-slate-800 rounded-lg shadow-md border border-gray-200 dark:border-slate-700 overflow-hidden"
+    >
+      <div className="p-6 pb-0">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100">Monthly Totals</h3>
+        <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">
+          {stats.previous_year
+            ? `Arrows compare with ${stats.previous_year.from} – ${stats.previous_year.to}`
+            : 'Last year could not be loaded for comparison'}
+        </p>
+      </div>
+      <div className="overflow-x-auto mt-4">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-slate-700">
+          <thead className="bg-gray-50 dark:bg-slate-700/50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">
+                Month
+              </th>
+              {COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider"
+                >
+                  {column.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+            {stats.monthly.map((month) => (
+              <tr key={month.month} className="hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
+                <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-slate-100 whitespace-nowrap">
+                  {format(parse(month.month, 'yyyy-MM', new Date()), 'MMMM yyyy')}
+                </td>
+                {renderCells(month, previousByMonth.get(month.month))}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-gray-50 dark:bg-slate-700/50 font-semibold">
+            <tr>
+              <td className="px-4 py-3 text-sm text-gray-900 dark:text-slate-100">Total</td>
+              {renderCells(stats.totals, stats.previous_year?.totals)}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </motion.div>
+  );
+}
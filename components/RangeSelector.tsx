@@ -0,0 +1,82 @@
+'use client';
+
+import { addMonths, getCurrentMonth, getQuarterMonths } from '@/lib/utils/date';
+
+export interface MonthRange {
+  from: string; // YYYY-MM
+  to: string; // YYYY-MM
+}
+
+interface RangeSelectorProps {
+  range: MonthRange;
+  onChange: (range: MonthRange) => void;
+  disabled?: boolean;
+}
+
+const PRESETS: { label: string; range: () => MonthRange }[] = [
+  { label: 'This quarter', range: () => getQuarterMonths(getCurrentMonth()) },
+  { label: 'Last quarter', range: () => getQuarterMonths(addMonths(getCurrentMonth(), -3)) },
+  {
+    label: 'This year',
+    range: () => ({ from: `${getCurrentMonth().slice(0, 4)}-01`, to: `${getCurrentMonth().slice(0, 4)}-12` }),
+  },
+  {
+    label: 'Last year',
+    range: () => {
+      const year = Number(getCurrentMonth().slice(0, 4)) - 1;
+      return { from: `${year}-01`, to: `${year}-12` };
+    },
+  },
+  { label: 'Last 12 months', range: () => ({ from: addMonths(getCurrentMonth(), -11), to: getCurrentMonth() }) },
+];
+
+const inputClassName =
+  'px-2 py-1 text-sm border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 transition-colors';
+
+export default function RangeSelector({ range, onChange, disabled }: RangeSelectorProps) {
+  const activePreset = PRESETS.findIndex((preset) => {
+    const candidate = preset.range();
+    return candidate.from === range.from && candidate.to === range.to;
+  });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-lg p-1">
+      <select
+        value={activePreset}
+        onChange={(e) => {
+          const index = Number(e.target.value);
+          if (index >= 0) onChange(PRESETS[index].range());
+        }}
+        className={inputClassName}
+        disabled={disabled}
+        aria-label="Range preset"
+      >
+        {PRESETS.map((preset, index) => (
+          <option key={preset.label} value={index}>
+            {preset.label}
+          </option>
+        ))}
+        <option value={-1}>Custom</option>
+      </select>
+      <input
+        type="month"
+        value={range.from}
+        max={range.to}
+        onChange={(e) => e.target.value && onChange({ ...range, from: e.target.value })}
+        className={inputClassName}
+        disabled={disabled}
+        aria-label="First month"
+      />
+      <span className="text-sm text-gray-500 dark:text-slate-400">–</span>
+      <input
+        type="month"
+        value={range.to}
+        min={range.from}
+        onChange={(e) => e.target.value && onChange({ ...range, to: e.target.value })}
+        className={inputClassName}
+        disabled={disabled}
+        aria-label="Last month"
+      />
+    </div>
+  );
+}
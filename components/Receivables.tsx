@@ -0,0 +1,92 @@
+'use client';
+
+import { AgingBucket, ReceivablesSummary } from '@/types';
+import { motion } from 'framer-motion';
+import { formatCurrency } from '@/lib/utils/formatters';
+
+interface ReceivablesProps {
+  receivables: ReceivablesSummary;
+}
+
+const BUCKETS: Array<{ key: AgingBucket; label: string; color: string }> = [
+  { key: 'current', label: 'Not due', color: 'bg-green-500' },
+  { key: 'days_1_30', label: '1–30 days', color: 'bg-yellow-400' },
+  { key: 'days_31_60', label: '31–60 days', color: 'bg-orange-500' },
+  { key: 'days_61_90', label: '61–90 days', color: 'bg-red-500' },
+  { key: 'days_90_plus', label: '90+ days', color: 'bg-red-800' },
+];
+
+export default function Receivables({ receivables }: ReceivablesProps) {
+  if (receivables.invoices.length === 0) return null;
+
+  const overdue = receivables.invoices.filter((inv) => inv.days_overdue > 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: 0.2 }}
+      className="bg-white dark:bg-slate-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-slate-700"
+    >
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-4">Receivables</h3>
+
+      <div className="space-y-4">
+        {receivables.totals.map((totals) => (
+          <div key={totals.currency}>
+            <div className="flex justify-between items-baseline text-sm">
+              <span className="font-medium text-gray-900 dark:text-slate-100">
+                Outstanding: {formatCurrency(totals.outstanding_grosze / 100, totals.currency)}
+              </span>
+              {totals.overdue_grosze > 0 && (
+                <span className="font-medium text-red-600 dark:text-red-400">
+                  Overdue: {formatCurrency(totals.overdue_grosze / 100, totals.currency)}
+                </span>
+              )}
+            </div>
+            <div className="mt-2 flex w-full h-2 rounded-full overflow-hidden bg-gray-200 dark:bg-slate-700">
+              {BUCKETS.map((bucket) =>
+                totals.buckets[bucket.key] > 0 ? (
+                  <div
+                    key={bucket.key}
+                    className={bucket.color}
+                    style={{ width: `${(totals.buckets[bucket.key] / totals.outstanding_grosze) * 100}%` }}
+                    title={`${bucket.label}: ${formatCurrency(totals.buckets[bucket.key] / 100, totals.currency)}`}
+                  ></div>
+                ) : null
+              )}
+            </div>
+            <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 dark:text-slate-400">
+              {BUCKETS.filter((bucket) => totals.buckets[bucket.key] > 0).map((bucket) => (
+                <span key={bucket.key} className="flex items-center gap-1">
+                  <span className={`inline-block w-2 h-2 rounded-full ${bucket.color}`}></span>
+                  {bucket.label}: {formatCurrency(totals.buckets[bucket.key] / 100, totals.currency)}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {overdue.length > 0 && (
+          <div className="border-t border-gray-200 dark:border-slate-700 pt-3 space-y-2">
+            {overdue.slice(0, 5).map((inv) => (
+              <div key={inv.invoice_id} className="flex justify-between items-baseline text-sm">
+                <span className="text-gray-700 dark:text-slate-300">
+                  {inv.invoice_number} <span className="text-gray-500 dark:text-slate-400">· {inv.client_name}</span>
+                </span>
+                <span>
+                  <span className="text-red-600 dark:text-red-400 mr-3">{inv.days_overdue}d late</span>
+                  <span className="font-medium text-gray-900 dark:text-slate-100">
+                    {formatCurrency(inv.outstanding_grosze / 100, inv.currency)}
+                  </span>
+                </span>
+              </div>
+            ))}
+            {overdue.length > 5 && (
+              <p className="text-xs text-gray-500 dark:text-slate-400">and {overdue.length - 5} more overdue</p>
+            )}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -2,7 +2,15 @@
 
 import { useState, useEffect } from 'react';
 import { toast } from 'sonner';
-import { GeneralSettingsTab, LocationSettingsTab, FuelSettingsTab, CompanySettingsTab } from './settings/tabs';
+import {
+  GeneralSettingsTab,
+  LocationSettingsTab,
+  FuelSettingsTab,
+  CompanySettingsTab,
+  InvoicingSettingsTab,
+  TaxSettingsTab,
+} from './settings/tabs';
+import { DEFAULT_NUMBERING } from '@/lib/utils/numbering-template';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -10,7 +18,7 @@ interface SettingsModalProps {
   onSuccess: () => void;
 }
 
-type TabId = 'general' | 'location' | 'company' | 'fuel';
+type TabId = 'general' | 'location' | 'company' | 'invoicing' | 'tax' | 'fuel';
 
 interface Tab {
   id: TabId;
@@ -26,6 +34,8 @@ export default function SettingsModal({ isOpen, onClose, onSuccess }: SettingsMo
     default_hourly_rate: '',
     currency: 'PLN',
     daily_hours_target: '8',
+    time_provider: 'everhour',
+    vacation_days_per_year: '26',
     home_address: '',
     search_radius_km: '10',
     company_name: '',
@@ -37,12 +47,31 @@ export default function SettingsModal({ isOpen, onClose, onSuccess }: SettingsMo
     company_email: '',
     company_phone: '',
     company_bank_account: '',
+    invoice_number_template: DEFAULT_NUMBERING.VAT.template,
+    invoice_number_reset: DEFAULT_NUMBERING.VAT.reset as string,
+    correction_number_template: DEFAULT_NUMBERING.KOR.template,
+    correction_number_reset: DEFAULT_NUMBERING.KOR.reset as string,
+    proforma_number_template: DEFAULT_NUMBERING.PRO.template,
+    proforma_number_reset: DEFAULT_NUMBERING.PRO.reset as string,
+    tax_form: 'liniowy',
+    ryczalt_rate: '12',
+    zus_tier: 'full',
+    zus_tier_until: '',
+    zus_sickness: 'true',
+    fuel_cost_percent: '100',
+    fuel_vat_deduction_percent: '50',
+    tax_office_code: '',
+    taxpayer_first_name: '',
+    taxpayer_last_name: '',
+    taxpayer_birth_date: '',
   });
 
   const tabs: Tab[] = [
     { id: 'general', label: 'General', icon: '⚙️' },
     { id: 'location', label: 'Location', icon: '📍' },
     { id: 'company', label: 'Company', icon: '🏢' },
+    { id: 'invoicing', label: 'Invoicing', icon: '🧾' },
+    { id: 'tax', label: 'Tax', icon: '🧮' },
     { id: 'fuel', label: 'Fuel', icon: '⛽' },
   ];
 
@@ -73,6 +102,8 @@ export default function SettingsModal({ isOpen, onClose, onSuccess }: SettingsMo
           default_hourly_rate: data.default_hourly_rate || '',
           currency: data.currency || 'PLN',
           daily_hours_target: data.daily_hours_target || '8',
+          time_provider: data.time_provider || 'everhour',
+          vacation_days_per_year: data.vacation_days_per_year || '26',
           home_address: data.home_address || '',
           search_radius_km: data.search_radius_km || '10',
           company_name: data.company_name || '',
@@ -84,6 +115,23 @@ export default function SettingsModal({ isOpen, onClose, onSuccess }: SettingsMo
           company_email: data.company_email || '',
           company_phone: data.company_phone || '',
           company_bank_account: data.company_bank_account || '',
+          invoice_number_template: data.invoice_number_template || DEFAULT_NUMBERING.VAT.template,
+          invoice_number_reset: data.invoice_number_reset || DEFAULT_NUMBERING.VAT.reset,
+          correction_number_template: data.correction_number_template || DEFAULT_NUMBERING.KOR.template,
+          correction_number_reset: data.correction_number_reset || DEFAULT_NUMBERING.KOR.reset,
+          proforma_number_template: data.proforma_number_template || DEFAULT_NUMBERING.PRO.template,
+          proforma_number_reset: data.proforma_number_reset || DEFAULT_NUMBERING.PRO.reset,
+          tax_form: data.tax_form || 'liniowy',
+          ryczalt_rate: data.ryczalt_rate || '12',
+          zus_tier: data.zus_tier || 'full',
+          zus_tier_until: data.zus_tier_until || '',
+          zus_sickness: data.zus_sickness || 'true',
+          fuel_cost_percent: data.fuel_cost_percent || '100',
+          fuel_vat_deduction_percent: data.fuel_vat_deduction_percent || '50',
+          tax_office_code: data.tax_office_code || '',
+          taxpayer_first_name: data.taxpayer_first_name || '',
+          taxpayer_last_name: data.taxpayer_last_name || '',
+          taxpayer_birth_date: data.taxpayer_birth_date || '',
         });
       }
     } catch (err) {
@@ -140,6 +188,8 @@ export default function SettingsModal({ isOpen, onClose, onSuccess }: SettingsMo
               default_hourly_rate: settings.default_hourly_rate,
               currency: settings.currency,
               daily_hours_target: settings.daily_hours_target,
+              time_provider: settings.time_provider,
+              vacation_days_per_year: settings.vacation_days_per_year,
             }}
             onChange={handleSettingChange}
             disabled={loading}
@@ -174,6 +224,41 @@ export default function SettingsModal({ isOpen, onClose, onSuccess }: SettingsMo
             disabled={loading}
           />
         );
+      case 'invoicing':
+        return (
+          <InvoicingSettingsTab
+            settings={{
+              invoice_number_template: settings.invoice_number_template,
+              invoice_number_reset: settings.invoice_number_reset,
+              correction_number_template: settings.correction_number_template,
+              correction_number_reset: settings.correction_number_reset,
+              proforma_number_template: settings.proforma_number_template,
+              proforma_number_reset: settings.proforma_number_reset,
+            }}
+            onChange={handleSettingChange}
+            disabled={loading}
+          />
+        );
+      case 'tax':
+        return (
+          <TaxSettingsTab
+            settings={{
+              tax_form: settings.tax_form,
+              ryczalt_rate: settings.ryczalt_rate,
+              zus_tier: settings.zus_tier,
+              zus_tier_until: settings.zus_tier_until,
+              zus_sickness: settings.zus_sickness,
+              fuel_cost_percent: settings.fuel_cost_percent,
+              fuel_vat_deduction_percent: settings.fuel_vat_deduction_percent,
+              tax_office_code: settings.tax_office_code,
+              taxpayer_first_name: settings.taxpayer_first_name,
+              taxpayer_last_name: settings.taxpayer_last_name,
+              taxpayer_birth_date: settings.taxpayer_birth_date,
+            }}
+            onChange={handleSettingChange}
+            disabled={loading}
+          />
+        );
       case 'fuel':
         return <FuelSettingsTab />;
       default:
@@ -0,0 +1,293 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { TaxForm, TaxYearEstimate, ZusTier } from '@/types';
+import { formatCurrency } from '@/lib/utils/formatters';
+import { format, subMonths } from 'date-fns';
+import { toast } from 'sonner';
+
+interface TaxEstimateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TAX_FORM_LABELS: Record<TaxForm, string> = {
+  ryczalt: 'Ryczałt',
+  liniowy: 'Podatek liniowy 19%',
+  skala: 'Skala podatkowa',
+};
+
+const ZUS_TIER_LABELS: Record<ZusTier, string> = {
+  start: 'Ulga na start',
+  preferential: 'Preferencyjny ZUS',
+  full: 'Pełny ZUS',
+};
+
+const pln = (amount: number) => formatCurrency(amount, 'PLN');
+
+export default function TaxEstimateModal({ isOpen, onClose }: TaxEstimateModalProps) {
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [estimate, setEstimate] = useState<TaxYearEstimate | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // JPK_V7M is filed for the previous month by the 25th
+  const [jpkMonth, setJpkMonth] = useState(format(subMonths(new Date(), 1), 'yyyy-MM'));
+  const [jpkCarryOver, setJpkCarryOver] = useState('');
+  const [jpkCorrection, setJpkCorrection] = useState(false);
+  const [jpkLoading, setJpkLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchEstimate();
+    }
+  }, [isOpen, year]);
+
+  const fetchEstimate = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tax?year=${year}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to calculate tax estimate');
+      }
+      setEstimate(await response.json());
+    } catch (err) {
+      console.error('Error fetching tax estimate:', err);
+      setError(err instanceof Error ? err.message : 'Failed to calculate tax estimate');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleJpkDownload = async () => {
+    setJpkLoading(true);
+    try {
+      const params = new URLSearchParams({
+        month: jpkMonth,
+        carry_over: jpkCarryOver || '0',
+        correction: String(jpkCorrection),
+      });
+      const response = await fetch(`/api/jpk/v7m?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to generate JPK_V7M');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `JPK_V7M-${jpkMonth}.xml`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to generate JPK_V7M');
+    } finally {
+      setJpkLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  // The earliest payment still ahead; the current month's estimate grows until it closes
+  const nextPayment = estimate?.months.find((m) => m.due_date >= today) ?? null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-slate-700">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-slate-100">Tax Estimate</h2>
+            <p className="text-sm text-gray-500 dark:text-slate-400">
+              {estimate
+                ? `${TAX_FORM_LABELS[estimate.profile.tax_form]}${
+                    estimate.profile.tax_form === 'ryczalt' ? ` ${estimate.profile.ryczalt_rate}%` : ''
+                  } · change the tax form and ZUS tier in settings`
+                : 'PIT advances, ZUS and health contributions'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-slate-200 transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setYear(year - 1)}
+                disabled={loading}
+                className="px-3 py-1 rounded-md border border-gray-300 dark:border-slate-600 text-gray-700 dark:text-slate-200 hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+                aria-label="Previous year"
+              >
+                ←
+              </button>
+              <span className="text-lg font-semibold text-gray-900 dark:text-slate-100 w-16 text-center">{year}</span>
+              <button
+                onClick={() => setYear(year + 1)}
+                disabled={loading || year >= new Date().getFullYear()}
+                className="px-3 py-1 rounded-md border border-gray-300 dark:border-slate-600 text-gray-700 dark:text-slate-200 hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+                aria-label="Next year"
+              >
+                →
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-slate-400 max-w-md text-right">
+              Estimated from issued invoices and fuel costs; other costs and deductions are not included.
+            </p>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-red-700 dark:text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          {estimate && nextPayment && (
+            <div className="rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 p-4">
+              <p className="text-sm text-blue-800 dark:text-blue-300">
+                Next payment for {nextPayment.month}, due {nextPayment.due_date}
+                {nextPayment.month === format(new Date(), 'yyyy-MM') && ' (month still open)'}
+              </p>
+              <p className="text-2xl font-bold text-blue-900 dark:text-blue-200">{pln(nextPayment.total_burden)}</p>
+              <p className="text-xs text-blue-700 dark:text-blue-400">
+                PIT {pln(nextPayment.pit_advance)} · social ZUS {pln(nextPayment.social_zus)} · health{' '}
+                {pln(nextPayment.health)}
+              </p>
+            </div>
+          )}
+
+          {estimate && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Revenue', value: estimate.totals.revenue },
+                { label: 'PIT', value: estimate.totals.pit },
+                { label: 'ZUS & Health', value: estimate.totals.social_zus + estimate.totals.health },
+                { label: 'Net Income', value: estimate.totals.net_income },
+              ].map((item) => (
+                <div key={item.label} className="rounded-lg bg-gray-50 dark:bg-slate-700/50 p-4">
+                  <p className="text-xs text-gray-500 dark:text-slate-400">{item.label} (YTD)</p>
+                  <p className="text-lg font-semibold text-gray-900 dark:text-slate-100">{pln(item.value)}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {estimate && estimate.months.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-slate-400 border-b border-gray-200 dark:border-slate-700">
+                    <th className="py-2 pr-3 font-medium">Month</th>
+                    <th className="py-2 pr-3 font-medium text-right">Revenue</th>
+                    <th className="py-2 pr-3 font-medium text-right">Costs</th>
+                    <th className="py-2 pr-3 font-medium text-right">Social ZUS</th>
+                    <th className="py-2 pr-3 font-medium text-right">Health</th>
+                    <th className="py-2 pr-3 font-medium text-right">PIT</th>
+                    <th className="py-2 pr-3 font-medium text-right">To Pay</th>
+                    <th className="py-2 font-medium text-right">Net</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {estimate.months.map((m) => (
+                    <tr key={m.month} className="border-b border-gray-100 dark:border-slate-700/50 text-gray-900 dark:text-slate-100">
+                      <td className="py-2 pr-3">
+                        {m.month}
+                        <span className="block text-xs text-gray-500 dark:text-slate-400">{ZUS_TIER_LABELS[m.zus_tier]}</span>
+                      </td>
+                      <td className="py-2 pr-3 text-right">{pln(m.revenue)}</td>
+                      <td className="py-2 pr-3 text-right">{pln(m.costs)}</td>
+                      <td className="py-2 pr-3 text-right">{pln(m.social_zus)}</td>
+                      <td className="py-2 pr-3 text-right">{pln(m.health)}</td>
+                      <td className="py-2 pr-3 text-right">{pln(m.pit_advance)}</td>
+                      <td className="py-2 pr-3 text-right font-medium">
+                        {pln(m.total_burden)}
+                        <span className="block text-xs font-normal text-gray-500 dark:text-slate-400">by {m.due_date}</span>
+                      </td>
+                      <td className="py-2 text-right">{pln(m.net_income)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="font-semibold text-gray-900 dark:text-slate-100">
+                    <td className="py-2 pr-3">Total</td>
+                    <td className="py-2 pr-3 text-right">{pln(estimate.totals.revenue)}</td>
+                    <td className="py-2 pr-3 text-right">{pln(estimate.totals.costs)}</td>
+                    <td className="py-2 pr-3 text-right">{pln(estimate.totals.social_zus)}</td>
+                    <td className="py-2 pr-3 text-right">{pln(estimate.totals.health)}</td>
+                    <td className="py-2 pr-3 text-right">{pln(estimate.totals.pit)}</td>
+                    <td className="py-2 pr-3 text-right">{pln(estimate.totals.total_burden)}</td>
+                    <td className="py-2 text-right">{pln(estimate.totals.net_income)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+
+          {estimate && estimate.months.length === 0 && !loading && (
+            <p className="text-center text-gray-500 dark:text-slate-400">No months to estimate for {year} yet.</p>
+          )}
+
+          <div className="pt-6 border-t border-gray-200 dark:border-slate-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-slate-100 mb-1">VAT Return (JPK_V7M)</h3>
+            <p className="text-sm text-gray-500 dark:text-slate-400 mb-4">
+              Sales from invoices issued in the month, purchases from recorded fuel. Filing details are set in the Tax settings.
+            </p>
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Month</label>
+                <input
+                  type="month"
+                  value={jpkMonth}
+                  onChange={(e) => setJpkMonth(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md dark:bg-slate-700 dark:text-slate-100"
+                  disabled={jpkLoading}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  VAT carried over (PLN)
+                </label>
+                <input
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={jpkCarryOver}
+                  onChange={(e) => setJpkCarryOver(e.target.value)}
+                  placeholder="0"
+                  className="w-40 px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-md dark:bg-slate-700 dark:text-slate-100"
+                  disabled={jpkLoading}
+                />
+              </div>
+              <label className="flex items-center gap-2 py-2 text-sm text-gray-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={jpkCorrection}
+                  onChange={(e) => setJpkCorrection(e.target.checked)}
+                  disabled={jpkLoading}
+                />
+                Correction
+              </label>
+              <button
+                onClick={handleJpkDownload}
+                disabled={jpkLoading || !jpkMonth}
+                className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {jpkLoading ? 'Generating...' : 'Download XML'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
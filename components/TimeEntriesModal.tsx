@@ -0,0 +1,456 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { ManualTimeEntry, TimesheetColumnMapping, TimesheetImportResult, TrackedProject } from '@/types';
+import { detectCsvDelimiter, isBlankCsvRow, parseCsv } from '@/lib/utils/csv';
+import { detectTimesheetColumns } from '@/lib/utils/timesheet-csv';
+import { format, parse } from 'date-fns';
+
+interface TimeEntriesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  month: string; // YYYY-MM
+  onChanged?: () => void;
+}
+
+interface EntryForm {
+  date: string;
+  hours: string;
+  project_id: string; // '' for a new local project
+  project_name: string;
+  task_name: string;
+}
+
+const inputClassName =
+  'px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-slate-100';
+
+const MAPPING_FIELDS: Array<{ key: keyof TimesheetColumnMapping; label: string; required: boolean }> = [
+  { key: 'date', label: 'Date', required: true },
+  { key: 'duration', label: 'Duration', required: true },
+  { key: 'project', label: 'Project', required: false },
+  { key: 'task', label: 'Task', required: false },
+  { key: 'user', label: 'User', required: false },
+];
+
+const emptyForm = (month: string): EntryForm => ({
+  date: `${month}-01`,
+  hours: '',
+  project_id: '',
+  project_name: '',
+  task_name: '',
+});
+
+export default function TimeEntriesModal({ isOpen, onClose, month, onChanged }: TimeEntriesModalProps) {
+  const [entries, setEntries] = useState<ManualTimeEntry[]>([]);
+  const [projects, setProjects] = useState<TrackedProject[]>([]);
+  const [form, setForm] = useState<EntryForm>(emptyForm(month));
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Partial<TimesheetColumnMapping>>({});
+  const [importResult, setImportResult] = useState<TimesheetImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(emptyForm(month));
+      setEditingId(null);
+      setFile(null);
+      setHeaders([]);
+      setImportResult(null);
+      setError(null);
+      fetchEntries();
+      fetchProjects();
+    }
+  }, [isOpen, month]);
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/time-entries?month=${month}`);
+      if (!response.ok) throw new Error('Failed to fetch time entries');
+      setEntries(await response.json());
+    } catch (err) {
+      console.error('Error fetching time entries:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load time entries');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchProjects = async () => {
+    try {
+      const response = await fetch('/api/time-projects');
+      if (response.ok) {
+        setProjects(await response.json());
+      }
+    } catch (err) {
+      console.error('Error fetching projects:', err);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const project = projects.find((p) => p.id === form.project_id);
+    const projectName = project?.name ?? form.project_name.trim();
+    if (!projectName) {
+      setError('Choose a project or enter a new one');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(editingId ? `/api/time-entries/${editingId}` : '/api/time-entries', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date: form.date,
+          hours: parseFloat(form.hours.replace(',', '.')),
+          project_id: project?.id ?? null,
+          project_name: projectName,
+          task_name: form.task_name.trim() || null,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to save time entry');
+      }
+
+      setForm(emptyForm(month));
+      setEditingId(null);
+      await Promise.all([fetchEntries(), fetchProjects()]);
+      if (onChanged) onChanged();
+    } catch (err) {
+      console.error('Error saving time entry:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save time entry');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (entry: ManualTimeEntry) => {
+    setEditingId(entry.id);
+    setError(null);
+    setForm({
+      date: entry.date,
+      hours: String(Math.round((entry.seconds / 3600) * 100) / 100),
+      project_id: projects.some((p) => p.id === entry.project_id) ? entry.project_id! : '',
+      project_name: entry.project_name ?? '',
+      task_name: entry.task_name ?? '',
+    });
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Delete this time entry?')) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/time-entries/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to delete time entry');
+      }
+
+      await fetchEntries();
+      if (onChanged) onChanged();
+    } catch (err) {
+      console.error('Error deleting time entry:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete time entry');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Headers are read in the browser so the columns can be mapped before uploading
+  const handleFileChange = async (selected: File | null) => {
+    setFile(selected);
+    setImportResult(null);
+    setHeaders([]);
+    setMapping({});
+    if (!selected) return;
+
+    const content = await selected.text();
+    const headerRow = parseCsv(content, detectCsvDelimiter(content)).find((row) => !isBlankCsvRow(row));
+    if (!headerRow) {
+      setError('The timesheet is empty');
+      return;
+    }
+    const fileHeaders = headerRow.cells;
+    setHeaders(fileHeaders);
+    setMapping(detectTimesheetColumns(fileHeaders));
+  };
+
+  const handleImport = async () => {
+    if (!file || !mapping.date || !mapping.duration) {
+      setError('Choose the date and duration columns first');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append(
+        'mapping',
+        JSON.stringify({
+          date: mapping.date,
+          duration: mapping.duration,
+          project: mapping.project ?? null,
+          task: mapping.task ?? null,
+          user: mapping.user ?? null,
+        })
+      );
+      const response = await fetch('/api/time-entries/import', { method: 'POST', body: formData });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to import timesheet');
+      }
+
+      setImportResult(await response.json());
+      setFile(null);
+      setHeaders([]);
+      await Promise.all([fetchEntries(), fetchProjects()]);
+      if (onChanged) onChanged();
+    } catch (err) {
+      console.error('Error importing timesheet:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import timesheet');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatHours = (seconds: number) => `${(seconds / 3600).toFixed(2)} h`;
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-slate-700">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-slate-100">Time Entries</h2>
+            <p className="text-sm text-gray-500 dark:text-slate-400">
+              Hours added by hand or imported from a timesheet · {format(parse(month, 'yyyy-MM', new Date()), 'MMMM yyyy')}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-slate-200 transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-red-700 dark:text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Entry form */}
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Date</label>
+              <input
+                type="date"
+                required
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+                className={`${inputClassName} w-full`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Hours</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                required
+                placeholder="1.5"
+                value={form.hours}
+                onChange={(e) => setForm({ ...form, hours: e.target.value })}
+                className={`${inputClassName} w-full`}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Project</label>
+              <select
+                value={form.project_id}
+                onChange={(e) => setForm({ ...form, project_id: e.target.value })}
+                className={`${inputClassName} w-full`}
+              >
+                <option value="">New project...</option>
+                {projects.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+              {!form.project_id && (
+                <input
+                  type="text"
+                  placeholder="Project name"
+                  value={form.project_name}
+                  onChange={(e) => setForm({ ...form, project_name: e.target.value })}
+                  className={`${inputClassName} w-full mt-2`}
+                />
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Task</label>
+              <input
+                type="text"
+                value={form.task_name}
+                onChange={(e) => setForm({ ...form, task_name: e.target.value })}
+                className={`${inputClassName} w-full`}
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                {editingId ? 'Save' : 'Add'}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingId(null);
+                    setForm(emptyForm(month));
+                  }}
+                  className="px-3 py-2 text-gray-600 dark:text-slate-300 hover:text-gray-800 dark:hover:text-slate-100"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+
+          {/* Timesheet import */}
+          <div className="border border-gray-200 dark:border-slate-700 rounded-lg p-4 space-y-3">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-slate-100">Import CSV timesheet</h3>
+            <input
+              type="file"
+              accept=".csv,.txt"
+              onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+              className="w-full text-sm text-gray-700 dark:text-slate-300"
+            />
+            {headers.length > 0 && (
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {MAPPING_FIELDS.map(({ key, label, required }) => (
+                  <div key={key}>
+                    <label className="block text-xs font-medium text-gray-600 dark:text-slate-400 mb-1">
+                      {label}
+                      {required && ' *'}
+                    </label>
+                    <select
+                      value={mapping[key] ?? ''}
+                      onChange={(e) => setMapping({ ...mapping, [key]: e.target.value || null })}
+                      className={`${inputClassName} w-full text-sm`}
+                    >
+                      <option value="">{required ? 'Choose column...' : 'None'}</option>
+                      {headers.map((h) => (
+                        <option key={h} value={h}>
+                          {h}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end">
+              <button
+                onClick={handleImport}
+                disabled={loading || !file}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium py-2 px-6 rounded-lg transition-colors"
+              >
+                {loading ? 'Working...' : 'Import'}
+              </button>
+            </div>
+            {importResult && (
+              <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded text-green-700 dark:text-green-400 text-sm">
+                Imported {importResult.imported} entr{importResult.imported !== 1 ? 'ies' : 'y'}
+                {importResult.skipped > 0 && `, ${importResult.skipped} already imported`}
+              </div>
+            )}
+          </div>
+
+          {/* Entries of the month */}
+          {entries.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-slate-400 text-sm">
+              No manual or imported entries this month
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-slate-700">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-slate-300">Date</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-slate-300">Project</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-slate-300">Task</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500 dark:text-slate-300">Hours</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-slate-300">Source</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500 dark:text-slate-300">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                {entries.map((entry) => (
+                  <tr key={entry.id}>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-700 dark:text-slate-300">{entry.date}</td>
+                    <td className="px-3 py-2 text-gray-900 dark:text-slate-100">{entry.project_name || '—'}</td>
+                    <td className="px-3 py-2 text-gray-700 dark:text-slate-300">{entry.task_name || '—'}</td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap font-medium text-gray-900 dark:text-slate-100">
+                      {formatHours(entry.seconds)}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded-full ${
+                          entry.source === 'import'
+                            ? 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300'
+                            : 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300'
+                        }`}
+                      >
+                        {entry.source === 'import' ? 'Imported' : 'Manual'}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <div className="flex justify-end gap-3">
+                        <button
+                          onClick={() => handleEdit(entry)}
+                          disabled={loading}
+                          className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 font-medium"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(entry.id)}
+                          disabled={loading}
+                          className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 font-medium"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
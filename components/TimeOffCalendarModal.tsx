@@ -0,0 +1,438 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { CalendarDay, TimeOff, TimeOffCalendar, TimeOffType } from '@/types';
+import { addMonths } from '@/lib/utils/date';
+import { format, getISODay, parse } from 'date-fns';
+
+interface TimeOffCalendarModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  month: string; // YYYY-MM, shown first
+  onChanged?: () => void;
+}
+
+interface TimeOffForm {
+  start_date: string;
+  end_date: string;
+  type: TimeOffType;
+  label: string;
+}
+
+const TYPE_LABELS: Record<TimeOffType, string> = {
+  vacation: 'Vacation',
+  sick: 'Sick day',
+  l4: 'L4',
+  custom: 'Custom',
+};
+
+const TYPE_STYLES: Record<TimeOffType, string> = {
+  vacation: 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300',
+  sick: 'bg-orange-100 dark:bg-orange-900/40 text-orange-800 dark:text-orange-300',
+  l4: 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300',
+  custom: 'bg-purple-100 dark:bg-purple-900/40 text-purple-800 dark:text-purple-300',
+};
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const inputClassName =
+  'px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-slate-100';
+
+const emptyForm = (month: string): TimeOffForm => ({
+  start_date: `${month}-01`,
+  end_date: `${month}-01`,
+  type: 'vacation',
+  label: '',
+});
+
+export default function TimeOffCalendarModal({ isOpen, onClose, month, onChanged }: TimeOffCalendarModalProps) {
+  const [visibleMonth, setVisibleMonth] = useState(month);
+  const [calendar, setCalendar] = useState<TimeOffCalendar | null>(null);
+  const [timeOff, setTimeOff] = useState<TimeOff[]>([]);
+  const [form, setForm] = useState<TimeOffForm>(emptyForm(month));
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [selecting, setSelecting] = useState(false); // first day picked, waiting for the last
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setVisibleMonth(month);
+      setForm(emptyForm(month));
+      setEditingId(null);
+      setSelecting(false);
+      setError(null);
+    }
+  }, [isOpen, month]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchCalendar();
+      fetchTimeOff();
+    }
+  }, [isOpen, visibleMonth]);
+
+  const fetchCalendar = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/time-off/calendar?month=${visibleMonth}`);
+      if (!response.ok) throw new Error('Failed to fetch calendar');
+      setCalendar(await response.json());
+    } catch (err) {
+      console.error('Error fetching calendar:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load calendar');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTimeOff = async () => {
+    try {
+      const response = await fetch(`/api/time-off?year=${visibleMonth.slice(0, 4)}`);
+      if (response.ok) {
+        setTimeOff(await response.json());
+      }
+    } catch (err) {
+      console.error('Error fetching time off:', err);
+    }
+  };
+
+  const refresh = async () => {
+    await Promise.all([fetchCalendar(), fetchTimeOff()]);
+    if (onChanged) onChanged();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(editingId ? `/api/time-off/${editingId}` : '/api/time-off', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          start_date: form.start_date,
+          end_date: form.end_date,
+          type: form.type,
+          label: form.label.trim() || null,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to save time off');
+      }
+
+      setForm(emptyForm(visibleMonth));
+      setEditingId(null);
+      await refresh();
+    } catch (err) {
+      console.error('Error saving time off:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save time off');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (item: TimeOff) => {
+    setEditingId(item.id);
+    setError(null);
+    setForm({ start_date: item.start_date, end_date: item.end_date, type: item.type, label: item.label ?? '' });
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Remove this time off?')) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/time-off/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to remove time off');
+      }
+      if (editingId === id) {
+        setEditingId(null);
+        setForm(emptyForm(visibleMonth));
+      }
+      await refresh();
+    } catch (err) {
+      console.error('Error removing time off:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove time off');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The first click picks the first day off, the next one the last; days already off open for editing
+  const handleDayClick = (day: CalendarDay) => {
+    if (day.time_off) {
+      const item = timeOff.find((t) => t.id === day.time_off!.id);
+      if (item) handleEdit(item);
+      setSelecting(false);
+      return;
+    }
+    if (selecting && day.date >= form.start_date) {
+      setForm({ ...form, end_date: day.date });
+      setSelecting(false);
+    } else {
+      setEditingId(null);
+      setForm({ ...emptyForm(visibleMonth), type: form.type, start_date: day.date, end_date: day.date });
+      setSelecting(true);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const leadingBlanks = calendar?.days.length ? getISODay(parse(calendar.days[0].date, 'yyyy-MM-dd', new Date())) - 1 : 0;
+  const monthTimeOff = timeOff.filter(
+    (t) => t.start_date.slice(0, 7) <= visibleMonth && t.end_date.slice(0, 7) >= visibleMonth
+  );
+  const allowance = calendar?.allowance;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-slate-700">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-slate-100">Time Off</h2>
+            <p className="text-sm text-gray-500 dark:text-slate-400">
+              Holidays, days off and logged hours · days off lower the monthly goal
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-slate-200 transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-red-700 dark:text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Vacation allowance */}
+          {allowance && (
+            <div className="p-4 bg-gray-50 dark:bg-slate-700/50 rounded-lg border border-gray-200 dark:border-slate-600">
+              <div className="flex flex-wrap justify-between items-baseline gap-2 text-sm">
+                <span className="font-medium text-gray-900 dark:text-slate-100">Vacation {allowance.year}</span>
+                <span className="text-gray-600 dark:text-slate-300">
+                  {allowance.used_days} used · {allowance.planned_days} planned ·{' '}
+                  <span
+                    className={
+                      allowance.remaining_days < 0
+                        ? 'font-medium text-red-600 dark:text-red-400'
+                        : 'font-medium text-green-600 dark:text-green-400'
+                    }
+                  >
+                    {allowance.remaining_days} left
+                  </span>{' '}
+                  of {allowance.allowance_days} days
+                </span>
+              </div>
+              <div className="mt-2 w-full bg-gray-200 dark:bg-slate-600 rounded-full h-2 flex overflow-hidden">
+                <div
+                  className="bg-green-600 dark:bg-green-500 h-2"
+                  style={{ width: `${allowance.allowance_days > 0 ? Math.min((allowance.used_days / allowance.allowance_days) * 100, 100) : 0}%` }}
+                ></div>
+                <div
+                  className="bg-green-300 dark:bg-green-800 h-2"
+                  style={{ width: `${allowance.allowance_days > 0 ? Math.min((allowance.planned_days / allowance.allowance_days) * 100, 100) : 0}%` }}
+                ></div>
+              </div>
+            </div>
+          )}
+
+          {/* Month navigation */}
+          <div className="flex justify-between items-center">
+            <button
+              onClick={() => setVisibleMonth(addMonths(visibleMonth, -1))}
+              className="p-2 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 rounded transition-colors"
+              aria-label="Previous month"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <span className="text-lg font-semibold text-gray-900 dark:text-slate-100">
+              {format(parse(visibleMonth, 'yyyy-MM', new Date()), 'MMMM yyyy')}
+            </span>
+            <button
+              onClick={() => setVisibleMonth(addMonths(visibleMonth, 1))}
+              className="p-2 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 rounded transition-colors"
+              aria-label="Next month"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Calendar grid */}
+          <div className="grid grid-cols-7 gap-1">
+            {WEEKDAYS.map((weekday) => (
+              <div key={weekday} className="text-center text-xs font-medium text-gray-500 dark:text-slate-400 uppercase py-1">
+                {weekday}
+              </div>
+            ))}
+            {Array.from({ length: leadingBlanks }, (_, i) => (
+              <div key={`blank-${i}`} />
+            ))}
+            {calendar?.days.map((day) => (
+              <button
+                key={day.date}
+                type="button"
+                onClick={() => handleDayClick(day)}
+                className={`min-h-20 p-1.5 text-left rounded border transition-colors hover:border-blue-400 dark:hover:border-blue-500 ${
+                  day.weekend || day.holiday
+                    ? 'bg-gray-50 dark:bg-slate-900/40 border-gray-100 dark:border-slate-700'
+                    : 'bg-white dark:bg-slate-800 border-gray-200 dark:border-slate-600'
+                } ${form.start_date <= day.date && day.date <= form.end_date ? 'ring-2 ring-blue-400 dark:ring-blue-500' : ''}`}
+              >
+                <div className="flex justify-between items-start">
+                  <span
+                    className={`text-sm font-medium ${
+                      day.holiday ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-slate-100'
+                    }`}
+                  >
+                    {Number(day.date.slice(8))}
+                  </span>
+                  {day.hours > 0 && (
+                    <span className="text-xs text-blue-600 dark:text-blue-400">{day.hours.toFixed(1)}h</span>
+                  )}
+                </div>
+                {day.holiday && (
+                  <p className="text-[10px] leading-tight text-red-600 dark:text-red-400 mt-1 line-clamp-2">{day.holiday}</p>
+                )}
+                {day.time_off && (
+                  <span className={`inline-block mt-1 px-1 rounded text-[10px] ${TYPE_STYLES[day.time_off.type]}`}>
+                    {day.time_off.label || TYPE_LABELS[day.time_off.type]}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {/* Time off form */}
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">From</label>
+              <input
+                type="date"
+                required
+                value={form.start_date}
+                onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                className={`${inputClassName} w-full`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">To</label>
+              <input
+                type="date"
+                required
+                min={form.start_date}
+                value={form.end_date}
+                onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+                className={`${inputClassName} w-full`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Type</label>
+              <select
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as TimeOffType })}
+                className={`${inputClassName} w-full`}
+              >
+                {(Object.keys(TYPE_LABELS) as TimeOffType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Label</label>
+              <input
+                type="text"
+                required={form.type === 'custom'}
+                placeholder={form.type === 'custom' ? 'e.g. Conference' : 'Optional'}
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                className={`${inputClassName} w-full`}
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                {editingId ? 'Save' : 'Add'}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingId(null);
+                    setForm(emptyForm(visibleMonth));
+                  }}
+                  className="px-3 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+
+          {/* Time off touching this month */}
+          {monthTimeOff.length > 0 && (
+            <div className="space-y-2">
+              {monthTimeOff.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex items-center justify-between p-3 bg-gray-50 dark:bg-slate-700/50 rounded-md border border-gray-200 dark:border-slate-600"
+                >
+                  <div className="flex items-center gap-3">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${TYPE_STYLES[item.type]}`}>
+                      {TYPE_LABELS[item.type]}
+                    </span>
+                    <span className="text-sm text-gray-900 dark:text-slate-100">
+                      {item.start_date === item.end_date ? item.start_date : `${item.start_date} – ${item.end_date}`}
+                    </span>
+                    {item.label && <span className="text-sm text-gray-500 dark:text-slate-400">{item.label}</span>}
+                  </div>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => handleEdit(item)}
+                      disabled={loading}
+                      className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium text-sm disabled:opacity-50 transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(item.id)}
+                      disabled={loading}
+                      className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium text-sm disabled:opacity-50 transition-colors"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
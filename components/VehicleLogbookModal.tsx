@@ -0,0 +1,706 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { Client, FuelMonthlyStats, TrackedProject, Trip, TripRoute, Vehicle, VehicleFuelStats, VehicleLogbook } from '@/types';
+import { addMonths } from '@/lib/utils/date';
+import { formatCurrency } from '@/lib/utils/formatters';
+import { format, parse } from 'date-fns';
+import { toast } from 'sonner';
+
+interface VehicleLogbookModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  month: string; // YYYY-MM, shown first
+}
+
+interface VehicleForm {
+  name: string;
+  registration_number: string;
+  logbook_start_date: string;
+  initial_odometer_km: string;
+}
+
+interface TripForm {
+  date: string;
+  origin: string; // empty: home
+  destination: string; // empty: the client's address
+  purpose: string;
+  distance_km: string; // empty: estimated from the addresses
+  driver: string;
+  project_id: string;
+  client_id: string; // empty: the project's client
+}
+
+const inputClassName =
+  'px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-slate-100';
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1';
+
+const emptyVehicleForm = (month: string): VehicleForm => ({
+  name: '',
+  registration_number: '',
+  logbook_start_date: `${month}-01`,
+  initial_odometer_km: '',
+});
+
+const emptyTripForm = (month: string, driver = ''): TripForm => ({
+  date: `${month}-01`,
+  origin: '',
+  destination: '',
+  purpose: '',
+  distance_km: '',
+  driver,
+  project_id: '',
+  client_id: '',
+});
+
+const formatKm = (km: number) => `${km.toLocaleString('pl-PL', { maximumFractionDigits: 1 })} km`;
+
+export default function VehicleLogbookModal({ isOpen, onClose, month }: VehicleLogbookModalProps) {
+  const [visibleMonth, setVisibleMonth] = useState(month);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [projects, setProjects] = useState<TrackedProject[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [vehicleId, setVehicleId] = useState<number | null>(null);
+  const [logbook, setLogbook] = useState<VehicleLogbook | null>(null);
+  const [fuelStats, setFuelStats] = useState<VehicleFuelStats | null>(null);
+  const [showVehicleForm, setShowVehicleForm] = useState(false);
+  const [vehicleForm, setVehicleForm] = useState<VehicleForm>(emptyVehicleForm(month));
+  const [tripForm, setTripForm] = useState<TripForm>(emptyTripForm(month));
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [estimating, setEstimating] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setVisibleMonth(month);
+      setTripForm(emptyTripForm(month));
+      setEditingId(null);
+      setShowVehicleForm(false);
+      setError(null);
+      fetchVehicles();
+      fetchProjectsAndClients();
+    }
+  }, [isOpen, month]);
+
+  useEffect(() => {
+    if (isOpen && vehicleId !== null) {
+      fetchLogbook();
+    }
+  }, [isOpen, vehicleId, visibleMonth]);
+
+  const fetchVehicles = async () => {
+    try {
+      const response = await fetch('/api/vehicles');
+      if (!response.ok) throw new Error('Failed to fetch vehicles');
+      const data: Vehicle[] = await response.json();
+      setVehicles(data);
+      setVehicleId((current) => (current !== null && data.some((v) => v.id === current) ? current : data[0]?.id ?? null));
+      if (data.length === 0) {
+        setLogbook(null);
+        setShowVehicleForm(true);
+      }
+    } catch (err) {
+      console.error('Error fetching vehicles:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load vehicles');
+    }
+  };
+
+  // Only for linking trips; the logbook works without them
+  const fetchProjectsAndClients = async () => {
+    try {
+      const [projectsResponse, clientsResponse] = await Promise.all([fetch('/api/time-projects'), fetch('/api/clients')]);
+      if (projectsResponse.ok) setProjects(await projectsResponse.json());
+      if (clientsResponse.ok) setClients((await clientsResponse.json()).rows || []);
+    } catch (err) {
+      console.error('Error fetching projects and clients:', err);
+    }
+  };
+
+  const fetchLogbook = async () => {
+    setLoading(true);
+    try {
+      const [logbookResponse, statsResponse] = await Promise.all([
+        fetch(`/api/vehicles/${vehicleId}/logbook?month=${visibleMonth}`),
+        fetch(`/api/fuel-transactions/stats?month=${visibleMonth}`),
+      ]);
+      if (!logbookResponse.ok) throw new Error('Failed to fetch logbook');
+      setLogbook(await logbookResponse.json());
+
+      if (statsResponse.ok) {
+        const stats: FuelMonthlyStats = await statsResponse.json();
+        setFuelStats(stats.byVehicle.find((row) => row.vehicle_id === vehicleId) ?? null);
+      }
+    } catch (err) {
+      console.error('Error fetching logbook:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load logbook');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddVehicle = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/vehicles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: vehicleForm.name.trim(),
+          registration_number: vehicleForm.registration_number,
+          logbook_start_date: vehicleForm.logbook_start_date,
+          initial_odometer_km: parseInt(vehicleForm.initial_odometer_km),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to add vehicle');
+      }
+
+      const vehicle: Vehicle = await response.json();
+      setVehicles((current) => [...current, vehicle].sort((a, b) => a.name.localeCompare(b.name)));
+      setVehicleId(vehicle.id);
+      setVehicleForm(emptyVehicleForm(visibleMonth));
+      setShowVehicleForm(false);
+      toast.success(`Added ${vehicle.name}`);
+    } catch (err) {
+      console.error('Error adding vehicle:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add vehicle');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteVehicle = async () => {
+    const vehicle = vehicles.find((v) => v.id === vehicleId);
+    if (!vehicle || !confirm(`Delete ${vehicle.name} and its whole logbook?`)) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/vehicles/${vehicle.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to delete vehicle');
+      }
+      setVehicleId(null);
+      await fetchVehicles();
+    } catch (err) {
+      console.error('Error deleting vehicle:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete vehicle');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Also fills in the home and client addresses the route defaults to
+  const handleEstimate = async () => {
+    setEstimating(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (tripForm.origin.trim()) params.set('origin', tripForm.origin.trim());
+      if (tripForm.destination.trim()) params.set('destination', tripForm.destination.trim());
+      if (tripForm.project_id) params.set('project_id', tripForm.project_id);
+      if (tripForm.client_id) params.set('client_id', tripForm.client_id);
+
+      const response = await fetch(`/api/trips/distance?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to estimate distance');
+      }
+      const route: TripRoute = await response.json();
+      setTripForm((current) => ({
+        ...current,
+        origin: route.origin,
+        destination: route.destination,
+        distance_km: route.distance_km.toString(),
+      }));
+    } catch (err) {
+      console.error('Error estimating distance:', err);
+      setError(err instanceof Error ? err.message : 'Failed to estimate distance');
+    } finally {
+      setEstimating(false);
+    }
+  };
+
+  const handleSubmitTrip = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (vehicleId === null) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(editingId ? `/api/trips/${editingId}` : '/api/trips', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          vehicle_id: vehicleId,
+          date: tripForm.date,
+          origin: tripForm.origin.trim() || null,
+          destination: tripForm.destination.trim() || null,
+          purpose: tripForm.purpose.trim(),
+          distance_km: tripForm.distance_km.trim() ? parseFloat(tripForm.distance_km.replace(',', '.')) : null,
+          driver: tripForm.driver.trim() || null,
+          project_id: tripForm.project_id || null,
+          client_id: tripForm.client_id ? Number(tripForm.client_id) : null,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to save trip');
+      }
+
+      // The driver is usually the same from trip to trip
+      setTripForm(emptyTripForm(visibleMonth, tripForm.driver));
+      setEditingId(null);
+      await fetchLogbook();
+    } catch (err) {
+      console.error('Error saving trip:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save trip');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEditTrip = (trip: Trip) => {
+    setEditingId(trip.id);
+    setError(null);
+    setTripForm({
+      date: trip.date,
+      origin: trip.origin,
+      destination: trip.destination,
+      purpose: trip.purpose,
+      distance_km: trip.distance_km.toString(),
+      driver: trip.driver ?? '',
+      project_id: trip.project_id ?? '',
+      client_id: trip.client_id !== null ? String(trip.client_id) : '',
+    });
+  };
+
+  const handleDeleteTrip = async (id: number) => {
+    if (!confirm('Delete this trip?')) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/trips/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to delete trip');
+      }
+      if (editingId === id) {
+        setEditingId(null);
+        setTripForm(emptyTripForm(visibleMonth, tripForm.driver));
+      }
+      await fetchLogbook();
+    } catch (err) {
+      console.error('Error deleting trip:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete trip');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-slate-700">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-slate-100">Vehicle Logbook</h2>
+            <p className="text-sm text-gray-500 dark:text-slate-400">Ewidencja przebiegu pojazdu · trips and fuel efficiency</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-slate-200 transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-red-700 dark:text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Vehicle selection */}
+          <div className="flex flex-wrap items-end gap-3">
+            {vehicles.length > 0 && (
+              <div className="flex-1 min-w-[200px]">
+                <label className={labelClassName}>Vehicle</label>
+                <select
+                  value={vehicleId ?? ''}
+                  onChange={(e) => {
+                    setVehicleId(Number(e.target.value));
+                    setEditingId(null);
+                    setTripForm(emptyTripForm(visibleMonth, tripForm.driver));
+                  }}
+                  className={`${inputClassName} w-full`}
+                >
+                  {vehicles.map((vehicle) => (
+                    <option key={vehicle.id} value={vehicle.id}>
+                      {vehicle.name} ({vehicle.registration_number})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={() => setShowVehicleForm(!showVehicleForm)}
+              className="px-3 py-2 text-sm text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+            >
+              {showVehicleForm ? 'Cancel' : 'Add vehicle'}
+            </button>
+            {vehicleId !== null && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => window.open(`/api/vehicles/${vehicleId}/logbook/pdf?month=${visibleMonth}`, '_blank')}
+                  className="px-3 py-2 text-sm text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+                >
+                  Download PDF
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDeleteVehicle}
+                  disabled={loading}
+                  className="px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium disabled:opacity-50 transition-colors"
+                >
+                  Delete vehicle
+                </button>
+              </>
+            )}
+          </div>
+
+          {showVehicleForm && (
+            <form
+              onSubmit={handleAddVehicle}
+              className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end p-4 bg-gray-50 dark:bg-slate-700/50 rounded-lg border border-gray-200 dark:border-slate-600"
+            >
+              <div>
+                <label className={labelClassName}>Name</label>
+                <input
+                  type="text"
+                  required
+                  placeholder="e.g. Skoda Octavia"
+                  value={vehicleForm.name}
+                  onChange={(e) => setVehicleForm({ ...vehicleForm, name: e.target.value })}
+                  className={`${inputClassName} w-full`}
+                />
+              </div>
+              <div>
+                <label className={labelClassName}>Registration</label>
+                <input
+                  type="text"
+                  required
+                  placeholder="WA 12345"
+                  value={vehicleForm.registration_number}
+                  onChange={(e) => setVehicleForm({ ...vehicleForm, registration_number: e.target.value })}
+                  className={`${inputClassName} w-full`}
+                />
+              </div>
+              <div>
+                <label className={labelClassName}>Logbook from</label>
+                <input
+                  type="date"
+                  required
+                  value={vehicleForm.logbook_start_date}
+                  onChange={(e) => setVehicleForm({ ...vehicleForm, logbook_start_date: e.target.value })}
+                  className={`${inputClassName} w-full`}
+                />
+              </div>
+              <div>
+                <label className={labelClassName}>Odometer (km)</label>
+                <input
+                  type="number"
+                  required
+                  min="0"
+                  step="1"
+                  value={vehicleForm.initial_odometer_km}
+                  onChange={(e) => setVehicleForm({ ...vehicleForm, initial_odometer_km: e.target.value })}
+                  className={`${inputClassName} w-full`}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={loading}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Add
+              </button>
+            </form>
+          )}
+
+          {vehicleId !== null && (
+            <>
+              {/* Month navigation */}
+              <div className="flex justify-between items-center">
+                <button
+                  onClick={() => setVisibleMonth(addMonths(visibleMonth, -1))}
+                  className="p-2 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 rounded transition-colors"
+                  aria-label="Previous month"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                  </svg>
+                </button>
+                <span className="text-lg font-semibold text-gray-900 dark:text-slate-100">
+                  {format(parse(visibleMonth, 'yyyy-MM', new Date()), 'MMMM yyyy')}
+                </span>
+                <button
+                  onClick={() => setVisibleMonth(addMonths(visibleMonth, 1))}
+                  className="p-2 hover:bg-gray-50 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-200 rounded transition-colors"
+                  aria-label="Next month"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </button>
+              </div>
+
+              {/* Month summary */}
+              {logbook && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="p-4 bg-gray-50 dark:bg-slate-700/50 rounded-lg border border-gray-200 dark:border-slate-600">
+                    <p className="text-sm text-gray-500 dark:text-slate-400">Odometer</p>
+                    <p className="text-xl font-semibold text-gray-900 dark:text-slate-100">{formatKm(logbook.end_odometer_km)}</p>
+                    <p className="text-xs text-gray-500 dark:text-slate-400">from {formatKm(logbook.start_odometer_km)}</p>
+                  </div>
+                  <div className="p-4 bg-gray-50 dark:bg-slate-700/50 rounded-lg border border-gray-200 dark:border-slate-600">
+                    <p className="text-sm text-gray-500 dark:text-slate-400">Logged</p>
+                    <p className="text-xl font-semibold text-gray-900 dark:text-slate-100">{formatKm(logbook.total_km)}</p>
+                    <p className="text-xs text-gray-500 dark:text-slate-400">
+                      {logbook.trips.length} {logbook.trips.length === 1 ? 'trip' : 'trips'}
+                    </p>
+                  </div>
+                  <div className="p-4 bg-gray-50 dark:bg-slate-700/50 rounded-lg border border-gray-200 dark:border-slate-600">
+                    <p className="text-sm text-gray-500 dark:text-slate-400">Consumption</p>
+                    <p className="text-xl font-semibold text-gray-900 dark:text-slate-100">
+                      {fuelStats?.consumption_l_per_100km != null ? `${fuelStats.consumption_l_per_100km} L/100 km` : '—'}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-slate-400">From odometer readings at fill-ups</p>
+                  </div>
+                  <div className="p-4 bg-gray-50 dark:bg-slate-700/50 rounded-lg border border-gray-200 dark:border-slate-600">
+                    <p className="text-sm text-gray-500 dark:text-slate-400">Fuel cost per km</p>
+                    <p className="text-xl font-semibold text-gray-900 dark:text-slate-100">
+                      {fuelStats?.cost_per_km != null ? formatCurrency(fuelStats.cost_per_km) : '—'}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-slate-400">
+                      {fuelStats && fuelStats.distance_km > 0 ? `Over ${formatKm(fuelStats.distance_km)} driven` : 'No readings this month'}
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {/* Trip form */}
+              <form onSubmit={handleSubmitTrip} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                <div>
+                  <label className={labelClassName}>Date</label>
+                  <input
+                    type="date"
+                    required
+                    value={tripForm.date}
+                    onChange={(e) => setTripForm({ ...tripForm, date: e.target.value })}
+                    className={`${inputClassName} w-full`}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>From</label>
+                  <input
+                    type="text"
+                    placeholder="Home"
+                    value={tripForm.origin}
+                    onChange={(e) => setTripForm({ ...tripForm, origin: e.target.value })}
+                    className={`${inputClassName} w-full`}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>To</label>
+                  <input
+                    type="text"
+                    placeholder="Client's address"
+                    value={tripForm.destination}
+                    onChange={(e) => setTripForm({ ...tripForm, destination: e.target.value })}
+                    className={`${inputClassName} w-full`}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>Purpose</label>
+                  <input
+                    type="text"
+                    required
+                    placeholder="e.g. Client meeting"
+                    value={tripForm.purpose}
+                    onChange={(e) => setTripForm({ ...tripForm, purpose: e.target.value })}
+                    className={`${inputClassName} w-full`}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>Distance (km)</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min="0.1"
+                      step="0.1"
+                      placeholder="Estimated"
+                      value={tripForm.distance_km}
+                      onChange={(e) => setTripForm({ ...tripForm, distance_km: e.target.value })}
+                      className={`${inputClassName} w-full`}
+                    />
+                    <button
+                      type="button"
+                      onClick={handleEstimate}
+                      disabled={estimating}
+                      className="px-3 py-2 text-sm text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+                      title="Straight-line distance between the addresses"
+                    >
+                      {estimating ? '…' : 'Estimate'}
+                    </button>
+                  </div>
+                </div>
+                <div>
+                  <label className={labelClassName}>Driver</label>
+                  <input
+                    type="text"
+                    placeholder="Optional"
+                    value={tripForm.driver}
+                    onChange={(e) => setTripForm({ ...tripForm, driver: e.target.value })}
+                    className={`${inputClassName} w-full`}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>Project</label>
+                  <select
+                    value={tripForm.project_id}
+                    onChange={(e) => setTripForm({ ...tripForm, project_id: e.target.value })}
+                    className={`${inputClassName} w-full`}
+                  >
+                    <option value="">None</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClassName}>Client</label>
+                  <select
+                    value={tripForm.client_id}
+                    onChange={(e) => setTripForm({ ...tripForm, client_id: e.target.value })}
+                    className={`${inputClassName} w-full`}
+                  >
+                    <option value="">{tripForm.project_id ? "Project's client" : 'None'}</option>
+                    {clients.map((client) => (
+                      <option key={client.id} value={client.id}>
+                        {client.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex gap-2 md:col-span-4">
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                  >
+                    {editingId ? 'Save' : 'Add trip'}
+                  </button>
+                  {editingId && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditingId(null);
+                        setTripForm(emptyTripForm(visibleMonth, tripForm.driver));
+                      }}
+                      className="px-3 py-2 text-gray-700 dark:text-slate-300 border border-gray-300 dark:border-slate-600 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </form>
+
+              {/* Trips of the month */}
+              {!logbook || logbook.trips.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-4">No trips this month</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-slate-700">
+                    <thead className="bg-gray-50 dark:bg-slate-700/50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-slate-400 uppercase">Date</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-slate-400 uppercase">Route</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-slate-400 uppercase">Purpose</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-slate-400 uppercase">Distance</th>
+                        <th className="px-3 py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                      {logbook.trips.map((trip) => (
+                        <tr key={trip.id} className="hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
+                          <td className="px-3 py-2 text-sm text-gray-900 dark:text-slate-100 whitespace-nowrap">{trip.date}</td>
+                          <td className="px-3 py-2 text-sm">
+                            <div className="text-gray-900 dark:text-slate-100">
+                              {trip.origin} → {trip.destination}
+                            </div>
+                            {(trip.project_id || trip.driver) && (
+                              <div className="text-xs text-gray-500 dark:text-slate-400">
+                                {[trip.project_id && (projects.find((p) => p.id === trip.project_id)?.name ?? trip.project_id), trip.driver]
+                                  .filter(Boolean)
+                                  .join(' · ')}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-sm text-gray-900 dark:text-slate-100">{trip.purpose}</td>
+                          <td className="px-3 py-2 text-sm text-right text-gray-900 dark:text-slate-100 whitespace-nowrap">
+                            {formatKm(trip.distance_km)}
+                          </td>
+                          <td className="px-3 py-2 text-sm text-right whitespace-nowrap">
+                            <div className="flex justify-end gap-3">
+                              <button
+                                onClick={() => handleEditTrip(trip)}
+                                disabled={loading}
+                                className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium disabled:opacity-50 transition-colors"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handleDeleteTrip(trip.id)}
+                                disabled={loading}
+                                className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium disabled:opacity-50 transition-colors"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Client } from '@/types';
+import { Client, TrackedProject, ProjectClient } from '@/types';
+import { formatTaxId } from '@/lib/utils/countries';
 
 interface ClientManagementModalProps {
   isOpen: boolean;
@@ -17,12 +18,16 @@ export default function ClientManagementModal({ isOpen, onClose, onClientChange
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [trackedProjects, setTrackedProjects] = useState<TrackedProject[]>([]);
+  const [projectClients, setProjectClients] = useState<ProjectClient[]>([]);
+  const [linkedProjectIds, setLinkedProjectIds] = useState<string[]>([]);
   
   // Form state
   const [editingClient, setEditingClient] = useState<Client | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     nip: '',
+    country_code: 'PL',
     address: '',
     city: '',
     postal_code: '',
@@ -33,6 +38,7 @@ export default function ClientManagementModal({ isOpen, onClose, onClientChange
   useEffect(() => {
     if (isOpen) {
       fetchClients();
+      fetchProjects();
     }
   }, [isOpen]);
 
@@ -52,10 +58,60 @@ export default function ClientManagementModal({ isOpen, onClose, onClientChange
     }
   };
 
+  const fetchProjects = async () => {
+    try {
+      const [projectsRes, projectClientsRes] = await Promise.all([
+        fetch('/api/time-projects'),
+        fetch('/api/project-clients'),
+      ]);
+      if (projectsRes.ok) setTrackedProjects(await projectsRes.json());
+      if (projectClientsRes.ok) setProjectClients(await projectClientsRes.json());
+    } catch (err) {
+      // Project linking is optional; the client list works without a time tracker
+      console.error('Error fetching projects:', err);
+    }
+  };
+
+  const getProjectName = (projectId: string) =>
+    trackedProjects.find((p) => p.id === projectId)?.name || projectId;
+
+  const toggleLinkedProject = (projectId: string) => {
+    setLinkedProjectIds(
+      linkedProjectIds.includes(projectId)
+        ? linkedProjectIds.filter((id) => id !== projectId)
+        : [...linkedProjectIds, projectId]
+    );
+  };
+
+  const saveProjectLinks = async (clientId: number) => {
+    const wasLinked = new Set(
+      projectClients.filter((pc) => pc.client_id === clientId).map((pc) => pc.project_id)
+    );
+    const changed = trackedProjects
+      .map((p) => p.id)
+      .filter((id) => wasLinked.has(id) !== linkedProjectIds.includes(id));
+
+    for (const projectId of changed) {
+      const response = await fetch('/api/project-clients', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          project_id: projectId,
+          client_id: linkedProjectIds.includes(projectId) ? clientId : null,
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to link project');
+      }
+    }
+  };
+
   const handleAdd = () => {
     setFormData({
       name: '',
       nip: '',
+      country_code: 'PL',
       address: '',
       city: '',
       postal_code: '',
@@ -63,6 +119,7 @@ export default function ClientManagementModal({ isOpen, onClose, onClientChange
       phone: '',
     });
     setEditingClient(null);
+    setLinkedProjectIds([]);
     setMode('add');
     setError(null);
   };
@@ -71,6 +128,7 @@ export default function ClientManagementModal({ isOpen, onClose, onClientChange
     setFormData({
       name: client.name,
       nip: client.nip,
+      country_code: client.country_code,
       address: client.address || '',
       city: client.city || '',
       postal_code: client.postal_code || '',
@@ -78,6 +136,9 @@ export default function ClientManagementModal({ isOpen, onClose, onClientChange
       phone: client.phone || '',
     });
     setEditingClient(client);
+    setLinkedProjectIds(
+      projectClients.filter((pc) => pc.client_id === client.id).map((pc) => pc.project_id)
+    );
     setMode('edit');
     setError(null);
   };
@@ -127,7 +188,11 @@ export default function ClientManagementModal({ isOpen, onClose, onClientChange
         throw new Error(errorData.error || 'Failed to save client');
       }
 
+      const saved: Client = await response.json();
+      await saveProjectLinks(saved.id);
+
       await fetchClients();
+      await fetchProjects();
       if (onClientChange) onClientChange();
       setMode('list');
     } catch (err) {
@@ -208,7 +273,7 @@ export default function ClientManagementModal({ isOpen, onClose, onClientChange
                       <div className="flex justify-between items-start">
                         <div className="flex-1">
                           <h3 className="font-medium text-gray-900 dark:text-slate-100">{client.name}</h3>
-                          <p className="text-sm text-gray-500 dark:text-slate-400">NIP: {client.nip}</p>
+                          <p className="text-sm text-gray-500 dark:text-slate-400">NIP: {formatTaxId(client.nip, client.country_code)}</p>
                           {client.email && (
                             <p className="text-sm text-gray-500 dark:text-slate-400">{client.email}</p>
                           )}
@@ -217,6 +282,15 @@ export default function ClientManagementModal({ isOpen, onClose, onClientChange
                               {client.address}, {client.postal_code} {client.city}
                             </p>
                           )}
+                          {projectClients.some((pc) => pc.client_id === client.id) && (
+                            <p className="text-sm text-gray-500 dark:text-slate-400">
+                              Projects:{' '}
+                              {projectClients
+                                .filter((pc) => pc.client_id === client.id)
+                                .map((pc) => getProjectName(pc.project_id))
+                                .join(', ')}
+                            </p>
+                          )}
                         </div>
                         <div className="flex gap-2">
                           <button
@@ -255,18 +329,34 @@ export default function ClientManagementModal({ isOpen, onClose, onClientChange
                 />
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
-                  NIP *
-                </label>
-                <input
-                  type="text"
-                  value={formData.nip}
-                  onChange={(e) => setFormData({ ...formData, nip: e.target.value })}
-                  required
-                  placeholder="1234567890"
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-slate-100"
-                />
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                    Country *
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.country_code}
+                    onChange={(e) => setFormData({ ...formData, country_code: e.target.value.toUpperCase() })}
+                    required
+                    maxLength={2}
+                    placeholder="PL"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-slate-100"
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                    {formData.country_code === 'PL' ? 'NIP *' : 'VAT / Tax ID *'}
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.nip}
+                    onChange={(e) => setFormData({ ...formData, nip: e.target.value })}
+                    required
+                    placeholder={formData.country_code === 'PL' ? '1234567890' : 'DE123456789'}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-slate-100"
+                  />
+                </div>
               </div>
 
               <div>
@@ -332,6 +422,37 @@ export default function ClientManagementModal({ isOpen, onClose, onClientChange
                 />
               </div>
 
+              {trackedProjects.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                    Tracked Projects
+                  </label>
+                  <div className="border border-gray-300 dark:border-slate-600 rounded-lg max-h-48 overflow-y-auto divide-y divide-gray-200 dark:divide-slate-700">
+                    {trackedProjects.map((project) => {
+                      const otherClient = projectClients.find(
+                        (pc) => pc.project_id === project.id && pc.client_id !== editingClient?.id
+                      );
+                      return (
+                        <label
+                          key={project.id}
+                          className="flex items-center gap-3 px-3 py-2 text-sm text-gray-900 dark:text-slate-100 cursor-pointer hover:bg-gray-50 dark:hover:bg-slate-700"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={linkedProjectIds.includes(project.id)}
+                            onChange={() => toggleLinkedProject(project.id)}
+                          />
+                          <span className="flex-1">{project.name}</span>
+                          {otherClient && (
+                            <span className="text-xs text-gray-500 dark:text-slate-400">{otherClient.client_name}</span>
+                          )}
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-slate-700">
                 <button
                   type="button"
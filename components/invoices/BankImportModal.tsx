@@ -0,0 +1,277 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { BankImportResult, BankTransactionListItem, Invoice, InvoiceBalance } from '@/types';
+
+interface BankImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged?: () => void;
+}
+
+interface OpenInvoice extends Invoice, InvoiceBalance {
+  client_name: string;
+}
+
+const inputClassName =
+  'px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-slate-100';
+
+const MATCH_REASON_LABELS: Record<string, string> = {
+  invoice_number: 'number',
+  amount: 'amount',
+  nip: 'NIP',
+};
+
+export default function BankImportModal({ isOpen, onClose, onChanged }: BankImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<BankImportResult | null>(null);
+  const [transactions, setTransactions] = useState<BankTransactionListItem[]>([]);
+  const [openInvoices, setOpenInvoices] = useState<OpenInvoice[]>([]);
+  const [selectedInvoices, setSelectedInvoices] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null);
+      setResult(null);
+      setError(null);
+      fetchPending();
+    }
+  }, [isOpen]);
+
+  const fetchPending = async () => {
+    setLoading(true);
+    try {
+      const [proposedRes, unmatchedRes, invoicesRes] = await Promise.all([
+        fetch('/api/bank-transactions?status=proposed'),
+        fetch('/api/bank-transactions?status=unmatched'),
+        fetch('/api/invoices?status=issued&type=VAT&limit=200'),
+      ]);
+      if (!proposedRes.ok || !unmatchedRes.ok || !invoicesRes.ok) {
+        throw new Error('Failed to fetch bank transactions');
+      }
+
+      const pending: BankTransactionListItem[] = [...(await proposedRes.json()), ...(await unmatchedRes.json())];
+      const invoices: OpenInvoice[] = ((await invoicesRes.json()).rows || []).filter(
+        (inv: OpenInvoice) => inv.outstanding_grosze > 0
+      );
+
+      setTransactions(pending);
+      setOpenInvoices(invoices);
+      setSelectedInvoices(
+        Object.fromEntries(pending.map((t) => [t.id, t.proposed_invoice_id ? String(t.proposed_invoice_id) : '']))
+      );
+    } catch (err) {
+      console.error('Error fetching bank transactions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load bank transactions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) {
+      setError('Choose an MT940 or CSV statement first');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/bank-statements', { method: 'POST', body: formData });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to import statement');
+      }
+
+      setResult(await response.json());
+      setFile(null);
+      await fetchPending();
+    } catch (err) {
+      console.error('Error importing statement:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import statement');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAction = async (transactionId: number, action: 'confirm' | 'ignore') => {
+    const invoiceId = selectedInvoices[transactionId];
+    if (action === 'confirm' && !invoiceId) {
+      setError('Choose an invoice for this transaction');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/bank-transactions/${transactionId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'confirm' ? { invoice_id: parseInt(invoiceId) } : {}),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || `Failed to ${action} transaction`);
+      }
+
+      await fetchPending();
+      if (action === 'confirm' && onChanged) onChanged();
+    } catch (err) {
+      console.error(`Error on ${action}:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action} transaction`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatAmount = (grosze: number, currency: string) => `${(grosze / 100).toFixed(2)} ${currency}`;
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-slate-700">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-slate-100">Bank Statements</h2>
+            <p className="text-sm text-gray-500 dark:text-slate-400">
+              Import MT940 or CSV (mBank, ING) and match incoming transfers to invoices
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-slate-200 transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-red-700 dark:text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 items-center">
+            <input
+              type="file"
+              accept=".sta,.mt940,.txt,.csv"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="flex-1 text-sm text-gray-700 dark:text-slate-300"
+            />
+            <button
+              onClick={handleImport}
+              disabled={loading || !file}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium py-2 px-6 rounded-lg transition-colors"
+            >
+              {loading ? 'Working...' : 'Import'}
+            </button>
+          </div>
+
+          {result && (
+            <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded text-green-700 dark:text-green-400 text-sm">
+              Imported {result.imported} incoming transfer{result.imported !== 1 ? 's' : ''} from {result.statement.file_name}
+              {result.proposed > 0 && `, ${result.proposed} matched to invoices`}
+              {result.duplicates > 0 && `, ${result.duplicates} already imported`}
+              {result.skipped_outgoing > 0 && `, ${result.skipped_outgoing} outgoing skipped`}
+            </div>
+          )}
+
+          {result && result.unreadable.length > 0 && (
+            <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded text-yellow-800 dark:text-yellow-300 text-sm">
+              {result.unreadable.length} row{result.unreadable.length !== 1 ? 's' : ''} could not be read and {result.unreadable.length !== 1 ? 'were' : 'was'} left out:
+              <ul className="mt-1 list-disc list-inside">
+                {result.unreadable.map((row) => (
+                  <li key={row}>{row}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {transactions.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-slate-400 text-sm">
+              No transfers waiting for review
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-slate-700">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-slate-300">Date</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-slate-300">Transfer</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500 dark:text-slate-300">Amount</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-slate-300">Invoice</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500 dark:text-slate-300">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                {transactions.map((t) => (
+                  <tr key={t.id}>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-700 dark:text-slate-300">{t.booking_date}</td>
+                    <td className="px-3 py-2 text-gray-700 dark:text-slate-300">
+                      <div className="font-medium">{t.counterparty_name || '—'}</div>
+                      <div className="text-xs text-gray-500 dark:text-slate-400 break-all">{t.title}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap font-medium text-gray-900 dark:text-slate-100">
+                      {formatAmount(t.amount_grosze, t.currency)}
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={selectedInvoices[t.id] ?? ''}
+                        onChange={(e) => setSelectedInvoices((prev) => ({ ...prev, [t.id]: e.target.value }))}
+                        className={`${inputClassName} w-full`}
+                      >
+                        <option value="">Choose invoice...</option>
+                        {openInvoices
+                          .filter((inv) => inv.currency === t.currency)
+                          .map((inv) => (
+                            <option key={inv.id} value={inv.id}>
+                              {inv.invoice_number} · {inv.client_name} · {formatAmount(inv.outstanding_grosze, inv.currency)}
+                            </option>
+                          ))}
+                      </select>
+                      {t.status === 'proposed' && t.match_reasons && (
+                        <div className="text-xs text-blue-600 dark:text-blue-400 mt-1">
+                          Proposed by {t.match_reasons.split(',').map((r) => MATCH_REASON_LABELS[r] ?? r).join(', ')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <div className="flex justify-end gap-3">
+                        <button
+                          onClick={() => handleAction(t.id, 'confirm')}
+                          disabled={loading}
+                          className="text-green-600 hover:text-green-700 dark:text-green-400 dark:hover:text-green-300 font-medium"
+                        >
+                          Confirm
+                        </button>
+                        <button
+                          onClick={() => handleAction(t.id, 'ignore')}
+                          disabled={loading}
+                          className="text-gray-500 hover:text-gray-700 dark:text-slate-400 dark:hover:text-slate-200 font-medium"
+                        >
+                          Ignore
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
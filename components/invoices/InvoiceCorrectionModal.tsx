@@ -0,0 +1,292 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { InvoiceWithItems, VatRate } from '@/types';
+
+interface InvoiceCorrectionModalProps {
+  isOpen: boolean;
+  invoiceId: number | null;
+  onClose: () => void;
+  onCreated?: () => void;
+}
+
+interface CorrectionRow {
+  name: string;
+  quantity: string;
+  unit: string;
+  unitPrice: string; // PLN, as typed
+  vatRate: VatRate;
+}
+
+const VAT_RATES: VatRate[] = [23, 8, 5, 0, 'ZW', 'NP'];
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-slate-100';
+
+export default function InvoiceCorrectionModal({ isOpen, invoiceId, onClose, onCreated }: InvoiceCorrectionModalProps) {
+  const [original, setOriginal] = useState<InvoiceWithItems | null>(null);
+  const [rows, setRows] = useState<CorrectionRow[]>([]);
+  const [reason, setReason] = useState('');
+  const [issueDate, setIssueDate] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && invoiceId) {
+      setReason('');
+      setIssueDate(new Date().toISOString().split('T')[0]);
+      fetchOriginal(invoiceId);
+    }
+  }, [isOpen, invoiceId]);
+
+  const fetchOriginal = async (id: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/invoices/${id}`);
+      if (!response.ok) throw new Error('Failed to fetch invoice');
+
+      const data: InvoiceWithItems = await response.json();
+      setOriginal(data);
+      setRows(
+        data.items
+          .filter((item) => !item.state_before)
+          .map((item) => ({
+            name: item.name,
+            quantity: item.quantity,
+            unit: item.unit,
+            unitPrice: (item.unit_price_grosze / 100).toFixed(2),
+            vatRate: item.vat_rate,
+          }))
+      );
+    } catch (err) {
+      console.error('Error fetching invoice:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load invoice');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRow = (index: number, patch: Partial<CorrectionRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const removeRow = (index: number) => {
+    setRows(rows.filter((_, i) => i !== index));
+  };
+
+  const addRow = () => {
+    setRows([...rows, { name: '', quantity: '1', unit: 'h', unitPrice: '', vatRate: 23 }]);
+  };
+
+  const handleSubmit = async (issue: boolean) => {
+    if (!invoiceId) return;
+
+    if (!reason.trim()) {
+      setError('Correction reason is required');
+      return;
+    }
+    if (rows.length === 0) {
+      setError('A correction needs at least one item');
+      return;
+    }
+
+    const items = [];
+    for (const row of rows) {
+      const unitPriceGrosze = Math.round(parseFloat(row.unitPrice.replace(',', '.')) * 100);
+      if (!row.name.trim() || isNaN(unitPriceGrosze) || unitPriceGrosze < 0) {
+        setError('Every item needs a name and a valid unit price');
+        return;
+      }
+      items.push({
+        name: row.name.trim(),
+        quantity: row.quantity,
+        unit: row.unit,
+        unit_price_grosze: unitPriceGrosze,
+        vat_rate: row.vatRate,
+      });
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/invoices/${invoiceId}/corrections`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ issue_date: issueDate, reason: reason.trim(), items }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create correction');
+      }
+
+      const correction = await response.json();
+
+      if (issue) {
+        const issueResponse = await fetch(`/api/invoices/${correction.id}/issue`, { method: 'POST' });
+        if (!issueResponse.ok) {
+          const errorData = await issueResponse.json();
+          throw new Error(errorData.error || 'Correction saved as draft, but issuing failed');
+        }
+      }
+
+      if (onCreated) onCreated();
+      onClose();
+    } catch (err) {
+      console.error('Error creating correction:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create correction');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-slate-700">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-slate-100">Correction Invoice</h2>
+            {original && (
+              <p className="text-sm text-gray-500 dark:text-slate-400">
+                Corrects {original.invoice.invoice_number} issued {original.invoice.issue_date} for {original.client.name}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-slate-200 transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-red-700 dark:text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                Reason for correction *
+              </label>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Wrong number of hours billed"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                Issue Date
+              </label>
+              <input
+                type="date"
+                value={issueDate}
+                onChange={(e) => setIssueDate(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-slate-300">Items after correction</h3>
+              <button
+                onClick={addRow}
+                className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 font-medium text-sm"
+              >
+                Add item
+              </button>
+            </div>
+            <div className="space-y-2">
+              {rows.map((row, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <input
+                    type="text"
+                    value={row.name}
+                    onChange={(e) => updateRow(index, { name: e.target.value })}
+                    placeholder="Name"
+                    className={`${inputClassName} col-span-5`}
+                  />
+                  <input
+                    type="text"
+                    value={row.quantity}
+                    onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                    placeholder="Qty"
+                    className={`${inputClassName} col-span-2`}
+                  />
+                  <input
+                    type="text"
+                    value={row.unitPrice}
+                    onChange={(e) => updateRow(index, { unitPrice: e.target.value })}
+                    placeholder="Net price"
+                    className={`${inputClassName} col-span-2`}
+                  />
+                  <select
+                    value={String(row.vatRate)}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      updateRow(index, { vatRate: (value === 'ZW' || value === 'NP' ? value : Number(value)) as VatRate });
+                    }}
+                    className={`${inputClassName} col-span-2`}
+                  >
+                    {VAT_RATES.map((rate) => (
+                      <option key={rate} value={String(rate)}>
+                        {typeof rate === 'number' ? `${rate}%` : rate}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => removeRow(index)}
+                    className="col-span-1 text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 font-medium text-sm"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-gray-500 dark:text-slate-400">
+              The original rows are copied onto the correction automatically; the totals are the difference.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-slate-700">
+            <button
+              onClick={onClose}
+              className="text-gray-700 dark:text-slate-200 hover:text-gray-900 dark:hover:text-slate-100 font-medium py-2 px-6"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => handleSubmit(false)}
+              disabled={loading || !original}
+              className="border border-blue-600 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-slate-700 disabled:opacity-50 font-medium py-2 px-6 rounded-lg transition-colors"
+            >
+              Save Draft
+            </button>
+            <button
+              onClick={() => handleSubmit(true)}
+              disabled={loading || !original}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium py-2 px-6 rounded-lg transition-colors"
+            >
+              {loading ? 'Saving...' : 'Issue Correction'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
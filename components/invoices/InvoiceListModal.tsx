@@ -1,16 +1,23 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import type { Invoice } from '@/types';
+import type { Invoice, InvoiceBalance } from '@/types';
+import InvoiceCorrectionModal from './InvoiceCorrectionModal';
+import InvoicePaymentsModal from './InvoicePaymentsModal';
+import BankImportModal from './BankImportModal';
 
 interface InvoiceListModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-interface InvoiceListItem extends Invoice {
+interface InvoiceListItem extends Invoice, InvoiceBalance {
   client_name: string;
   client_nip: string;
+  corrected_invoice_number: string | null;
+  proforma_number: string | null;
+  converted_invoice_id: number | null;
+  converted_invoice_number: string | null;
 }
 
 export default function InvoiceListModal({ isOpen, onClose }: InvoiceListModalProps) {
@@ -19,6 +26,11 @@ export default function InvoiceListModal({ isOpen, onClose }: InvoiceListModalPr
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [paymentFilter, setPaymentFilter] = useState<string>('all');
+  const [correctingInvoiceId, setCorrectingInvoiceId] = useState<number | null>(null);
+  const [paymentsInvoice, setPaymentsInvoice] = useState<InvoiceListItem | null>(null);
+  const [showBankImport, setShowBankImport] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
@@ -33,6 +45,8 @@ export default function InvoiceListModal({ isOpen, onClose }: InvoiceListModalPr
       const params = new URLSearchParams();
       if (searchQuery) params.append('q', searchQuery);
       if (statusFilter !== 'all') params.append('status', statusFilter);
+      if (typeFilter !== 'all') params.append('type', typeFilter);
+      if (paymentFilter !== 'all') params.append('payment', paymentFilter);
 
       const response = await fetch(`/api/invoices?${params.toString()}`);
       if (!response.ok) throw new Error('Failed to fetch invoices');
@@ -71,6 +85,53 @@ export default function InvoiceListModal({ isOpen, onClose }: InvoiceListModalPr
     }
   };
 
+  const handleConvertProforma = async (invoiceId: number, invoiceNumber: string) => {
+    if (!confirm(`Create a VAT invoice draft from proforma ${invoiceNumber}?`)) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/invoices/${invoiceId}/convert`, { method: 'POST' });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to convert proforma');
+      }
+
+      await fetchInvoices();
+    } catch (err) {
+      console.error('Error converting proforma:', err);
+      setError(err instanceof Error ? err.message : 'Failed to convert proforma');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // POST sends the invoice, GET polls KSeF for a previously sent one
+  const handleKsef = async (invoiceId: number, method: 'POST' | 'GET') => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/invoices/${invoiceId}/ksef`, { method });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'KSeF request failed');
+      }
+
+      await fetchInvoices();
+    } catch (err) {
+      console.error('Error communicating with KSeF:', err);
+      setError(err instanceof Error ? err.message : 'KSeF request failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownloadUpo = (invoiceId: number) => {
+    window.open(`/api/invoices/${invoiceId}/ksef/upo`, '_blank');
+  };
+
   const handleDownloadPdf = (invoiceId: number) => {
     window.open(`/api/invoices/${invoiceId}/pdf`, '_blank');
   };
@@ -79,8 +140,8 @@ export default function InvoiceListModal({ isOpen, onClose }: InvoiceListModalPr
     window.open(`/api/invoices/${invoiceId}/xml`, '_blank');
   };
 
-  const formatCurrency = (grosze: number) => {
-    return (grosze / 100).toFixed(2) + ' PLN';
+  const formatCurrency = (grosze: number, currency: string = 'PLN') => {
+    return (grosze / 100).toFixed(2) + ' ' + currency;
   };
 
   const getStatusBadge = (status: string) => {
@@ -97,6 +158,54 @@ export default function InvoiceListModal({ isOpen, onClose }: InvoiceListModalPr
     );
   };
 
+  const getPaymentBadge = (invoice: InvoiceListItem) => {
+    if (!invoice.payment_status) return null;
+
+    if (invoice.days_overdue > 0) {
+      return (
+        <span className="px-2 py-1 text-xs font-medium rounded bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300">
+          OVERDUE {invoice.days_overdue}D
+        </span>
+      );
+    }
+
+    const styles = {
+      paid: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+      partially_paid: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300',
+      unpaid: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+    };
+    const labels = { paid: 'PAID', partially_paid: 'PARTIAL', unpaid: 'UNPAID' };
+
+    return (
+      <span className={`px-2 py-1 text-xs font-medium rounded ${styles[invoice.payment_status]}`}>
+        {labels[invoice.payment_status]}
+      </span>
+    );
+  };
+
+  const getKsefBadge = (invoice: InvoiceListItem) => {
+    if (!invoice.ksef_status) return null;
+
+    const styles = {
+      processing: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+      accepted: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+      rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+    };
+    const labels = { processing: 'KSEF PENDING', accepted: 'KSEF', rejected: 'KSEF REJECTED' };
+    const title =
+      invoice.ksef_status === 'accepted'
+        ? [`KSeF number: ${invoice.ksef_number}`, invoice.ksef_error].filter(Boolean).join('\n')
+        : invoice.ksef_status === 'rejected'
+          ? invoice.ksef_error ?? undefined
+          : `Sent ${invoice.ksef_sent_at}`;
+
+    return (
+      <span className={`px-2 py-1 text-xs font-medium rounded ${styles[invoice.ksef_status]}`} title={title}>
+        {labels[invoice.ksef_status]}
+      </span>
+    );
+  };
+
   const filteredInvoices = invoices;
 
   if (!isOpen) return null;
@@ -147,6 +256,27 @@ export default function InvoiceListModal({ isOpen, onClose }: InvoiceListModalPr
               <option value="issued">Issued</option>
               <option value="cancelled">Cancelled</option>
             </select>
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-slate-100"
+            >
+              <option value="all">All Types</option>
+              <option value="VAT">VAT</option>
+              <option value="KOR">Corrections</option>
+              <option value="PRO">Proforma</option>
+            </select>
+            <select
+              value={paymentFilter}
+              onChange={(e) => setPaymentFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-slate-100"
+            >
+              <option value="all">All Payments</option>
+              <option value="unpaid">Unpaid</option>
+              <option value="partially_paid">Partially paid</option>
+              <option value="paid">Paid</option>
+              <option value="overdue">Overdue</option>
+            </select>
             <button
               onClick={fetchInvoices}
               disabled={loading}
@@ -154,6 +284,12 @@ export default function InvoiceListModal({ isOpen, onClose }: InvoiceListModalPr
             >
               {loading ? 'Loading...' : 'Search'}
             </button>
+            <button
+              onClick={() => setShowBankImport(true)}
+              className="bg-gray-100 hover:bg-gray-200 dark:bg-slate-700 dark:hover:bg-slate-600 text-gray-700 dark:text-slate-200 font-medium py-2 px-4 rounded-lg transition-colors whitespace-nowrap"
+            >
+              Import Statement
+            </button>
           </div>
 
           {/* Invoice List */}
@@ -192,7 +328,34 @@ export default function InvoiceListModal({ isOpen, onClose }: InvoiceListModalPr
                   {filteredInvoices.map((invoice) => (
                     <tr key={invoice.id} className="hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
                       <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-slate-100">
-                        {invoice.invoice_number}
+                        <div className="flex items-center gap-2">
+                          {invoice.invoice_number}
+                          {invoice.invoice_type === 'KOR' && (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300">
+                              KOR
+                            </span>
+                          )}
+                          {invoice.invoice_type === 'PRO' && (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded bg-sky-100 text-sky-800 dark:bg-sky-900 dark:text-sky-300">
+                              PROFORMA
+                            </span>
+                          )}
+                        </div>
+                        {invoice.corrected_invoice_number && (
+                          <div className="text-xs font-normal text-gray-500 dark:text-slate-400">
+                            corrects {invoice.corrected_invoice_number}
+                          </div>
+                        )}
+                        {invoice.proforma_number && (
+                          <div className="text-xs font-normal text-gray-500 dark:text-slate-400">
+                            from proforma {invoice.proforma_number}
+                          </div>
+                        )}
+                        {invoice.converted_invoice_number && (
+                          <div className="text-xs font-normal text-gray-500 dark:text-slate-400">
+                            converted to {invoice.converted_invoice_number}
+                          </div>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-700 dark:text-slate-300">
                         <div>{invoice.client_name}</div>
@@ -203,11 +366,29 @@ export default function InvoiceListModal({ isOpen, onClose }: InvoiceListModalPr
                       <td className="px-4 py-3 text-sm text-gray-700 dark:text-slate-300">
                         {invoice.issue_date}
                       </td>
-                      <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-slate-100">
-                        {formatCurrency(invoice.total_grosze)}
+                      <td
+                        className={`px-4 py-3 text-sm font-medium ${
+                          invoice.total_grosze < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-slate-100'
+                        }`}
+                      >
+                        {formatCurrency(invoice.total_grosze, invoice.currency)}
                       </td>
                       <td className="px-4 py-3 text-sm">
-                        {getStatusBadge(invoice.status)}
+                        <div className="flex flex-wrap gap-1">
+                          {getStatusBadge(invoice.status)}
+                          {getPaymentBadge(invoice)}
+                          {getKsefBadge(invoice)}
+                        </div>
+                        {invoice.ksef_number && (
+                          <div className="mt-1 text-xs font-mono text-gray-500 dark:text-slate-400">
+                            {invoice.ksef_number}
+                          </div>
+                        )}
+                        {invoice.payment_status === 'partially_paid' && (
+                          <div className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                            {formatCurrency(invoice.outstanding_grosze, invoice.currency)} left
+                          </div>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-sm text-right">
                         <div className="flex justify-end gap-2">
@@ -220,13 +401,70 @@ export default function InvoiceListModal({ isOpen, onClose }: InvoiceListModalPr
                               >
                                 PDF
                               </button>
-                              <button
-                                onClick={() => handleDownloadXml(invoice.id)}
-                                className="text-green-600 hover:text-green-700 dark:text-green-400 dark:hover:text-green-300 font-medium"
-                                title="Download XML"
-                              >
-                                XML
-                              </button>
+                              {invoice.invoice_type !== 'PRO' && (
+                                <button
+                                  onClick={() => handleDownloadXml(invoice.id)}
+                                  className="text-green-600 hover:text-green-700 dark:text-green-400 dark:hover:text-green-300 font-medium"
+                                  title="Download XML"
+                                >
+                                  XML
+                                </button>
+                              )}
+                              {invoice.invoice_type !== 'PRO' && (!invoice.ksef_status || invoice.ksef_status === 'rejected') && (
+                                <button
+                                  onClick={() => handleKsef(invoice.id, 'POST')}
+                                  className="text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium"
+                                  title="Send to KSeF"
+                                >
+                                  KSeF
+                                </button>
+                              )}
+                              {(invoice.ksef_status === 'processing' ||
+                                (invoice.ksef_status === 'accepted' && !invoice.ksef_upo_path)) && (
+                                <button
+                                  onClick={() => handleKsef(invoice.id, 'GET')}
+                                  className="text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium"
+                                  title="Check KSeF status"
+                                >
+                                  Refresh KSeF
+                                </button>
+                              )}
+                              {invoice.ksef_upo_path && (
+                                <button
+                                  onClick={() => handleDownloadUpo(invoice.id)}
+                                  className="text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium"
+                                  title="Download KSeF receipt (UPO)"
+                                >
+                                  UPO
+                                </button>
+                              )}
+                              {invoice.invoice_type === 'VAT' && (
+                                <button
+                                  onClick={() => setPaymentsInvoice(invoice)}
+                                  className="text-purple-600 hover:text-purple-700 dark:text-purple-400 dark:hover:text-purple-300 font-medium"
+                                  title="Record or view payments"
+                                >
+                                  Payments
+                                </button>
+                              )}
+                              {invoice.invoice_type === 'VAT' && (
+                                <button
+                                  onClick={() => setCorrectingInvoiceId(invoice.id)}
+                                  className="text-amber-600 hover:text-amber-700 dark:text-amber-400 dark:hover:text-amber-300 font-medium"
+                                  title="Issue a correction invoice"
+                                >
+                                  Correct
+                                </button>
+                              )}
+                              {invoice.invoice_type === 'PRO' && !invoice.converted_invoice_id && (
+                                <button
+                                  onClick={() => handleConvertProforma(invoice.id, invoice.invoice_number)}
+                                  className="text-sky-600 hover:text-sky-700 dark:text-sky-400 dark:hover:text-sky-300 font-medium"
+                                  title="Create a VAT invoice draft from this proforma"
+                                >
+                                  Convert to VAT
+                                </button>
+                              )}
                             </>
                           )}
                           <button
@@ -251,11 +489,30 @@ export default function InvoiceListModal({ isOpen, onClose }: InvoiceListModalPr
               <div className="text-sm text-gray-600 dark:text-slate-400">
                 Total: {invoices.length} invoice{invoices.length !== 1 ? 's' : ''}
                 {statusFilter !== 'all' && ` (filtered by ${statusFilter})`}
+                {paymentFilter !== 'all' && ` (${paymentFilter.replace('_', ' ')})`}
               </div>
             </div>
           )}
         </div>
       </div>
+
+      <InvoiceCorrectionModal
+        isOpen={correctingInvoiceId !== null}
+        invoiceId={correctingInvoiceId}
+        onClose={() => setCorrectingInvoiceId(null)}
+        onCreated={fetchInvoices}
+      />
+
+      <InvoicePaymentsModal
+        isOpen={paymentsInvoice !== null}
+        invoiceId={paymentsInvoice?.id ?? null}
+        invoiceNumber={paymentsInvoice?.invoice_number}
+        currency={paymentsInvoice?.currency}
+        onClose={() => setPaymentsInvoice(null)}
+        onChanged={fetchInvoices}
+      />
+
+      <BankImportModal isOpen={showBankImport} onClose={() => setShowBankImport(false)} onChanged={fetchInvoices} />
     </div>
   );
 }
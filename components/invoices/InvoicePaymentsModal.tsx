@@ -0,0 +1,274 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { InvoiceBalance, Payment, PaymentMethod } from '@/types';
+
+interface InvoicePaymentsModalProps {
+  isOpen: boolean;
+  invoiceId: number | null;
+  invoiceNumber?: string;
+  currency?: string;
+  onClose: () => void;
+  onChanged?: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-slate-100';
+
+const PAYMENT_METHODS: Array<{ value: PaymentMethod; label: string }> = [
+  { value: 'bank_transfer', label: 'Bank transfer' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'other', label: 'Other' },
+];
+
+export default function InvoicePaymentsModal({
+  isOpen,
+  invoiceId,
+  invoiceNumber,
+  currency = 'PLN',
+  onClose,
+  onChanged,
+}: InvoicePaymentsModalProps) {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [balance, setBalance] = useState<InvoiceBalance | null>(null);
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('bank_transfer');
+  const [reference, setReference] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && invoiceId) {
+      setPaymentDate(new Date().toISOString().split('T')[0]);
+      setReference('');
+      setMethod('bank_transfer');
+      fetchPayments(invoiceId, true);
+    }
+  }, [isOpen, invoiceId]);
+
+  const fetchPayments = async (id: number, prefillAmount: boolean) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/invoices/${id}/payments`);
+      if (!response.ok) throw new Error('Failed to fetch payments');
+
+      const data: { payments: Payment[]; balance: InvoiceBalance } = await response.json();
+      setPayments(data.payments);
+      setBalance(data.balance);
+      if (prefillAmount) {
+        setAmount(data.balance.outstanding_grosze > 0 ? (data.balance.outstanding_grosze / 100).toFixed(2) : '');
+      }
+    } catch (err) {
+      console.error('Error fetching payments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load payments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!invoiceId) return;
+
+    const amountGrosze = Math.round(parseFloat(amount.replace(',', '.')) * 100);
+    if (isNaN(amountGrosze) || amountGrosze <= 0) {
+      setError('Enter a payment amount greater than 0');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/invoices/${invoiceId}/payments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          amount_grosze: amountGrosze,
+          payment_date: paymentDate,
+          method,
+          reference: reference.trim() || null,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to record payment');
+      }
+
+      setReference('');
+      await fetchPayments(invoiceId, true);
+      if (onChanged) onChanged();
+    } catch (err) {
+      console.error('Error recording payment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record payment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (paymentId: number) => {
+    if (!invoiceId) return;
+    if (!confirm('Remove this payment?')) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/invoices/${invoiceId}/payments/${paymentId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to delete payment');
+      }
+
+      await fetchPayments(invoiceId, true);
+      if (onChanged) onChanged();
+    } catch (err) {
+      console.error('Error deleting payment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete payment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatAmount = (grosze: number) => `${(grosze / 100).toFixed(2)} ${currency}`;
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-slate-700">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-slate-100">Payments</h2>
+            {invoiceNumber && <p className="text-sm text-gray-500 dark:text-slate-400">Invoice {invoiceNumber}</p>}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-slate-200 transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-red-700 dark:text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          {balance && (
+            <div className="grid grid-cols-3 gap-3 text-sm">
+              <div className="bg-gray-50 dark:bg-slate-700 rounded-lg p-3">
+                <div className="text-gray-500 dark:text-slate-400">Due</div>
+                <div className="font-medium text-gray-900 dark:text-slate-100">{formatAmount(balance.due_grosze)}</div>
+              </div>
+              <div className="bg-gray-50 dark:bg-slate-700 rounded-lg p-3">
+                <div className="text-gray-500 dark:text-slate-400">Paid</div>
+                <div className="font-medium text-green-600 dark:text-green-400">{formatAmount(balance.paid_grosze)}</div>
+              </div>
+              <div className="bg-gray-50 dark:bg-slate-700 rounded-lg p-3">
+                <div className="text-gray-500 dark:text-slate-400">Outstanding</div>
+                <div
+                  className={`font-medium ${
+                    balance.days_overdue > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-slate-100'
+                  }`}
+                >
+                  {formatAmount(balance.outstanding_grosze)}
+                  {balance.days_overdue > 0 && <span className="text-xs ml-1">({balance.days_overdue}d late)</span>}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {payments.length === 0 ? (
+            <div className="text-center py-4 text-gray-500 dark:text-slate-400 text-sm">No payments recorded yet</div>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                {payments.map((payment) => (
+                  <tr key={payment.id}>
+                    <td className="py-2 text-gray-700 dark:text-slate-300">{payment.payment_date}</td>
+                    <td className="py-2 text-gray-700 dark:text-slate-300">
+                      {PAYMENT_METHODS.find((m) => m.value === payment.method)?.label ?? payment.method}
+                      {payment.reference && (
+                        <div className="text-xs text-gray-500 dark:text-slate-400">{payment.reference}</div>
+                      )}
+                    </td>
+                    <td className="py-2 text-right font-medium text-gray-900 dark:text-slate-100">
+                      {formatAmount(payment.amount_grosze)}
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => handleDelete(payment.id)}
+                        disabled={loading}
+                        className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 font-medium"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {balance && balance.outstanding_grosze > 0 && (
+            <div className="space-y-3 pt-4 border-t border-gray-200 dark:border-slate-700">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-slate-300">Record payment</h3>
+              <div className="grid grid-cols-3 gap-3">
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder={`Amount (${currency})`}
+                  className={inputClassName}
+                />
+                <input
+                  type="date"
+                  value={paymentDate}
+                  onChange={(e) => setPaymentDate(e.target.value)}
+                  className={inputClassName}
+                />
+                <select
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                  className={inputClassName}
+                >
+                  {PAYMENT_METHODS.map((m) => (
+                    <option key={m.value} value={m.value}>
+                      {m.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <input
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="Reference (optional), e.g. transfer title"
+                className={inputClassName}
+              />
+              <div className="flex justify-end">
+                <button
+                  onClick={handleAdd}
+                  disabled={loading}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium py-2 px-6 rounded-lg transition-colors"
+                >
+                  {loading ? 'Saving...' : 'Record Payment'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
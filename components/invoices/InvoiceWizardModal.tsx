@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Client, DashboardStats } from '@/types';
+import { Client, DashboardStats, BillableTimePreview, ExchangeRate, TimeBillingGroupBy } from '@/types';
+import { formatTaxId } from '@/lib/utils/countries';
 
 interface InvoiceWizardModalProps {
   isOpen: boolean;
@@ -10,6 +11,10 @@ interface InvoiceWizardModalProps {
 }
 
 type Step = 'period' | 'client' | 'review';
+type DocumentType = 'VAT' | 'PRO';
+type ItemsSource = 'time' | 'manual';
+
+const CURRENCIES = ['PLN', 'EUR', 'USD', 'GBP', 'CHF'];
 
 export default function InvoiceWizardModal({ isOpen, onClose, initialMonth }: InvoiceWizardModalProps) {
   const [step, setStep] = useState<Step>('period');
@@ -34,6 +39,17 @@ export default function InvoiceWizardModal({ isOpen, onClose, initialMonth }: In
   const [saleDate, setSaleDate] = useState('');
   const [paymentDeadline, setPaymentDeadline] = useState('');
 
+  // Lines built from tracked time
+  const [itemsSource, setItemsSource] = useState<ItemsSource>('time');
+  const [groupBy, setGroupBy] = useState<TimeBillingGroupBy>('project');
+  const [billableTime, setBillableTime] = useState<BillableTimePreview | null>(null);
+  const [billableLoading, setBillableLoading] = useState(false);
+  const [lineSelections, setLineSelections] = useState<Record<string, { selected: boolean; name: string }>>({});
+  const [currency, setCurrency] = useState('PLN');
+  const [invoiceType, setInvoiceType] = useState<DocumentType>('VAT');
+  const [exchangeRate, setExchangeRate] = useState<ExchangeRate | null>(null);
+  const [exchangeRateError, setExchangeRateError] = useState<string | null>(null);
+
   useEffect(() => {
     if (isOpen) {
       fetchClients();
@@ -51,9 +67,39 @@ export default function InvoiceWizardModal({ isOpen, onClose, initialMonth }: In
       setInvoiceId(null);
       setIssueSuccess(false);
       setClientSearch('');
+      setBillableTime(null);
+      setLineSelections({});
+      setCurrency('PLN');
+      setInvoiceType('VAT');
     }
   }, [isOpen, initialMonth]);
 
+  // The server fills in the same rate on save; this only previews it
+  useEffect(() => {
+    setExchangeRate(null);
+    setExchangeRateError(null);
+    if (currency === 'PLN' || !/^\d{4}-\d{2}-\d{2}$/.test(saleDate)) return;
+
+    let cancelled = false;
+    fetch(`/api/exchange-rates?currency=${currency}&sale_date=${saleDate}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (cancelled) return;
+        if (response.ok) {
+          setExchangeRate(data);
+        } else {
+          setExchangeRateError(data.message || data.error || 'Failed to fetch exchange rate');
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setExchangeRateError('Failed to fetch exchange rate');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currency, saleDate]);
+
   const fetchClients = async () => {
     try {
       const response = await fetch('/api/clients');
@@ -97,6 +143,40 @@ export default function InvoiceWizardModal({ isOpen, onClose, initialMonth }: In
     }
   };
 
+  const fetchBillableTime = async (month: string, grouping: TimeBillingGroupBy) => {
+    setBillableLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/invoices/from-time?month=${month}&group_by=${grouping}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to fetch tracked time');
+      }
+      const data: BillableTimePreview = await response.json();
+      setBillableTime(data);
+      setLineSelections(
+        Object.fromEntries(
+          data.lines.map((line) => [
+            line.key,
+            {
+              // Time of projects linked to another client is left out by default
+              selected:
+                line.unit_price_grosze !== null &&
+                (line.client_id === null || line.client_id === selectedClient?.id),
+              name: line.name,
+            },
+          ])
+        )
+      );
+      setItemsSource(data.lines.length > 0 ? 'time' : 'manual');
+    } catch (err) {
+      console.error('Error fetching tracked time:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load tracked time');
+    } finally {
+      setBillableLoading(false);
+    }
+  };
+
   const handleNextFromPeriod = () => {
     if (!selectedMonth) {
       setError('Please select a month');
@@ -105,6 +185,12 @@ export default function InvoiceWizardModal({ isOpen, onClose, initialMonth }: In
     if (!stats) {
       fetchStats(selectedMonth);
     }
+    if (!selectedClient && stats) {
+      // Pre-select the client of the busiest project linked to one
+      const linkedProject = stats.projects.find((p) => p.client_id !== null);
+      const linkedClient = clients.find((c) => c.id === linkedProject?.client_id);
+      if (linkedClient) setSelectedClient(linkedClient);
+    }
     setStep('client');
     setError(null);
   };
@@ -135,6 +221,7 @@ export default function InvoiceWizardModal({ isOpen, onClose, initialMonth }: In
       setIssueDate(todayStr);
       setSaleDate(saleDateStr);
       setPaymentDeadline(deadlineStr);
+      fetchBillableTime(selectedMonth, groupBy);
     }
     
     setStep('review');
@@ -151,13 +238,23 @@ export default function InvoiceWizardModal({ isOpen, onClose, initialMonth }: In
       const unitPriceGrosze = Math.round(parseFloat(unitPrice) * 100);
       const parsedQuantity = parseFloat(quantity);
       
-      if (isNaN(parsedQuantity) || parsedQuantity <= 0) {
+      const selectedLines = (billableTime?.lines ?? [])
+        .filter((line) => lineSelections[line.key]?.selected)
+        .map((line) => ({ key: line.key, name: lineSelections[line.key].name }));
+
+      if (itemsSource === 'time' && selectedLines.length === 0) {
+        setError('Select at least one line of tracked time');
+        setLoading(false);
+        return null;
+      }
+
+      if (itemsSource === 'manual' && (isNaN(parsedQuantity) || parsedQuantity <= 0)) {
         setError('Invalid quantity');
         setLoading(false);
         return null;
       }
       
-      if (isNaN(unitPriceGrosze) || unitPriceGrosze <= 0) {
+      if (itemsSource === 'manual' && (isNaN(unitPriceGrosze) || unitPriceGrosze <= 0)) {
         setError('Invalid unit price');
         setLoading(false);
         return null;
@@ -184,12 +281,13 @@ export default function InvoiceWizardModal({ isOpen, onClose, initialMonth }: In
       }
       
       const invoiceData = {
+        invoice_type: invoiceType,
         client_id: selectedClient.id,
         issue_date: issueDate,
         sale_date: saleDate,
         payment_method: 'bank_transfer',
         payment_deadline: paymentDeadline || null,
-        currency: 'PLN',
+        currency,
         notes: null,
         status: 'draft',
         items: [
@@ -203,10 +301,24 @@ export default function InvoiceWizardModal({ isOpen, onClose, initialMonth }: In
         ],
       };
 
-      const response = await fetch('/api/invoices', {
+      const timeInvoiceData = {
+        invoice_type: invoiceType,
+        month: selectedMonth,
+        group_by: groupBy,
+        client_id: selectedClient.id,
+        issue_date: issueDate,
+        sale_date: saleDate,
+        payment_method: 'bank_transfer',
+        payment_deadline: paymentDeadline || null,
+        currency,
+        vat_rate: vatRate,
+        lines: selectedLines,
+      };
+
+      const response = await fetch(itemsSource === 'time' ? '/api/invoices/from-time' : '/api/invoices', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(invoiceData),
+        body: JSON.stringify(itemsSource === 'time' ? timeInvoiceData : invoiceData),
       });
 
       if (!response.ok) {
@@ -275,6 +387,13 @@ export default function InvoiceWizardModal({ isOpen, onClose, initialMonth }: In
     window.open(`/api/invoices/${invoiceId}/xml`, '_blank');
   };
 
+  const netTotal =
+    itemsSource === 'time'
+      ? (billableTime?.lines ?? [])
+          .filter((line) => lineSelections[line.key]?.selected)
+          .reduce((sum, line) => sum + (line.net_grosze ?? 0), 0) / 100
+      : parseFloat(quantity || '0') * parseFloat(unitPrice || '0');
+
   const filteredClients = clientSearch
     ? clients.filter(
         (c) =>
@@ -386,7 +505,7 @@ export default function InvoiceWizardModal({ isOpen, onClose, initialMonth }: In
                       }`}
                     >
                       <div className="font-medium text-gray-900 dark:text-slate-100">{client.name}</div>
-                      <div className="text-sm text-gray-500 dark:text-slate-400">NIP: {client.nip}</div>
+                      <div className="text-sm text-gray-500 dark:text-slate-400">NIP: {formatTaxId(client.nip, client.country_code)}</div>
                       {client.email && (
                         <div className="text-sm text-gray-500 dark:text-slate-400">{client.email}</div>
                       )}
@@ -404,10 +523,12 @@ export default function InvoiceWizardModal({ isOpen, onClose, initialMonth }: In
                 <div className="text-center py-8 space-y-4">
                   <div className="text-green-600 dark:text-green-400 text-6xl mb-4">✓</div>
                   <h3 className="text-2xl font-bold text-gray-900 dark:text-slate-100">
-                    Invoice Issued Successfully!
+                    {invoiceType === 'PRO' ? 'Proforma Issued Successfully!' : 'Invoice Issued Successfully!'}
                   </h3>
                   <p className="text-gray-600 dark:text-slate-400">
-                    Your invoice has been generated with both PDF and KSeF XML files.
+                    {invoiceType === 'PRO'
+                      ? 'Your proforma has been generated as a PDF. Convert it to a VAT invoice once it is paid.'
+                      : 'Your invoice has been generated with both PDF and KSeF XML files.'}
                   </p>
                   <div className="flex justify-center gap-4 pt-4">
                     <button
@@ -416,12 +537,14 @@ export default function InvoiceWizardModal({ isOpen, onClose, initialMonth }: In
                     >
                       Download PDF
                     </button>
-                    <button
-                      onClick={handleDownloadXml}
-                      className="bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-6 rounded-lg transition-colors"
-                    >
-                      Download KSeF XML
-                    </button>
+                    {invoiceType !== 'PRO' && (
+                      <button
+                        onClick={handleDownloadXml}
+                        className="bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-6 rounded-lg transition-colors"
+                      >
+                        Download KSeF XML
+                      </button>
+                    )}
                   </div>
                 </div>
               ) : (
@@ -477,77 +600,229 @@ export default function InvoiceWizardModal({ isOpen, onClose, initialMonth }: In
                     </div>
 
                     <div className="space-y-3 border-t border-gray-200 dark:border-slate-600 pt-3">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
-                          Service Description
-                        </label>
-                        <input
-                          type="text"
-                          value={itemName}
-                          onChange={(e) => setItemName(e.target.value)}
-                          className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-800 dark:text-slate-100"
-                        />
+                      <div className="flex items-center justify-between">
+                        <div className="inline-flex rounded-lg border border-gray-300 dark:border-slate-600 overflow-hidden text-sm">
+                          <button
+                            onClick={() => setItemsSource('time')}
+                            className={`px-3 py-1.5 font-medium transition-colors ${
+                              itemsSource === 'time'
+                                ? 'bg-blue-600 text-white'
+                                : 'text-gray-700 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-600'
+                            }`}
+                          >
+                            Tracked time
+                          </button>
+                          <button
+                            onClick={() => setItemsSource('manual')}
+                            className={`px-3 py-1.5 font-medium transition-colors ${
+                              itemsSource === 'manual'
+                                ? 'bg-blue-600 text-white'
+                                : 'text-gray-700 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-600'
+                            }`}
+                          >
+                            Manual line
+                          </button>
+                        </div>
+                        {itemsSource === 'time' && (
+                          <select
+                            value={groupBy}
+                            onChange={(e) => {
+                              const value = e.target.value as TimeBillingGroupBy;
+                              setGroupBy(value);
+                              fetchBillableTime(selectedMonth, value);
+                            }}
+                            className="px-3 py-1.5 text-sm border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-800 dark:text-slate-100"
+                          >
+                            <option value="project">One line per project</option>
+                            <option value="task">One line per task</option>
+                          </select>
+                        )}
                       </div>
 
-                      <div className="grid grid-cols-2 gap-3">
+                      {itemsSource === 'time' ? (
+                        <div className="space-y-2">
+                          {billableLoading ? (
+                            <div className="text-center py-4 text-gray-500 dark:text-slate-400">Loading tracked time...</div>
+                          ) : !billableTime || billableTime.lines.length === 0 ? (
+                            <div className="text-center py-4 text-gray-500 dark:text-slate-400">
+                              No unbilled time in {selectedMonth}
+                            </div>
+                          ) : (
+                            billableTime.lines.map((line) => (
+                              <div key={line.key} className="flex items-start gap-3">
+                                <input
+                                  type="checkbox"
+                                  checked={lineSelections[line.key]?.selected ?? false}
+                                  disabled={line.unit_price_grosze === null}
+                                  onChange={(e) =>
+                                    setLineSelections({
+                                      ...lineSelections,
+                                      [line.key]: { ...lineSelections[line.key], selected: e.target.checked },
+                                    })
+                                  }
+                                  className="mt-3"
+                                />
+                                <div className="flex-1">
+                                  <input
+                                    type="text"
+                                    value={lineSelections[line.key]?.name ?? line.name}
+                                    onChange={(e) =>
+                                      setLineSelections({
+                                        ...lineSelections,
+                                        [line.key]: { ...lineSelections[line.key], name: e.target.value },
+                                      })
+                                    }
+                                    className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-800 dark:text-slate-100"
+                                  />
+                                  <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">
+                                    {line.quantity} h ×{' '}
+                                    {line.hourly_rate !== null ? (
+                                      `${line.hourly_rate.toFixed(2)} ${currency} = ${((line.net_grosze ?? 0) / 100).toFixed(2)} ${currency} net`
+                                    ) : (
+                                      <span className="text-red-600 dark:text-red-400">no hourly rate set</span>
+                                    )}
+                                  </p>
+                                </div>
+                              </div>
+                            ))
+                          )}
+                          {billableTime && billableTime.invoiced_entries > 0 && (
+                            <p className="text-xs text-gray-500 dark:text-slate-400">
+                              {billableTime.invoiced_entries} time entr{billableTime.invoiced_entries === 1 ? 'y is' : 'ies are'} already on an invoice and skipped.
+                            </p>
+                          )}
+                        </div>
+                      ) : (
+                        <>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                              Service Description
+                            </label>
+                            <input
+                              type="text"
+                              value={itemName}
+                              onChange={(e) => setItemName(e.target.value)}
+                              className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-800 dark:text-slate-100"
+                            />
+                          </div>
+
+                          <div className="grid grid-cols-2 gap-3">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                                Quantity (hours)
+                              </label>
+                              <input
+                                type="number"
+                                step="0.01"
+                                value={quantity}
+                                onChange={(e) => setQuantity(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-800 dark:text-slate-100"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                                Unit Price (NET {currency})
+                              </label>
+                              <input
+                                type="number"
+                                step="0.01"
+                                value={unitPrice}
+                                onChange={(e) => setUnitPrice(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-800 dark:text-slate-100"
+                              />
+                            </div>
+                          </div>
+                        </>
+                      )}
+
+                      <div className="grid grid-cols-3 gap-3">
                         <div>
                           <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
-                            Quantity (hours)
+                            Document
                           </label>
-                          <input
-                            type="number"
-                            step="0.01"
-                            value={quantity}
-                            onChange={(e) => setQuantity(e.target.value)}
+                          <select
+                            value={invoiceType}
+                            onChange={(e) => setInvoiceType(e.target.value as DocumentType)}
+                            disabled={invoiceId !== null}
                             className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-800 dark:text-slate-100"
-                          />
+                          >
+                            <option value="VAT">VAT invoice</option>
+                            <option value="PRO">Proforma</option>
+                          </select>
                         </div>
                         <div>
                           <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
-                            Unit Price (NET PLN)
+                            VAT Rate
                           </label>
-                          <input
-                            type="number"
-                            step="0.01"
-                            value={unitPrice}
-                            onChange={(e) => setUnitPrice(e.target.value)}
+                          <select
+                            value={vatRate}
+                            onChange={(e) => setVatRate(Number(e.target.value))}
                             className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-800 dark:text-slate-100"
-                          />
+                          >
+                            <option value={23}>23%</option>
+                            <option value={8}>8%</option>
+                            <option value={5}>5%</option>
+                            <option value={0}>0%</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                            Currency
+                          </label>
+                          <select
+                            value={currency}
+                            onChange={(e) => setCurrency(e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-800 dark:text-slate-100"
+                          >
+                            {CURRENCIES.map((code) => (
+                              <option key={code} value={code}>
+                                {code}
+                              </option>
+                            ))}
+                          </select>
                         </div>
                       </div>
 
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
-                          VAT Rate
-                        </label>
-                        <select
-                          value={vatRate}
-                          onChange={(e) => setVatRate(Number(e.target.value))}
-                          className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-800 dark:text-slate-100"
-                        >
-                          <option value={23}>23%</option>
-                          <option value={8}>8%</option>
-                          <option value={5}>5%</option>
-                          <option value={0}>0%</option>
-                        </select>
-                      </div>
+                      {currency !== 'PLN' && (
+                        <p className="text-xs text-gray-500 dark:text-slate-400">
+                          {exchangeRate ? (
+                            <>
+                              NBP mid-rate {exchangeRate.table_no ? `${exchangeRate.table_no} ` : ''}of{' '}
+                              {exchangeRate.effective_date}: 1 {currency} = {exchangeRate.rate} PLN
+                            </>
+                          ) : exchangeRateError ? (
+                            <span className="text-red-600 dark:text-red-400">{exchangeRateError}</span>
+                          ) : (
+                            'Fetching exchange rate...'
+                          )}
+                        </p>
+                      )}
 
                       <div className="border-t border-gray-200 dark:border-slate-600 pt-3 space-y-1">
                         <p className="text-gray-700 dark:text-slate-300 font-bold text-base">
                           <span className="font-medium">Total NET:</span>{' '}
-                          {(parseFloat(quantity || '0') * parseFloat(unitPrice || '0')).toFixed(2)} PLN
+                          {netTotal.toFixed(2)} {currency}
                         </p>
                         <p className="text-gray-700 dark:text-slate-300 font-bold text-base">
                           <span className="font-medium">Total GROSS:</span>{' '}
-                          {(parseFloat(quantity || '0') * parseFloat(unitPrice || '0') * (1 + vatRate / 100)).toFixed(2)} PLN
+                          {(netTotal * (1 + vatRate / 100)).toFixed(2)} {currency}
                         </p>
+                        {exchangeRate && (
+                          <p className="text-sm text-gray-600 dark:text-slate-400">
+                            VAT in PLN: {((netTotal * vatRate) / 100 * Number(exchangeRate.rate)).toFixed(2)} PLN
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
 
                   <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 text-sm text-yellow-800 dark:text-yellow-400">
                     <p className="font-medium mb-1">⚠️ Ready to issue?</p>
-                    <p>This will generate the invoice in the database and create both PDF and KSeF FA(3) XML files.</p>
+                    <p>
+                      {invoiceType === 'PRO'
+                        ? 'This will generate the proforma in the database and create its PDF. Proformas have no KSeF XML.'
+                        : 'This will generate the invoice in the database and create both PDF and KSeF FA(3) XML files.'}
+                    </p>
                   </div>
                 </>
               )}
@@ -0,0 +1,556 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { Client, PaymentMethod, RecurringInvoiceScheduleItem, RecurringRunResult, VatRate } from '@/types';
+
+interface RecurringInvoicesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface ItemDraft {
+  name: string;
+  quantity: string;
+  unit: string;
+  unitPrice: string; // major units, as typed
+  vatRate: VatRate;
+}
+
+const CURRENCIES = ['PLN', 'EUR', 'USD', 'GBP', 'CHF'];
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-slate-700 dark:text-slate-100';
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1';
+
+const emptyItem = (): ItemDraft => ({ name: '', quantity: '1', unit: 'szt.', unitPrice: '', vatRate: 23 });
+
+export default function RecurringInvoicesModal({ isOpen, onClose }: RecurringInvoicesModalProps) {
+  const [schedule, setSchedule] = useState<RecurringInvoiceScheduleItem[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [runResult, setRunResult] = useState<RecurringRunResult | null>(null);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [clientId, setClientId] = useState<number | ''>('');
+  const [dayOfMonth, setDayOfMonth] = useState('1');
+  const [paymentDays, setPaymentDays] = useState('14');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [currency, setCurrency] = useState('PLN');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('bank_transfer');
+  const [notes, setNotes] = useState('');
+  const [items, setItems] = useState<ItemDraft[]>([emptyItem()]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setEditingId(null);
+      setError(null);
+      setRunResult(null);
+      fetchSchedule();
+      fetchClients();
+    }
+  }, [isOpen]);
+
+  const fetchSchedule = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/recurring-invoices');
+      if (!response.ok) throw new Error('Failed to fetch recurring invoices');
+      setSchedule(await response.json());
+    } catch (err) {
+      console.error('Error fetching recurring invoices:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load recurring invoices');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchClients = async () => {
+    try {
+      const response = await fetch('/api/clients');
+      if (response.ok) {
+        const data = await response.json();
+        setClients(data.rows || []);
+      }
+    } catch (err) {
+      console.error('Error fetching clients:', err);
+    }
+  };
+
+  const openForm = (template?: RecurringInvoiceScheduleItem) => {
+    setError(null);
+    setEditingId(template ? template.id : 'new');
+    setName(template?.name ?? '');
+    setClientId(template?.client_id ?? '');
+    setDayOfMonth(String(template?.day_of_month ?? 1));
+    setPaymentDays(String(template?.payment_days ?? 14));
+    setStartDate(template?.start_date ?? new Date().toISOString().split('T')[0]);
+    setEndDate(template?.end_date ?? '');
+    setCurrency(template?.currency ?? 'PLN');
+    setPaymentMethod(template?.payment_method ?? 'bank_transfer');
+    setNotes(template?.notes ?? '');
+    setItems(
+      template
+        ? template.items.map((item) => ({
+            name: item.name,
+            quantity: item.quantity,
+            unit: item.unit,
+            unitPrice: (item.unit_price_grosze / 100).toFixed(2),
+            vatRate: item.vat_rate,
+          }))
+        : [emptyItem()]
+    );
+  };
+
+  const updateItem = (index: number, patch: Partial<ItemDraft>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (!clientId) {
+      setError('Please select a client');
+      return;
+    }
+
+    const payloadItems = [];
+    for (const item of items) {
+      const unitPriceGrosze = Math.round(parseFloat(item.unitPrice.replace(',', '.')) * 100);
+      if (!item.name.trim() || isNaN(unitPriceGrosze) || unitPriceGrosze <= 0) {
+        setError('Every item needs a description and a price greater than 0');
+        return;
+      }
+      payloadItems.push({
+        name: item.name.trim(),
+        quantity: item.quantity,
+        unit: item.unit.trim() || 'szt.',
+        unit_price_grosze: unitPriceGrosze,
+        vat_rate: item.vatRate,
+      });
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        editingId === 'new' ? '/api/recurring-invoices' : `/api/recurring-invoices/${editingId}`,
+        {
+          method: editingId === 'new' ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: name.trim(),
+            client_id: clientId,
+            day_of_month: parseInt(dayOfMonth),
+            payment_days: parseInt(paymentDays),
+            start_date: startDate,
+            end_date: endDate || null,
+            currency,
+            payment_method: paymentMethod,
+            notes: notes.trim() || null,
+            items: payloadItems,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to save recurring invoice');
+      }
+
+      setEditingId(null);
+      await fetchSchedule();
+    } catch (err) {
+      console.error('Error saving recurring invoice:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save recurring invoice');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = async (template: RecurringInvoiceScheduleItem) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/recurring-invoices/${template.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: !template.active }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to update recurring invoice');
+      }
+      await fetchSchedule();
+    } catch (err) {
+      console.error('Error updating recurring invoice:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update recurring invoice');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (template: RecurringInvoiceScheduleItem) => {
+    if (!confirm(`Delete the recurring invoice "${template.name}"? Drafts already created are kept.`)) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/recurring-invoices/${template.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to delete recurring invoice');
+      }
+      await fetchSchedule();
+    } catch (err) {
+      console.error('Error deleting recurring invoice:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete recurring invoice');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRunNow = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/recurring-invoices/run', { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to create drafts');
+      }
+      setRunResult(await response.json());
+      await fetchSchedule();
+    } catch (err) {
+      console.error('Error creating recurring drafts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create drafts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatAmount = (grosze: number, code: string) => `${(grosze / 100).toFixed(2)} ${code}`;
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-slate-700">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-slate-100">Recurring Invoices</h2>
+            <p className="text-sm text-gray-500 dark:text-slate-400">
+              Drafts are created on the scheduled day, including any missed while the app was off
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-slate-200 transition-colors"
+            aria-label="Close modal"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-red-700 dark:text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          {runResult && (
+            <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded text-green-700 dark:text-green-400 text-sm space-y-1">
+              <div>
+                {runResult.created.length === 0
+                  ? 'Nothing was due'
+                  : `Created ${runResult.created.map((c) => c.invoice_number).join(', ')}`}
+              </div>
+              {runResult.failed.map((f) => (
+                <div key={`${f.recurring_invoice_id}-${f.period}`} className="text-red-700 dark:text-red-400">
+                  {schedule.find((s) => s.id === f.recurring_invoice_id)?.name ?? `#${f.recurring_invoice_id}`} ({f.period}):{' '}
+                  {f.error}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {editingId === null ? (
+            <>
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={handleRunNow}
+                  disabled={loading}
+                  className="bg-gray-100 hover:bg-gray-200 dark:bg-slate-700 dark:hover:bg-slate-600 text-gray-700 dark:text-slate-200 font-medium py-2 px-4 rounded-lg transition-colors"
+                >
+                  Create Due Drafts
+                </button>
+                <button
+                  onClick={() => openForm()}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                >
+                  New Template
+                </button>
+              </div>
+
+              {schedule.length === 0 ? (
+                <div className="text-center py-8 text-gray-500 dark:text-slate-400">
+                  {loading ? 'Loading...' : 'No recurring invoices yet'}
+                </div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-slate-700">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-slate-300">Template</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-slate-300">Schedule</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500 dark:text-slate-300">Gross</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-slate-300">Next draft</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500 dark:text-slate-300">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                    {[...schedule]
+                      .sort((a, b) => (a.next_issue_date ?? '9999').localeCompare(b.next_issue_date ?? '9999'))
+                      .map((template) => (
+                        <tr key={template.id} className={template.active ? '' : 'opacity-60'}>
+                          <td className="px-3 py-2">
+                            <div className="font-medium text-gray-900 dark:text-slate-100">{template.name}</div>
+                            <div className="text-xs text-gray-500 dark:text-slate-400">{template.client_name}</div>
+                          </td>
+                          <td className="px-3 py-2 text-gray-700 dark:text-slate-300">
+                            Monthly on day {template.day_of_month}
+                            <div className="text-xs text-gray-500 dark:text-slate-400">
+                              pay within {template.payment_days} days
+                              {template.end_date && `, until ${template.end_date}`}
+                            </div>
+                          </td>
+                          <td className="px-3 py-2 text-right whitespace-nowrap font-medium text-gray-900 dark:text-slate-100">
+                            {formatAmount(template.total_grosze, template.currency)}
+                          </td>
+                          <td className="px-3 py-2 text-gray-700 dark:text-slate-300">
+                            {template.next_issue_date ?? (template.active ? 'Finished' : 'Paused')}
+                            {template.last_period && (
+                              <div className="text-xs text-gray-500 dark:text-slate-400">last: {template.last_period}</div>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-right whitespace-nowrap">
+                            <div className="flex justify-end gap-3">
+                              <button
+                                onClick={() => openForm(template)}
+                                className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 font-medium"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => handleToggle(template)}
+                                disabled={loading}
+                                className="text-gray-600 hover:text-gray-800 dark:text-slate-400 dark:hover:text-slate-200 font-medium"
+                              >
+                                {template.active ? 'Pause' : 'Resume'}
+                              </button>
+                              <button
+                                onClick={() => handleDelete(template)}
+                                disabled={loading}
+                                className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 font-medium"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClassName}>Name</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. Monthly retainer"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>Client</label>
+                  <select
+                    value={clientId}
+                    onChange={(e) => setClientId(e.target.value ? Number(e.target.value) : '')}
+                    className={inputClassName}
+                  >
+                    <option value="">Select client...</option>
+                    {clients.map((client) => (
+                      <option key={client.id} value={client.id}>
+                        {client.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-4 gap-3">
+                <div>
+                  <label className={labelClassName}>Day of Month</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={dayOfMonth}
+                    onChange={(e) => setDayOfMonth(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>Payment Days</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={paymentDays}
+                    onChange={(e) => setPaymentDays(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>Start</label>
+                  <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClassName} />
+                </div>
+                <div>
+                  <label className={labelClassName}>End (optional)</label>
+                  <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClassName} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClassName}>Currency</label>
+                  <select value={currency} onChange={(e) => setCurrency(e.target.value)} className={inputClassName}>
+                    {CURRENCIES.map((code) => (
+                      <option key={code} value={code}>
+                        {code}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClassName}>Payment Method</label>
+                  <select
+                    value={paymentMethod}
+                    onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                    className={inputClassName}
+                  >
+                    <option value="bank_transfer">Bank transfer</option>
+                    <option value="cash">Cash</option>
+                    <option value="card">Card</option>
+                    <option value="other">Other</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className={labelClassName}>Items (net {currency})</label>
+                {items.map((item, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2">
+                    <input
+                      type="text"
+                      value={item.name}
+                      onChange={(e) => updateItem(index, { name: e.target.value })}
+                      placeholder="Description"
+                      className={`${inputClassName} col-span-5`}
+                    />
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={item.quantity}
+                      onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                      className={`${inputClassName} col-span-1`}
+                    />
+                    <input
+                      type="text"
+                      value={item.unit}
+                      onChange={(e) => updateItem(index, { unit: e.target.value })}
+                      className={`${inputClassName} col-span-1`}
+                    />
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={item.unitPrice}
+                      onChange={(e) => updateItem(index, { unitPrice: e.target.value })}
+                      placeholder="Unit price"
+                      className={`${inputClassName} col-span-2`}
+                    />
+                    <select
+                      value={item.vatRate}
+                      onChange={(e) =>
+                        updateItem(index, {
+                          vatRate: (['ZW', 'NP'].includes(e.target.value) ? e.target.value : Number(e.target.value)) as VatRate,
+                        })
+                      }
+                      className={`${inputClassName} col-span-2`}
+                    >
+                      <option value={23}>23%</option>
+                      <option value={8}>8%</option>
+                      <option value={5}>5%</option>
+                      <option value={0}>0%</option>
+                      <option value="ZW">ZW</option>
+                      <option value="NP">NP</option>
+                    </select>
+                    <button
+                      onClick={() => setItems(items.filter((_, i) => i !== index))}
+                      disabled={items.length === 1}
+                      className="col-span-1 text-red-600 hover:text-red-700 dark:text-red-400 disabled:opacity-40"
+                      aria-label="Remove item"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setItems([...items, emptyItem()])}
+                  className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 font-medium"
+                >
+                  + Add item
+                </button>
+              </div>
+
+              <div>
+                <label className={labelClassName}>Notes (optional)</label>
+                <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} className={inputClassName} />
+              </div>
+
+              <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-slate-700">
+                <button
+                  onClick={() => setEditingId(null)}
+                  className="bg-gray-100 hover:bg-gray-200 dark:bg-slate-700 dark:hover:bg-slate-600 text-gray-700 dark:text-slate-200 font-medium py-2 px-6 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={loading}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium py-2 px-6 rounded-lg transition-colors"
+                >
+                  {loading ? 'Saving...' : 'Save Template'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -24,7 +24,8 @@ export default function CompanySettingsTab({ settings, onChange, disabled }: Com
         description="Used for VAT invoices and KSeF-compatible XML export"
       >
         <div className="mb-3 rounded-md border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 px-4 py-3 text-sm text-amber-900 dark:text-amber-200">
-          KSeF integration is not enabled. XML files are for manual upload or archival only.
+          Invoices are sent to KSeF with the token from <code>KSEF_TOKEN</code> for the NIP below. Set{' '}
+          <code>KSEF_API_URL</code> to switch between the test, demo and production environments.
         </div>
 
         <SettingRow label="Company Name" description="Your legal seller name">
@@ -5,11 +5,21 @@ interface GeneralSettingsTabProps {
     default_hourly_rate: string;
     currency: string;
     daily_hours_target: string;
+    time_provider: string;
+    vacation_days_per_year: string;
   };
   onChange: (field: string, value: string) => void;
   disabled?: boolean;
 }
 
+// Credentials stay in the environment; only the choice of provider is stored in settings
+const TIME_PROVIDER_ENV: Record<string, string> = {
+  everhour: 'EVERHOUR_API_TOKEN',
+  toggl: 'TOGGL_API_TOKEN',
+  clockify: 'CLOCKIFY_API_KEY (and optionally CLOCKIFY_WORKSPACE_ID)',
+  csv: 'TIME_CSV_PATH, pointing at the timesheet file',
+};
+
 export default function GeneralSettingsTab({ settings, onChange, disabled }: GeneralSettingsTabProps) {
   return (
     <div className="space-y-6">
@@ -19,7 +29,7 @@ export default function GeneralSettingsTab({ settings, onChange, disabled }: Gen
       >
         <SettingRow
           label="Default Hourly Rate"
-          description={`Your default rate in ${settings.currency}`}
+          description={`Your default rate in ${settings.currency}; a change applies from the first open month`}
         >
           <input
             type="number"
@@ -66,6 +76,47 @@ export default function GeneralSettingsTab({ settings, onChange, disabled }: Gen
             disabled={disabled}
           />
         </SettingRow>
+
+        <SettingRow
+          label="Vacation Days per Year"
+          description="Allowance tracked in the time-off calendar"
+        >
+          <input
+            type="number"
+            step="1"
+            min="0"
+            max="366"
+            value={settings.vacation_days_per_year}
+            onChange={(e) => onChange('vacation_days_per_year', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 transition-colors"
+            disabled={disabled}
+          />
+        </SettingRow>
+      </SettingCard>
+
+      <SettingCard
+        title="Time Tracking"
+        description="Where hours for stats and invoices are read from"
+      >
+        <SettingRow
+          label="Provider"
+          description={`Configured with ${TIME_PROVIDER_ENV[settings.time_provider] ?? 'environment variables'}`}
+        >
+          <select
+            value={settings.time_provider}
+            onChange={(e) => onChange('time_provider', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 transition-colors"
+            disabled={disabled}
+          >
+            <option value="everhour">Everhour</option>
+            <option value="toggl">Toggl Track</option>
+            <option value="clockify">Clockify</option>
+            <option value="csv">CSV timesheet</option>
+          </select>
+          <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+            Project rates and client links are kept per provider; set them again after switching.
+          </p>
+        </SettingRow>
       </SettingCard>
     </div>
   );
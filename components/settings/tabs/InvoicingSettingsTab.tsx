@@ -0,0 +1,128 @@
+import { SettingCard, SettingRow } from '../shared';
+import { formatNumberingTemplate, validateNumberingTemplate } from '@/lib/utils/numbering-template';
+
+interface InvoicingSettingsTabProps {
+  settings: {
+    invoice_number_template: string;
+    invoice_number_reset: string;
+    correction_number_template: string;
+    correction_number_reset: string;
+    proforma_number_template: string;
+    proforma_number_reset: string;
+  };
+  onChange: (field: string, value: string) => void;
+  disabled?: boolean;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 transition-colors';
+
+function NumberPreview({ template }: { template: string }) {
+  const error = validateNumberingTemplate(template.trim());
+  if (error) {
+    return <p className="text-xs text-red-600 dark:text-red-400 mt-1">{error}</p>;
+  }
+
+  const now = new Date();
+  return (
+    <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+      Next in this period looks like{' '}
+      <span className="font-mono text-gray-900 dark:text-slate-100">
+        {formatNumberingTemplate(template.trim(), now.getFullYear(), now.getMonth() + 1, 1)}
+      </span>
+    </p>
+  );
+}
+
+function ResetSelect({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled?: boolean }) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClassName} disabled={disabled}>
+      <option value="monthly">Every month</option>
+      <option value="yearly">Every year</option>
+      <option value="never">Never</option>
+    </select>
+  );
+}
+
+export default function InvoicingSettingsTab({ settings, onChange, disabled }: InvoicingSettingsTabProps) {
+  return (
+    <div className="space-y-6">
+      <SettingCard
+        title="Invoice Numbering"
+        description="Numbers are assigned when an invoice is created; existing invoices keep their numbers"
+      >
+        <div className="mb-3 rounded-md border border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/40 px-4 py-3 text-xs text-gray-600 dark:text-slate-400 space-y-1">
+          <div>
+            <span className="font-mono">{'{YYYY}'}</span> year, <span className="font-mono">{'{YY}'}</span> two-digit
+            year, <span className="font-mono">{'{MM}'}</span> month
+          </div>
+          <div>
+            <span className="font-mono">{'{N}'}</span> sequence number, <span className="font-mono">{'{N:4}'}</span>{' '}
+            padded to 4 digits (required, exactly once)
+          </div>
+        </div>
+
+        <SettingRow label="VAT Invoice Template" description="e.g. FV/{YYYY}/{MM}/{N:4}">
+          <input
+            type="text"
+            value={settings.invoice_number_template}
+            onChange={(e) => onChange('invoice_number_template', e.target.value)}
+            className={`${inputClassName} font-mono`}
+            disabled={disabled}
+          />
+          <NumberPreview template={settings.invoice_number_template} />
+        </SettingRow>
+
+        <SettingRow label="Restart VAT Numbering" description="When the sequence number goes back to 1">
+          <ResetSelect
+            value={settings.invoice_number_reset}
+            onChange={(value) => onChange('invoice_number_reset', value)}
+            disabled={disabled}
+          />
+        </SettingRow>
+      </SettingCard>
+
+      <SettingCard title="Correction Numbering" description="Separate sequence used for correction invoices (KOR)">
+        <SettingRow label="Correction Template" description="e.g. KOR/{YYYY}/{MM}/{N:4}">
+          <input
+            type="text"
+            value={settings.correction_number_template}
+            onChange={(e) => onChange('correction_number_template', e.target.value)}
+            className={`${inputClassName} font-mono`}
+            disabled={disabled}
+          />
+          <NumberPreview template={settings.correction_number_template} />
+        </SettingRow>
+
+        <SettingRow label="Restart Correction Numbering" description="When the sequence number goes back to 1">
+          <ResetSelect
+            value={settings.correction_number_reset}
+            onChange={(value) => onChange('correction_number_reset', value)}
+            disabled={disabled}
+          />
+        </SettingRow>
+      </SettingCard>
+
+      <SettingCard title="Proforma Numbering" description="Separate sequence used for proforma invoices (PRO)">
+        <SettingRow label="Proforma Template" description="e.g. PRO/{YYYY}/{MM}/{N:4}">
+          <input
+            type="text"
+            value={settings.proforma_number_template}
+            onChange={(e) => onChange('proforma_number_template', e.target.value)}
+            className={`${inputClassName} font-mono`}
+            disabled={disabled}
+          />
+          <NumberPreview template={settings.proforma_number_template} />
+        </SettingRow>
+
+        <SettingRow label="Restart Proforma Numbering" description="When the sequence number goes back to 1">
+          <ResetSelect
+            value={settings.proforma_number_reset}
+            onChange={(value) => onChange('proforma_number_reset', value)}
+            disabled={disabled}
+          />
+        </SettingRow>
+      </SettingCard>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { SettingCard, SettingRow } from '../shared';
+import { RYCZALT_RATES } from '@/lib/utils/tax';
+
+interface TaxSettingsTabProps {
+  settings: {
+    tax_form: string;
+    ryczalt_rate: string;
+    zus_tier: string;
+    zus_tier_until: string;
+    zus_sickness: string;
+    fuel_cost_percent: string;
+    fuel_vat_deduction_percent: string;
+    tax_office_code: string;
+    taxpayer_first_name: string;
+    taxpayer_last_name: string;
+    taxpayer_birth_date: string;
+  };
+  onChange: (field: string, value: string) => void;
+  disabled?: boolean;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-gray-900 dark:text-slate-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 transition-colors';
+
+export default function TaxSettingsTab({ settings, onChange, disabled }: TaxSettingsTabProps) {
+  return (
+    <div className="space-y-6">
+      <SettingCard
+        title="Income Tax"
+        description="Used by the tax estimate; figures are an approximation, not a tax return"
+      >
+        <SettingRow label="Tax Form" description="How business income is taxed">
+          <select
+            value={settings.tax_form}
+            onChange={(e) => onChange('tax_form', e.target.value)}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            <option value="ryczalt">Ryczałt (flat rate on revenue)</option>
+            <option value="liniowy">Podatek liniowy (19%)</option>
+            <option value="skala">Skala podatkowa (12% / 32%)</option>
+          </select>
+        </SettingRow>
+
+        {settings.tax_form === 'ryczalt' && (
+          <SettingRow label="Ryczałt Rate" description="Rate for your PKD, e.g. 12% for most IT services">
+            <select
+              value={settings.ryczalt_rate}
+              onChange={(e) => onChange('ryczalt_rate', e.target.value)}
+              className={inputClassName}
+              disabled={disabled}
+            >
+              {RYCZALT_RATES.map((rate) => (
+                <option key={rate} value={String(rate)}>
+                  {rate}%
+                </option>
+              ))}
+            </select>
+          </SettingRow>
+        )}
+
+        {settings.tax_form !== 'ryczalt' && (
+          <SettingRow label="Fuel as Cost" description="Share of fuel spending booked as a business cost">
+            <input
+              type="number"
+              step="1"
+              min="0"
+              max="100"
+              value={settings.fuel_cost_percent}
+              onChange={(e) => onChange('fuel_cost_percent', e.target.value)}
+              className={inputClassName}
+              disabled={disabled}
+            />
+            <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+              Usually 75% for a car that is also used privately.
+            </p>
+          </SettingRow>
+        )}
+      </SettingCard>
+
+      <SettingCard title="ZUS" description="Social contributions paid every month">
+        <SettingRow label="Contribution Tier" description="Base the social contributions are paid from">
+          <select
+            value={settings.zus_tier}
+            onChange={(e) => onChange('zus_tier', e.target.value)}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            <option value="start">Ulga na start (health only)</option>
+            <option value="preferential">Preferencyjny (30% of minimum wage)</option>
+            <option value="full">Pełny (60% of average wage)</option>
+          </select>
+        </SettingRow>
+
+        {settings.zus_tier !== 'full' && (
+          <SettingRow label="Tier Ends" description="Last month of the tier; the next tier applies afterwards">
+            <input
+              type="month"
+              value={settings.zus_tier_until}
+              onChange={(e) => onChange('zus_tier_until', e.target.value)}
+              className={inputClassName}
+              disabled={disabled}
+            />
+          </SettingRow>
+        )}
+
+        <SettingRow label="Sickness Insurance" description="Voluntary chorobowe contribution">
+          <select
+            value={settings.zus_sickness}
+            onChange={(e) => onChange('zus_sickness', e.target.value)}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            <option value="true">Paid</option>
+            <option value="false">Not paid</option>
+          </select>
+        </SettingRow>
+      </SettingCard>
+
+      <SettingCard title="VAT (JPK_V7M)" description="Filing details for the monthly VAT return export">
+        <SettingRow label="Tax Office Code" description="Four-digit code of your urząd skarbowy">
+          <input
+            type="text"
+            inputMode="numeric"
+            maxLength={4}
+            value={settings.tax_office_code}
+            onChange={(e) => onChange('tax_office_code', e.target.value)}
+            placeholder="1471"
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </SettingRow>
+
+        <SettingRow label="Taxpayer" description="Sole proprietors file as a person; leave empty to file as the company">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <input
+              type="text"
+              value={settings.taxpayer_first_name}
+              onChange={(e) => onChange('taxpayer_first_name', e.target.value)}
+              placeholder="First name"
+              className={inputClassName}
+              disabled={disabled}
+            />
+            <input
+              type="text"
+              value={settings.taxpayer_last_name}
+              onChange={(e) => onChange('taxpayer_last_name', e.target.value)}
+              placeholder="Last name"
+              className={inputClassName}
+              disabled={disabled}
+            />
+            <input
+              type="date"
+              value={settings.taxpayer_birth_date}
+              onChange={(e) => onChange('taxpayer_birth_date', e.target.value)}
+              className={inputClassName}
+              disabled={disabled}
+            />
+          </div>
+        </SettingRow>
+
+        <SettingRow label="Fuel VAT Deduction" description="Deductible share of VAT on newly logged fuel">
+          <select
+            value={settings.fuel_vat_deduction_percent}
+            onChange={(e) => onChange('fuel_vat_deduction_percent', e.target.value)}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            <option value="50">50% (car also used privately)</option>
+            <option value="100">100% (business use only)</option>
+            <option value="0">None (leave fuel out)</option>
+          </select>
+        </SettingRow>
+      </SettingCard>
+    </div>
+  );
+}
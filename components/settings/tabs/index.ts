@@ -3,3 +3,5 @@ export { default as LocationSettingsTab } from './LocationSettingsTab';
 export { default as FuelSettingsTab } from './FuelSettingsTab';
 export { default as CompanySettingsTab } from './CompanySettingsTab';
 
+export { default as InvoicingSettingsTab } from './InvoicingSettingsTab';
+export { default as TaxSettingsTab } from './TaxSettingsTab';
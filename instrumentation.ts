@@ -0,0 +1,19 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  // Drafts for recurring invoices that fell due while the app was not running
+  // Periods that fail stay due; running recurring invoices from the app retries and reports them
+  const { RecurringInvoiceService } = await import('./lib/services/recurring-invoice.service');
+  await new RecurringInvoiceService().runDue().catch(() => undefined);
+
+  // Refresh the time-entry cache for months still open; not awaited so a slow or
+  // offline time tracker does not hold up startup
+  const { createTimeProvider } = await import('./lib/time-providers');
+  const provider = createTimeProvider();
+  if (provider.isConfigured()) {
+    const { TimeEntrySyncService } = await import('./lib/services/time-entry-sync.service');
+    // Failures are kept in each month's sync status
+    new TimeEntrySyncService(provider).syncOpenMonths().catch(() => undefined);
+  }
+}
@@ -3,12 +3,40 @@ import path from 'path';
 import fs from 'fs';
 import {
   ProjectRate,
+  ProjectRatePeriod,
+  DefaultRatePeriod,
   FuelTransaction,
   FuelMonthlyStats,
   Invoice,
   InvoiceItem,
   Client,
+  ProjectClient,
   InvoiceSequence,
+  ExchangeRate,
+  Payment,
+  BankStatement,
+  BankTransaction,
+  BankTransactionListItem,
+  BankTransactionStatus,
+  CreateInvoiceItemInput,
+  CreateRecurringInvoiceInput,
+  RecurringInvoice,
+  RecurringInvoiceRun,
+  TimeEntry,
+  ManualTimeEntry,
+  BillingRule,
+  TimeOff,
+  Expense,
+  StoredDocument,
+  DocumentLink,
+  Counterparty,
+  Vehicle,
+  Trip,
+  VehicleFuelStats,
+  TimeProviderName,
+  TimeSyncMonth,
+  TrackedProject,
+  TrackedTimeEntry,
   InvoiceStatus,
   PaymentMethod,
   VatRate,
@@ -28,18 +56,157 @@ const db = new Database(dbPath);
 db.pragma('foreign_keys = ON');
 db.pragma('journal_mode = WAL');
 
+function ensureColumn(table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+function renameColumn(table: string, from: string, to: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (columns.some((c) => c.name === from) && !columns.some((c) => c.name === to)) {
+    db.exec(`ALTER TABLE ${table} RENAME COLUMN ${from} TO ${to}`);
+  }
+}
+
+// The first time-entry cache held Everhour records only, keyed by their numeric id. It is
+// just a copy of the provider's data, so it is dropped and filled again by the next sync.
+function dropLegacyTimeEntryCache(): void {
+  const columns = db.prepare('PRAGMA table_info(time_entries)').all() as Array<{ name: string }>;
+  if (columns.length === 0 || columns.some((c) => c.name === 'source')) return;
+
+  db.exec(`
+    DROP TABLE time_entries;
+    DROP TABLE IF EXISTS time_entry_projects;
+    DROP TABLE IF EXISTS time_sync_months;
+  `);
+}
+
+// Invoiced time entries used to be numeric Everhour ids; ids now carry their provider
+function prefixInvoicedTimeEntryIds(): void {
+  const columns = db.prepare('PRAGMA table_info(invoice_time_entries)').all() as Array<{ name: string; type: string }>;
+  if (columns.find((c) => c.name === 'time_entry_id')?.type !== 'INTEGER') return;
+
+  db.transaction(() => {
+    db.exec(`
+      CREATE TABLE invoice_time_entries_new (
+        time_entry_id TEXT PRIMARY KEY,
+        invoice_id INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE CASCADE
+      );
+
+      INSERT INTO invoice_time_entries_new (time_entry_id, invoice_id, created_at)
+      SELECT 'everhour:' || time_entry_id, invoice_id, created_at FROM invoice_time_entries;
+
+      DROP TABLE invoice_time_entries;
+      ALTER TABLE invoice_time_entries_new RENAME TO invoice_time_entries;
+      CREATE INDEX IF NOT EXISTS idx_invoice_time_entries_invoice_id ON invoice_time_entries(invoice_id);
+    `);
+  })();
+}
+
+// Expenses first kept one document on their own row; it moves to the document store, file in place
+function moveExpenseDocumentsToStore(): void {
+  const columns = db.prepare('PRAGMA table_info(expenses)').all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === 'document_path')) return;
+
+  const mimeTypes: Record<string, string> = {
+    '.pdf': 'application/pdf',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+  };
+  const rows = db
+    .prepare('SELECT id, document_name, document_path FROM expenses WHERE document_path IS NOT NULL')
+    .all() as Array<{ id: number; document_name: string | null; document_path: string }>;
+  const insert = db.prepare(`
+    INSERT INTO documents (original_name, path, mime_type, size_bytes, expense_id)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    for (const row of rows) {
+      const name = row.document_name || path.basename(row.document_path);
+      const size = fs.existsSync(row.document_path) ? fs.statSync(row.document_path).size : 0;
+      insert.run(name, row.document_path, mimeTypes[path.extname(name).toLowerCase()] ?? 'application/octet-stream', size, row.id);
+    }
+    db.exec('ALTER TABLE expenses DROP COLUMN document_name');
+    db.exec('ALTER TABLE expenses DROP COLUMN document_path');
+  })();
+}
+
+// Databases created before proformas only allow VAT/KOR. SQLite cannot alter a CHECK
+// constraint, so the invoices table is rebuilt once from its own definition.
+function allowProformaInvoiceType(): void {
+  const legacyCheck = "CHECK(invoice_type IN ('VAT', 'KOR'))";
+  const table = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'invoices'").get() as
+    | { sql: string }
+    | undefined;
+  if (!table || !table.sql.includes(legacyCheck)) return;
+
+  const indexes = db
+    .prepare("SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = 'invoices' AND sql IS NOT NULL")
+    .all() as Array<{ sql: string }>;
+  const createSql = table.sql
+    .split(legacyCheck)
+    .join("CHECK(invoice_type IN ('VAT', 'KOR', 'PRO'))")
+    .replace(/^CREATE TABLE\s+(IF NOT EXISTS\s+)?"?invoices"?/i, 'CREATE TABLE invoices_new');
+
+  // Other tables reference invoices; their rows stay valid because ids are copied as-is
+  db.pragma('foreign_keys = OFF');
+  try {
+    db.transaction(() => {
+      db.exec(createSql);
+      db.exec('INSERT INTO invoices_new SELECT * FROM invoices');
+      db.exec('DROP TABLE invoices');
+      db.exec('ALTER TABLE invoices_new RENAME TO invoices');
+      for (const index of indexes) db.exec(index.sql);
+
+      if ((db.pragma('foreign_key_check') as unknown[]).length > 0) {
+        throw new Error('Rebuilding the invoices table broke foreign keys');
+      }
+    })();
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+}
+
 // Initialize database schema
 function initializeDatabase() {
   const createTablesSQL = `
     CREATE TABLE IF NOT EXISTS project_rates (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
-      everhour_project_id TEXT UNIQUE NOT NULL,
+      project_id TEXT UNIQUE NOT NULL,
       project_name TEXT NOT NULL,
       hourly_rate REAL NOT NULL,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     );
     
+    CREATE TABLE IF NOT EXISTS project_rate_periods (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_id TEXT NOT NULL,
+      hourly_rate REAL NOT NULL,
+      effective_from TEXT, -- YYYY-MM-DD; NULL applies from the start
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (project_id) REFERENCES project_rates(project_id) ON DELETE CASCADE
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_project_rate_periods_start
+      ON project_rate_periods(project_id, IFNULL(effective_from, ''));
+
+    CREATE TABLE IF NOT EXISTS default_rate_periods (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      hourly_rate REAL NOT NULL,
+      effective_from TEXT, -- YYYY-MM-DD; NULL applies from the start
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_default_rate_periods_start
+      ON default_rate_periods(IFNULL(effective_from, ''));
+
     CREATE TABLE IF NOT EXISTS settings (
       key TEXT PRIMARY KEY,
       value TEXT NOT NULL,
@@ -117,6 +284,9 @@ function initializeDatabase() {
       sale_date TEXT NOT NULL,
       client_id INTEGER NOT NULL,
       status TEXT NOT NULL CHECK(status IN ('draft', 'issued', 'cancelled')),
+      invoice_type TEXT NOT NULL DEFAULT 'VAT' CHECK(invoice_type IN ('VAT', 'KOR', 'PRO')),
+      corrected_invoice_id INTEGER REFERENCES invoices(id) ON DELETE RESTRICT,
+      correction_reason TEXT,
       payment_method TEXT NOT NULL CHECK(payment_method IN ('cash', 'bank_transfer', 'card', 'other')),
       payment_deadline TEXT,
       currency TEXT NOT NULL,
@@ -148,24 +318,375 @@ function initializeDatabase() {
       net_grosze INTEGER NOT NULL,
       vat_grosze INTEGER NOT NULL,
       gross_grosze INTEGER NOT NULL,
+      state_before INTEGER NOT NULL DEFAULT 0,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE CASCADE
     );
 
     CREATE INDEX IF NOT EXISTS idx_invoice_items_invoice_id ON invoice_items(invoice_id);
 
-    CREATE TABLE IF NOT EXISTS invoice_sequences (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      year INTEGER NOT NULL,
-      month INTEGER NOT NULL,
+    CREATE TABLE IF NOT EXISTS invoice_number_sequences (
+      series TEXT NOT NULL,
+      period TEXT NOT NULL,
       last_number INTEGER NOT NULL,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      UNIQUE(year, month)
+      PRIMARY KEY (series, period)
+    );
+
+    CREATE TABLE IF NOT EXISTS invoice_time_entries (
+      time_entry_id TEXT PRIMARY KEY, -- "<provider>:<record id>"
+      invoice_id INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_invoice_time_entries_invoice_id ON invoice_time_entries(invoice_id);
+
+    CREATE TABLE IF NOT EXISTS project_clients (
+      project_id TEXT PRIMARY KEY,
+      client_id INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_project_clients_client_id ON project_clients(client_id);
+
+    CREATE TABLE IF NOT EXISTS exchange_rates (
+      currency TEXT NOT NULL,
+      effective_date TEXT NOT NULL,
+      rate TEXT NOT NULL,
+      table_no TEXT,
+      source TEXT NOT NULL,
+      fetched_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (currency, effective_date)
+    );
+
+    CREATE TABLE IF NOT EXISTS payments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      invoice_id INTEGER NOT NULL,
+      amount_grosze INTEGER NOT NULL CHECK(amount_grosze > 0),
+      payment_date TEXT NOT NULL,
+      method TEXT NOT NULL DEFAULT 'bank_transfer' CHECK(method IN ('cash', 'bank_transfer', 'card', 'other')),
+      reference TEXT,
+      notes TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_payments_invoice_id ON payments(invoice_id);
+
+    CREATE TABLE IF NOT EXISTS bank_statements (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      format TEXT NOT NULL CHECK(format IN ('mt940', 'csv')),
+      bank TEXT,
+      account TEXT,
+      file_name TEXT NOT NULL,
+      imported_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS bank_transactions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      statement_id INTEGER NOT NULL,
+      fingerprint TEXT NOT NULL UNIQUE,
+      booking_date TEXT NOT NULL,
+      amount_grosze INTEGER NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'PLN',
+      title TEXT NOT NULL DEFAULT '',
+      counterparty_name TEXT,
+      counterparty_account TEXT,
+      reference TEXT,
+      status TEXT NOT NULL DEFAULT 'unmatched' CHECK(status IN ('unmatched', 'proposed', 'matched', 'ignored')),
+      proposed_invoice_id INTEGER,
+      match_reasons TEXT,
+      payment_id INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (statement_id) REFERENCES bank_statements(id) ON DELETE CASCADE,
+      FOREIGN KEY (proposed_invoice_id) REFERENCES invoices(id) ON DELETE SET NULL,
+      FOREIGN KEY (payment_id) REFERENCES payments(id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_bank_transactions_status ON bank_transactions(status);
+    CREATE INDEX IF NOT EXISTS idx_bank_transactions_payment_id ON bank_transactions(payment_id);
+
+    CREATE TABLE IF NOT EXISTS recurring_invoices (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      client_id INTEGER NOT NULL,
+      payment_method TEXT NOT NULL CHECK(payment_method IN ('cash', 'bank_transfer', 'card', 'other')),
+      currency TEXT NOT NULL DEFAULT 'PLN',
+      notes TEXT,
+      items TEXT NOT NULL, -- JSON array of CreateInvoiceItemInput
+      day_of_month INTEGER NOT NULL CHECK(day_of_month BETWEEN 1 AND 31),
+      payment_days INTEGER NOT NULL DEFAULT 14 CHECK(payment_days >= 0),
+      start_date TEXT NOT NULL,
+      end_date TEXT,
+      active INTEGER NOT NULL DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE RESTRICT
+    );
+
+    CREATE TABLE IF NOT EXISTS recurring_invoice_runs (
+      recurring_invoice_id INTEGER NOT NULL,
+      period TEXT NOT NULL,
+      invoice_id INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (recurring_invoice_id, period),
+      FOREIGN KEY (recurring_invoice_id) REFERENCES recurring_invoices(id) ON DELETE CASCADE,
+      FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE SET NULL
+    );
+
+    -- Local copy of the time provider's records, replaced month by month on sync
+    CREATE TABLE IF NOT EXISTS time_entries (
+      id TEXT PRIMARY KEY, -- "<provider>:<record id>"
+      source TEXT NOT NULL, -- provider the entry came from
+      date TEXT NOT NULL,
+      seconds INTEGER NOT NULL,
+      task_id TEXT,
+      task_name TEXT,
+      project_id TEXT,
+      user_id TEXT,
+      user_name TEXT,
+      tags TEXT NOT NULL DEFAULT '[]', -- JSON array of tag names
+      synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_time_entries_source_date ON time_entries(source, date);
+    CREATE INDEX IF NOT EXISTS idx_time_entries_project_id ON time_entries(project_id);
+
+    CREATE TABLE IF NOT EXISTS time_entry_projects (
+      source TEXT NOT NULL,
+      id TEXT NOT NULL, -- project id as used in time_entries and project_rates
+      name TEXT NOT NULL,
+      synced_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (source, id)
+    );
+
+    CREATE TABLE IF NOT EXISTS time_sync_months (
+      source TEXT NOT NULL,
+      month TEXT NOT NULL, -- YYYY-MM
+      status TEXT NOT NULL CHECK(status IN ('ok', 'error')),
+      entry_count INTEGER NOT NULL DEFAULT 0,
+      synced_at DATETIME,
+      attempted_at DATETIME NOT NULL,
+      error TEXT,
+      PRIMARY KEY (source, month)
+    );
+
+    -- Time kept in the dashboard itself; merged with the provider's entries
+    CREATE TABLE IF NOT EXISTS manual_time_entries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source TEXT NOT NULL CHECK(source IN ('manual', 'import')),
+      date TEXT NOT NULL,
+      seconds INTEGER NOT NULL CHECK(seconds > 0),
+      project_id TEXT,
+      project_name TEXT,
+      task_name TEXT,
+      import_key TEXT UNIQUE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_manual_time_entries_date ON manual_time_entries(date);
+
+    CREATE TABLE IF NOT EXISTS billing_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_id TEXT, -- NULL applies to every project
+      match_type TEXT NOT NULL CHECK(match_type IN ('task_id', 'task_name', 'tag')),
+      pattern TEXT NOT NULL,
+      billable INTEGER NOT NULL DEFAULT 1,
+      hourly_rate REAL, -- NULL keeps the project rate
+      effective_from TEXT NOT NULL,
+      effective_until TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS time_off (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      start_date TEXT NOT NULL,
+      end_date TEXT NOT NULL, -- inclusive
+      type TEXT NOT NULL CHECK(type IN ('vacation', 'sick', 'l4', 'custom')),
+      label TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      CHECK(end_date >= start_date)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_time_off_dates ON time_off(start_date, end_date);
+
+    CREATE TABLE IF NOT EXISTS expenses (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      date TEXT NOT NULL,
+      category TEXT NOT NULL CHECK(category IN ('fuel', 'software', 'hardware', 'coworking', 'phone', 'office', 'travel', 'services', 'other')),
+      description TEXT NOT NULL,
+      supplier_name TEXT,
+      supplier_nip TEXT,
+      document_number TEXT,
+      net_grosze INTEGER NOT NULL,
+      vat_rate TEXT NOT NULL,
+      vat_grosze INTEGER NOT NULL,
+      gross_grosze INTEGER NOT NULL,
+      vat_deductible_percent INTEGER NOT NULL DEFAULT 100 CHECK(vat_deductible_percent BETWEEN 0 AND 100),
+      fuel_transaction_id INTEGER UNIQUE REFERENCES fuel_transactions(id) ON DELETE CASCADE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses(date);
+
+    CREATE TABLE IF NOT EXISTS documents (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      original_name TEXT NOT NULL,
+      path TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size_bytes INTEGER NOT NULL,
+      thumbnail_path TEXT,
+      expense_id INTEGER REFERENCES expenses(id) ON DELETE CASCADE,
+      fuel_transaction_id INTEGER REFERENCES fuel_transactions(id) ON DELETE CASCADE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      CHECK(expense_id IS NULL OR fuel_transaction_id IS NULL)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_documents_expense_id ON documents(expense_id);
+    CREATE INDEX IF NOT EXISTS idx_documents_fuel_transaction_id ON documents(fuel_transaction_id);
+
+    CREATE TABLE IF NOT EXISTS counterparties (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      nip TEXT NOT NULL UNIQUE,
+      address TEXT,
+      country_code TEXT,
+      email TEXT,
+      phone TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS vehicles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      registration_number TEXT NOT NULL UNIQUE,
+      logbook_start_date TEXT NOT NULL,
+      initial_odometer_km INTEGER NOT NULL CHECK(initial_odometer_km >= 0),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS trips (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      vehicle_id INTEGER NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+      date TEXT NOT NULL,
+      origin TEXT NOT NULL,
+      destination TEXT NOT NULL,
+      purpose TEXT NOT NULL,
+      distance_km REAL NOT NULL CHECK(distance_km > 0),
+      driver TEXT,
+      project_id TEXT, -- time-tracker project the trip was for
+      client_id INTEGER REFERENCES clients(id) ON DELETE SET NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     );
+
+    CREATE INDEX IF NOT EXISTS idx_trips_vehicle_date ON trips(vehicle_id, date);
   `;
   
+  dropLegacyTimeEntryCache();
   db.exec(createTablesSQL);
+
+  // Columns added after the initial release (CREATE TABLE IF NOT EXISTS skips existing tables)
+  ensureColumn('invoices', 'invoice_type', "TEXT NOT NULL DEFAULT 'VAT' CHECK(invoice_type IN ('VAT', 'KOR', 'PRO'))");
+  ensureColumn('invoices', 'corrected_invoice_id', 'INTEGER REFERENCES invoices(id) ON DELETE RESTRICT');
+  ensureColumn('invoices', 'correction_reason', 'TEXT');
+  ensureColumn('invoice_items', 'state_before', 'INTEGER NOT NULL DEFAULT 0');
+  ensureColumn('invoices', 'exchange_rate_date', 'TEXT');
+  ensureColumn('invoices', 'exchange_rate_table', 'TEXT');
+  ensureColumn('invoices', 'ksef_status', "TEXT CHECK(ksef_status IN ('processing', 'accepted', 'rejected'))");
+  ensureColumn('invoices', 'ksef_session_reference', 'TEXT');
+  ensureColumn('invoices', 'ksef_reference_number', 'TEXT');
+  ensureColumn('invoices', 'ksef_number', 'TEXT');
+  ensureColumn('invoices', 'ksef_upo_path', 'TEXT');
+  ensureColumn('invoices', 'ksef_error', 'TEXT');
+  ensureColumn('invoices', 'ksef_sent_at', 'DATETIME');
+  ensureColumn('invoices', 'proforma_id', 'INTEGER REFERENCES invoices(id) ON DELETE SET NULL');
+  ensureColumn('clients', 'country_code', "TEXT NOT NULL DEFAULT 'PL'");
+  ensureColumn('time_entries', 'tags', "TEXT NOT NULL DEFAULT '[]'");
+  ensureColumn('fuel_transactions', 'vehicle_id', 'INTEGER REFERENCES vehicles(id) ON DELETE SET NULL');
+  ensureColumn('fuel_transactions', 'odometer_km', 'INTEGER');
+  ensureColumn('trips', 'project_id', 'TEXT');
+  ensureColumn('trips', 'client_id', 'INTEGER REFERENCES clients(id) ON DELETE SET NULL');
+
+  allowProformaInvoiceType();
+  moveExpenseDocumentsToStore();
+
+  // Project ids are no longer Everhour-only
+  renameColumn('project_rates', 'everhour_project_id', 'project_id');
+  renameColumn('project_clients', 'everhour_project_id', 'project_id');
+  prefixInvoicedTimeEntryIds();
+
+  // A correction of a correction counts towards the invoice's balance only when it points at the chain's first invoice
+  db.exec(`
+    WITH RECURSIVE chain(id, corrected_id) AS (
+      SELECT k.id, k.corrected_invoice_id FROM invoices k
+      INNER JOIN invoices c ON c.id = k.corrected_invoice_id
+      WHERE k.invoice_type = 'KOR' AND c.invoice_type = 'KOR'
+      UNION ALL
+      SELECT chain.id, c.corrected_invoice_id FROM chain
+      INNER JOIN invoices c ON c.id = chain.corrected_id
+      WHERE c.invoice_type = 'KOR' AND c.corrected_invoice_id IS NOT NULL
+    )
+    UPDATE invoices SET corrected_invoice_id = (
+      SELECT chain.corrected_id FROM chain
+      INNER JOIN invoices r ON r.id = chain.corrected_id
+      WHERE chain.id = invoices.id AND r.invoice_type != 'KOR'
+    )
+    WHERE id IN (
+      SELECT chain.id FROM chain
+      INNER JOIN invoices r ON r.id = chain.corrected_id
+      WHERE r.invoice_type != 'KOR'
+    )
+  `);
+
+  // Rates set before rate periods existed priced every month; keep them doing so
+  db.exec(`
+    INSERT INTO project_rate_periods (project_id, hourly_rate, effective_from)
+    SELECT project_id, hourly_rate, NULL FROM project_rates
+    WHERE project_id NOT IN (SELECT project_id FROM project_rate_periods)
+  `);
+
+  // Fuel logged before the expense ledger existed becomes fuel expenses (23% VAT in the gross total)
+  db.exec(`
+    INSERT INTO expenses (date, category, description, supplier_name, net_grosze, vat_rate, vat_grosze, gross_grosze, vat_deductible_percent, fuel_transaction_id)
+    SELECT date, 'fuel', printf('%s %g l', fuel_type, liters), station_name,
+      CAST(ROUND(total_amount * 100 / 1.23) AS INTEGER), '23',
+      CAST(ROUND(total_amount * 100) AS INTEGER) - CAST(ROUND(total_amount * 100 / 1.23) AS INTEGER),
+      CAST(ROUND(total_amount * 100) AS INTEGER),
+      COALESCE((SELECT CAST(value AS INTEGER) FROM settings WHERE key = 'fuel_vat_deduction_percent'), 50),
+      id
+    FROM fuel_transactions
+    WHERE id NOT IN (SELECT fuel_transaction_id FROM expenses WHERE fuel_transaction_id IS NOT NULL)
+  `);
+
+  db.exec('CREATE INDEX IF NOT EXISTS idx_invoices_corrected_invoice_id ON invoices(corrected_invoice_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_invoices_proforma_id ON invoices(proforma_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_fuel_transactions_vehicle_id ON fuel_transactions(vehicle_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_trips_project_date ON trips(project_id, date)');
+
+  // Monthly invoice_sequences (year, month) were replaced by per-series counters; carry them over once
+  const legacySequences = db
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'invoice_sequences'")
+    .get();
+  if (legacySequences) {
+    db.transaction(() => {
+      db.exec(`
+        INSERT OR IGNORE INTO invoice_number_sequences (series, period, last_number, created_at, updated_at)
+        SELECT 'VAT', printf('%04d-%02d', year, month), last_number, created_at, updated_at
+        FROM invoice_sequences
+      `);
+      db.exec('DROP TABLE invoice_sequences');
+    })();
+  }
   
   // Initialize default settings if they don't exist
   const defaultRate = process.env.DEFAULT_HOURLY_RATE || '50';
@@ -177,6 +698,13 @@ function initializeDatabase() {
     insertSetting.run('currency', 'PLN');
     insertSetting.run('daily_hours_target', '8');
   }
+
+  // The default rate set before it had periods priced every month; keep it doing so
+  db.prepare(`
+    INSERT INTO default_rate_periods (hourly_rate, effective_from)
+    SELECT CAST(value AS REAL), NULL FROM settings
+    WHERE key = 'default_hourly_rate' AND NOT EXISTS (SELECT 1 FROM default_rate_periods)
+  `).run();
 }
 
 initializeDatabase();
@@ -193,18 +721,18 @@ export const projectRatesDb = {
     return stmt.get(id) as ProjectRate | undefined;
   },
 
-  getByEverhourId(everhour_project_id: string): ProjectRate | undefined {
-    const stmt = db.prepare('SELECT * FROM project_rates WHERE everhour_project_id = ?');
-    return stmt.get(everhour_project_id) as ProjectRate | undefined;
+  getByProjectId(project_id: string): ProjectRate | undefined {
+    const stmt = db.prepare('SELECT * FROM project_rates WHERE project_id = ?');
+    return stmt.get(project_id) as ProjectRate | undefined;
   },
 
   create(data: Omit<ProjectRate, 'id' | 'created_at' | 'updated_at'>): ProjectRate {
     const stmt = db.prepare(`
-      INSERT INTO project_rates (everhour_project_id, project_name, hourly_rate)
+      INSERT INTO project_rates (project_id, project_name, hourly_rate)
       VALUES (?, ?, ?)
     `);
     
-    const result = stmt.run(data.everhour_project_id, data.project_name, data.hourly_rate);
+    const result = stmt.run(data.project_id, data.project_name, data.hourly_rate);
     return this.getById(result.lastInsertRowid as number)!;
   },
 
@@ -212,9 +740,9 @@ export const projectRatesDb = {
     const fields: string[] = [];
     const values: any[] = [];
 
-    if (data.everhour_project_id !== undefined) {
-      fields.push('everhour_project_id = ?');
-      values.push(data.everhour_project_id);
+    if (data.project_id !== undefined) {
+      fields.push('project_id = ?');
+      values.push(data.project_id);
     }
     if (data.project_name !== undefined) {
       fields.push('project_name = ?');
@@ -243,7 +771,7 @@ export const projectRatesDb = {
   },
 
   upsert(data: Omit<ProjectRate, 'id' | 'created_at' | 'updated_at'>): ProjectRate {
-    const existing = this.getByEverhourId(data.everhour_project_id);
+    const existing = this.getByProjectId(data.project_id);
     
     if (existing) {
       return this.update(existing.id, data)!;
@@ -259,6 +787,125 @@ export const projectRatesDb = {
   }
 };
 
+// Rate periods of each project; the latest one starting on or before an entry's date prices it
+export const projectRatePeriodsDb = {
+  getAll(): ProjectRatePeriod[] {
+    const stmt = db.prepare(`
+      SELECT * FROM project_rate_periods
+      ORDER BY project_id, effective_from IS NOT NULL, effective_from
+    `);
+    return stmt.all() as ProjectRatePeriod[];
+  },
+
+  getByProjectId(project_id: string): ProjectRatePeriod[] {
+    const stmt = db.prepare(`
+      SELECT * FROM project_rate_periods
+      WHERE project_id = ?
+      ORDER BY effective_from IS NOT NULL, effective_from
+    `);
+    return stmt.all(project_id) as ProjectRatePeriod[];
+  },
+
+  getById(id: number): ProjectRatePeriod | undefined {
+    const stmt = db.prepare('SELECT * FROM project_rate_periods WHERE id = ?');
+    return stmt.get(id) as ProjectRatePeriod | undefined;
+  },
+
+  /** Sets the rate from a date on, replacing a period that starts on the same day. */
+  upsert(data: Pick<ProjectRatePeriod, 'project_id' | 'hourly_rate' | 'effective_from'>): ProjectRatePeriod {
+    const existing = db
+      .prepare('SELECT id FROM project_rate_periods WHERE project_id = ? AND effective_from IS ?')
+      .get(data.project_id, data.effective_from) as { id: number } | undefined;
+
+    if (existing) {
+      db.prepare('UPDATE project_rate_periods SET hourly_rate = ? WHERE id = ?').run(data.hourly_rate, existing.id);
+      return this.getById(existing.id)!;
+    }
+
+    const stmt = db.prepare(`
+      INSERT INTO project_rate_periods (project_id, hourly_rate, effective_from)
+      VALUES (?, ?, ?)
+    `);
+    const result = stmt.run(data.project_id, data.hourly_rate, data.effective_from);
+    return this.getById(result.lastInsertRowid as number)!;
+  },
+
+  delete(id: number): boolean {
+    const stmt = db.prepare('DELETE FROM project_rate_periods WHERE id = ?');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+};
+
+// Periods of the default rate; the latest one starting on or before an entry's date applies
+export const defaultRatePeriodsDb = {
+  getAll(): DefaultRatePeriod[] {
+    const stmt = db.prepare(`
+      SELECT * FROM default_rate_periods
+      ORDER BY effective_from IS NOT NULL, effective_from
+    `);
+    return stmt.all() as DefaultRatePeriod[];
+  },
+
+  /** Sets the default rate from a date on, replacing a period that starts on the same day. */
+  upsert(data: Pick<DefaultRatePeriod, 'hourly_rate' | 'effective_from'>): void {
+    const existing = db
+      .prepare('SELECT id FROM default_rate_periods WHERE effective_from IS ?')
+      .get(data.effective_from) as { id: number } | undefined;
+
+    if (existing) {
+      db.prepare('UPDATE default_rate_periods SET hourly_rate = ? WHERE id = ?').run(data.hourly_rate, existing.id);
+      return;
+    }
+
+    db.prepare('INSERT INTO default_rate_periods (hourly_rate, effective_from) VALUES (?, ?)').run(
+      data.hourly_rate,
+      data.effective_from
+    );
+  }
+};
+
+// Time-tracking project -> client mapping
+export const projectClientsDb = {
+  getAll(): ProjectClient[] {
+    const stmt = db.prepare(`
+      SELECT pc.*, c.name as client_name
+      FROM project_clients pc
+      INNER JOIN clients c ON c.id = pc.client_id
+      ORDER BY c.name, pc.project_id
+    `);
+    return stmt.all() as ProjectClient[];
+  },
+
+  getByProjectId(project_id: string): ProjectClient | undefined {
+    const stmt = db.prepare(`
+      SELECT pc.*, c.name as client_name
+      FROM project_clients pc
+      INNER JOIN clients c ON c.id = pc.client_id
+      WHERE pc.project_id = ?
+    `);
+    return stmt.get(project_id) as ProjectClient | undefined;
+  },
+
+  set(project_id: string, client_id: number): ProjectClient {
+    const stmt = db.prepare(`
+      INSERT INTO project_clients (project_id, client_id, created_at, updated_at)
+      VALUES (?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ON CONFLICT(project_id) DO UPDATE SET
+        client_id = excluded.client_id,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+    stmt.run(project_id, client_id);
+    return this.getByProjectId(project_id)!;
+  },
+
+  delete(project_id: string): boolean {
+    const stmt = db.prepare('DELETE FROM project_clients WHERE project_id = ?');
+    const result = stmt.run(project_id);
+    return result.changes > 0;
+  }
+};
+
 // Settings operations
 export const settingsDb = {
   get(key: string): string | undefined {
@@ -318,9 +965,24 @@ export const holidaysDb = {
 };
 
 // Fuel transactions operations
+const SELECT_FUEL_TRANSACTIONS = `
+  SELECT f.*, (SELECT COUNT(*) FROM documents d WHERE d.fuel_transaction_id = f.id) as document_count
+  FROM fuel_transactions f
+`;
+
+// Full-tank method: a fill-up's liters cover the distance since the vehicle's previous reading
+const FUEL_READINGS = `
+  readings AS (
+    SELECT id, vehicle_id, date, liters, total_amount,
+      odometer_km - LAG(odometer_km) OVER (PARTITION BY vehicle_id ORDER BY odometer_km, date, id) as distance_km
+    FROM fuel_transactions
+    WHERE vehicle_id IS NOT NULL AND odometer_km IS NOT NULL
+  )
+`;
+
 export const fuelTransactionsDb = {
   getAll(): FuelTransaction[] {
-    const stmt = db.prepare('SELECT * FROM fuel_transactions ORDER BY date DESC, created_at DESC');
+    const stmt = db.prepare(`${SELECT_FUEL_TRANSACTIONS} ORDER BY f.date DESC, f.created_at DESC`);
     return stmt.all() as FuelTransaction[];
   },
 
@@ -332,9 +994,9 @@ export const fuelTransactionsDb = {
   getByMonth(month: string): FuelTransaction[] {
     // month format: YYYY-MM
     const stmt = db.prepare(`
-      SELECT * FROM fuel_transactions 
-      WHERE strftime('%Y-%m', date) = ? 
-      ORDER BY date DESC, created_at DESC
+      ${SELECT_FUEL_TRANSACTIONS}
+      WHERE strftime('%Y-%m', f.date) = ?
+      ORDER BY f.date DESC, f.created_at DESC
     `);
     return stmt.all(month) as FuelTransaction[];
   },
@@ -364,22 +1026,91 @@ export const fuelTransactionsDb = {
     `);
     const total = totalStmt.get(month);
 
+    const vehicleStmt = db.prepare(`
+      WITH ${FUEL_READINGS},
+      fuel AS (
+        SELECT vehicle_id, SUM(distance_km) as distance_km, SUM(liters) as liters, SUM(total_amount) as fuel_cost
+        FROM readings
+        WHERE distance_km IS NOT NULL AND strftime('%Y-%m', date) = ?
+        GROUP BY vehicle_id
+      ),
+      logged AS (
+        SELECT vehicle_id, SUM(distance_km) as logged_km
+        FROM trips
+        WHERE strftime('%Y-%m', date) = ?
+        GROUP BY vehicle_id
+      )
+      SELECT v.id as vehicle_id, v.name as vehicle_name,
+        COALESCE(fuel.distance_km, 0) as distance_km,
+        COALESCE(fuel.liters, 0) as liters,
+        COALESCE(fuel.fuel_cost, 0) as fuel_cost,
+        COALESCE(logged.logged_km, 0) as logged_km
+      FROM vehicles v
+      LEFT JOIN fuel ON fuel.vehicle_id = v.id
+      LEFT JOIN logged ON logged.vehicle_id = v.id
+      WHERE fuel.vehicle_id IS NOT NULL OR logged.vehicle_id IS NOT NULL
+      ORDER BY v.name
+    `);
+    const byVehicle = (vehicleStmt.all(month, month) as Omit<VehicleFuelStats, 'consumption_l_per_100km' | 'cost_per_km'>[]).map(
+      (row) => ({
+        ...row,
+        consumption_l_per_100km: row.distance_km > 0 ? Math.round((row.liters / row.distance_km) * 10000) / 100 : null,
+        cost_per_km: row.distance_km > 0 ? Math.round((row.fuel_cost / row.distance_km) * 100) / 100 : null,
+      })
+    );
+
     return {
       total,
-      byType
+      byType,
+      byVehicle
     } as FuelMonthlyStats;
   },
 
+  // Fill-ups of a month that measure a distance; a vehicle's cost per km is based on these
+  getMeasuredFillUps(month: string): { id: number; vehicle_id: number; distance_km: number }[] {
+    const stmt = db.prepare(`
+      WITH ${FUEL_READINGS}
+      SELECT id, vehicle_id, distance_km
+      FROM readings
+      WHERE distance_km IS NOT NULL AND strftime('%Y-%m', date) = ?
+    `);
+    return stmt.all(month) as { id: number; vehicle_id: number; distance_km: number }[];
+  },
+
+  getMonthlyTotals(from: string, to: string): { month: string; total_spent: number }[] {
+    // from/to format: YYYY-MM-DD, inclusive
+    const stmt = db.prepare(`
+      SELECT strftime('%Y-%m', date) as month, SUM(total_amount) as total_spent
+      FROM fuel_transactions
+      WHERE date BETWEEN ? AND ?
+      GROUP BY month
+      ORDER BY month
+    `);
+    return stmt.all(from, to) as { month: string; total_spent: number }[];
+  },
+
+  // Readings of a vehicle just before and after a date, for keeping the odometer increasing
+  getOdometerBounds(vehicleId: number, date: string): { previous: number | null; next: number | null } {
+    const stmt = db.prepare(`
+      SELECT
+        (SELECT MAX(odometer_km) FROM fuel_transactions WHERE vehicle_id = ? AND date <= ?) as previous,
+        (SELECT MIN(odometer_km) FROM fuel_transactions WHERE vehicle_id = ? AND date > ?) as next
+    `);
+    return stmt.get(vehicleId, date, vehicleId, date) as { previous: number | null; next: number | null };
+  },
+
   create(data: { 
     date: string; 
     fuel_type: string; 
     liters: number; 
     price_per_liter: number; 
-    total_amount: number 
+    total_amount: number;
+    vehicle_id?: number | null;
+    odometer_km?: number | null;
   }): FuelTransaction {
     const stmt = db.prepare(`
-      INSERT INTO fuel_transactions (date, fuel_type, liters, price_per_liter, total_amount)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO fuel_transactions (date, fuel_type, liters, price_per_liter, total_amount, vehicle_id, odometer_km)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
     
     const result = stmt.run(
@@ -387,7 +1118,9 @@ export const fuelTransactionsDb = {
       data.fuel_type, 
       data.liters, 
       data.price_per_liter, 
-      data.total_amount
+      data.total_amount,
+      data.vehicle_id ?? null,
+      data.odometer_km ?? null
     );
     
     return this.getById(result.lastInsertRowid as number)!;
@@ -534,12 +1267,13 @@ export const clientsDb = {
 
   create(data: Omit<Client, 'id' | 'created_at' | 'updated_at'>): Client {
     const stmt = db.prepare(`
-      INSERT INTO clients (name, nip, address, city, postal_code, email, phone, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      INSERT INTO clients (name, nip, country_code, address, city, postal_code, email, phone, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
     `);
     const result = stmt.run(
       data.name,
       data.nip,
+      data.country_code,
       data.address ?? null,
       data.city ?? null,
       data.postal_code ?? null,
@@ -555,6 +1289,7 @@ export const clientsDb = {
 
     if (data.name !== undefined) { fields.push('name = ?'); values.push(data.name); }
     if (data.nip !== undefined) { fields.push('nip = ?'); values.push(data.nip); }
+    if (data.country_code !== undefined) { fields.push('country_code = ?'); values.push(data.country_code); }
     if (data.address !== undefined) { fields.push('address = ?'); values.push(data.address ?? null); }
     if (data.city !== undefined) { fields.push('city = ?'); values.push(data.city ?? null); }
     if (data.postal_code !== undefined) { fields.push('postal_code = ?'); values.push(data.postal_code ?? null); }
@@ -599,15 +1334,36 @@ export const invoicesDb = {
     return stmt.get(invoice_number) as Invoice | undefined;
   },
 
+  getCorrections(invoiceId: number): Invoice[] {
+    const stmt = db.prepare('SELECT * FROM invoices WHERE corrected_invoice_id = ? ORDER BY issue_date ASC, id ASC');
+    return stmt.all(invoiceId) as Invoice[];
+  },
+
+  getConvertedFromProforma(proformaId: number): Invoice | undefined {
+    const stmt = db.prepare('SELECT * FROM invoices WHERE proforma_id = ? ORDER BY id ASC LIMIT 1');
+    return stmt.get(proformaId) as Invoice | undefined;
+  },
+
+  // Issued sales invoices and corrections; drafts, cancelled invoices and pro formas are not revenue
+  getIssuedByDateRange(from: string, to: string): Invoice[] {
+    const stmt = db.prepare(`
+      SELECT * FROM invoices
+      WHERE status = 'issued' AND invoice_type != 'PRO' AND issue_date BETWEEN ? AND ?
+      ORDER BY issue_date ASC, id ASC
+    `);
+    return stmt.all(from, to) as Invoice[];
+  },
+
   create(data: Omit<Invoice, 'id' | 'created_at' | 'updated_at'>): Invoice {
     const stmt = db.prepare(`
       INSERT INTO invoices (
-        invoice_number, issue_date, sale_date, client_id, status, payment_method,
-        payment_deadline, currency, exchange_rate, notes,
+        invoice_number, issue_date, sale_date, client_id, status,
+        invoice_type, corrected_invoice_id, correction_reason, payment_method,
+        payment_deadline, currency, exchange_rate, exchange_rate_date, exchange_rate_table, notes,
         subtotal_grosze, tax_grosze, total_grosze, xml_path, pdf_path,
         created_at, updated_at
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
     `);
     const result = stmt.run(
       data.invoice_number,
@@ -615,10 +1371,15 @@ export const invoicesDb = {
       data.sale_date,
       data.client_id,
       data.status,
+      data.invoice_type,
+      data.corrected_invoice_id ?? null,
+      data.correction_reason ?? null,
       data.payment_method,
       data.payment_deadline ?? null,
       data.currency,
       data.exchange_rate ?? null,
+      data.exchange_rate_date ?? null,
+      data.exchange_rate_table ?? null,
       data.notes ?? null,
       data.subtotal_grosze,
       data.tax_grosze,
@@ -640,16 +1401,29 @@ export const invoicesDb = {
     if (data.sale_date !== undefined) setField('sale_date', data.sale_date);
     if (data.client_id !== undefined) setField('client_id', data.client_id);
     if (data.status !== undefined) setField('status', data.status as InvoiceStatus);
+    if (data.invoice_type !== undefined) setField('invoice_type', data.invoice_type);
+    if (data.corrected_invoice_id !== undefined) setField('corrected_invoice_id', data.corrected_invoice_id ?? null);
+    if (data.correction_reason !== undefined) setField('correction_reason', data.correction_reason ?? null);
+    if (data.proforma_id !== undefined) setField('proforma_id', data.proforma_id ?? null);
     if (data.payment_method !== undefined) setField('payment_method', data.payment_method as PaymentMethod);
     if (data.payment_deadline !== undefined) setField('payment_deadline', data.payment_deadline ?? null);
     if (data.currency !== undefined) setField('currency', data.currency);
     if (data.exchange_rate !== undefined) setField('exchange_rate', data.exchange_rate ?? null);
+    if (data.exchange_rate_date !== undefined) setField('exchange_rate_date', data.exchange_rate_date ?? null);
+    if (data.exchange_rate_table !== undefined) setField('exchange_rate_table', data.exchange_rate_table ?? null);
     if (data.notes !== undefined) setField('notes', data.notes ?? null);
     if (data.subtotal_grosze !== undefined) setField('subtotal_grosze', data.subtotal_grosze);
     if (data.tax_grosze !== undefined) setField('tax_grosze', data.tax_grosze);
     if (data.total_grosze !== undefined) setField('total_grosze', data.total_grosze);
     if (data.xml_path !== undefined) setField('xml_path', data.xml_path ?? null);
     if (data.pdf_path !== undefined) setField('pdf_path', data.pdf_path ?? null);
+    if (data.ksef_status !== undefined) setField('ksef_status', data.ksef_status ?? null);
+    if (data.ksef_session_reference !== undefined) setField('ksef_session_reference', data.ksef_session_reference ?? null);
+    if (data.ksef_reference_number !== undefined) setField('ksef_reference_number', data.ksef_reference_number ?? null);
+    if (data.ksef_number !== undefined) setField('ksef_number', data.ksef_number ?? null);
+    if (data.ksef_upo_path !== undefined) setField('ksef_upo_path', data.ksef_upo_path ?? null);
+    if (data.ksef_error !== undefined) setField('ksef_error', data.ksef_error ?? null);
+    if (data.ksef_sent_at !== undefined) setField('ksef_sent_at', data.ksef_sent_at ?? null);
 
     if (fields.length === 0) return this.getById(id);
 
@@ -687,10 +1461,10 @@ export const invoiceItemsDb = {
       INSERT INTO invoice_items (
         invoice_id, name, quantity, unit,
         unit_price_grosze, vat_rate,
-        net_grosze, vat_grosze, gross_grosze,
+        net_grosze, vat_grosze, gross_grosze, state_before,
         created_at
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
     `);
 
     const tx = db.transaction((rows: typeof items) => {
@@ -704,7 +1478,8 @@ export const invoiceItemsDb = {
           it.vat_rate,
           it.net_grosze,
           it.vat_grosze,
-          it.gross_grosze
+          it.gross_grosze,
+          it.state_before ?? 0
         );
       }
     });
@@ -720,23 +1495,881 @@ export const invoiceItemsDb = {
 };
 
 export const invoiceSequencesDb = {
-  get(year: number, month: number): InvoiceSequence | undefined {
-    const stmt = db.prepare('SELECT * FROM invoice_sequences WHERE year = ? AND month = ?');
-    return stmt.get(year, month) as InvoiceSequence | undefined;
+  get(series: string, period: string): InvoiceSequence | undefined {
+    const stmt = db.prepare('SELECT * FROM invoice_number_sequences WHERE series = ? AND period = ?');
+    return stmt.get(series, period) as InvoiceSequence | undefined;
   },
 
-  upsert(year: number, month: number, last_number: number): InvoiceSequence {
+  upsert(series: string, period: string, last_number: number): InvoiceSequence {
     const stmt = db.prepare(`
-      INSERT INTO invoice_sequences (year, month, last_number, created_at, updated_at)
+      INSERT INTO invoice_number_sequences (series, period, last_number, created_at, updated_at)
       VALUES (?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-      ON CONFLICT(year, month) DO UPDATE SET
+      ON CONFLICT(series, period) DO UPDATE SET
         last_number = excluded.last_number,
         updated_at = CURRENT_TIMESTAMP
     `);
-    stmt.run(year, month, last_number);
-    return this.get(year, month)!;
+    stmt.run(series, period, last_number);
+    return this.get(series, period)!;
   }
 };
 
-export default db;
+export const invoiceTimeEntriesDb = {
+  getInvoicedIds(timeEntryIds: string[]): Set<string> {
+    if (timeEntryIds.length === 0) return new Set();
+    const stmt = db.prepare(`
+      SELECT time_entry_id FROM invoice_time_entries
+      WHERE time_entry_id IN (SELECT value FROM json_each(?))
+    `);
+    const rows = stmt.all(JSON.stringify(timeEntryIds)) as Array<{ time_entry_id: string }>;
+    return new Set(rows.map((r) => r.time_entry_id));
+  },
+
+  getByInvoiceId(invoiceId: number): string[] {
+    const stmt = db.prepare('SELECT time_entry_id FROM invoice_time_entries WHERE invoice_id = ? ORDER BY time_entry_id ASC');
+    const rows = stmt.all(invoiceId) as Array<{ time_entry_id: string }>;
+    return rows.map((r) => r.time_entry_id);
+  },
+
+  link(invoiceId: number, timeEntryIds: string[]): void {
+    const insert = db.prepare(`
+      INSERT INTO invoice_time_entries (time_entry_id, invoice_id, created_at)
+      VALUES (?, ?, CURRENT_TIMESTAMP)
+    `);
+
+    const tx = db.transaction((ids: string[]) => {
+      for (const id of ids) {
+        insert.run(id, invoiceId);
+      }
+    });
+
+    tx(timeEntryIds);
+  },
+
+  relink(fromInvoiceId: number, toInvoiceId: number): void {
+    db.prepare('UPDATE invoice_time_entries SET invoice_id = ? WHERE invoice_id = ?').run(toInvoiceId, fromInvoiceId);
+  }
+};
+
+export const paymentsDb = {
+  getById(id: number): Payment | undefined {
+    const stmt = db.prepare('SELECT * FROM payments WHERE id = ?');
+    return stmt.get(id) as Payment | undefined;
+  },
+
+  getByInvoiceId(invoiceId: number): Payment[] {
+    const stmt = db.prepare('SELECT * FROM payments WHERE invoice_id = ? ORDER BY payment_date ASC, id ASC');
+    return stmt.all(invoiceId) as Payment[];
+  },
+
+  create(data: Omit<Payment, 'id' | 'created_at'>): Payment {
+    const stmt = db.prepare(`
+      INSERT INTO payments (invoice_id, amount_grosze, payment_date, method, reference, notes, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+    const result = stmt.run(
+      data.invoice_id,
+      data.amount_grosze,
+      data.payment_date,
+      data.method,
+      data.reference ?? null,
+      data.notes ?? null
+    );
+    return this.getById(result.lastInsertRowid as number)!;
+  },
 
+  delete(id: number): boolean {
+    const stmt = db.prepare('DELETE FROM payments WHERE id = ?');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+};
+
+export const bankStatementsDb = {
+  getById(id: number): BankStatement | undefined {
+    const stmt = db.prepare('SELECT * FROM bank_statements WHERE id = ?');
+    return stmt.get(id) as BankStatement | undefined;
+  },
+
+  create(data: Omit<BankStatement, 'id' | 'imported_at'>): BankStatement {
+    const stmt = db.prepare(`
+      INSERT INTO bank_statements (format, bank, account, file_name, imported_at)
+      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+    const result = stmt.run(data.format, data.bank ?? null, data.account ?? null, data.file_name);
+    return this.getById(result.lastInsertRowid as number)!;
+  }
+};
+
+export const bankTransactionsDb = {
+  getById(id: number): BankTransaction | undefined {
+    const stmt = db.prepare('SELECT * FROM bank_transactions WHERE id = ?');
+    return stmt.get(id) as BankTransaction | undefined;
+  },
+
+  getAll(status?: BankTransactionStatus): BankTransactionListItem[] {
+    const stmt = db.prepare(`
+      SELECT t.*, i.invoice_number AS proposed_invoice_number
+      FROM bank_transactions t
+      LEFT JOIN invoices i ON i.id = t.proposed_invoice_id
+      WHERE (? IS NULL OR t.status = ?)
+      ORDER BY t.booking_date DESC, t.id DESC
+    `);
+    return stmt.all(status ?? null, status ?? null) as BankTransactionListItem[];
+  },
+
+  existsByFingerprint(fingerprint: string): boolean {
+    const stmt = db.prepare('SELECT 1 FROM bank_transactions WHERE fingerprint = ?');
+    return stmt.get(fingerprint) !== undefined;
+  },
+
+  create(
+    data: Omit<BankTransaction, 'id' | 'status' | 'proposed_invoice_id' | 'match_reasons' | 'payment_id' | 'created_at'>
+  ): BankTransaction {
+    const stmt = db.prepare(`
+      INSERT INTO bank_transactions (
+        statement_id, fingerprint, booking_date, amount_grosze, currency, title,
+        counterparty_name, counterparty_account, reference, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+    const result = stmt.run(
+      data.statement_id,
+      data.fingerprint,
+      data.booking_date,
+      data.amount_grosze,
+      data.currency,
+      data.title,
+      data.counterparty_name ?? null,
+      data.counterparty_account ?? null,
+      data.reference ?? null
+    );
+    return this.getById(result.lastInsertRowid as number)!;
+  },
+
+  update(
+    id: number,
+    data: Partial<Pick<BankTransaction, 'status' | 'proposed_invoice_id' | 'match_reasons' | 'payment_id'>>
+  ): BankTransaction | undefined {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (data.status !== undefined) { fields.push('status = ?'); values.push(data.status); }
+    if (data.proposed_invoice_id !== undefined) { fields.push('proposed_invoice_id = ?'); values.push(data.proposed_invoice_id); }
+    if (data.match_reasons !== undefined) { fields.push('match_reasons = ?'); values.push(data.match_reasons); }
+    if (data.payment_id !== undefined) { fields.push('payment_id = ?'); values.push(data.payment_id); }
+
+    if (fields.length === 0) return this.getById(id);
+
+    values.push(id);
+    const stmt = db.prepare(`UPDATE bank_transactions SET ${fields.join(', ')} WHERE id = ?`);
+    stmt.run(...values);
+    return this.getById(id);
+  },
+
+  // A removed payment puts its bank transaction back in the review queue
+  unlinkPayment(paymentId: number): void {
+    const stmt = db.prepare(`
+      UPDATE bank_transactions
+      SET status = 'unmatched', payment_id = NULL
+      WHERE payment_id = ?
+    `);
+    stmt.run(paymentId);
+  }
+};
+
+type RecurringInvoiceRow = Omit<RecurringInvoice, 'items' | 'active'> & { items: string; active: number };
+
+function toRecurringInvoice(row: RecurringInvoiceRow): RecurringInvoice {
+  return { ...row, items: JSON.parse(row.items) as CreateInvoiceItemInput[], active: row.active === 1 };
+}
+
+export const recurringInvoicesDb = {
+  getAll(): RecurringInvoice[] {
+    const stmt = db.prepare('SELECT * FROM recurring_invoices ORDER BY name ASC, id ASC');
+    return (stmt.all() as RecurringInvoiceRow[]).map(toRecurringInvoice);
+  },
+
+  getById(id: number): RecurringInvoice | undefined {
+    const stmt = db.prepare('SELECT * FROM recurring_invoices WHERE id = ?');
+    const row = stmt.get(id) as RecurringInvoiceRow | undefined;
+    return row ? toRecurringInvoice(row) : undefined;
+  },
+
+  create(data: CreateRecurringInvoiceInput): RecurringInvoice {
+    const stmt = db.prepare(`
+      INSERT INTO recurring_invoices (
+        name, client_id, payment_method, currency, notes, items,
+        day_of_month, payment_days, start_date, end_date, active, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+    `);
+    const result = stmt.run(
+      data.name,
+      data.client_id,
+      data.payment_method,
+      data.currency,
+      data.notes ?? null,
+      JSON.stringify(data.items),
+      data.day_of_month,
+      data.payment_days,
+      data.start_date,
+      data.end_date ?? null,
+      data.active === false ? 0 : 1
+    );
+    return this.getById(result.lastInsertRowid as number)!;
+  },
+
+  update(id: number, data: Partial<CreateRecurringInvoiceInput>): RecurringInvoice | undefined {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (data.name !== undefined) { fields.push('name = ?'); values.push(data.name); }
+    if (data.client_id !== undefined) { fields.push('client_id = ?'); values.push(data.client_id); }
+    if (data.payment_method !== undefined) { fields.push('payment_method = ?'); values.push(data.payment_method); }
+    if (data.currency !== undefined) { fields.push('currency = ?'); values.push(data.currency); }
+    if (data.notes !== undefined) { fields.push('notes = ?'); values.push(data.notes ?? null); }
+    if (data.items !== undefined) { fields.push('items = ?'); values.push(JSON.stringify(data.items)); }
+    if (data.day_of_month !== undefined) { fields.push('day_of_month = ?'); values.push(data.day_of_month); }
+    if (data.payment_days !== undefined) { fields.push('payment_days = ?'); values.push(data.payment_days); }
+    if (data.start_date !== undefined) { fields.push('start_date = ?'); values.push(data.start_date); }
+    if (data.end_date !== undefined) { fields.push('end_date = ?'); values.push(data.end_date ?? null); }
+    if (data.active !== undefined) { fields.push('active = ?'); values.push(data.active ? 1 : 0); }
+
+    if (fields.length === 0) return this.getById(id);
+
+    fields.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id);
+    const stmt = db.prepare(`UPDATE recurring_invoices SET ${fields.join(', ')} WHERE id = ?`);
+    stmt.run(...values);
+    return this.getById(id);
+  },
+
+  delete(id: number): boolean {
+    const stmt = db.prepare('DELETE FROM recurring_invoices WHERE id = ?');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+};
+
+export const recurringInvoiceRunsDb = {
+  getLatest(recurringInvoiceId: number): RecurringInvoiceRun | undefined {
+    const stmt = db.prepare(`
+      SELECT * FROM recurring_invoice_runs
+      WHERE recurring_invoice_id = ?
+      ORDER BY period DESC
+      LIMIT 1
+    `);
+    return stmt.get(recurringInvoiceId) as RecurringInvoiceRun | undefined;
+  },
+
+  // Claims a period before its draft is created; false when it is already taken
+  reserve(recurringInvoiceId: number, period: string): boolean {
+    const stmt = db.prepare(`
+      INSERT OR IGNORE INTO recurring_invoice_runs (recurring_invoice_id, period, invoice_id, created_at)
+      VALUES (?, ?, NULL, CURRENT_TIMESTAMP)
+    `);
+    return stmt.run(recurringInvoiceId, period).changes > 0;
+  },
+
+  setInvoice(recurringInvoiceId: number, period: string, invoiceId: number): void {
+    const stmt = db.prepare(`
+      UPDATE recurring_invoice_runs SET invoice_id = ?
+      WHERE recurring_invoice_id = ? AND period = ?
+    `);
+    stmt.run(invoiceId, recurringInvoiceId, period);
+  },
+
+  release(recurringInvoiceId: number, period: string): void {
+    const stmt = db.prepare('DELETE FROM recurring_invoice_runs WHERE recurring_invoice_id = ? AND period = ?');
+    stmt.run(recurringInvoiceId, period);
+  }
+};
+
+export const exchangeRatesDb = {
+  // Latest published rate strictly before the given date
+  getLatestBefore(currency: string, date: string): ExchangeRate | undefined {
+    const stmt = db.prepare(`
+      SELECT * FROM exchange_rates
+      WHERE currency = ? AND effective_date < ?
+      ORDER BY effective_date DESC
+      LIMIT 1
+    `);
+    return stmt.get(currency, date) as ExchangeRate | undefined;
+  },
+
+  bulkUpsert(rates: Array<Omit<ExchangeRate, 'fetched_at'>>): void {
+    const stmt = db.prepare(`
+      INSERT INTO exchange_rates (currency, effective_date, rate, table_no, source, fetched_at)
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(currency, effective_date) DO UPDATE SET
+        rate = excluded.rate,
+        table_no = excluded.table_no,
+        source = excluded.source,
+        fetched_at = CURRENT_TIMESTAMP
+    `);
+
+    const upsertMany = db.transaction((rows: Array<Omit<ExchangeRate, 'fetched_at'>>) => {
+      for (const r of rows) {
+        stmt.run(r.currency, r.effective_date, r.rate, r.table_no ?? null, r.source);
+      }
+    });
+
+    upsertMany(rates);
+  }
+};
+
+type TimeEntryRow = Omit<TimeEntry, 'tags'> & { tags: string };
+
+export const timeEntriesDb = {
+  getByDateRange(source: TimeProviderName, from: string, to: string): TimeEntry[] {
+    const stmt = db.prepare(
+      'SELECT * FROM time_entries WHERE source = ? AND date BETWEEN ? AND ? ORDER BY date ASC, id ASC'
+    );
+    return (stmt.all(source, from, to) as TimeEntryRow[]).map((row) => ({ ...row, tags: JSON.parse(row.tags) }));
+  },
+
+  // Swaps a month's cached entries for a fresh copy in one transaction
+  replaceRange(source: TimeProviderName, from: string, to: string, entries: TrackedTimeEntry[]): void {
+    const remove = db.prepare('DELETE FROM time_entries WHERE source = ? AND date BETWEEN ? AND ?');
+    const insert = db.prepare(`
+      INSERT OR REPLACE INTO time_entries (id, source, date, seconds, task_id, task_name, project_id, user_id, user_name, tags, synced_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+    const tx = db.transaction(() => {
+      remove.run(source, from, to);
+      for (const e of entries) {
+        insert.run(
+          e.id, source, e.date, e.seconds, e.task_id, e.task_name, e.project_id, e.user_id, e.user_name, JSON.stringify(e.tags)
+        );
+      }
+    });
+
+    tx();
+  }
+};
+
+export const timeEntryProjectsDb = {
+  getAll(source: TimeProviderName): TrackedProject[] {
+    const stmt = db.prepare('SELECT id, name FROM time_entry_projects WHERE source = ? ORDER BY name ASC');
+    return stmt.all(source) as TrackedProject[];
+  },
+
+  replaceAll(source: TimeProviderName, projects: TrackedProject[]): void {
+    const insert = db.prepare(
+      'INSERT OR REPLACE INTO time_entry_projects (source, id, name, synced_at) VALUES (?, ?, ?, CURRENT_TIMESTAMP)'
+    );
+
+    const tx = db.transaction(() => {
+      db.prepare('DELETE FROM time_entry_projects WHERE source = ?').run(source);
+      for (const p of projects) {
+        insert.run(source, p.id, p.name);
+      }
+    });
+
+    tx();
+  }
+};
+
+export const timeSyncMonthsDb = {
+  getAll(source: TimeProviderName): TimeSyncMonth[] {
+    const stmt = db.prepare('SELECT * FROM time_sync_months WHERE source = ? ORDER BY month DESC');
+    return stmt.all(source) as TimeSyncMonth[];
+  },
+
+  get(source: TimeProviderName, month: string): TimeSyncMonth | undefined {
+    const stmt = db.prepare('SELECT * FROM time_sync_months WHERE source = ? AND month = ?');
+    return stmt.get(source, month) as TimeSyncMonth | undefined;
+  },
+
+  recordSuccess(source: TimeProviderName, month: string, entryCount: number): void {
+    const stmt = db.prepare(`
+      INSERT INTO time_sync_months (source, month, status, entry_count, synced_at, attempted_at, error)
+      VALUES (?, ?, 'ok', ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, NULL)
+      ON CONFLICT(source, month) DO UPDATE SET
+        status = 'ok',
+        entry_count = excluded.entry_count,
+        synced_at = CURRENT_TIMESTAMP,
+        attempted_at = CURRENT_TIMESTAMP,
+        error = NULL
+    `);
+    stmt.run(source, month, entryCount);
+  },
+
+  // Keeps the last successful sync so cached data stays usable
+  recordFailure(source: TimeProviderName, month: string, error: string): void {
+    const stmt = db.prepare(`
+      INSERT INTO time_sync_months (source, month, status, entry_count, synced_at, attempted_at, error)
+      VALUES (?, ?, 'error', 0, NULL, CURRENT_TIMESTAMP, ?)
+      ON CONFLICT(source, month) DO UPDATE SET
+        status = 'error',
+        attempted_at = CURRENT_TIMESTAMP,
+        error = excluded.error
+    `);
+    stmt.run(source, month, error);
+  }
+};
+
+export const manualTimeEntriesDb = {
+  getById(id: number): ManualTimeEntry | undefined {
+    const stmt = db.prepare('SELECT * FROM manual_time_entries WHERE id = ?');
+    return stmt.get(id) as ManualTimeEntry | undefined;
+  },
+
+  getByDateRange(from: string, to: string): ManualTimeEntry[] {
+    const stmt = db.prepare('SELECT * FROM manual_time_entries WHERE date BETWEEN ? AND ? ORDER BY date ASC, id ASC');
+    return stmt.all(from, to) as ManualTimeEntry[];
+  },
+
+  // Projects that only exist on manual entries, with the most recent name used for each
+  getProjects(): TrackedProject[] {
+    const stmt = db.prepare(`
+      SELECT project_id AS id, project_name AS name FROM manual_time_entries m
+      WHERE project_id IS NOT NULL AND project_name IS NOT NULL
+        AND id = (SELECT MAX(id) FROM manual_time_entries WHERE project_id = m.project_id)
+      ORDER BY project_name ASC
+    `);
+    return stmt.all() as TrackedProject[];
+  },
+
+  create(data: Omit<ManualTimeEntry, 'id' | 'created_at' | 'updated_at'>): ManualTimeEntry {
+    const stmt = db.prepare(`
+      INSERT INTO manual_time_entries (source, date, seconds, project_id, project_name, task_name, import_key)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      data.source,
+      data.date,
+      data.seconds,
+      data.project_id,
+      data.project_name,
+      data.task_name,
+      data.import_key
+    );
+    return this.getById(result.lastInsertRowid as number)!;
+  },
+
+  update(
+    id: number,
+    data: Partial<Pick<ManualTimeEntry, 'date' | 'seconds' | 'project_id' | 'project_name' | 'task_name'>>
+  ): ManualTimeEntry | undefined {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (data.date !== undefined) {
+      fields.push('date = ?');
+      values.push(data.date);
+    }
+    if (data.seconds !== undefined) {
+      fields.push('seconds = ?');
+      values.push(data.seconds);
+    }
+    if (data.project_id !== undefined) {
+      fields.push('project_id = ?');
+      values.push(data.project_id);
+    }
+    if (data.project_name !== undefined) {
+      fields.push('project_name = ?');
+      values.push(data.project_name);
+    }
+    if (data.task_name !== undefined) {
+      fields.push('task_name = ?');
+      values.push(data.task_name);
+    }
+
+    if (fields.length === 0) {
+      return this.getById(id);
+    }
+
+    fields.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(id);
+
+    db.prepare(`UPDATE manual_time_entries SET ${fields.join(', ')} WHERE id = ?`).run(...values);
+    return this.getById(id);
+  },
+
+  delete(id: number): boolean {
+    const result = db.prepare('DELETE FROM manual_time_entries WHERE id = ?').run(id);
+    return result.changes > 0;
+  },
+
+  hasImportKey(importKey: string): boolean {
+    return !!db.prepare('SELECT 1 FROM manual_time_entries WHERE import_key = ?').get(importKey);
+  }
+};
+
+type BillingRuleRow = Omit<BillingRule, 'billable'> & { billable: number };
+
+const toBillingRule = (row: BillingRuleRow): BillingRule => ({ ...row, billable: row.billable === 1 });
+
+export const billingRulesDb = {
+  getAll(): BillingRule[] {
+    const stmt = db.prepare('SELECT * FROM billing_rules ORDER BY effective_until IS NOT NULL, project_id IS NULL, id');
+    return (stmt.all() as BillingRuleRow[]).map(toBillingRule);
+  },
+
+  getById(id: number): BillingRule | undefined {
+    const stmt = db.prepare('SELECT * FROM billing_rules WHERE id = ?');
+    const row = stmt.get(id) as BillingRuleRow | undefined;
+    return row ? toBillingRule(row) : undefined;
+  },
+
+  create(data: Omit<BillingRule, 'id' | 'effective_until' | 'created_at'>): BillingRule {
+    const stmt = db.prepare(`
+      INSERT INTO billing_rules (project_id, match_type, pattern, billable, hourly_rate, effective_from)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      data.project_id,
+      data.match_type,
+      data.pattern,
+      data.billable ? 1 : 0,
+      data.hourly_rate,
+      data.effective_from
+    );
+    return this.getById(result.lastInsertRowid as number)!;
+  },
+
+  retire(id: number, effectiveUntil: string): BillingRule | undefined {
+    db.prepare('UPDATE billing_rules SET effective_until = ? WHERE id = ?').run(effectiveUntil, id);
+    return this.getById(id);
+  },
+
+  delete(id: number): boolean {
+    const stmt = db.prepare('DELETE FROM billing_rules WHERE id = ?');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+};
+
+// Time off operations
+export const timeOffDb = {
+  getAll(): TimeOff[] {
+    const stmt = db.prepare('SELECT * FROM time_off ORDER BY start_date, id');
+    return stmt.all() as TimeOff[];
+  },
+
+  // Periods touching from..to (YYYY-MM-DD, inclusive)
+  getOverlapping(from: string, to: string): TimeOff[] {
+    const stmt = db.prepare('SELECT * FROM time_off WHERE start_date <= ? AND end_date >= ? ORDER BY start_date, id');
+    return stmt.all(to, from) as TimeOff[];
+  },
+
+  getById(id: number): TimeOff | undefined {
+    const stmt = db.prepare('SELECT * FROM time_off WHERE id = ?');
+    return stmt.get(id) as TimeOff | undefined;
+  },
+
+  create(data: Omit<TimeOff, 'id' | 'created_at' | 'updated_at'>): TimeOff {
+    const stmt = db.prepare(`
+      INSERT INTO time_off (start_date, end_date, type, label)
+      VALUES (?, ?, ?, ?)
+    `);
+    const result = stmt.run(data.start_date, data.end_date, data.type, data.label);
+    return this.getById(result.lastInsertRowid as number)!;
+  },
+
+  update(id: number, data: Omit<TimeOff, 'id' | 'created_at' | 'updated_at'>): TimeOff | undefined {
+    const stmt = db.prepare(`
+      UPDATE time_off
+      SET start_date = ?,
+          end_date = ?,
+          type = ?,
+          label = ?,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+    stmt.run(data.start_date, data.end_date, data.type, data.label, id);
+    return this.getById(id);
+  },
+
+  delete(id: number): boolean {
+    const stmt = db.prepare('DELETE FROM time_off WHERE id = ?');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+};
+
+// Expense operations
+type ExpenseInput = Omit<Expense, 'id' | 'document_count' | 'created_at' | 'updated_at'>;
+
+// A fuel expense shows the receipts attached to its fuel log entry
+const SELECT_EXPENSES = `
+  SELECT e.*, (
+    SELECT COUNT(*) FROM documents d
+    WHERE d.expense_id = e.id OR (e.fuel_transaction_id IS NOT NULL AND d.fuel_transaction_id = e.fuel_transaction_id)
+  ) as document_count
+  FROM expenses e
+`;
+
+const mapExpense = (r: any): Expense => ({
+  ...r,
+  vat_rate: r.vat_rate === 'ZW' || r.vat_rate === 'NP' ? r.vat_rate : Number(r.vat_rate),
+});
+
+export const expensesDb = {
+  // from/to format: YYYY-MM-DD, inclusive
+  getByDateRange(from: string, to: string): Expense[] {
+    const stmt = db.prepare(`${SELECT_EXPENSES} WHERE e.date BETWEEN ? AND ? ORDER BY e.date DESC, e.id DESC`);
+    return (stmt.all(from, to) as any[]).map(mapExpense);
+  },
+
+  getById(id: number): Expense | undefined {
+    const stmt = db.prepare(`${SELECT_EXPENSES} WHERE e.id = ?`);
+    const row = stmt.get(id);
+    return row ? mapExpense(row) : undefined;
+  },
+
+  create(data: ExpenseInput): Expense {
+    const stmt = db.prepare(`
+      INSERT INTO expenses (
+        date, category, description, supplier_name, supplier_nip, document_number,
+        net_grosze, vat_rate, vat_grosze, gross_grosze, vat_deductible_percent, fuel_transaction_id
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      data.date,
+      data.category,
+      data.description,
+      data.supplier_name,
+      data.supplier_nip,
+      data.document_number,
+      data.net_grosze,
+      String(data.vat_rate),
+      data.vat_grosze,
+      data.gross_grosze,
+      data.vat_deductible_percent,
+      data.fuel_transaction_id
+    );
+    return this.getById(result.lastInsertRowid as number)!;
+  },
+
+  update(id: number, data: Omit<ExpenseInput, 'fuel_transaction_id'>): Expense | undefined {
+    const stmt = db.prepare(`
+      UPDATE expenses
+      SET date = ?,
+          category = ?,
+          description = ?,
+          supplier_name = ?,
+          supplier_nip = ?,
+          document_number = ?,
+          net_grosze = ?,
+          vat_rate = ?,
+          vat_grosze = ?,
+          gross_grosze = ?,
+          vat_deductible_percent = ?,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+    stmt.run(
+      data.date,
+      data.category,
+      data.description,
+      data.supplier_name,
+      data.supplier_nip,
+      data.document_number,
+      data.net_grosze,
+      String(data.vat_rate),
+      data.vat_grosze,
+      data.gross_grosze,
+      data.vat_deductible_percent,
+      id
+    );
+    return this.getById(id);
+  },
+
+  // The same supplier invoice recorded earlier, e.g. by an FA(3) import
+  existsForDocument(supplierNip: string, documentNumber: string): boolean {
+    const stmt = db.prepare('SELECT 1 FROM expenses WHERE supplier_nip = ? AND document_number = ? LIMIT 1');
+    return stmt.get(supplierNip, documentNumber) !== undefined;
+  },
+
+  delete(id: number): boolean {
+    const stmt = db.prepare('DELETE FROM expenses WHERE id = ?');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+};
+
+// Document store operations
+export const documentsDb = {
+  getByLink(link: DocumentLink): StoredDocument[] {
+    const stmt = link.expense_id
+      ? db.prepare('SELECT * FROM documents WHERE expense_id = ? ORDER BY created_at, id')
+      : db.prepare('SELECT * FROM documents WHERE fuel_transaction_id = ? ORDER BY created_at, id');
+    return stmt.all(link.expense_id ?? link.fuel_transaction_id) as StoredDocument[];
+  },
+
+  getById(id: number): StoredDocument | undefined {
+    const stmt = db.prepare('SELECT * FROM documents WHERE id = ?');
+    return stmt.get(id) as StoredDocument | undefined;
+  },
+
+  create(data: Omit<StoredDocument, 'id' | 'created_at'>): StoredDocument {
+    const stmt = db.prepare(`
+      INSERT INTO documents (original_name, path, mime_type, size_bytes, thumbnail_path, expense_id, fuel_transaction_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      data.original_name,
+      data.path,
+      data.mime_type,
+      data.size_bytes,
+      data.thumbnail_path,
+      data.expense_id,
+      data.fuel_transaction_id
+    );
+    return this.getById(result.lastInsertRowid as number)!;
+  },
+
+  delete(id: number): boolean {
+    const stmt = db.prepare('DELETE FROM documents WHERE id = ?');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+};
+
+// Suppliers, added when their invoices are imported
+export const counterpartiesDb = {
+  getById(id: number): Counterparty | undefined {
+    const stmt = db.prepare('SELECT * FROM counterparties WHERE id = ?');
+    return stmt.get(id) as Counterparty | undefined;
+  },
+
+  getByNip(nip: string): Counterparty | undefined {
+    const stmt = db.prepare('SELECT * FROM counterparties WHERE nip = ?');
+    return stmt.get(nip) as Counterparty | undefined;
+  },
+
+  create(data: Omit<Counterparty, 'id' | 'created_at' | 'updated_at'>): Counterparty {
+    const stmt = db.prepare(`
+      INSERT INTO counterparties (name, nip, address, country_code, email, phone)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(data.name, data.nip, data.address, data.country_code, data.email, data.phone);
+    return this.getById(result.lastInsertRowid as number)!;
+  }
+};
+
+export const vehiclesDb = {
+  getAll(): Vehicle[] {
+    const stmt = db.prepare('SELECT * FROM vehicles ORDER BY name, id');
+    return stmt.all() as Vehicle[];
+  },
+
+  getById(id: number): Vehicle | undefined {
+    const stmt = db.prepare('SELECT * FROM vehicles WHERE id = ?');
+    return stmt.get(id) as Vehicle | undefined;
+  },
+
+  getByRegistration(registrationNumber: string): Vehicle | undefined {
+    const stmt = db.prepare('SELECT * FROM vehicles WHERE registration_number = ?');
+    return stmt.get(registrationNumber) as Vehicle | undefined;
+  },
+
+  create(data: Omit<Vehicle, 'id' | 'created_at' | 'updated_at'>): Vehicle {
+    const stmt = db.prepare(`
+      INSERT INTO vehicles (name, registration_number, logbook_start_date, initial_odometer_km)
+      VALUES (?, ?, ?, ?)
+    `);
+    const result = stmt.run(data.name, data.registration_number, data.logbook_start_date, data.initial_odometer_km);
+    return this.getById(result.lastInsertRowid as number)!;
+  },
+
+  delete(id: number): boolean {
+    const stmt = db.prepare('DELETE FROM vehicles WHERE id = ?');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+};
+
+// Vehicle logbook entries
+export const tripsDb = {
+  // from/to format: YYYY-MM-DD, inclusive
+  getByVehicle(vehicleId: number, from: string, to: string): Trip[] {
+    const stmt = db.prepare(`
+      SELECT * FROM trips
+      WHERE vehicle_id = ? AND date BETWEEN ? AND ?
+      ORDER BY date, id
+    `);
+    return stmt.all(vehicleId, from, to) as Trip[];
+  },
+
+  getById(id: number): Trip | undefined {
+    const stmt = db.prepare('SELECT * FROM trips WHERE id = ?');
+    return stmt.get(id) as Trip | undefined;
+  },
+
+  // Kilometres logged before a date, for the odometer at the start of a period
+  getDistanceBefore(vehicleId: number, date: string): number {
+    const stmt = db.prepare('SELECT COALESCE(SUM(distance_km), 0) as total FROM trips WHERE vehicle_id = ? AND date < ?');
+    return (stmt.get(vehicleId, date) as { total: number }).total;
+  },
+
+  // Kilometres driven for projects, per vehicle and month; from/to format: YYYY-MM-DD, inclusive
+  getProjectDistances(from: string, to: string): { project_id: string; vehicle_id: number; month: string; distance_km: number }[] {
+    const stmt = db.prepare(`
+      SELECT project_id, vehicle_id, strftime('%Y-%m', date) as month, SUM(distance_km) as distance_km
+      FROM trips
+      WHERE project_id IS NOT NULL AND date BETWEEN ? AND ?
+      GROUP BY project_id, vehicle_id, month
+    `);
+    return stmt.all(from, to) as { project_id: string; vehicle_id: number; month: string; distance_km: number }[];
+  },
+
+  create(data: Omit<Trip, 'id' | 'created_at' | 'updated_at'>): Trip {
+    const stmt = db.prepare(`
+      INSERT INTO trips (vehicle_id, date, origin, destination, purpose, distance_km, driver, project_id, client_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      data.vehicle_id,
+      data.date,
+      data.origin,
+      data.destination,
+      data.purpose,
+      data.distance_km,
+      data.driver,
+      data.project_id,
+      data.client_id
+    );
+    return this.getById(result.lastInsertRowid as number)!;
+  },
+
+  update(id: number, data: Omit<Trip, 'id' | 'created_at' | 'updated_at'>): Trip | undefined {
+    const stmt = db.prepare(`
+      UPDATE trips
+      SET vehicle_id = ?,
+          date = ?,
+          origin = ?,
+          destination = ?,
+          purpose = ?,
+          distance_km = ?,
+          driver = ?,
+          project_id = ?,
+          client_id = ?,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+    stmt.run(
+      data.vehicle_id,
+      data.date,
+      data.origin,
+      data.destination,
+      data.purpose,
+      data.distance_km,
+      data.driver,
+      data.project_id,
+      data.client_id,
+      id
+    );
+    return this.getById(id);
+  },
+
+  delete(id: number): boolean {
+    const stmt = db.prepare('DELETE FROM trips WHERE id = ?');
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+};
+
+export default db;
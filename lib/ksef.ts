@@ -0,0 +1,263 @@
+import crypto from 'crypto';
+
+// KSeF 2.0 API. Point KSEF_API_URL at the demo/production environment or a local mock.
+const KSEF_API_BASE = 'https://ksef-test.mf.gov.pl/api/v2';
+
+// FA(3) form code, as declared in the invoice's KodFormularza
+const FA3_FORM_CODE = { systemCode: 'FA (3)', schemaVersion: '1-0E', value: 'FA' };
+
+type CertificateUsage = 'KsefTokenEncryption' | 'SymmetricKeyEncryption';
+
+interface PublicKeyCertificate {
+  certificate: string; // base64 DER
+  validFrom: string;
+  validTo: string;
+  usage: CertificateUsage[];
+}
+
+interface TokenInfo {
+  token: string;
+  validUntil: string;
+}
+
+interface KsefStatusInfo {
+  code: number; // 100/150 in progress, 200 done, 4xx failed
+  description: string;
+  details?: string[];
+}
+
+export interface KsefInvoiceStatus {
+  referenceNumber: string;
+  ksefNumber?: string | null;
+  invoiceNumber?: string | null;
+  status: KsefStatusInfo;
+}
+
+interface KsefErrorBody {
+  exception?: {
+    exceptionDetailList?: Array<{ exceptionCode: number; exceptionDescription: string; details?: string[] }>;
+  };
+}
+
+/** Symmetric key of one online session; every invoice sent in it is encrypted with it. */
+export interface KsefSession {
+  referenceNumber: string;
+  key: Buffer;
+  iv: Buffer;
+}
+
+const sha256Base64 = (data: Buffer) => crypto.createHash('sha256').update(data).digest('base64');
+
+class KsefClient {
+  private accessToken: TokenInfo | null = null;
+  private certificates: PublicKeyCertificate[] | null = null;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly ksefToken: string,
+    private readonly nip: string
+  ) {
+    if (!ksefToken) {
+      throw new Error('KSeF token is required');
+    }
+  }
+
+  private async request<T>(endpoint: string, options?: RequestInit & { bearer?: string; raw?: boolean }): Promise<T> {
+    const url = `${this.baseUrl}${endpoint}`;
+    const { bearer, raw, ...init } = options ?? {};
+
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        Accept: raw ? 'application/xml' : 'application/json',
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...(bearer ? { Authorization: `Bearer ${bearer}` } : {}),
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      let message = text;
+      try {
+        const details = (JSON.parse(text) as KsefErrorBody).exception?.exceptionDetailList ?? [];
+        if (details.length > 0) {
+          message = details
+            .map((d) => [`${d.exceptionCode} ${d.exceptionDescription}`, ...(d.details ?? [])].join(': '))
+            .join('; ');
+        }
+      } catch {
+        // Not JSON; keep the raw body
+      }
+      throw new Error(`KSeF API error: ${response.status} ${response.statusText} - ${message}`);
+    }
+
+    if (raw) return (await response.text()) as T;
+    if (response.status === 204) return undefined as T;
+    return response.json();
+  }
+
+  private async getPublicKey(usage: CertificateUsage): Promise<crypto.KeyObject> {
+    if (!this.certificates) {
+      this.certificates = await this.request<PublicKeyCertificate[]>('/security/public-key-certificates');
+    }
+
+    const now = new Date().toISOString();
+    const cert = this.certificates.find((c) => c.usage.includes(usage) && c.validFrom <= now && c.validTo >= now);
+    if (!cert) throw new Error(`KSeF has no valid public key for ${usage}`);
+
+    return new crypto.X509Certificate(Buffer.from(cert.certificate, 'base64')).publicKey;
+  }
+
+  private async encryptRsa(usage: CertificateUsage, data: Buffer): Promise<string> {
+    const key = await this.getPublicKey(usage);
+    return crypto
+      .publicEncrypt({ key, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' }, data)
+      .toString('base64');
+  }
+
+  /**
+   * Challenge → token auth → wait for verification → redeem an access token.
+   * The access token is reused until shortly before it expires.
+   */
+  async authenticate(): Promise<string> {
+    if (this.accessToken && Date.parse(this.accessToken.validUntil) - Date.now() > 60_000) {
+      return this.accessToken.token;
+    }
+
+    const challenge = await this.request<{ challenge: string; timestamp: string }>('/auth/challenge', {
+      method: 'POST',
+    });
+
+    const encryptedToken = await this.encryptRsa(
+      'KsefTokenEncryption',
+      Buffer.from(`${this.ksefToken}|${Date.parse(challenge.timestamp)}`, 'utf8')
+    );
+
+    const auth = await this.request<{ referenceNumber: string; authenticationToken: TokenInfo }>('/auth/ksef-token', {
+      method: 'POST',
+      body: JSON.stringify({
+        challenge: challenge.challenge,
+        contextIdentifier: { type: 'Nip', value: this.nip },
+        encryptedToken,
+      }),
+    });
+
+    await this.waitFor(async () => {
+      const { status } = await this.request<{ status: KsefStatusInfo }>(`/auth/${auth.referenceNumber}`, {
+        bearer: auth.authenticationToken.token,
+      });
+      if (status.code >= 300) {
+        throw new Error(`KSeF authentication failed: ${status.code} ${status.description}`);
+      }
+      return status.code === 200;
+    });
+
+    const redeemed = await this.request<{ accessToken: TokenInfo; refreshToken: TokenInfo }>('/auth/token/redeem', {
+      method: 'POST',
+      bearer: auth.authenticationToken.token,
+    });
+
+    this.accessToken = redeemed.accessToken;
+    return redeemed.accessToken.token;
+  }
+
+  async openSession(): Promise<KsefSession> {
+    const accessToken = await this.authenticate();
+    const key = crypto.randomBytes(32);
+    const iv = crypto.randomBytes(16);
+
+    const session = await this.request<{ referenceNumber: string; validUntil: string }>('/sessions/online', {
+      method: 'POST',
+      bearer: accessToken,
+      body: JSON.stringify({
+        formCode: FA3_FORM_CODE,
+        encryption: {
+          encryptedSymmetricKey: await this.encryptRsa('SymmetricKeyEncryption', key),
+          initializationVector: iv.toString('base64'),
+        },
+      }),
+    });
+
+    return { referenceNumber: session.referenceNumber, key, iv };
+  }
+
+  /** Sends one invoice (AES-256-CBC with the session key) and returns its reference number. */
+  async sendInvoice(session: KsefSession, xml: Buffer): Promise<string> {
+    const accessToken = await this.authenticate();
+
+    const cipher = crypto.createCipheriv('aes-256-cbc', session.key, session.iv);
+    const encrypted = Buffer.concat([cipher.update(xml), cipher.final()]);
+
+    const result = await this.request<{ referenceNumber: string }>(
+      `/sessions/online/${session.referenceNumber}/invoices`,
+      {
+        method: 'POST',
+        bearer: accessToken,
+        body: JSON.stringify({
+          invoiceHash: sha256Base64(xml),
+          invoiceSize: xml.length,
+          encryptedInvoiceHash: sha256Base64(encrypted),
+          encryptedInvoiceSize: encrypted.length,
+          encryptedInvoiceContent: encrypted.toString('base64'),
+          offlineMode: false,
+        }),
+      }
+    );
+
+    return result.referenceNumber;
+  }
+
+  async closeSession(sessionReference: string): Promise<void> {
+    const accessToken = await this.authenticate();
+    await this.request<void>(`/sessions/online/${sessionReference}/close`, { method: 'POST', bearer: accessToken });
+  }
+
+  async getInvoiceStatus(sessionReference: string, invoiceReference: string): Promise<KsefInvoiceStatus> {
+    const accessToken = await this.authenticate();
+    return this.request<KsefInvoiceStatus>(`/sessions/${sessionReference}/invoices/${invoiceReference}`, {
+      bearer: accessToken,
+    });
+  }
+
+  async getInvoiceUpo(sessionReference: string, ksefNumber: string): Promise<string> {
+    const accessToken = await this.authenticate();
+    return this.request<string>(`/sessions/${sessionReference}/invoices/ksef/${ksefNumber}/upo`, {
+      bearer: accessToken,
+      raw: true,
+    });
+  }
+
+  private async waitFor(check: () => Promise<boolean>, attempts = 10, delayMs = 1000): Promise<void> {
+    for (let i = 0; i < attempts; i++) {
+      if (await check()) return;
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+    throw new Error('KSeF did not finish in time, try again later');
+  }
+}
+
+// One client per NIP so the access token survives between requests
+let ksefClient: KsefClient | null = null;
+let ksefClientNip: string | null = null;
+
+export function isKsefConfigured(): boolean {
+  return !!process.env.KSEF_TOKEN;
+}
+
+export function getKsefClient(nip: string): KsefClient {
+  const token = process.env.KSEF_TOKEN;
+
+  if (!token) {
+    throw new Error('KSEF_TOKEN environment variable is not set');
+  }
+
+  if (!ksefClient || ksefClientNip !== nip) {
+    ksefClient = new KsefClient(process.env.KSEF_API_URL || KSEF_API_BASE, token, nip);
+    ksefClientNip = nip;
+  }
+
+  return ksefClient;
+}
+
+export default KsefClient;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const BankTransactionStatusSchema = z.enum(['unmatched', 'proposed', 'matched', 'ignored']);
+
+export const BankTransactionQuerySchema = z.object({
+  status: BankTransactionStatusSchema.optional(),
+});
+
+export const ConfirmBankTransactionSchema = z.object({
+  invoice_id: z.number().int().positive().nullish(),
+});
+
+export type ConfirmBankTransactionInput = z.infer<typeof ConfirmBankTransactionSchema>;
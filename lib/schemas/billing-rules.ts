@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { DateYmdSchema } from './invoice';
+
+export const BillingRuleSchema = z
+  .object({
+    // Omitted for a rule that applies to every project
+    project_id: z.string().min(1).nullish(),
+    match_type: z.enum(['task_id', 'task_name', 'tag']),
+    pattern: z.string().trim().min(1, 'Pattern is required').max(255),
+    billable: z.boolean(),
+    hourly_rate: z.number().positive('Hourly rate must be positive').nullish(),
+    // Defaults to the first day of the current month
+    effective_from: DateYmdSchema.optional(),
+  })
+  .refine((rule) => rule.billable || rule.hourly_rate == null, {
+    message: 'A non-billable rule cannot have a rate',
+    path: ['hourly_rate'],
+  });
+
+export type BillingRuleInput = z.infer<typeof BillingRuleSchema>;
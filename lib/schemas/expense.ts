@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { DateYmdSchema, NipSchema, VatRateSchema } from './invoice';
+
+// Fuel expenses are recorded through the fuel log, not here
+export const ExpenseCategorySchema = z.enum([
+  'software',
+  'hardware',
+  'coworking',
+  'phone',
+  'office',
+  'travel',
+  'services',
+  'other',
+]);
+
+export const ExpenseSchema = z.object({
+  date: DateYmdSchema,
+  category: ExpenseCategorySchema,
+  description: z.string().trim().min(1, 'Description is required').max(200),
+  supplier_name: z.string().trim().max(200).nullish(),
+  supplier_nip: NipSchema.nullish().or(z.literal('').transform(() => null)),
+  document_number: z.string().trim().max(100).nullish(),
+  net_grosze: z.number().int().nonnegative(),
+  vat_rate: VatRateSchema,
+  // Taken from the supplier's document when its rounding differs from net × rate
+  vat_grosze: z.number().int().nonnegative().nullish(),
+  vat_deductible_percent: z.number().int().min(0).max(100),
+});
+
+export type ExpenseInput = z.infer<typeof ExpenseSchema>;
+
+// Form fields of an FA(3) import; they apply to every expense the invoice becomes
+export const ExpenseImportSchema = z.object({
+  category: ExpenseCategorySchema.default('other'),
+  vat_deductible_percent: z.coerce.number().int().min(0).max(100).default(100),
+});
+
+export type ExpenseImportInput = z.infer<typeof ExpenseImportSchema>;
@@ -3,6 +3,7 @@ import { z } from 'zod';
 const digitsOnly = (value: string) => value.replace(/[^\d]/g, '');
 
 export const InvoiceStatusSchema = z.enum(['draft', 'issued', 'cancelled']);
+export const InvoiceTypeSchema = z.enum(['VAT', 'KOR', 'PRO']);
 export const PaymentMethodSchema = z.enum(['cash', 'bank_transfer', 'card', 'other']);
 export const VatRateSchema = z.union([z.literal(23), z.literal(8), z.literal(5), z.literal(0), z.literal('ZW'), z.literal('NP')]);
 
@@ -21,14 +22,29 @@ export const QuantitySchema = z
   .refine((v) => /^\d+(\.\d{1,3})?$/.test(v), 'Quantity must be a positive number with up to 3 decimals')
   .refine((v) => parseFloat(v) > 0, 'Quantity must be greater than 0');
 
+export const CurrencySchema = z
+  .string()
+  .transform((v) => v.trim().toUpperCase())
+  .refine((v) => /^[A-Z]{3}$/.test(v), 'Currency must be a 3-letter ISO 4217 code');
+
+// PLN per unit of currency, up to 6 decimals as FA(3) allows
+export const ExchangeRateValueSchema = z
+  .union([z.string(), z.number()])
+  .transform((v) => (typeof v === 'number' ? v.toString() : v))
+  .transform((v) => v.trim().replace(',', '.'))
+  .refine((v) => /^\d+(\.\d{1,6})?$/.test(v), 'Exchange rate must be a positive number with up to 6 decimals')
+  .refine((v) => parseFloat(v) > 0, 'Exchange rate must be greater than 0');
+
 export const MoneyGroszeSchema = z
   .union([z.number(), z.string()])
   .transform((v) => (typeof v === 'string' ? Number(v) : v))
   .refine((n) => Number.isInteger(n) && n >= 0, 'Amount must be a non-negative integer in grosze');
 
+// The tax number is checked against the client's country by ClientService
 export const ClientSchema = z.object({
   name: z.string().min(1).max(255),
-  nip: NipSchema,
+  nip: z.string().trim().min(1, 'NIP is required').max(64),
+  country_code: z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, 'Country must be a 2-letter code').optional(),
   address: z.string().max(255).optional(),
   city: z.string().max(120).optional(),
   postal_code: z.string().max(32).optional(),
@@ -46,20 +62,68 @@ export const InvoiceItemSchema = z.object({
 
 export const CreateInvoiceSchema = z.object({
   invoice_number: z.string().min(1).max(64).optional(),
+  invoice_type: z.enum(['VAT', 'PRO']).optional(),
   issue_date: DateYmdSchema,
   sale_date: DateYmdSchema,
   client_id: z.number().int().positive(),
   status: InvoiceStatusSchema.optional(),
   payment_method: PaymentMethodSchema,
   payment_deadline: DateYmdSchema.nullish(),
-  currency: z.string().min(3).max(8),
-  exchange_rate: z.string().max(32).nullish(),
+  currency: CurrencySchema,
+  exchange_rate: ExchangeRateValueSchema.nullish(),
   notes: z.string().max(2000).nullish(),
   items: z.array(InvoiceItemSchema).min(1),
 });
 
+export const CreateCorrectionSchema = z.object({
+  invoice_number: z.string().min(1).max(64).optional(),
+  issue_date: DateYmdSchema,
+  sale_date: DateYmdSchema.optional(),
+  payment_deadline: DateYmdSchema.optional(),
+  reason: z.string().trim().min(1, 'Correction reason is required').max(256),
+  notes: z.string().max(2000).optional(),
+  items: z.array(InvoiceItemSchema).min(1),
+});
+
+export const ConvertProformaSchema = z.object({
+  issue_date: DateYmdSchema.optional(),
+  sale_date: DateYmdSchema.optional(),
+  payment_deadline: DateYmdSchema.optional(),
+});
+
+export const ExchangeRateQuerySchema = z.object({
+  currency: CurrencySchema.refine((v) => v !== 'PLN', 'PLN invoices do not use an exchange rate'),
+  sale_date: DateYmdSchema,
+});
+
+export const TimeBillingGroupBySchema = z.enum(['project', 'task']);
+
+export const BillTimeSchema = z.object({
+  invoice_type: z.enum(['VAT', 'PRO']).default('VAT'),
+  month: z.string().regex(/^\d{4}-\d{2}$/, 'Month must be in YYYY-MM format'),
+  group_by: TimeBillingGroupBySchema,
+  client_id: z.number().int().positive(),
+  issue_date: DateYmdSchema,
+  sale_date: DateYmdSchema,
+  payment_method: PaymentMethodSchema.default('bank_transfer'),
+  payment_deadline: DateYmdSchema.nullish(),
+  currency: CurrencySchema.default('PLN'),
+  vat_rate: VatRateSchema,
+  notes: z.string().max(2000).nullish(),
+  lines: z
+    .array(
+      z.object({
+        key: z.string().min(1),
+        name: z.string().min(1).max(255),
+      })
+    )
+    .min(1),
+});
+
 export type ClientInput = z.infer<typeof ClientSchema>;
 export type CreateInvoiceInput = z.infer<typeof CreateInvoiceSchema>;
+export type CreateCorrectionInput = z.infer<typeof CreateCorrectionSchema>;
+export type BillTimeInput = z.infer<typeof BillTimeSchema>;
 export type InvoiceItemInput = z.infer<typeof InvoiceItemSchema>;
 
 
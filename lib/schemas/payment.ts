@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { DateYmdSchema, PaymentMethodSchema } from './invoice';
+
+export const CreatePaymentSchema = z.object({
+  amount_grosze: z.number().int().positive('Amount must be greater than 0'),
+  payment_date: DateYmdSchema,
+  method: PaymentMethodSchema.default('bank_transfer'),
+  reference: z.string().max(255).nullish(),
+  notes: z.string().max(2000).nullish(),
+});
+
+export type CreatePaymentInput = z.infer<typeof CreatePaymentSchema>;
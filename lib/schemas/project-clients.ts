@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const ProjectClientSchema = z.object({
+  project_id: z.string().min(1, 'Project ID is required'),
+  // null unlinks the project from its client
+  client_id: z.number().int().positive().nullable(),
+});
+
+export type ProjectClientInput = z.infer<typeof ProjectClientSchema>;
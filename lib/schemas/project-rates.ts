@@ -1,9 +1,12 @@
 import { z } from 'zod';
+import { DateYmdSchema } from './invoice';
 
 export const ProjectRateSchema = z.object({
-  everhour_project_id: z.string().min(1, 'Project ID is required'),
+  project_id: z.string().min(1, 'Project ID is required'),
   project_name: z.string().min(1, 'Project name is required'),
   hourly_rate: z.number().positive('Hourly rate must be positive'),
+  // Defaults to the first day of the current month
+  effective_from: DateYmdSchema.optional(),
 });
 
 export const DeleteProjectRateSchema = z.object({
@@ -11,4 +14,3 @@ export const DeleteProjectRateSchema = z.object({
 });
 
 export type ProjectRateInput = z.infer<typeof ProjectRateSchema>;
-
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { CurrencySchema, DateYmdSchema, InvoiceItemSchema, PaymentMethodSchema } from './invoice';
+
+export const CreateRecurringInvoiceSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  client_id: z.number().int().positive(),
+  payment_method: PaymentMethodSchema.default('bank_transfer'),
+  currency: CurrencySchema.default('PLN'),
+  notes: z.string().max(2000).nullish(),
+  items: z.array(InvoiceItemSchema).min(1),
+  day_of_month: z.number().int().min(1).max(31),
+  payment_days: z.number().int().min(0).max(365).default(14),
+  start_date: DateYmdSchema,
+  end_date: DateYmdSchema.nullish(),
+  active: z.boolean().optional(),
+});
+
+export const UpdateRecurringInvoiceSchema = CreateRecurringInvoiceSchema.partial();
+
+export type CreateRecurringInvoiceInput = z.infer<typeof CreateRecurringInvoiceSchema>;
+export type UpdateRecurringInvoiceInput = z.infer<typeof UpdateRecurringInvoiceSchema>;
@@ -1,7 +1,21 @@
 import { z } from 'zod';
+import { validateNumberingTemplate } from '@/lib/utils/numbering-template';
+import { RYCZALT_RATES } from '@/lib/utils/tax';
 
 const digitsOnly = (value: string) => value.replace(/[^\d]/g, '');
 
+const NumberingTemplateSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(64)
+  .superRefine((val, ctx) => {
+    const error = validateNumberingTemplate(val);
+    if (error) ctx.addIssue({ code: 'custom', message: error });
+  });
+
+const NumberingResetSchema = z.enum(['monthly', 'yearly', 'never']);
+
 export const SettingsSchema = z.object({
   default_hourly_rate: z.string().transform(val => {
     const num = parseFloat(val);
@@ -18,6 +32,14 @@ export const SettingsSchema = z.object({
     }
     return val;
   }).optional(),
+  time_provider: z.enum(['everhour', 'toggl', 'clockify', 'csv']).optional(),
+  vacation_days_per_year: z.string().transform(val => {
+    const num = parseInt(val, 10);
+    if (isNaN(num) || num < 0 || num > 366) {
+      throw new Error('Vacation days must be between 0 and 366');
+    }
+    return String(num);
+  }).optional(),
   home_address: z.string().optional(),
   home_latitude: z.string().optional(),
   home_longitude: z.string().optional(),
@@ -47,6 +69,38 @@ export const SettingsSchema = z.object({
   company_email: z.string().email().optional(),
   company_phone: z.string().max(64).optional(),
   company_bank_account: z.string().max(64).optional(),
+
+  // Invoice numbering
+  invoice_number_template: NumberingTemplateSchema.optional(),
+  invoice_number_reset: NumberingResetSchema.optional(),
+  correction_number_template: NumberingTemplateSchema.optional(),
+  correction_number_reset: NumberingResetSchema.optional(),
+  proforma_number_template: NumberingTemplateSchema.optional(),
+  proforma_number_reset: NumberingResetSchema.optional(),
+
+  // Tax estimate
+  tax_form: z.enum(['ryczalt', 'liniowy', 'skala']).optional(),
+  ryczalt_rate: z.string().transform(val => {
+    if (!RYCZALT_RATES.includes(parseFloat(val))) {
+      throw new Error(`Ryczałt rate must be one of ${RYCZALT_RATES.join(', ')}%`);
+    }
+    return String(parseFloat(val));
+  }).optional(),
+  zus_tier: z.enum(['start', 'preferential', 'full']).optional(),
+  zus_tier_until: z.string().regex(/^(\d{4}-(0[1-9]|1[0-2]))?$/, 'ZUS tier end must be a month (YYYY-MM)').optional(),
+  zus_sickness: z.enum(['true', 'false']).optional(),
+  fuel_cost_percent: z.string().transform(val => {
+    const num = parseFloat(val);
+    if (isNaN(num) || num < 0 || num > 100) {
+      throw new Error('Fuel cost share must be between 0 and 100%');
+    }
+    return val;
+  }).optional(),
+  fuel_vat_deduction_percent: z.enum(['0', '50', '100']).optional(),
+  tax_office_code: z.string().regex(/^(\d{4})?$/, 'Tax office code must be 4 digits').optional(),
+  taxpayer_first_name: z.string().max(30).optional(),
+  taxpayer_last_name: z.string().max(81).optional(),
+  taxpayer_birth_date: z.string().regex(/^(\d{4}-\d{2}-\d{2})?$/, 'Birth date must be YYYY-MM-DD').optional(),
 });
 
 export type SettingsInput = z.infer<typeof SettingsSchema>;
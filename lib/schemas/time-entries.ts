@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { DateYmdSchema } from './invoice';
+
+export const ManualTimeEntrySchema = z.object({
+  date: DateYmdSchema,
+  hours: z.number().positive('Hours must be greater than 0').max(24, 'An entry cannot exceed 24 hours'),
+  // Omitted for a project that only exists locally; its id is derived from the name
+  project_id: z.string().trim().min(1).nullish(),
+  project_name: z.string().trim().min(1, 'Project is required').max(255),
+  task_name: z.string().trim().max(255).nullish(),
+});
+
+export const UpdateManualTimeEntrySchema = ManualTimeEntrySchema.partial();
+
+const ColumnSchema = z.string().trim().min(1);
+
+export const TimesheetColumnMappingSchema = z.object({
+  date: ColumnSchema,
+  duration: ColumnSchema,
+  project: ColumnSchema.nullable(),
+  task: ColumnSchema.nullable(),
+  user: ColumnSchema.nullable(),
+});
+
+export type ManualTimeEntryInput = z.infer<typeof ManualTimeEntrySchema>;
+export type UpdateManualTimeEntryInput = z.infer<typeof UpdateManualTimeEntrySchema>;
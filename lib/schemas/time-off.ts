@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { DateYmdSchema } from './invoice';
+
+export const TimeOffSchema = z
+  .object({
+    start_date: DateYmdSchema,
+    end_date: DateYmdSchema,
+    type: z.enum(['vacation', 'sick', 'l4', 'custom']),
+    label: z.string().trim().max(100).nullish(),
+  })
+  .refine((timeOff) => timeOff.end_date >= timeOff.start_date, {
+    message: 'End date must not be before start date',
+    path: ['end_date'],
+  })
+  .refine((timeOff) => timeOff.type !== 'custom' || !!timeOff.label, {
+    message: 'Custom time off needs a label',
+    path: ['label'],
+  });
+
+export type TimeOffInput = z.infer<typeof TimeOffSchema>;
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const TimeSyncRequestSchema = z.object({
+  // Omitted: sync every open month; given: re-fetch that month even if it is frozen
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format').optional(),
+});
+
+export type TimeSyncRequest = z.infer<typeof TimeSyncRequestSchema>;
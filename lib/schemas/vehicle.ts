@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { DateYmdSchema } from './invoice';
+
+export const VehicleSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  // Stored as printed on the plate, without spaces: "WA 12345" -> "WA12345"
+  registration_number: z
+    .string()
+    .transform((value) => value.replace(/\s+/g, '').toUpperCase())
+    .pipe(z.string().regex(/^[A-Z0-9]{4,10}$/, 'Invalid registration number')),
+  logbook_start_date: DateYmdSchema,
+  initial_odometer_km: z.number().int().nonnegative(),
+});
+
+export const TripSchema = z.object({
+  vehicle_id: z.number().int().positive(),
+  date: DateYmdSchema,
+  // Default to the home location and the client's address
+  origin: z.string().trim().max(200).nullish(),
+  destination: z.string().trim().max(200).nullish(),
+  purpose: z.string().trim().min(1, 'Purpose is required').max(200),
+  // Estimated from the geocoded addresses when left out
+  distance_km: z.number().positive().max(5000).nullish(),
+  driver: z.string().trim().max(100).nullish(),
+  project_id: z.string().trim().min(1).nullish(),
+  client_id: z.number().int().positive().nullish(),
+});
+
+export const TripRouteSchema = TripSchema.pick({ origin: true, destination: true, project_id: true, client_id: true });
+
+export type VehicleInput = z.infer<typeof VehicleSchema>;
+export type TripInput = z.infer<typeof TripSchema>;
+export type TripRouteInput = z.infer<typeof TripRouteSchema>;
@@ -0,0 +1,108 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { settingsDb } from '@/lib/db';
+import type { Invoice } from '@/types';
+import { BankImportService } from './bank-import.service';
+import { ClientService } from './client.service';
+import { InvoiceService } from './invoice.service';
+import { PaymentService } from './payment.service';
+
+const bankImport = new BankImportService();
+const invoiceService = new InvoiceService();
+let first: Invoice;
+let second: Invoice;
+
+const HEADER = '#Data operacji;#Tytuł;#Nadawca/Odbiorca;#Kwota;';
+
+// mBank-style export with one transfer per [title, sender, amount]
+const statement = (rows: Array<[string, string, string]>) =>
+  Buffer.from([HEADER, ...rows.map(([title, name, amount]) => `2026-10-10;${title};${name};${amount};`)].join('\n'));
+
+async function issuedInvoice(clientId: number, quantity: string) {
+  const invoice = await invoiceService.createInvoice({
+    issue_date: '2026-10-01',
+    sale_date: '2026-10-01',
+    client_id: clientId,
+    payment_method: 'bank_transfer',
+    currency: 'PLN',
+    items: [{ name: 'Development', quantity, unit: 'h', unit_price_grosze: 10000, vat_rate: 23 }],
+  });
+  return (await invoiceService.issueInvoice(invoice.id)).invoice;
+}
+
+beforeAll(async () => {
+  for (const [key, value] of Object.entries({
+    company_name: 'Firma Testowa',
+    company_nip: '1234567890',
+    company_address: 'ul. Długa 1',
+    company_postal_code: '30-001',
+    company_city: 'Kraków',
+    company_bank_account: 'PL61 1090 1014 0000 0712 1981 2874',
+  })) {
+    settingsDb.set(key, value);
+  }
+  const clients = new ClientService();
+  const alpha = await clients.createClient({ name: 'Alpha', nip: '5260250274' });
+  const beta = await clients.createClient({ name: 'Beta', nip: '7010014133' });
+  // 1230.00 and 2460.00 PLN gross
+  first = await issuedInvoice(alpha.id, '10');
+  second = await issuedInvoice(beta.id, '20');
+});
+
+describe('BankImportService', () => {
+  it('proposes the invoice named in the title, whatever separators the payer used', async () => {
+    const number = second.invoice_number.replace(/\//g, ' ');
+    const result = await bankImport.importStatement('a.csv', statement([[`Zapłata za ${number}`, 'Beta', '2460,00']]));
+
+    expect(result).toMatchObject({ imported: 1, proposed: 1, duplicates: 0 });
+    const [transaction] = await bankImport.getTransactions('proposed');
+    expect(transaction.proposed_invoice_id).toBe(second.id);
+    expect(transaction.match_reasons).toBe('invoice_number,amount');
+  });
+
+  it('does not take a longer number in the title for the invoice number', async () => {
+    const result = await bankImport.importStatement('b.csv', statement([[`${first.invoice_number}7`, 'Jan', '1230,00']]));
+
+    expect(result.proposed).toBe(0);
+  });
+
+  it('proposes by amount when the client NIP is in the transfer', async () => {
+    const result = await bankImport.importStatement('c.csv', statement([['Faktura', 'Alpha NIP 526-025-02-74', '1 230,00']]));
+
+    expect(result.proposed).toBe(1);
+    const proposed = await bankImport.getTransactions('proposed');
+    expect(proposed.find((t) => t.title === 'Faktura')?.proposed_invoice_id).toBe(first.id);
+  });
+
+  it('skips outgoing transfers, duplicates and unreadable rows', async () => {
+    const content = statement([
+      ['Przelew własny', 'Firma', '-100,00'],
+      ['Wpłata', 'Gamma', '12,345'],
+      ['Zwrot', 'Gamma', '50,00'],
+    ]);
+
+    const result = await bankImport.importStatement('d.csv', content);
+    const again = await bankImport.importStatement('d.csv', content);
+
+    expect(result).toMatchObject({ imported: 1, skipped_outgoing: 1, unreadable: ['Line 3: Invalid amount in statement: 12,345'] });
+    expect(again).toMatchObject({ imported: 0, duplicates: 1 });
+  });
+
+  it('records a confirmed transfer as a payment of the invoice', async () => {
+    const [transaction] = (await bankImport.getTransactions('proposed')).filter((t) => t.proposed_invoice_id === second.id);
+
+    const matched = await bankImport.confirm(transaction.id);
+
+    expect(matched.status).toBe('matched');
+    const { payments, balance } = await new PaymentService().getPayments(second.id);
+    expect(payments.map((p) => p.amount_grosze)).toEqual([246000]);
+    expect(balance.payment_status).toBe('paid');
+  });
+
+  it('refuses statements of another account', async () => {
+    const content = Buffer.from(`Rachunek: 12 1140 2004 0000 3002 0135 5387\n${HEADER}\n2026-10-10;X;Y;1,00;`);
+
+    await expect(bankImport.importStatement('e.csv', content)).rejects.toThrow(
+      'Statement is for account 12114020040000300201355387'
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import db, { bankStatementsDb, bankTransactionsDb, settingsDb } from '@/lib/db';
+import type {
+  BankImportResult,
+  BankTransaction,
+  BankTransactionListItem,
+  BankTransactionStatus,
+  MatchReason,
+  ParsedBankTransaction,
+} from '@/types';
+import { normalizeAccountNumber, parseBankStatement } from '@/lib/utils/bank-statement-parser';
+import { INVOICE_BALANCE_COLUMNS } from '@/lib/utils/invoice-balance';
+import { PaymentService } from './payment.service';
+
+interface MatchCandidate {
+  id: number;
+  invoice_number: string;
+  currency: string;
+  client_nip: string;
+  due_grosze: number;
+  outstanding_grosze: number;
+}
+
+const MATCH_WEIGHTS: Record<MatchReason, number> = {
+  invoice_number: 3,
+  amount: 2,
+  nip: 1,
+};
+
+// A matching amount alone is too weak; it also needs the invoice number or the client NIP
+const MIN_MATCH_SCORE = 3;
+
+const alnum = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Finds an invoice number in a transfer title as whole tokens, whatever separators the
+ * payer typed between its parts: "FV 2026 1" matches FV/2026/1, "FV/2026/12" does not.
+ */
+function findInvoiceNumber(title: string, invoiceNumber: string): string | null {
+  const parts = invoiceNumber.toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const pattern = new RegExp(`(?<![A-Z0-9])${parts.join('[^A-Z0-9]*')}(?![A-Z0-9])`);
+  return pattern.exec(title.toUpperCase())?.[0] ?? null;
+}
+
+// Bank exports are UTF-8 or Windows-1250 depending on bank and export options
+function decodeStatement(content: Buffer): string {
+  const utf8 = content.toString('utf8');
+  if (!utf8.includes('�')) return utf8;
+  return new TextDecoder('windows-1250').decode(content);
+}
+
+function fingerprintBase(account: string | null, tx: ParsedBankTransaction): string {
+  return crypto
+    .createHash('sha1')
+    .update(
+      [
+        account ?? '',
+        tx.booking_date,
+        tx.amount_grosze,
+        tx.currency,
+        tx.reference ?? '',
+        tx.title,
+        tx.counterparty_account ?? '',
+      ].join('|')
+    )
+    .digest('hex');
+}
+
+export class BankImportService {
+  private readonly paymentService = new PaymentService();
+
+  async importStatement(fileName: string, content: Buffer): Promise<BankImportResult> {
+    const companyAccount = normalizeAccountNumber(settingsDb.get('company_bank_account') ?? '');
+    if (!companyAccount) {
+      throw new Error('Set the company bank account in Settings before importing statements');
+    }
+
+    const parsed = parseBankStatement(decodeStatement(content));
+    if (parsed.account && parsed.account !== companyAccount) {
+      throw new Error(`Statement is for account ${parsed.account}, not the company account ${companyAccount}`);
+    }
+
+    const tx = db.transaction(() => {
+      const statement = bankStatementsDb.create({
+        format: parsed.format,
+        bank: parsed.bank,
+        account: parsed.account ?? companyAccount,
+        file_name: fileName,
+      });
+
+      let imported = 0;
+      let duplicates = 0;
+      let skippedOutgoing = 0;
+      let proposed = 0;
+      // Identical transfers on the same day are told apart by their position in the statement
+      const seen = new Map<string, number>();
+
+      for (const item of parsed.transactions) {
+        if (item.amount_grosze <= 0) {
+          skippedOutgoing++;
+          continue;
+        }
+
+        const base = fingerprintBase(companyAccount, item);
+        const occurrence = seen.get(base) ?? 0;
+        seen.set(base, occurrence + 1);
+        const fingerprint = `${base}:${occurrence}`;
+
+        if (bankTransactionsDb.existsByFingerprint(fingerprint)) {
+          duplicates++;
+          continue;
+        }
+
+        const created = bankTransactionsDb.create({ statement_id: statement.id, fingerprint, ...item });
+        imported++;
+        if (this.proposeMatch(created)) proposed++;
+      }
+
+      return { statement, imported, duplicates, skipped_outgoing: skippedOutgoing, proposed, unreadable: parsed.unreadable };
+    });
+
+    return tx();
+  }
+
+  async getTransactions(status?: BankTransactionStatus): Promise<BankTransactionListItem[]> {
+    return bankTransactionsDb.getAll(status);
+  }
+
+  /**
+   * Records the transaction as a payment of the proposed invoice, or of another
+   * invoice picked by the user.
+   */
+  async confirm(transactionId: number, invoiceId?: number | null): Promise<BankTransaction> {
+    const transaction = bankTransactionsDb.getById(transactionId);
+    if (!transaction) throw new Error('Bank transaction not found');
+    if (transaction.status === 'matched') throw new Error('Bank transaction is already matched');
+
+    const targetId = invoiceId ?? transaction.proposed_invoice_id;
+    if (!targetId) throw new Error('Choose an invoice for this transaction');
+
+    const payment = await this.paymentService.addPayment(targetId, {
+      amount_grosze: transaction.amount_grosze,
+      payment_date: transaction.booking_date,
+      method: 'bank_transfer',
+      reference: (transaction.title || transaction.reference || '').slice(0, 255) || null,
+      notes: transaction.counterparty_name,
+    });
+
+    return bankTransactionsDb.update(transactionId, {
+      status: 'matched',
+      proposed_invoice_id: targetId,
+      payment_id: payment.id,
+    })!;
+  }
+
+  async ignore(transactionId: number): Promise<BankTransaction> {
+    const transaction = bankTransactionsDb.getById(transactionId);
+    if (!transaction) throw new Error('Bank transaction not found');
+    if (transaction.status === 'matched') {
+      throw new Error('Remove the recorded payment before ignoring this transaction');
+    }
+
+    return bankTransactionsDb.update(transactionId, { status: 'ignored' })!;
+  }
+
+  // Scores open invoices against the transfer and proposes the single best one
+  private proposeMatch(transaction: BankTransaction): boolean {
+    const counterparty = alnum(`${transaction.title} ${transaction.counterparty_name ?? ''}`);
+    const candidates = this.getCandidates(transaction.currency);
+
+    // A title with FV/1/2026 also holds 1/2026; only the longest number found counts
+    const numberMatches = new Map(
+      candidates.map((candidate) => [candidate.id, alnum(findInvoiceNumber(transaction.title, candidate.invoice_number) ?? '')])
+    );
+    const longestMatch = Math.max(0, ...Array.from(numberMatches.values(), (match) => match.length));
+
+    const scored = candidates
+      .map((candidate) => {
+        const reasons: MatchReason[] = [];
+        if (longestMatch > 0 && numberMatches.get(candidate.id)!.length === longestMatch) reasons.push('invoice_number');
+        if (
+          transaction.amount_grosze === candidate.outstanding_grosze ||
+          transaction.amount_grosze === candidate.due_grosze
+        ) {
+          reasons.push('amount');
+        }
+        if (candidate.client_nip && counterparty.includes(candidate.client_nip)) reasons.push('nip');
+
+        const score = reasons.reduce((sum, r) => sum + MATCH_WEIGHTS[r], 0);
+        return { candidate, reasons, score };
+      })
+      .filter((s) => s.score >= MIN_MATCH_SCORE)
+      .sort((a, b) => b.score - a.score);
+
+    // Ties (e.g. two equal invoices for the same client) are left for the user
+    if (scored.length === 0 || (scored.length > 1 && scored[1].score === scored[0].score)) {
+      return false;
+    }
+
+    bankTransactionsDb.update(transaction.id, {
+      status: 'proposed',
+      proposed_invoice_id: scored[0].candidate.id,
+      match_reasons: scored[0].reasons.join(','),
+    });
+    return true;
+  }
+
+  private getCandidates(currency: string): MatchCandidate[] {
+    return db
+      .prepare(
+        `
+        SELECT * FROM (
+          SELECT
+            i.id,
+            i.invoice_number,
+            i.currency,
+            c.nip AS client_nip,
+            ${INVOICE_BALANCE_COLUMNS}
+          FROM invoices i
+          INNER JOIN clients c ON c.id = i.client_id
+          WHERE i.status = 'issued' AND i.invoice_type = 'VAT' AND i.currency = ?
+        )
+        WHERE outstanding_grosze > 0
+      `
+      )
+      .all(currency) as MatchCandidate[];
+  }
+}
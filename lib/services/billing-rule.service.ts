@@ -0,0 +1,51 @@
+import { format, parseISO, subDays } from 'date-fns';
+import { billingRulesDb } from '@/lib/db';
+import type { BillingRule } from '@/types';
+import type { BillingRuleInput } from '../schemas/billing-rules';
+import { getBillingRules } from '../utils/rates';
+import { getFirstOpenDay } from './time-entry-sync.service';
+
+export class BillingRuleService {
+  /** Rules in the order they are matched against entries. */
+  async getRules(): Promise<BillingRule[]> {
+    return getBillingRules();
+  }
+
+  async createRule(input: BillingRuleInput, now: Date = new Date()): Promise<BillingRule> {
+    const effectiveFrom = input.effective_from ?? `${format(now, 'yyyy-MM')}-01`;
+    const firstOpenDay = getFirstOpenDay(now);
+    // A rule reaching into a closed month would reprice income that is already final
+    if (effectiveFrom < firstOpenDay) {
+      throw new Error(`A billing rule cannot start before ${firstOpenDay}; earlier months are closed`);
+    }
+
+    return billingRulesDb.create({
+      project_id: input.project_id ?? null,
+      match_type: input.match_type,
+      pattern: input.pattern,
+      billable: input.billable,
+      hourly_rate: input.billable ? input.hourly_rate ?? null : null,
+      effective_from: effectiveFrom,
+    });
+  }
+
+  /**
+   * Deletes a rule that only applies to open months. A rule that already priced a
+   * closed month is retired instead, so it keeps applying to those months.
+   */
+  async deleteRule(id: number, now: Date = new Date()): Promise<boolean> {
+    const rule = billingRulesDb.getById(id);
+    if (!rule) return false;
+
+    const firstOpenDay = getFirstOpenDay(now);
+    if (rule.effective_from >= firstOpenDay) {
+      return billingRulesDb.delete(id);
+    }
+
+    const lastClosedDay = format(subDays(parseISO(firstOpenDay), 1), 'yyyy-MM-dd');
+    if (!rule.effective_until || rule.effective_until > lastClosedDay) {
+      billingRulesDb.retire(id, lastClosedDay);
+    }
+    return true;
+  }
+}
@@ -1,20 +1,19 @@
 import db, { clientsDb } from '@/lib/db';
 import type { Client, CreateClientInput } from '@/types';
+import { DOMESTIC_COUNTRY_CODE, normalizeTaxId } from '../utils/countries';
 
 export class ClientService {
-  normalizeNip(nip: string): string {
-    const normalized = nip.replace(/[^\d]/g, '');
-    if (!/^\d{10}$/.test(normalized)) {
-      throw new Error('Invalid NIP format (must be 10 digits)');
-    }
-    return normalized;
+  normalizeNip(nip: string, countryCode: string = DOMESTIC_COUNTRY_CODE): string {
+    return normalizeTaxId(nip, countryCode);
   }
 
   async createClient(input: CreateClientInput): Promise<Client> {
-    const nip = this.normalizeNip(input.nip);
+    const countryCode = input.country_code || DOMESTIC_COUNTRY_CODE;
+    const nip = this.normalizeNip(input.nip, countryCode);
     return clientsDb.create({
       name: input.name.trim(),
       nip,
+      country_code: countryCode,
       address: input.address?.trim() || null,
       city: input.city?.trim() || null,
       postal_code: input.postal_code?.trim() || null,
@@ -66,8 +65,13 @@ export class ClientService {
 
   async updateClient(id: number, input: Partial<CreateClientInput>): Promise<Client | undefined> {
     const data: any = { ...input };
-    if (input.nip !== undefined) {
-      data.nip = input.nip ? this.normalizeNip(input.nip) : input.nip;
+    if (input.nip !== undefined || input.country_code !== undefined) {
+      const current = clientsDb.getById(id);
+      if (!current) return undefined;
+      const countryCode = input.country_code || current.country_code;
+      const nip = input.nip ?? current.nip;
+      data.country_code = countryCode;
+      data.nip = nip ? this.normalizeNip(nip, countryCode) : nip;
     }
     if (input.name !== undefined) data.name = input.name.trim();
     if (input.address !== undefined) data.address = input.address?.trim() || null;
@@ -86,6 +90,13 @@ export class ClientService {
       throw new Error('Client has existing invoices and cannot be deleted');
     }
 
+    const recurring = db
+      .prepare('SELECT COUNT(*) as count FROM recurring_invoices WHERE client_id = ?')
+      .get(id) as { count: number };
+    if (recurring.count > 0) {
+      throw new Error('Client has recurring invoices and cannot be deleted');
+    }
+
     const deleted = clientsDb.delete(id);
     if (!deleted) {
       throw new Error('Client not found');
@@ -1,70 +1,260 @@
-import { DashboardStats, ProjectStats, DailyStats, EverhourTimeEntry, ProjectRate } from '@/types';
-import { getCurrentMonthRange, getMonthRange } from '../utils/date';
+import { subYears, format } from 'date-fns';
+import {
+  DashboardStats,
+  ProjectStats,
+  ClientStats,
+  DailyStats,
+  TrackedTimeEntry,
+  ProjectClient,
+  RangeStats,
+  MonthlyTotals,
+  PeriodTotals,
+  PeriodComparison,
+} from '@/types';
+import { getCurrentMonthRange, getMonthRange, getMonthsInRange } from '../utils/date';
 import { roundToTwoDecimals, secondsToHours } from '../utils/formatters';
-import { fetchCurrentUserTimeEntries, fetchProjectNamesMap, getProjectIdFromEntry } from '../utils/everhour-utils';
-import { getRatesMap, getDefaultRate, getProjectRate } from '../utils/rates';
-import { calculateMonthlyWorkingDays } from '../utils/working-days';
-import { settingsDb } from '../db';
+import { expenseCostGrosze } from '../utils/expenses';
+import { invoiceNetPlnGrosze } from '../utils/invoice-calculations';
+import { getProjectIdFromEntry } from '../utils/time-entries';
+import { getEntryRate, getRateContext, type RateContext } from '../utils/rates';
+import { getProjectClientsMap } from '../utils/project-clients';
+import { getProjectTravelMap, type ProjectTravel } from '../utils/travel-costs';
+import { calculateMonthlyWorkingDays, calculateWorkingDays } from '../utils/working-days';
+import { expensesDb, fuelTransactionsDb, invoicesDb, settingsDb } from '../db';
+import { TimeEntryService } from './time-entry.service';
+
+const emptyTotals = (): PeriodTotals => ({ hours: 0, billable_hours: 0, income: 0, invoiced: 0, fuel_cost: 0, expenses: 0, profit: 0 });
+
+const roundTotals = <T extends PeriodTotals>(totals: T): T => ({
+  ...totals,
+  hours: roundToTwoDecimals(totals.hours),
+  billable_hours: roundToTwoDecimals(totals.billable_hours),
+  income: roundToTwoDecimals(totals.income),
+  invoiced: roundToTwoDecimals(totals.invoiced),
+  fuel_cost: roundToTwoDecimals(totals.fuel_cost),
+  expenses: roundToTwoDecimals(totals.expenses),
+  profit: roundToTwoDecimals(totals.profit),
+});
+
+function sumTotals(monthly: MonthlyTotals[]): PeriodTotals {
+  const totals = monthly.reduce((sum, m) => {
+    sum.hours += m.hours;
+    sum.billable_hours += m.billable_hours;
+    sum.income += m.income;
+    sum.invoiced += m.invoiced;
+    sum.fuel_cost += m.fuel_cost;
+    sum.expenses += m.expenses;
+    sum.profit += m.profit;
+    return sum;
+  }, emptyTotals());
+  return roundTotals(totals);
+}
 
 export class DashboardStatsService {
+  private timeEntries = new TimeEntryService();
+
   async calculateStats(month?: string): Promise<DashboardStats> {
     const { startFormatted, endFormatted } = month 
       ? getMonthRange(month) 
       : getCurrentMonthRange();
     
-    // Fetch all required data
-    const { entries } = await fetchCurrentUserTimeEntries(startFormatted, endFormatted);
-    const projectNamesMap = await fetchProjectNamesMap();
-    const ratesMap = getRatesMap();
-    const defaultRate = getDefaultRate();
+    // Fetch all required data (from the local cache, synced with the time provider as needed)
+    const entries = await this.timeEntries.getEntries(startFormatted, endFormatted);
+    const projectNamesMap = await this.timeEntries.getProjectNamesMap();
+    const rates = getRateContext();
+    const projectClientsMap = getProjectClientsMap();
+    const travelMap = getProjectTravelMap(startFormatted, endFormatted);
     
-    // Calculate project stats
-    const projects = this.aggregateByProject(entries, projectNamesMap, ratesMap, defaultRate);
+    // Calculate project and client stats
+    const projects = this.aggregateByProject(entries, projectNamesMap, rates, projectClientsMap, travelMap);
+    const clients = this.aggregateByClient(projects);
     
     // Calculate daily stats
-    const dailyBreakdown = this.aggregateByDay(entries, ratesMap, defaultRate);
+    const dailyBreakdown = this.aggregateByDay(entries, rates);
     
     // Calculate totals and goal
     const totalHours = this.calculateTotalHours(projects);
     const totalIncome = this.calculateTotalIncome(projects);
+    const totalExpenses = this.calculateTotalExpenses(startFormatted, endFormatted);
     const monthlyGoal = await this.getMonthlyGoal(month);
     
     return {
       total_hours: roundToTwoDecimals(totalHours),
       total_income: roundToTwoDecimals(totalIncome),
+      total_expenses: roundToTwoDecimals(totalExpenses),
+      profit: roundToTwoDecimals(totalIncome - totalExpenses),
       active_projects: projects.length,
       monthly_goal: monthlyGoal,
       goal_percentage: this.calculateGoalPercentage(totalHours, monthlyGoal),
       projects,
+      clients,
       daily_breakdown: dailyBreakdown,
+      time_sync: this.timeEntries.getMonthStatus(startFormatted.slice(0, 7)),
     };
   }
   
+  /**
+   * Stats for whole months fromMonth..toMonth (YYYY-MM), with monthly totals and the
+   * same months a year earlier. Entries of the whole range are read in one pass.
+   */
+  async calculateRangeStats(fromMonth: string, toMonth: string): Promise<RangeStats> {
+    const from = getMonthRange(fromMonth).startFormatted;
+    const to = getMonthRange(toMonth).endFormatted;
+
+    const entries = await this.getEntriesUntilToday(from, to);
+    const projectNamesMap = await this.timeEntries.getProjectNamesMap();
+    const rates = getRateContext();
+    const projectClientsMap = getProjectClientsMap();
+    const travelMap = getProjectTravelMap(from, to);
+
+    const projects = this.aggregateByProject(entries, projectNamesMap, rates, projectClientsMap, travelMap);
+    const clients = this.aggregateByClient(projects);
+    const dailyBreakdown = this.aggregateByDay(entries, rates);
+    const monthly = this.aggregateByMonth(entries, rates, from, to);
+
+    const totalHours = this.calculateTotalHours(projects);
+    const totalIncome = this.calculateTotalIncome(projects);
+    const hoursGoal = await this.getRangeGoal(from, to);
+
+    return {
+      from,
+      to,
+      total_hours: roundToTwoDecimals(totalHours),
+      total_income: roundToTwoDecimals(totalIncome),
+      active_projects: projects.length,
+      hours_goal: hoursGoal,
+      goal_percentage: this.calculateGoalPercentage(totalHours, hoursGoal),
+      projects,
+      clients,
+      daily_breakdown: dailyBreakdown,
+      totals: sumTotals(monthly),
+      monthly,
+      previous_year: await this.getPreviousYear(from, to, rates),
+    };
+  }
+
+  // The comparison is extra; a provider that cannot serve last year must not break the range view
+  private async getPreviousYear(from: string, to: string, rates: RateContext): Promise<PeriodComparison | null> {
+    const previousFrom = format(subYears(new Date(`${from}T00:00:00`), 1), 'yyyy-MM-dd');
+    const previousTo = getMonthRange(format(subYears(new Date(`${to}T00:00:00`), 1), 'yyyy-MM')).endFormatted;
+
+    try {
+      const entries = await this.getEntriesUntilToday(previousFrom, previousTo);
+      const monthly = this.aggregateByMonth(entries, rates, previousFrom, previousTo);
+      return { from: previousFrom, to: previousTo, totals: sumTotals(monthly), monthly };
+    } catch (error) {
+      console.error(`Failed to load stats for ${previousFrom}..${previousTo}:`, error);
+      return null;
+    }
+  }
+
+  // Months that have not started have no entries; reading them would only record empty syncs
+  private async getEntriesUntilToday(from: string, to: string): Promise<TrackedTimeEntry[]> {
+    const { endFormatted: currentMonthEnd } = getCurrentMonthRange();
+    const until = to < currentMonthEnd ? to : currentMonthEnd;
+    return until < from ? [] : this.timeEntries.getEntries(from, until);
+  }
+
+  private aggregateByMonth(entries: TrackedTimeEntry[], rates: RateContext, from: string, to: string): MonthlyTotals[] {
+    const monthsMap = new Map<string, MonthlyTotals>(
+      getMonthsInRange(from, to).map((month) => [month, { month, ...emptyTotals() }])
+    );
+
+    entries.forEach((entry) => {
+      const month = monthsMap.get(entry.date.slice(0, 7));
+      if (!month) return;
+
+      const { billable, hourly_rate: rate } = getEntryRate(entry, rates);
+      const hours = secondsToHours(entry.seconds);
+      month.hours += hours;
+      if (billable) {
+        month.billable_hours += hours;
+        month.income += hours * (rate || 0);
+      }
+    });
+
+    invoicesDb.getIssuedByDateRange(from, to).forEach((invoice) => {
+      const month = monthsMap.get(invoice.issue_date.slice(0, 7));
+      if (!month) return;
+
+      month.invoiced += invoiceNetPlnGrosze(invoice) / 100;
+    });
+
+    fuelTransactionsDb.getMonthlyTotals(from, to).forEach(({ month, total_spent }) => {
+      const totals = monthsMap.get(month);
+      if (totals) totals.fuel_cost += total_spent || 0;
+    });
+
+    expensesDb.getByDateRange(from, to).forEach((expense) => {
+      const month = monthsMap.get(expense.date.slice(0, 7));
+      if (month) month.expenses += expenseCostGrosze(expense) / 100;
+    });
+
+    return Array.from(monthsMap.values())
+      .map((month) => ({ ...month, profit: month.income - month.expenses }))
+      .map(roundTotals);
+  }
+
   private aggregateByProject(
-    entries: EverhourTimeEntry[],
+    entries: TrackedTimeEntry[],
     projectNamesMap: Map<string, string>,
-    ratesMap: Map<string, ProjectRate>,
-    defaultRate: number
+    rates: RateContext,
+    projectClientsMap: Map<string, ProjectClient>,
+    travelMap: Map<string, ProjectTravel>
   ): ProjectStats[] {
-    const projectsMap = new Map<string, { name: string; seconds: number; rate: number | null; isDefaultRate: boolean }>();
+    const projectsMap = new Map<
+      string,
+      {
+        name: string;
+        seconds: number;
+        nonBillableSeconds: number;
+        income: number;
+        rates: Set<number>;
+        unpriced: boolean;
+      }
+    >();
     
     entries.forEach((entry) => {
       const projectId = getProjectIdFromEntry(entry);
-      const projectName = projectNamesMap.get(projectId) || entry.task?.name || 'Unknown Project';
+      const projectName = projectNamesMap.get(projectId) || entry.task_name || 'Unknown Project';
       
       if (!projectsMap.has(projectId)) {
-        const rateInfo = ratesMap.get(projectId);
-        const rate = getProjectRate(projectId, ratesMap, defaultRate);
+        const rateInfo = rates.ratesMap.get(projectId);
         projectsMap.set(projectId, {
           name: rateInfo?.project_name || projectName,
           seconds: 0,
-          rate: rate,
-          isDefaultRate: !rateInfo && defaultRate > 0,
+          nonBillableSeconds: 0,
+          income: 0,
+          rates: new Set(),
+          unpriced: false,
         });
       }
 
+      // Each entry is priced by its billing rule or the project rate in effect on its day
       const project = projectsMap.get(projectId)!;
-      project.seconds += entry.time;
+      const { billable, hourly_rate: rate } = getEntryRate(entry, rates);
+      project.seconds += entry.seconds;
+      if (!billable) {
+        project.nonBillableSeconds += entry.seconds;
+      } else if (rate !== null) {
+        project.income += secondsToHours(entry.seconds) * rate;
+        project.rates.add(rate);
+      } else {
+        project.unpriced = true;
+      }
+    });
+
+    // Trips for a project without hours in the period still count against it
+    travelMap.forEach((_, projectId) => {
+      if (projectsMap.has(projectId)) return;
+      projectsMap.set(projectId, {
+        name: rates.ratesMap.get(projectId)?.project_name || projectNamesMap.get(projectId) || 'Unknown Project',
+        seconds: 0,
+        nonBillableSeconds: 0,
+        income: 0,
+        rates: new Set(),
+        unpriced: false,
+      });
     });
 
     const totalSeconds = Array.from(projectsMap.values()).reduce((sum, p) => sum + p.seconds, 0);
@@ -72,39 +262,79 @@ export class DashboardStatsService {
 
     return Array.from(projectsMap.entries()).map(([id, data]) => {
       const hours = secondsToHours(data.seconds);
-      const income = data.rate !== null ? hours * data.rate : null;
+      const billableHours = secondsToHours(data.seconds - data.nonBillableSeconds);
+      const income = data.rates.size > 0 ? data.income : null;
+      const client = projectClientsMap.get(id);
+      const travelCost = travelMap.get(id)?.cost ?? 0;
       
       return {
         project_id: id,
         project_name: data.name,
+        client_id: client?.client_id ?? null,
+        client_name: client?.client_name ?? null,
         hours: roundToTwoDecimals(hours),
-        hourly_rate: data.rate,
+        billable_hours: roundToTwoDecimals(billableHours),
+        non_billable_hours: roundToTwoDecimals(hours - billableHours),
+        // A month that spans a rate change or rule shows the average rate of its billable hours
+        hourly_rate:
+          data.rates.size === 1 && !data.unpriced
+            ? [...data.rates][0]
+            : income !== null && billableHours > 0
+              ? roundToTwoDecimals(income / billableHours)
+              : null,
         income: income !== null ? roundToTwoDecimals(income) : null,
+        travel_km: roundToTwoDecimals(travelMap.get(id)?.distance_km ?? 0),
+        travel_cost: roundToTwoDecimals(travelCost),
+        net_profit:
+          income !== null || data.seconds === 0 ? roundToTwoDecimals((income ?? 0) - travelCost) : null,
         percentage: totalHours > 0 ? roundToTwoDecimals((hours / totalHours) * 100) : 0,
       };
     }).sort((a, b) => b.hours - a.hours);
   }
   
+  private aggregateByClient(projects: ProjectStats[]): ClientStats[] {
+    const clientsMap = new Map<number | null, { name: string | null; hours: number; income: number }>();
+
+    projects.forEach((project) => {
+      if (!clientsMap.has(project.client_id)) {
+        clientsMap.set(project.client_id, { name: project.client_name, hours: 0, income: 0 });
+      }
+
+      const client = clientsMap.get(project.client_id)!;
+      client.hours += project.hours;
+      client.income += project.income || 0;
+    });
+
+    const totalIncome = this.calculateTotalIncome(projects);
+
+    return Array.from(clientsMap.entries()).map(([id, data]) => ({
+      client_id: id,
+      client_name: data.name,
+      hours: roundToTwoDecimals(data.hours),
+      income: roundToTwoDecimals(data.income),
+      percentage: totalIncome > 0 ? roundToTwoDecimals((data.income / totalIncome) * 100) : 0,
+    })).sort((a, b) => b.income - a.income);
+  }
+  
   private aggregateByDay(
-    entries: EverhourTimeEntry[],
-    ratesMap: Map<string, ProjectRate>,
-    defaultRate: number
+    entries: TrackedTimeEntry[],
+    rates: RateContext
   ): DailyStats[] {
-    const dailyMap = new Map<string, { seconds: number; income: number }>();
+    const dailyMap = new Map<string, { seconds: number; nonBillableSeconds: number; income: number }>();
     
     entries.forEach((entry) => {
       const date = entry.date;
-      const projectId = getProjectIdFromEntry(entry);
-      const rate = getProjectRate(projectId, ratesMap, defaultRate) || 0;
-      const hours = secondsToHours(entry.time);
-      const income = hours * rate;
+      const { billable, hourly_rate: rate } = getEntryRate(entry, rates);
+      const hours = secondsToHours(entry.seconds);
+      const income = hours * (rate || 0);
 
       if (!dailyMap.has(date)) {
-        dailyMap.set(date, { seconds: 0, income: 0 });
+        dailyMap.set(date, { seconds: 0, nonBillableSeconds: 0, income: 0 });
       }
 
       const day = dailyMap.get(date)!;
-      day.seconds += entry.time;
+      day.seconds += entry.seconds;
+      if (!billable) day.nonBillableSeconds += entry.seconds;
       day.income += income;
     });
 
@@ -112,6 +342,8 @@ export class DashboardStatsService {
       .map(([date, data]) => ({
         date,
         hours: roundToTwoDecimals(secondsToHours(data.seconds)),
+        billable_hours: roundToTwoDecimals(secondsToHours(data.seconds - data.nonBillableSeconds)),
+        non_billable_hours: roundToTwoDecimals(secondsToHours(data.nonBillableSeconds)),
         income: roundToTwoDecimals(data.income),
       }))
       .sort((a, b) => a.date.localeCompare(b.date));
@@ -124,18 +356,30 @@ export class DashboardStatsService {
   private calculateTotalIncome(projects: ProjectStats[]): number {
     return projects.reduce((sum, p) => sum + (p.income || 0), 0);
   }
+
+  private calculateTotalExpenses(from: string, to: string): number {
+    return expensesDb.getByDateRange(from, to).reduce((sum, expense) => sum + expenseCostGrosze(expense), 0) / 100;
+  }
   
   private async getMonthlyGoal(month?: string): Promise<number> {
     // Get daily hours target from settings (default 8)
     const dailyHoursTarget = parseFloat(settingsDb.get('daily_hours_target') || '8');
     
-    // Calculate working days in the specified or current month
-    const workingDays = await calculateMonthlyWorkingDays(month);
+    // Calculate working days in the specified or current month, less personal time off
+    const workingDays = await calculateMonthlyWorkingDays(month, { excludeTimeOff: true });
     
     // Monthly goal = working days * daily hours
     return Math.round(workingDays * dailyHoursTarget * 100) / 100;
   }
   
+  private async getRangeGoal(from: string, to: string): Promise<number> {
+    const dailyHoursTarget = parseFloat(settingsDb.get('daily_hours_target') || '8');
+    const workingDays = await calculateWorkingDays(new Date(`${from}T00:00:00`), new Date(`${to}T00:00:00`), {
+      excludeTimeOff: true,
+    });
+    return Math.round(workingDays * dailyHoursTarget * 100) / 100;
+  }
+
   private calculateGoalPercentage(totalHours: number, monthlyGoal: number): number {
     return monthlyGoal > 0 ? roundToTwoDecimals((totalHours / monthlyGoal) * 100) : 0;
   }
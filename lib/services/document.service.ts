@@ -0,0 +1,103 @@
+import fs from 'fs/promises';
+import { documentsDb, expensesDb, fuelTransactionsDb } from '@/lib/db';
+import type { DocumentLink, StoredDocument } from '@/types';
+import {
+  createThumbnail,
+  detectDocumentMimeType,
+  ensureDocumentDirectories,
+  getThumbnailPath,
+  newDocumentPath,
+  sanitizeOriginalName,
+} from '../utils/document-files';
+
+async function removeFiles(document: StoredDocument): Promise<void> {
+  await fs.rm(document.path, { force: true });
+  if (document.thumbnail_path) await fs.rm(document.thumbnail_path, { force: true });
+}
+
+export class DocumentService {
+  async getDocuments(link: DocumentLink): Promise<StoredDocument[]> {
+    this.assertLinkExists(link);
+    return documentsDb.getByLink(link);
+  }
+
+  /**
+   * Stores a PDF, JPEG or PNG and links it to an expense or a fuel log entry. A thumbnail
+   * that cannot be made (a damaged image) does not stop the upload.
+   */
+  async uploadDocument(filename: string, content: Buffer, link: DocumentLink): Promise<StoredDocument> {
+    this.assertLinkExists(link);
+
+    const mimeType = detectDocumentMimeType(content);
+    if (!mimeType) {
+      throw new Error('Unsupported document type (PDF, JPG or PNG expected)');
+    }
+
+    await ensureDocumentDirectories();
+    const documentPath = newDocumentPath(mimeType);
+    await fs.writeFile(documentPath, content);
+
+    let thumbnailPath: string | null = null;
+    try {
+      const thumbnail = await createThumbnail(content, mimeType);
+      if (thumbnail) {
+        thumbnailPath = getThumbnailPath(documentPath);
+        await fs.writeFile(thumbnailPath, thumbnail);
+      }
+    } catch (error) {
+      console.error(`Failed to create a thumbnail for ${filename}:`, error);
+      thumbnailPath = null;
+    }
+
+    return documentsDb.create({
+      original_name: sanitizeOriginalName(filename),
+      path: documentPath,
+      mime_type: mimeType,
+      size_bytes: content.length,
+      thumbnail_path: thumbnailPath,
+      expense_id: link.expense_id ?? null,
+      fuel_transaction_id: link.fuel_transaction_id ?? null,
+    });
+  }
+
+  async getFile(id: number, thumbnail = false): Promise<{ document: StoredDocument; content: Buffer }> {
+    const document = this.getExisting(id);
+    if (thumbnail && !document.thumbnail_path) {
+      throw new Error('Document has no thumbnail');
+    }
+    return { document, content: await fs.readFile(thumbnail ? document.thumbnail_path! : document.path) };
+  }
+
+  async deleteDocument(id: number): Promise<void> {
+    const document = this.getExisting(id);
+    documentsDb.delete(id);
+    await removeFiles(document);
+  }
+
+  /** Removes the files of everything linked; the rows go with the expense or fuel entry. */
+  async deleteLinkedFiles(link: DocumentLink): Promise<void> {
+    for (const document of documentsDb.getByLink(link)) {
+      await removeFiles(document);
+    }
+  }
+
+  private getExisting(id: number): StoredDocument {
+    const document = documentsDb.getById(id);
+    if (!document) {
+      throw new Error('Document not found');
+    }
+    return document;
+  }
+
+  private assertLinkExists(link: DocumentLink): void {
+    if (!!link.expense_id === !!link.fuel_transaction_id) {
+      throw new Error('A document belongs to exactly one expense or fuel transaction');
+    }
+    if (link.expense_id && !expensesDb.getById(link.expense_id)) {
+      throw new Error('Expense not found');
+    }
+    if (link.fuel_transaction_id && !fuelTransactionsDb.getById(link.fuel_transaction_id)) {
+      throw new Error('Fuel transaction not found');
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { holidaysDb } from '@/lib/db';
+import type { ExchangeRate } from '@/types';
+import { ExchangeRateService, type ExchangeRateSource } from './exchange-rate.service';
+
+// NBP tables by date; the source only answers with tables inside the requested range
+function tableSource(tables: Record<string, string>) {
+  const calls: Array<{ from: string; to: string }> = [];
+  const source: ExchangeRateSource = {
+    name: 'test',
+    async fetchRates(currency, from, to) {
+      calls.push({ from, to });
+      return Object.entries(tables)
+        .filter(([date]) => date >= from && date <= to)
+        .map(([date, rate]): Omit<ExchangeRate, 'fetched_at'> => ({
+          currency,
+          effective_date: date,
+          rate,
+          table_no: null,
+          source: 'test',
+        }));
+    },
+  };
+  return { source, calls };
+}
+
+beforeAll(() => {
+  holidaysDb.bulkInsert([
+    { date: '2025-12-24', name: 'Wigilia', year: 2025 },
+    { date: '2025-12-25', name: 'Boże Narodzenie', year: 2025 },
+    { date: '2025-12-26', name: 'Drugi dzień świąt', year: 2025 },
+    { date: '2026-01-01', name: 'Nowy Rok', year: 2026 },
+  ]);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ExchangeRateService.getRateForSaleDate', () => {
+  it('takes the table from before the sale date, never the same day', async () => {
+    const { source, calls } = tableSource({ '2026-03-05': '4.2000', '2026-03-06': '4.3000' });
+
+    const rate = await new ExchangeRateService(source).getRateForSaleDate('eur', '2026-03-06');
+
+    expect(rate.effective_date).toBe('2026-03-05');
+    expect(rate.rate).toBe('4.2000');
+    expect(calls).toEqual([{ from: '2026-02-20', to: '2026-03-05' }]);
+  });
+
+  it('looks back over weekends and holidays to the last published table', async () => {
+    const { source } = tableSource({ '2025-12-22': '4.2100', '2025-12-23': '4.2200' });
+
+    const rate = await new ExchangeRateService(source).getRateForSaleDate('EUR', '2025-12-29');
+
+    expect(rate.effective_date).toBe('2025-12-23');
+  });
+
+  it('reuses a cached table when only holidays lie between it and the sale date', async () => {
+    const { source, calls } = tableSource({ '2025-12-31': '4.1900' });
+    const service = new ExchangeRateService(source);
+
+    await service.getRateForSaleDate('USD', '2026-01-01');
+    const rate = await service.getRateForSaleDate('USD', '2026-01-02');
+
+    expect(rate.effective_date).toBe('2025-12-31');
+    expect(calls).toHaveLength(1);
+  });
+
+  it('fails when no table was published in the 14 days before the sale date', async () => {
+    const { source } = tableSource({ '2026-05-01': '4.0000' });
+
+    await expect(new ExchangeRateService(source).getRateForSaleDate('CHF', '2026-05-20')).rejects.toThrow(
+      'No CHF exchange rate published between 2026-05-06 and 2026-05-19'
+    );
+  });
+
+  it("fails when the previous working day's table is not out yet", async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-06-10T09:00:00'));
+    const { source } = tableSource({ '2026-06-09': '4.2500' });
+
+    await expect(new ExchangeRateService(source).getRateForSaleDate('GBP', '2026-06-11')).rejects.toThrow(
+      'The GBP exchange rate for 2026-06-10 has not been published yet'
+    );
+  });
+
+  it('rejects PLN', async () => {
+    const { source } = tableSource({});
+
+    await expect(new ExchangeRateService(source).getRateForSaleDate('PLN', '2026-06-11')).rejects.toThrow(
+      'PLN invoices do not use an exchange rate'
+    );
+  });
+});
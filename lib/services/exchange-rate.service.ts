@@ -0,0 +1,140 @@
+import fs from 'fs/promises';
+import { addDays, eachDayOfInterval, format, isWeekend, parseISO, subDays } from 'date-fns';
+import type { ExchangeRate } from '@/types';
+import { exchangeRatesDb, holidaysDb } from '../db';
+import { normalizeExchangeRate } from '../utils/invoice-calculations';
+
+type SourceRate = Omit<ExchangeRate, 'fetched_at'>;
+
+/**
+ * Supplies published mid-rates for a currency. Swap the source (see createExchangeRateSource)
+ * to run against a local stand-in instead of the NBP API.
+ */
+export interface ExchangeRateSource {
+  readonly name: string;
+  fetchRates(currency: string, from: string, to: string): Promise<SourceRate[]>;
+}
+
+interface NbpRatesResponse {
+  code: string;
+  rates: Array<{ no: string; effectiveDate: string; mid: number }>;
+}
+
+export class NbpExchangeRateSource implements ExchangeRateSource {
+  readonly name = 'nbp';
+
+  constructor(private readonly baseUrl: string = process.env.NBP_API_URL || 'https://api.nbp.pl/api') {}
+
+  async fetchRates(currency: string, from: string, to: string): Promise<SourceRate[]> {
+    const url = `${this.baseUrl}/exchangerates/rates/a/${currency.toLowerCase()}/${from}/${to}/?format=json`;
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+
+    // NBP answers 404 when no table was published in the range (e.g. a long holiday)
+    if (response.status === 404) return [];
+    if (!response.ok) {
+      throw new Error(`Failed to fetch NBP exchange rates: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as NbpRatesResponse;
+    return data.rates.map((r) => ({
+      currency: data.code.toUpperCase(),
+      effective_date: r.effectiveDate,
+      rate: normalizeExchangeRate(String(r.mid)),
+      table_no: r.no,
+      source: this.name,
+    }));
+  }
+}
+
+/**
+ * Reads rates from a JSON file shaped like { "EUR": { "2026-01-02": "4.2571" } }.
+ * Meant for tests and offline work.
+ */
+export class FileExchangeRateSource implements ExchangeRateSource {
+  readonly name = 'file';
+
+  constructor(private readonly filePath: string) {}
+
+  async fetchRates(currency: string, from: string, to: string): Promise<SourceRate[]> {
+    const content = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as Record<string, Record<string, string>>;
+    const byDate = content[currency.toUpperCase()] ?? {};
+
+    return Object.entries(byDate)
+      .filter(([date]) => date >= from && date <= to)
+      .map(([date, rate]) => ({
+        currency: currency.toUpperCase(),
+        effective_date: date,
+        rate: normalizeExchangeRate(rate),
+        table_no: null,
+        source: this.name,
+      }));
+  }
+}
+
+export function createExchangeRateSource(): ExchangeRateSource {
+  if (process.env.EXCHANGE_RATES_FILE) {
+    return new FileExchangeRateSource(process.env.EXCHANGE_RATES_FILE);
+  }
+  return new NbpExchangeRateSource();
+}
+
+// Longest stretch without an NBP table (Christmas + weekend) is well under this
+const LOOKBACK_DAYS = 14;
+
+export class ExchangeRateService {
+  constructor(private readonly source: ExchangeRateSource = createExchangeRateSource()) {}
+
+  /**
+   * NBP table A mid-rate from the last working day before the sale date
+   * (art. 31a of the VAT act). Cached rates are reused when nothing could
+   * have been published between them and the sale date.
+   */
+  async getRateForSaleDate(currency: string, saleDate: string): Promise<ExchangeRate> {
+    const code = currency.trim().toUpperCase();
+    if (code === 'PLN') throw new Error('PLN invoices do not use an exchange rate');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(saleDate)) throw new Error('sale_date must be in YYYY-MM-DD format');
+
+    const cached = exchangeRatesDb.getLatestBefore(code, saleDate);
+    if (cached && this.findMissingWorkingDays(cached.effective_date, saleDate).length === 0) {
+      return cached;
+    }
+
+    const day = parseISO(saleDate);
+    const from = format(subDays(day, LOOKBACK_DAYS), 'yyyy-MM-dd');
+    const to = format(subDays(day, 1), 'yyyy-MM-dd');
+
+    const rates = await this.source.fetchRates(code, from, to);
+    if (rates.length > 0) exchangeRatesDb.bulkUpsert(rates);
+
+    const rate = exchangeRatesDb.getLatestBefore(code, saleDate);
+    if (!rate || rate.effective_date < from) {
+      throw new Error(`No ${code} exchange rate published between ${from} and ${to}`);
+    }
+
+    // A weekday gap in the past is a holiday we have not cached; one that is today or later is not published yet
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const pending = this.findMissingWorkingDays(rate.effective_date, saleDate).find((d) => d >= today);
+    if (pending) {
+      throw new Error(`The ${code} exchange rate for ${pending} has not been published yet`);
+    }
+
+    return rate;
+  }
+
+  // Weekdays strictly between two dates that are not known public holidays
+  private findMissingWorkingDays(afterDate: string, beforeDate: string): string[] {
+    const start = addDays(parseISO(afterDate), 1);
+    const end = subDays(parseISO(beforeDate), 1);
+    if (start > end) return [];
+
+    const holidays = new Set<string>();
+    for (let year = start.getFullYear(); year <= end.getFullYear(); year++) {
+      holidaysDb.getByYear(year).forEach((h) => holidays.add(h.date));
+    }
+
+    return eachDayOfInterval({ start, end })
+      .filter((d) => !isWeekend(d))
+      .map((d) => format(d, 'yyyy-MM-dd'))
+      .filter((d) => !holidays.has(d));
+  }
+}
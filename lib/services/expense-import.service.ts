@@ -0,0 +1,114 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import db, { counterpartiesDb, expensesDb, settingsDb } from '@/lib/db';
+import type { ExpenseImportResult, ParsedFa3Invoice, VatRate } from '@/types';
+import type { ExpenseImportInput } from '../schemas/expense';
+import { convertToPlnGrosze } from '../utils/invoice-calculations';
+import { parseFa3Xml, validateFa3Xml } from '../utils/ksef-fa3-xml';
+import { ExchangeRateService } from './exchange-rate.service';
+
+// Invoice types whose totals are a plain purchase; advances and corrections need their own handling
+const IMPORTABLE_INVOICE_TYPES = ['VAT', 'UPR'];
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// Names of the lines taxed at the rate, the invoice number when there are none
+function describeLines(invoice: ParsedFa3Invoice, rate: VatRate): string {
+  const names = invoice.lines.filter((line) => line.vat_rate === rate && line.name).map((line) => line.name);
+  const description = names.length > 0 ? names.join('; ') : `Invoice ${invoice.invoice_number}`;
+  return description.length > MAX_DESCRIPTION_LENGTH
+    ? `${description.slice(0, MAX_DESCRIPTION_LENGTH - 3)}...`
+    : description;
+}
+
+// xmllint validates files, so the upload goes through a temporary one
+async function validateFa3Content(content: Buffer): Promise<void> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'fa3-import-'));
+  try {
+    const xmlPath = path.join(dir, 'invoice.xml');
+    await fs.writeFile(xmlPath, content);
+    await validateFa3Xml(xmlPath);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+export class ExpenseImportService {
+  private readonly exchangeRates = new ExchangeRateService();
+
+  /**
+   * Records a received FA(3) invoice as expenses, one per VAT rate, and adds the seller
+   * to the counterparties when its NIP is new. Foreign-currency amounts are converted
+   * at the NBP rate for the sale date, VAT at the PLN amounts the invoice states.
+   */
+  async importFa3Invoice(content: Buffer, options: ExpenseImportInput): Promise<ExpenseImportResult> {
+    const companyNip = settingsDb.get('company_nip')?.replace(/[^\d]/g, '');
+    if (!companyNip) {
+      throw new Error('Set the company NIP in Settings before importing invoices');
+    }
+
+    await validateFa3Content(content);
+    const invoice = parseFa3Xml(content.toString('utf8'));
+
+    if (invoice.buyer.nip !== companyNip) {
+      throw new Error(`Invoice is issued to NIP ${invoice.buyer.nip ?? '(none)'}, not the company NIP ${companyNip}`);
+    }
+    if (!IMPORTABLE_INVOICE_TYPES.includes(invoice.invoice_type)) {
+      throw new Error(`Only VAT invoices can be imported (this one is ${invoice.invoice_type})`);
+    }
+    if (invoice.vat_totals.length === 0) {
+      throw new Error('Invoice has no VAT totals to record');
+    }
+
+    const supplierNip = invoice.seller.nip;
+    if (!supplierNip) {
+      throw new Error('Invoice has no seller NIP');
+    }
+    if (expensesDb.existsForDocument(supplierNip, invoice.invoice_number)) {
+      throw new Error(`Invoice ${invoice.invoice_number} from NIP ${supplierNip} is already recorded`);
+    }
+
+    const exchangeRate =
+      invoice.currency === 'PLN'
+        ? null
+        : (await this.exchangeRates.getRateForSaleDate(invoice.currency, invoice.sale_date ?? invoice.issue_date)).rate;
+    const toPln = (grosze: number) => (exchangeRate ? convertToPlnGrosze(grosze, exchangeRate) : grosze);
+    const supplierName = invoice.seller.name ?? supplierNip;
+
+    return db.transaction(() => {
+      const existing = counterpartiesDb.getByNip(supplierNip);
+      const counterparty =
+        existing ??
+        counterpartiesDb.create({
+          name: supplierName,
+          nip: supplierNip,
+          address: invoice.seller.address,
+          country_code: invoice.seller.country_code,
+          email: invoice.seller.email,
+          phone: invoice.seller.phone,
+        });
+
+      const expenses = invoice.vat_totals.map((total) => {
+        const netGrosze = toPln(total.net_grosze);
+        const vatGrosze = total.vat_pln_grosze ?? toPln(total.vat_grosze);
+        return expensesDb.create({
+          date: invoice.issue_date,
+          category: options.category,
+          description: describeLines(invoice, total.vat_rate),
+          supplier_name: supplierName,
+          supplier_nip: supplierNip,
+          document_number: invoice.invoice_number,
+          net_grosze: netGrosze,
+          vat_rate: total.vat_rate,
+          vat_grosze: vatGrosze,
+          gross_grosze: netGrosze + vatGrosze,
+          vat_deductible_percent: options.vat_deductible_percent,
+          fuel_transaction_id: null,
+        });
+      });
+
+      return { invoice, counterparty, counterparty_created: !existing, expenses };
+    })();
+  }
+}
@@ -0,0 +1,116 @@
+import db, { expensesDb, fuelTransactionsDb, settingsDb } from '@/lib/db';
+import type { Expense, FuelTransaction } from '@/types';
+import type { ExpenseInput } from '../schemas/expense';
+import { getMonthRange } from '../utils/date';
+import { calculateLineAmounts } from '../utils/invoice-calculations';
+import { fuelExpenseAmounts } from '../utils/expenses';
+import { DocumentService } from './document.service';
+import { VehicleService } from './vehicle.service';
+
+const DEFAULT_FUEL_VAT_DEDUCTION_PERCENT = 50;
+
+function toRecord(input: ExpenseInput) {
+  const amounts = calculateLineAmounts({ quantity: '1', unit_price_grosze: input.net_grosze, vat_rate: input.vat_rate });
+  const vatGrosze = input.vat_grosze ?? amounts.vat_grosze;
+
+  return {
+    date: input.date,
+    category: input.category,
+    description: input.description,
+    supplier_name: input.supplier_name?.trim() || null,
+    supplier_nip: input.supplier_nip || null,
+    document_number: input.document_number?.trim() || null,
+    net_grosze: input.net_grosze,
+    vat_rate: input.vat_rate,
+    vat_grosze: vatGrosze,
+    gross_grosze: input.net_grosze + vatGrosze,
+    vat_deductible_percent: input.vat_deductible_percent,
+  };
+}
+
+export class ExpenseService {
+  private documents = new DocumentService();
+  private vehicles = new VehicleService();
+
+  async getExpenses(month: string): Promise<Expense[]> {
+    const { startFormatted, endFormatted } = getMonthRange(month);
+    return expensesDb.getByDateRange(startFormatted, endFormatted);
+  }
+
+  async createExpense(input: ExpenseInput): Promise<Expense> {
+    return expensesDb.create({ ...toRecord(input), fuel_transaction_id: null });
+  }
+
+  async updateExpense(id: number, input: ExpenseInput): Promise<Expense> {
+    this.getEditable(id);
+    return expensesDb.update(id, toRecord(input))!;
+  }
+
+  async deleteExpense(id: number): Promise<void> {
+    this.getEditable(id);
+    await this.documents.deleteLinkedFiles({ expense_id: id });
+    expensesDb.delete(id);
+  }
+
+  /**
+   * Records a fuel log entry together with its fuel expense. The expense follows the
+   * entry: deleting the entry deletes it.
+   */
+  async recordFuelTransaction(data: {
+    date: string;
+    fuel_type: string;
+    liters: number;
+    price_per_liter: number;
+    total_amount: number;
+    vehicle_id?: number | null;
+    odometer_km?: number | null;
+  }): Promise<FuelTransaction> {
+    if (data.vehicle_id) {
+      this.vehicles.assertOdometerReading(data.vehicle_id, data.date, data.odometer_km ?? null);
+    } else if (data.odometer_km != null) {
+      throw new Error('An odometer reading needs a vehicle');
+    }
+
+    const deductionPercent = parseInt(settingsDb.get('fuel_vat_deduction_percent') ?? '', 10);
+
+    return db.transaction(() => {
+      const transaction = fuelTransactionsDb.create(data);
+      expensesDb.create({
+        date: transaction.date,
+        category: 'fuel',
+        description: `${transaction.fuel_type} ${transaction.liters} l`,
+        supplier_name: transaction.station_name ?? null,
+        supplier_nip: null,
+        document_number: null,
+        ...fuelExpenseAmounts(transaction.total_amount),
+        vat_deductible_percent: isNaN(deductionPercent) ? DEFAULT_FUEL_VAT_DEDUCTION_PERCENT : deductionPercent,
+        fuel_transaction_id: transaction.id,
+      });
+      return transaction;
+    })();
+  }
+
+  /** Deletes a fuel log entry with its fuel expense and attached receipts. */
+  async deleteFuelTransaction(id: number): Promise<boolean> {
+    if (!fuelTransactionsDb.getById(id)) return false;
+    await this.documents.deleteLinkedFiles({ fuel_transaction_id: id });
+    return fuelTransactionsDb.delete(id);
+  }
+
+  private getExisting(id: number): Expense {
+    const expense = expensesDb.getById(id);
+    if (!expense) {
+      throw new Error('Expense not found');
+    }
+    return expense;
+  }
+
+  // Fuel expenses mirror the fuel log and change only through it
+  private getEditable(id: number): Expense {
+    const expense = this.getExisting(id);
+    if (expense.fuel_transaction_id !== null) {
+      throw new Error('Fuel expenses are managed in the fuel log');
+    }
+    return expense;
+  }
+}
@@ -0,0 +1,96 @@
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import type { IncomeForecast, TrackedTimeEntry } from '@/types';
+import { getMonthRange } from '../utils/date';
+import { roundToTwoDecimals, secondsToHours } from '../utils/formatters';
+import { getEntryRate, getRateContext, type RateContext } from '../utils/rates';
+import { calculateWorkingDays } from '../utils/working-days';
+import { settingsDb } from '../db';
+import { TimeEntryService } from './time-entry.service';
+
+// The recent pace is measured over this many calendar days before today
+const PACE_WINDOW_DAYS = 28;
+
+const toDate = (day: string) => parseISO(day);
+
+async function countWorkingDays(from: string, to: string, excludeTimeOff = false): Promise<number> {
+  return from > to ? 0 : calculateWorkingDays(toDate(from), toDate(to), { excludeTimeOff });
+}
+
+function sumHoursAndIncome(entries: TrackedTimeEntry[], rates: RateContext): { hours: number; income: number } {
+  return entries.reduce(
+    (sum, entry) => {
+      const { billable, hourly_rate: rate } = getEntryRate(entry, rates);
+      const hours = secondsToHours(entry.seconds);
+      sum.hours += hours;
+      if (billable) sum.income += hours * (rate || 0);
+      return sum;
+    },
+    { hours: 0, income: 0 }
+  );
+}
+
+export class ForecastService {
+  private timeEntries = new TimeEntryService();
+
+  /**
+   * Hours and income a month will end with if the recent daily pace holds on its
+   * remaining working days. Today counts as worked, so the forecast adds from tomorrow;
+   * days off planned in the time-off calendar are left out.
+   */
+  async getMonthForecast(month: string, now: Date = new Date()): Promise<IncomeForecast> {
+    const { startFormatted: monthStart, endFormatted: monthEnd } = getMonthRange(month);
+    const today = format(now, 'yyyy-MM-dd');
+    const asOf = today < monthStart ? format(subDays(toDate(monthStart), 1), 'yyyy-MM-dd') : today > monthEnd ? monthEnd : today;
+    const rates = getRateContext();
+
+    const toDateTotals = asOf < monthStart
+      ? { hours: 0, income: 0 }
+      : sumHoursAndIncome(await this.timeEntries.getEntries(monthStart, asOf), rates);
+
+    const workingDays = await countWorkingDays(monthStart, monthEnd);
+    const workingDaysElapsed = await countWorkingDays(monthStart, asOf);
+    const tomorrow = format(addDays(toDate(asOf), 1), 'yyyy-MM-dd');
+    const workingDaysRemaining = await countWorkingDays(tomorrow, monthEnd, true);
+    const daysOff = (await countWorkingDays(tomorrow, monthEnd)) - workingDaysRemaining;
+
+    // Complete days only: today's hours are usually still being logged
+    const paceTo = format(subDays(now, 1), 'yyyy-MM-dd');
+    const paceFrom = format(subDays(now, PACE_WINDOW_DAYS), 'yyyy-MM-dd');
+    const pace = sumHoursAndIncome(await this.timeEntries.getEntries(paceFrom, paceTo), rates);
+    // Days off would drag the pace down; only the days actually available count
+    const paceWorkingDays = await countWorkingDays(paceFrom, paceTo, true);
+    const dailyPaceHours = paceWorkingDays > 0 ? pace.hours / paceWorkingDays : 0;
+    const hourlyIncome = pace.hours > 0
+      ? pace.income / pace.hours
+      : toDateTotals.hours > 0 ? toDateTotals.income / toDateTotals.hours : 0;
+
+    const forecastHours = toDateTotals.hours + dailyPaceHours * workingDaysRemaining;
+    const forecastIncome = toDateTotals.income + dailyPaceHours * workingDaysRemaining * hourlyIncome;
+    const monthlyGoal = this.getMonthlyGoal(await countWorkingDays(monthStart, monthEnd, true));
+    const missingHours = Math.max(monthlyGoal - toDateTotals.hours, 0);
+
+    return {
+      month,
+      as_of: asOf,
+      hours_to_date: roundToTwoDecimals(toDateTotals.hours),
+      income_to_date: roundToTwoDecimals(toDateTotals.income),
+      working_days: workingDays,
+      working_days_elapsed: workingDaysElapsed,
+      working_days_remaining: workingDaysRemaining,
+      planned_days_off: daysOff,
+      daily_pace_hours: roundToTwoDecimals(dailyPaceHours),
+      hourly_income: roundToTwoDecimals(hourlyIncome),
+      forecast_hours: roundToTwoDecimals(forecastHours),
+      forecast_income: roundToTwoDecimals(forecastIncome),
+      monthly_goal: monthlyGoal,
+      goal_shortfall_hours: roundToTwoDecimals(Math.max(monthlyGoal - forecastHours, 0)),
+      required_daily_hours: workingDaysRemaining > 0 ? roundToTwoDecimals(missingHours / workingDaysRemaining) : null,
+    };
+  }
+
+  // Same goal as the dashboard: working days of the month less time off, times the daily target
+  private getMonthlyGoal(workingDays: number): number {
+    const dailyHoursTarget = parseFloat(settingsDb.get('daily_hours_target') || '8');
+    return Math.round(workingDays * dailyHoursTarget * 100) / 100;
+  }
+}
@@ -0,0 +1,90 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { settingsDb } from '@/lib/db';
+import { ClientService } from './client.service';
+import { InvoiceService } from './invoice.service';
+
+const service = new InvoiceService();
+let clientId: number;
+
+// 150 PLN net per hour at 23%
+const hours = (quantity: string) => [
+  { name: 'Development', quantity, unit: 'h', unit_price_grosze: 15000, vat_rate: 23 as const },
+];
+
+async function issuedInvoice(quantity: string) {
+  const invoice = await service.createInvoice({
+    issue_date: '2026-10-01',
+    sale_date: '2026-09-30',
+    client_id: clientId,
+    payment_method: 'bank_transfer',
+    currency: 'PLN',
+    items: hours(quantity),
+  });
+  await service.issueInvoice(invoice.id);
+  return invoice;
+}
+
+beforeAll(async () => {
+  for (const [key, value] of Object.entries({
+    company_name: 'Firma Testowa',
+    company_nip: '1234567890',
+    company_address: 'ul. Długa 1',
+    company_postal_code: '30-001',
+    company_city: 'Kraków',
+  })) {
+    settingsDb.set(key, value);
+  }
+  clientId = (await new ClientService().createClient({ name: 'Klient', nip: '5260250274' })).id;
+});
+
+describe('InvoiceService.createCorrection', () => {
+  it('carries the difference to the invoice as it stands after earlier corrections', async () => {
+    const invoice = await issuedInvoice('10');
+    const first = await service.createCorrection(invoice.id, { issue_date: '2026-10-05', reason: 'Fewer hours', items: hours('8') });
+    await service.issueInvoice(first.id);
+
+    const second = await service.createCorrection(invoice.id, { issue_date: '2026-10-06', reason: 'Fewer hours', items: hours('6') });
+
+    expect(first.subtotal_grosze).toBe(-30000);
+    expect(second.subtotal_grosze).toBe(-30000);
+    expect(second.total_grosze).toBe(-36900);
+    const items = (await service.getInvoice(second.id))!.items;
+    expect(items.filter((i) => i.state_before).map((i) => i.quantity)).toEqual(['8']);
+    expect(items.filter((i) => !i.state_before).map((i) => i.quantity)).toEqual(['6']);
+  });
+
+  it('points a correction of a correction at the first invoice', async () => {
+    const invoice = await issuedInvoice('10');
+    const first = await service.createCorrection(invoice.id, { issue_date: '2026-10-05', reason: 'Fewer hours', items: hours('8') });
+    await service.issueInvoice(first.id);
+
+    const second = await service.createCorrection(first.id, { issue_date: '2026-10-06', reason: 'Fewer hours', items: hours('7') });
+
+    expect(second.corrected_invoice_id).toBe(invoice.id);
+    expect(second.subtotal_grosze).toBe(-15000);
+  });
+
+  it('allows one draft correction per invoice', async () => {
+    const invoice = await issuedInvoice('10');
+    const draft = await service.createCorrection(invoice.id, { issue_date: '2026-10-05', reason: 'Fewer hours', items: hours('8') });
+
+    await expect(
+      service.createCorrection(invoice.id, { issue_date: '2026-10-06', reason: 'Fewer hours', items: hours('6') })
+    ).rejects.toThrow(`Correction ${draft.invoice_number} of ${invoice.invoice_number} is still a draft`);
+  });
+
+  it('only corrects issued invoices', async () => {
+    const draft = await service.createInvoice({
+      issue_date: '2026-10-01',
+      sale_date: '2026-10-01',
+      client_id: clientId,
+      payment_method: 'bank_transfer',
+      currency: 'PLN',
+      items: hours('1'),
+    });
+
+    await expect(
+      service.createCorrection(draft.id, { issue_date: '2026-10-05', reason: 'Fewer hours', items: hours('0.5') })
+    ).rejects.toThrow('Only issued invoices can be corrected');
+  });
+});
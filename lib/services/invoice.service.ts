@@ -1,41 +1,76 @@
-import db, { invoicesDb, settingsDb } from '@/lib/db';
-import type { Client, CreateInvoiceInput, Invoice, InvoiceItem, InvoiceStatus, PaymentMethod, VatRate } from '@/types';
-import { calculateInvoiceTotals, calculateLineAmounts, normalizeQuantity } from '@/lib/utils/invoice-calculations';
-import { formatInvoiceNumber, parseYearMonth } from '@/lib/utils/invoice-numbering';
+import db, { invoicesDb, invoiceTimeEntriesDb, paymentsDb, settingsDb } from '@/lib/db';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type {
+  Client,
+  ConvertProformaInput,
+  CreateCorrectionInput,
+  CreateInvoiceInput,
+  CreateInvoiceItemInput,
+  Invoice,
+  InvoiceBalance,
+  InvoiceItem,
+  InvoiceStatus,
+  InvoiceType,
+  InvoiceWithItems,
+  PaymentFilter,
+  PaymentMethod,
+  VatRate,
+} from '@/types';
+import {
+  calculateCorrectionTotals,
+  calculateInvoiceTotals,
+  calculateLineAmounts,
+  normalizeExchangeRate,
+  normalizeQuantity,
+} from '@/lib/utils/invoice-calculations';
+import { generateNextInvoiceNumber } from '@/lib/utils/invoice-numbering';
+import { DAYS_OVERDUE_SQL, INVOICE_BALANCE_COLUMNS, PAYMENT_STATUS_SQL } from '@/lib/utils/invoice-balance';
 import { ensureInvoiceDirectories, getXmlPath, getPdfPath } from '@/lib/utils/invoice-files';
 import { generateFa3Xml, validateFa3Xml } from '@/lib/utils/ksef-fa3-xml';
 import { generateInvoicePdf } from '@/lib/utils/invoice-pdf-generator';
 import type { CompanySettings } from '@/types/settings';
+import { ExchangeRateService } from './exchange-rate.service';
 import fs from 'fs/promises';
 
-export interface InvoiceListItem extends Invoice {
+export interface InvoiceListItem extends Invoice, InvoiceBalance {
   client_name: string;
   client_nip: string;
+  corrected_invoice_number: string | null;
+  proforma_number: string | null; // proforma this invoice was converted from
+  converted_invoice_id: number | null; // VAT invoice a proforma was converted to
+  converted_invoice_number: string | null;
 }
 
+type ComputedItem = Omit<InvoiceItem, 'id' | 'invoice_id' | 'created_at' | 'state_before'>;
+
+type ResolvedExchangeRate = Pick<Invoice, 'exchange_rate' | 'exchange_rate_date' | 'exchange_rate_table'>;
+
 export class InvoiceService {
-  async getInvoice(id: number): Promise<{ invoice: Invoice; client: Client; items: InvoiceItem[] } | undefined> {
+  private exchangeRateService = new ExchangeRateService();
+
+  async getInvoice(id: number): Promise<InvoiceWithItems | undefined> {
     const invoice = db.prepare('SELECT * FROM invoices WHERE id = ?').get(id) as Invoice | undefined;
     if (!invoice) return undefined;
 
     const client = db.prepare('SELECT * FROM clients WHERE id = ?').get(invoice.client_id) as Client | undefined;
     if (!client) throw new Error('Client not found');
 
-    const itemsRaw = db
-      .prepare('SELECT * FROM invoice_items WHERE invoice_id = ? ORDER BY id ASC')
-      .all(invoice.id) as any[];
+    const items = this.getItems(invoice.id);
 
-    const items = itemsRaw.map((r) => ({
-      ...r,
-      vat_rate: r.vat_rate === 'ZW' || r.vat_rate === 'NP' ? r.vat_rate : Number(r.vat_rate),
-    })) as InvoiceItem[];
+    const corrected_invoice = invoice.corrected_invoice_id
+      ? (db.prepare('SELECT * FROM invoices WHERE id = ?').get(invoice.corrected_invoice_id) as Invoice | undefined) ?? null
+      : null;
+
+    const proforma = invoice.proforma_id ? invoicesDb.getById(invoice.proforma_id) ?? null : null;
 
-    return { invoice, client, items };
+    return { invoice, client, items, corrected_invoice, proforma };
   }
 
   async getAllInvoices(filters?: {
     q?: string;
     status?: InvoiceStatus;
+    type?: InvoiceType;
+    payment?: PaymentFilter;
     from?: string; // YYYY-MM-DD
     to?: string; // YYYY-MM-DD
     limit?: number;
@@ -43,6 +78,8 @@ export class InvoiceService {
   }): Promise<{ rows: InvoiceListItem[]; total: number }> {
     const q = filters?.q?.trim();
     const status = filters?.status;
+    const type = filters?.type;
+    const payment = filters?.payment;
     const from = filters?.from;
     const to = filters?.to;
     const limit = Math.min(Math.max(filters?.limit ?? 50, 1), 200);
@@ -60,6 +97,16 @@ export class InvoiceService {
       where.push('i.status = ?');
       params.push(status);
     }
+    if (type) {
+      where.push('i.invoice_type = ?');
+      params.push(type);
+    }
+    if (payment === 'overdue') {
+      where.push(`${DAYS_OVERDUE_SQL} > 0`);
+    } else if (payment) {
+      where.push(`${PAYMENT_STATUS_SQL} = ?`);
+      params.push(payment);
+    }
     if (from) {
       where.push('i.issue_date >= ?');
       params.push(from);
@@ -88,9 +135,17 @@ export class InvoiceService {
         SELECT
           i.*,
           c.name as client_name,
-          c.nip as client_nip
+          c.nip as client_nip,
+          o.invoice_number as corrected_invoice_number,
+          p.invoice_number as proforma_number,
+          v.id as converted_invoice_id,
+          v.invoice_number as converted_invoice_number,
+          ${INVOICE_BALANCE_COLUMNS}
         FROM invoices i
         INNER JOIN clients c ON c.id = i.client_id
+        LEFT JOIN invoices o ON o.id = i.corrected_invoice_id
+        LEFT JOIN invoices p ON p.id = i.proforma_id
+        LEFT JOIN invoices v ON v.id = (SELECT MIN(id) FROM invoices WHERE proforma_id = i.id)
         ${whereSql}
         ORDER BY i.issue_date DESC, i.id DESC
         LIMIT ? OFFSET ?
@@ -102,66 +157,25 @@ export class InvoiceService {
   }
 
   async createInvoice(input: CreateInvoiceInput): Promise<Invoice> {
+    const rate = await this.resolveExchangeRate(input.currency, input.sale_date, input.exchange_rate);
+
     const tx = db.transaction((data: CreateInvoiceInput) => {
       const status: InvoiceStatus = data.status ?? 'draft';
+      const type = data.invoice_type ?? 'VAT';
+      const invoiceNumber = generateNextInvoiceNumber(data.issue_date, data.invoice_number, type);
 
-      // Manual override (must be unique)
-      let invoiceNumber = data.invoice_number?.trim();
-      if (invoiceNumber) {
-        const exists = db.prepare('SELECT 1 FROM invoices WHERE invoice_number = ?').get(invoiceNumber);
-        if (exists) throw new Error('Invoice number already exists');
-      } else {
-        const { year, month } = parseYearMonth(data.issue_date);
-        const seq = db.prepare('SELECT * FROM invoice_sequences WHERE year = ? AND month = ?').get(year, month) as
-          | { last_number: number }
-          | undefined;
-        const next = (seq?.last_number ?? 0) + 1;
-        db.prepare(
-          `
-          INSERT INTO invoice_sequences (year, month, last_number, created_at, updated_at)
-          VALUES (?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-          ON CONFLICT(year, month) DO UPDATE SET
-            last_number = excluded.last_number,
-            updated_at = CURRENT_TIMESTAMP
-        `
-        ).run(year, month, next);
-        invoiceNumber = formatInvoiceNumber(year, month, next);
-      }
-
-      const computedItems = data.items.map((it) => {
-        const quantity = normalizeQuantity(it.quantity);
-        const amounts = calculateLineAmounts({
-          quantity,
-          unit_price_grosze: it.unit_price_grosze,
-          vat_rate: it.vat_rate as VatRate,
-        });
-        return {
-          name: it.name.trim(),
-          quantity,
-          unit: it.unit.trim(),
-          unit_price_grosze: it.unit_price_grosze,
-          vat_rate: it.vat_rate,
-          ...amounts,
-        };
-      });
-
-      const totals = calculateInvoiceTotals(
-        computedItems.map((i) => ({
-          net_grosze: i.net_grosze,
-          vat_grosze: i.vat_grosze,
-          gross_grosze: i.gross_grosze,
-        }))
-      );
+      const computedItems = this.computeItems(data.items);
+      const totals = calculateInvoiceTotals(computedItems);
 
       const insertInvoice = db.prepare(`
         INSERT INTO invoices (
-          invoice_number, issue_date, sale_date, client_id, status, payment_method,
-          payment_deadline, currency, exchange_rate, notes,
+          invoice_number, issue_date, sale_date, client_id, status, invoice_type, proforma_id, payment_method,
+          payment_deadline, currency, exchange_rate, exchange_rate_date, exchange_rate_table, notes,
           subtotal_grosze, tax_grosze, total_grosze,
           xml_path, pdf_path,
           created_at, updated_at
         )
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, NULL, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, NULL, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
       `);
 
       const invResult = insertInvoice.run(
@@ -170,10 +184,14 @@ export class InvoiceService {
         data.sale_date,
         data.client_id,
         status,
+        type,
+        data.proforma_id ?? null,
         data.payment_method as PaymentMethod,
         data.payment_deadline ?? null,
         data.currency,
-        data.exchange_rate ?? null,
+        rate.exchange_rate,
+        rate.exchange_rate_date,
+        rate.exchange_rate_table,
         data.notes ?? null,
         totals.subtotal_grosze,
         totals.tax_grosze,
@@ -181,29 +199,24 @@ export class InvoiceService {
       );
 
       const invoiceId = invResult.lastInsertRowid as number;
+      this.insertItems(invoiceId, computedItems, 0);
+
+      if (data.proforma_id) {
+        // Checked inside the transaction so two quick conversions cannot both succeed
+        const converted = invoicesDb.getConvertedFromProforma(data.proforma_id);
+        if (converted && converted.id !== invoiceId) {
+          throw new Error(`Proforma was already converted to ${converted.invoice_number}`);
+        }
+        // Time billed on the proforma is billed by the invoice that replaces it
+        invoiceTimeEntriesDb.relink(data.proforma_id, invoiceId);
+      }
 
-      const insertItem = db.prepare(`
-        INSERT INTO invoice_items (
-          invoice_id, name, quantity, unit,
-          unit_price_grosze, vat_rate,
-          net_grosze, vat_grosze, gross_grosze,
-          created_at
-        )
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-      `);
-
-      for (const item of computedItems) {
-        insertItem.run(
-          invoiceId,
-          item.name,
-          item.quantity,
-          item.unit,
-          item.unit_price_grosze,
-          String(item.vat_rate),
-          item.net_grosze,
-          item.vat_grosze,
-          item.gross_grosze
-        );
+      const timeEntryIds = data.time_entry_ids ?? [];
+      if (timeEntryIds.length > 0) {
+        if (invoiceTimeEntriesDb.getInvoicedIds(timeEntryIds).size > 0) {
+          throw new Error('Some time entries have already been invoiced');
+        }
+        invoiceTimeEntriesDb.link(invoiceId, timeEntryIds);
       }
 
       const invoice = db.prepare('SELECT * FROM invoices WHERE id = ?').get(invoiceId) as Invoice;
@@ -213,7 +226,170 @@ export class InvoiceService {
     return tx(input);
   }
 
+  async createCorrection(correctedInvoiceId: number, input: CreateCorrectionInput): Promise<Invoice> {
+    const tx = db.transaction((originalId: number, data: CreateCorrectionInput) => {
+      const original = db.prepare('SELECT * FROM invoices WHERE id = ?').get(originalId) as Invoice | undefined;
+      if (!original) throw new Error('Invoice not found');
+      if (original.status !== 'issued') throw new Error('Only issued invoices can be corrected');
+      if (original.invoice_type === 'PRO') {
+        throw new Error('Proforma invoices cannot be corrected; convert them to a VAT invoice instead');
+      }
+
+      // Every correction points at the invoice that started the chain, where the balance adds them up
+      const root = this.getRootInvoice(original);
+      const draft = invoicesDb.getCorrections(root.id).find((k) => k.status === 'draft');
+      if (draft) {
+        throw new Error(`Correction ${draft.invoice_number} of ${root.invoice_number} is still a draft; issue or delete it first`);
+      }
+
+      const reason = data.reason.trim();
+      if (!reason) throw new Error('Correction reason is required');
+
+      const invoiceNumber = generateNextInvoiceNumber(data.issue_date, data.invoice_number, 'KOR');
+
+      // "Before" rows are a snapshot of the invoice as last corrected, or as issued
+      const beforeItems: ComputedItem[] = this.getItems(this.getLatestCorrection(root).id)
+        .filter((it) => !it.state_before)
+        .map(({ name, quantity, unit, unit_price_grosze, vat_rate, net_grosze, vat_grosze, gross_grosze }) => ({
+          name,
+          quantity,
+          unit,
+          unit_price_grosze,
+          vat_rate,
+          net_grosze,
+          vat_grosze,
+          gross_grosze,
+        }));
+      const afterItems = this.computeItems(data.items);
+      const totals = calculateCorrectionTotals(beforeItems, afterItems);
+
+      const invResult = db
+        .prepare(
+          `
+          INSERT INTO invoices (
+            invoice_number, issue_date, sale_date, client_id, status,
+            invoice_type, corrected_invoice_id, correction_reason, payment_method,
+            payment_deadline, currency, exchange_rate, exchange_rate_date, exchange_rate_table, notes,
+            subtotal_grosze, tax_grosze, total_grosze,
+            xml_path, pdf_path,
+            created_at, updated_at
+          )
+          VALUES (?, ?, ?, ?, 'draft', 'KOR', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, NULL, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+        `
+        )
+        .run(
+          invoiceNumber,
+          data.issue_date,
+          data.sale_date ?? original.sale_date,
+          original.client_id,
+          root.id,
+          reason,
+          original.payment_method,
+          data.payment_deadline ?? null,
+          // Corrections convert at the corrected invoice's rate
+          original.currency,
+          original.exchange_rate ?? null,
+          original.exchange_rate_date ?? null,
+          original.exchange_rate_table ?? null,
+          data.notes ?? null,
+          totals.subtotal_grosze,
+          totals.tax_grosze,
+          totals.total_grosze
+        );
+
+      const invoiceId = invResult.lastInsertRowid as number;
+      this.insertItems(invoiceId, beforeItems, 1);
+      this.insertItems(invoiceId, afterItems, 0);
+
+      return db.prepare('SELECT * FROM invoices WHERE id = ?').get(invoiceId) as Invoice;
+    });
+
+    return tx(correctedInvoiceId, input);
+  }
+
+  // The invoice a correction chain started from, also when a correction is given
+  private getRootInvoice(invoice: Invoice): Invoice {
+    let root = invoice;
+    while (root.invoice_type === 'KOR' && root.corrected_invoice_id) {
+      const corrected = invoicesDb.getById(root.corrected_invoice_id);
+      if (!corrected) break;
+      root = corrected;
+    }
+    return root;
+  }
+
+  // The latest issued invoice of a correction chain, which holds the invoice's current state
+  private getLatestCorrection(root: Invoice): Invoice {
+    return invoicesDb
+      .getCorrections(root.id)
+      .filter((k) => k.status === 'issued')
+      .reduce((latest, k) => {
+        const isLater = k.issue_date > latest.issue_date || (k.issue_date === latest.issue_date && k.id > latest.id);
+        return isLater ? k : latest;
+      }, root);
+  }
+
+  /**
+   * Creates a VAT draft with the proforma's client and items, dated today unless
+   * given, with the same payment term. The draft keeps a link to the proforma.
+   */
+  async convertProforma(proformaId: number, input: ConvertProformaInput = {}): Promise<Invoice> {
+    const data = await this.getInvoice(proformaId);
+    if (!data) throw new Error('Invoice not found');
+
+    const { invoice: proforma, items } = data;
+    if (proforma.invoice_type !== 'PRO') throw new Error('Only proforma invoices can be converted');
+    if (proforma.status === 'cancelled') throw new Error('Cancelled proforma invoices cannot be converted');
+
+    const issueDate = input.issue_date ?? format(new Date(), 'yyyy-MM-dd');
+    const paymentDays = proforma.payment_deadline
+      ? Math.max(differenceInCalendarDays(parseISO(proforma.payment_deadline), parseISO(proforma.issue_date)), 0)
+      : null;
+
+    return this.createInvoice({
+      invoice_type: 'VAT',
+      proforma_id: proformaId,
+      issue_date: issueDate,
+      sale_date: input.sale_date ?? issueDate,
+      client_id: proforma.client_id,
+      status: 'draft',
+      payment_method: proforma.payment_method,
+      payment_deadline:
+        input.payment_deadline ??
+        (paymentDays === null ? undefined : format(addDays(parseISO(issueDate), paymentDays), 'yyyy-MM-dd')),
+      currency: proforma.currency,
+      notes: proforma.notes ?? undefined,
+      items: items
+        .filter((it) => !it.state_before)
+        .map(({ name, quantity, unit, unit_price_grosze, vat_rate }) => ({
+          name,
+          quantity,
+          unit,
+          unit_price_grosze,
+          vat_rate,
+        })),
+    });
+  }
+
   async updateInvoice(id: number, input: Omit<CreateInvoiceInput, 'client_id'> & { client_id?: number }): Promise<Invoice> {
+    const current = invoicesDb.getById(id);
+    if (!current) throw new Error('Invoice not found');
+    if (current.status === 'issued') {
+      throw new Error('Issued invoices cannot be modified; issue a correction instead');
+    }
+
+    const currency = input.currency ?? current.currency;
+    const saleDate = input.sale_date ?? current.sale_date;
+    // Keep the stored rate unless something it depends on changed
+    const rate: ResolvedExchangeRate =
+      !input.exchange_rate && currency === current.currency && saleDate === current.sale_date && current.exchange_rate
+        ? {
+            exchange_rate: current.exchange_rate,
+            exchange_rate_date: current.exchange_rate_date ?? null,
+            exchange_rate_table: current.exchange_rate_table ?? null,
+          }
+        : await this.resolveExchangeRate(currency, saleDate, input.exchange_rate);
+
     const tx = db.transaction((invoiceId: number, data: any) => {
       const existing = db.prepare('SELECT * FROM invoices WHERE id = ?').get(invoiceId) as Invoice | undefined;
       if (!existing) throw new Error('Invoice not found');
@@ -224,56 +400,16 @@ export class InvoiceService {
         if (dup) throw new Error('Invoice number already exists');
       }
 
-      const computedItems = data.items.map((it: any) => {
-        const quantity = normalizeQuantity(it.quantity);
-        const amounts = calculateLineAmounts({
-          quantity,
-          unit_price_grosze: it.unit_price_grosze,
-          vat_rate: it.vat_rate as VatRate,
-        });
-        return {
-          name: it.name.trim(),
-          quantity,
-          unit: it.unit.trim(),
-          unit_price_grosze: it.unit_price_grosze,
-          vat_rate: it.vat_rate,
-          ...amounts,
-        };
-      });
-
-      const totals = calculateInvoiceTotals(
-        computedItems.map((i: any) => ({
-          net_grosze: i.net_grosze,
-          vat_grosze: i.vat_grosze,
-          gross_grosze: i.gross_grosze,
-        }))
-      );
-
-      db.prepare('DELETE FROM invoice_items WHERE invoice_id = ?').run(invoiceId);
-
-      const insertItem = db.prepare(`
-        INSERT INTO invoice_items (
-          invoice_id, name, quantity, unit,
-          unit_price_grosze, vat_rate,
-          net_grosze, vat_grosze, gross_grosze,
-          created_at
-        )
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-      `);
+      const computedItems = this.computeItems(data.items);
+      const beforeItems = this.getItems(invoiceId).filter((it) => it.state_before);
+      const totals =
+        existing.invoice_type === 'KOR'
+          ? calculateCorrectionTotals(beforeItems, computedItems)
+          : calculateInvoiceTotals(computedItems);
 
-      for (const item of computedItems) {
-        insertItem.run(
-          invoiceId,
-          item.name,
-          item.quantity,
-          item.unit,
-          item.unit_price_grosze,
-          String(item.vat_rate),
-          item.net_grosze,
-          item.vat_grosze,
-          item.gross_grosze
-        );
-      }
+      // Only the current state is editable; "before" rows of a correction stay as snapshotted
+      db.prepare('DELETE FROM invoice_items WHERE invoice_id = ? AND state_before = 0').run(invoiceId);
+      this.insertItems(invoiceId, computedItems, 0);
 
       db.prepare(
         `
@@ -288,6 +424,8 @@ export class InvoiceService {
           payment_deadline = ?,
           currency = ?,
           exchange_rate = ?,
+          exchange_rate_date = ?,
+          exchange_rate_table = ?,
           notes = ?,
           subtotal_grosze = ?,
           tax_grosze = ?,
@@ -303,8 +441,10 @@ export class InvoiceService {
         (data.status ?? existing.status) as InvoiceStatus,
         (data.payment_method ?? existing.payment_method) as PaymentMethod,
         data.payment_deadline ?? existing.payment_deadline ?? null,
-        data.currency ?? existing.currency,
-        data.exchange_rate ?? existing.exchange_rate ?? null,
+        currency,
+        rate.exchange_rate,
+        rate.exchange_rate_date,
+        rate.exchange_rate_table,
         data.notes ?? existing.notes ?? null,
         totals.subtotal_grosze,
         totals.tax_grosze,
@@ -319,6 +459,17 @@ export class InvoiceService {
   }
 
   async deleteInvoice(id: number): Promise<void> {
+    if (invoicesDb.getCorrections(id).length > 0) {
+      throw new Error('Invoice has corrections and cannot be deleted');
+    }
+    if (paymentsDb.getByInvoiceId(id).length > 0) {
+      throw new Error('Invoice has recorded payments and cannot be deleted');
+    }
+    const ksefStatus = invoicesDb.getById(id)?.ksef_status;
+    if (ksefStatus === 'accepted' || ksefStatus === 'processing') {
+      throw new Error('Invoice has been sent to KSeF and cannot be deleted');
+    }
+
     const deleted = db.prepare('DELETE FROM invoices WHERE id = ?').run(id);
     if (deleted.changes === 0) {
       throw new Error('Invoice not found');
@@ -328,6 +479,7 @@ export class InvoiceService {
   async generateAndPersistXml(invoiceId: number): Promise<string> {
     const data = await this.getInvoice(invoiceId);
     if (!data) throw new Error('Invoice not found');
+    if (data.invoice.invoice_type === 'PRO') throw new Error('Proforma invoices have no FA(3) XML');
 
     await ensureInvoiceDirectories();
 
@@ -349,6 +501,7 @@ export class InvoiceService {
       client: data.client,
       items: data.items,
       company,
+      correctedInvoice: data.corrected_invoice,
     });
 
     const xmlPath = getXmlPath(data.invoice.invoice_number);
@@ -385,6 +538,8 @@ export class InvoiceService {
       client: data.client,
       items: data.items,
       company,
+      correctedInvoice: data.corrected_invoice,
+      proforma: data.proforma,
     });
 
     const pdfPath = getPdfPath(data.invoice.invoice_number);
@@ -395,16 +550,19 @@ export class InvoiceService {
     return pdfPath;
   }
 
-  async issueInvoice(invoiceId: number): Promise<{ invoice: Invoice; xmlPath: string; pdfPath: string }> {
+  async issueInvoice(invoiceId: number): Promise<{ invoice: Invoice; xmlPath: string | null; pdfPath: string }> {
     const data = await this.getInvoice(invoiceId);
     if (!data) throw new Error('Invoice not found');
 
+    // Proformas are not tax documents: PDF only
+    const needsXml = data.invoice.invoice_type !== 'PRO';
+
     // Guard: if already issued, just ensure paths exist
     if (data.invoice.status === 'issued') {
-      let xmlPath = data.invoice.xml_path;
+      let xmlPath = data.invoice.xml_path ?? null;
       let pdfPath = data.invoice.pdf_path;
 
-      if (!xmlPath) {
+      if (!xmlPath && needsXml) {
         xmlPath = await this.generateAndPersistXml(invoiceId);
       }
       if (!pdfPath) {
@@ -418,7 +576,7 @@ export class InvoiceService {
     invoicesDb.update(invoiceId, { status: 'issued' as InvoiceStatus });
 
     // Generate XML and PDF
-    const xmlPath = await this.generateAndPersistXml(invoiceId);
+    const xmlPath = needsXml ? await this.generateAndPersistXml(invoiceId) : null;
     const pdfPath = await this.generateAndPersistPdf(invoiceId);
 
     // Fetch updated invoice
@@ -427,6 +585,82 @@ export class InvoiceService {
 
     return { invoice: updated.invoice, xmlPath, pdfPath };
   }
-}
 
+  // PLN invoices carry no rate; a manual rate wins over the NBP lookup
+  private async resolveExchangeRate(
+    currency: string,
+    saleDate: string,
+    manualRate?: string | null
+  ): Promise<ResolvedExchangeRate> {
+    if (currency.toUpperCase() === 'PLN') {
+      return { exchange_rate: null, exchange_rate_date: null, exchange_rate_table: null };
+    }
+    if (manualRate) {
+      return { exchange_rate: normalizeExchangeRate(manualRate), exchange_rate_date: null, exchange_rate_table: null };
+    }
+
+    const rate = await this.exchangeRateService.getRateForSaleDate(currency, saleDate);
+    return {
+      exchange_rate: rate.rate,
+      exchange_rate_date: rate.effective_date,
+      exchange_rate_table: rate.table_no ?? null,
+    };
+  }
+
+  private getItems(invoiceId: number): InvoiceItem[] {
+    const itemsRaw = db
+      .prepare('SELECT * FROM invoice_items WHERE invoice_id = ? ORDER BY state_before DESC, id ASC')
+      .all(invoiceId) as any[];
+
+    return itemsRaw.map((r) => ({
+      ...r,
+      vat_rate: r.vat_rate === 'ZW' || r.vat_rate === 'NP' ? r.vat_rate : Number(r.vat_rate),
+    })) as InvoiceItem[];
+  }
+
+  private computeItems(items: CreateInvoiceItemInput[]): ComputedItem[] {
+    return items.map((it) => {
+      const quantity = normalizeQuantity(it.quantity);
+      const amounts = calculateLineAmounts({
+        quantity,
+        unit_price_grosze: it.unit_price_grosze,
+        vat_rate: it.vat_rate as VatRate,
+      });
+      return {
+        name: it.name.trim(),
+        quantity,
+        unit: it.unit.trim(),
+        unit_price_grosze: it.unit_price_grosze,
+        vat_rate: it.vat_rate,
+        ...amounts,
+      };
+    });
+  }
 
+  private insertItems(invoiceId: number, items: ComputedItem[], stateBefore: 0 | 1): void {
+    const insertItem = db.prepare(`
+      INSERT INTO invoice_items (
+        invoice_id, name, quantity, unit,
+        unit_price_grosze, vat_rate,
+        net_grosze, vat_grosze, gross_grosze, state_before,
+        created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+    for (const item of items) {
+      insertItem.run(
+        invoiceId,
+        item.name,
+        item.quantity,
+        item.unit,
+        item.unit_price_grosze,
+        String(item.vat_rate),
+        item.net_grosze,
+        item.vat_grosze,
+        item.gross_grosze,
+        stateBefore
+      );
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { settingsDb } from '@/lib/db';
+import { ClientService } from './client.service';
+import { ExpenseService } from './expense.service';
+import { InvoiceService } from './invoice.service';
+import { JpkService } from './jpk.service';
+
+const invoiceService = new InvoiceService();
+let xml: string;
+
+const text = (name: string, within = xml) => new RegExp(`<${name}>([^<]*)</${name}>`).exec(within)?.[1];
+const rows = (name: string) => xml.match(new RegExp(`<${name}>[\\s\\S]*?</${name}>`, 'g')) ?? [];
+
+async function issuedInvoice(clientId: number, input: { currency?: string; exchange_rate?: string; price: number; vat_rate: 23 | 'NP' }) {
+  const invoice = await invoiceService.createInvoice({
+    issue_date: '2026-10-01',
+    sale_date: '2026-10-01',
+    client_id: clientId,
+    payment_method: 'bank_transfer',
+    currency: input.currency ?? 'PLN',
+    exchange_rate: input.exchange_rate,
+    items: [{ name: 'Development', quantity: '10', unit: 'h', unit_price_grosze: input.price, vat_rate: input.vat_rate }],
+  });
+  await invoiceService.issueInvoice(invoice.id);
+  return invoice;
+}
+
+beforeAll(async () => {
+  for (const [key, value] of Object.entries({
+    company_name: 'Firma Testowa',
+    company_nip: '1234567890',
+    company_address: 'ul. Długa 1',
+    company_postal_code: '30-001',
+    company_city: 'Kraków',
+    company_email: 'biuro@example.com',
+    tax_office_code: '1206',
+  })) {
+    settingsDb.set(key, value);
+  }
+
+  const clients = new ClientService();
+  const domestic = await clients.createClient({ name: 'Klient', nip: '5260250274' });
+  const german = await clients.createClient({ name: 'Kunde GmbH', nip: 'DE123456789', country_code: 'DE' });
+  const american = await clients.createClient({ name: 'Client Inc', nip: '98-7654321', country_code: 'US' });
+
+  // 1500.00 net at 23%, then corrected to 8 hours in the same month
+  const invoice = await issuedInvoice(domestic.id, { price: 15000, vat_rate: 23 });
+  const correction = await invoiceService.createCorrection(invoice.id, {
+    issue_date: '2026-10-20',
+    reason: 'Fewer hours',
+    items: [{ name: 'Development', quantity: '8', unit: 'h', unit_price_grosze: 15000, vat_rate: 23 }],
+  });
+  await invoiceService.issueInvoice(correction.id);
+  // 1000 EUR at 4.25 and 1000.00 PLN, both outside Poland
+  await issuedInvoice(german.id, { currency: 'EUR', exchange_rate: '4.2500', price: 10000, vat_rate: 'NP' });
+  await issuedInvoice(american.id, { price: 10000, vat_rate: 'NP' });
+
+  const expenses = new ExpenseService();
+  await expenses.createExpense({
+    date: '2026-10-04',
+    category: 'hardware',
+    description: 'Laptop',
+    supplier_name: 'Sklep',
+    supplier_nip: '7010014133',
+    document_number: 'FV/123',
+    net_grosze: 100000,
+    vat_rate: 23,
+    vat_deductible_percent: 50,
+  });
+  // A fuel receipt has no supplier NIP and cannot be deducted
+  await expenses.createExpense({
+    date: '2026-10-05',
+    category: 'travel',
+    description: 'Paliwo',
+    net_grosze: 20000,
+    vat_rate: 23,
+    vat_deductible_percent: 50,
+  });
+
+  const xmlPath = await new JpkService().generateV7m('2026-10', { purpose: 1, carryOver: 10 });
+  xml = fs.readFileSync(xmlPath, 'utf8');
+}, 30_000);
+
+describe('JpkService.generateV7m', () => {
+  it('adds up the declaration from the registers in whole złoty', () => {
+    const declaration = xml.match(/<PozycjeSzczegolowe>[\s\S]*<\/PozycjeSzczegolowe>/)![0];
+    const fields = ['P_11', 'P_12', 'P_19', 'P_20', 'P_37', 'P_38', 'P_39', 'P_42', 'P_43', 'P_48', 'P_51'];
+    const amounts = Object.fromEntries(fields.map((field) => [field, text(field, declaration)]));
+
+    expect(amounts).toEqual({
+      P_11: '5250',
+      P_12: '4250',
+      P_19: '1200',
+      P_20: '276',
+      P_37: '6450',
+      P_38: '276',
+      P_39: '10',
+      P_42: '1000',
+      P_43: '115',
+      P_48: '125',
+      P_51: '151',
+    });
+  });
+
+  it('lists corrections by their difference and foreign buyers with their country', () => {
+    const sales = rows('SprzedazWiersz');
+
+    expect(sales).toHaveLength(4);
+    const buyers = sales.map((row) => [
+      text('KodKrajuNadaniaTIN', row) ?? null,
+      text('NrKontrahenta', row),
+      text('K_11', row) ?? null,
+      text('K_12', row) ?? null,
+    ]);
+    expect(buyers).toEqual([
+      [null, '5260250274', null, null],
+      ['DE', '123456789', '4250.00', '4250.00'],
+      ['US', '987654321', '1000.00', null],
+      [null, '5260250274', null, null],
+    ]);
+    expect([text('K_19', sales[3]), text('K_20', sales[3])]).toEqual(['-300.00', '-69.00']);
+    expect(text('PodatekNalezny')).toBe('276.00');
+  });
+
+  it('reports only invoiced purchases, at their full net value', () => {
+    const purchases = rows('ZakupWiersz');
+
+    expect(purchases).toHaveLength(1);
+    expect([text('DowodZakupu', purchases[0]), text('K_42', purchases[0]), text('K_43', purchases[0])]).toEqual([
+      'FV/123',
+      '1000.00',
+      '115.00',
+    ]);
+    expect(text('PodatekNaliczony')).toBe('115.00');
+  });
+});
@@ -0,0 +1,129 @@
+import fs from 'fs/promises';
+import type { Expense, Invoice, InvoiceItem, JpkPurchaseRow, JpkPurpose, JpkSaleField, JpkSaleRow } from '@/types';
+import { DOMESTIC_COUNTRY_CODE, isForeignEuCountry } from '../utils/countries';
+import { getMonthRange } from '../utils/date';
+import { deductibleVatGrosze } from '../utils/expenses';
+import { convertToPlnGrosze } from '../utils/invoice-calculations';
+import { ensureInvoiceDirectories, getJpkV7mPath } from '../utils/invoice-files';
+import { generateJpkV7mXml, validateJpkV7mXml } from '../utils/jpk-v7m-xml';
+import { clientsDb, expensesDb, invoiceItemsDb, invoicesDb, settingsDb } from '../db';
+
+// Register columns (net, VAT) for each invoice VAT rate
+const SALE_FIELDS_BY_RATE: Record<string, [JpkSaleField, JpkSaleField | null]> = {
+  '23': ['K_19', 'K_20'],
+  '8': ['K_17', 'K_18'],
+  '5': ['K_15', 'K_16'],
+  '0': ['K_13', null],
+  ZW: ['K_10', null],
+  NP: ['K_11', null],
+};
+
+/**
+ * Sales register row of an invoice in PLN. Corrections carry the difference: rows as they
+ * were on the corrected invoice (state_before) are subtracted. Sales outside Poland to an EU
+ * business are services of art. 100 ust. 1 pkt 4 and are also listed in K_12.
+ */
+function toSaleRow(invoice: Invoice, items: InvoiceItem[]): JpkSaleRow {
+  const client = clientsDb.getById(invoice.client_id);
+  if (!client) throw new Error(`Client of invoice ${invoice.invoice_number} not found`);
+
+  const foreign = client.country_code !== DOMESTIC_COUNTRY_CODE;
+  const euServices = isForeignEuCountry(client.country_code) && Boolean(client.nip);
+
+  const amounts: JpkSaleRow['amounts'] = {};
+  const add = (field: JpkSaleField, grosze: number) => {
+    amounts[field] = (amounts[field] ?? 0) + grosze;
+  };
+
+  for (const item of items) {
+    const [netField, vatField] = SALE_FIELDS_BY_RATE[String(item.vat_rate)];
+    const sign = item.state_before ? -1 : 1;
+    add(netField, sign * item.net_grosze);
+    if (vatField) add(vatField, sign * item.vat_grosze);
+    if (netField === 'K_11' && euServices) add('K_12', sign * item.net_grosze);
+  }
+
+  if (invoice.currency !== 'PLN') {
+    if (!invoice.exchange_rate) throw new Error(`Invoice ${invoice.invoice_number} has no exchange rate`);
+    for (const field of Object.keys(amounts) as JpkSaleField[]) {
+      amounts[field] = convertToPlnGrosze(amounts[field]!, invoice.exchange_rate);
+    }
+  }
+
+  return {
+    counterparty_country_code: foreign ? client.country_code : null,
+    counterparty_nip: client.nip || 'brak',
+    counterparty_name: client.name,
+    document_number: invoice.invoice_number,
+    issue_date: invoice.issue_date,
+    sale_date: invoice.sale_date,
+    amounts,
+  };
+}
+
+/**
+ * Purchase register row: the full net value of the document (K_42) and the deductible part
+ * of its VAT (K_43).
+ */
+function toPurchaseRow(expense: Expense): JpkPurchaseRow {
+  return {
+    supplier_nip: expense.supplier_nip!,
+    supplier_name: expense.supplier_name?.trim() || 'brak',
+    document_number: expense.document_number!,
+    purchase_date: expense.date,
+    net_grosze: expense.net_grosze,
+    vat_grosze: deductibleVatGrosze(expense),
+  };
+}
+
+// Input VAT can only be deducted from an invoice; receipts without the supplier's NIP stay out of the register
+function isInvoicedPurchase(expense: Expense): boolean {
+  return Boolean(expense.supplier_nip?.trim() && expense.document_number?.trim());
+}
+
+export class JpkService {
+  /**
+   * Builds and validates the JPK_V7M file for a month: sales from invoices issued in it,
+   * purchases from the month's invoiced expenses with deductible VAT. Returns the path of the written file.
+   */
+  async generateV7m(month: string, options: { purpose: JpkPurpose; carryOver: number }): Promise<string> {
+    const { startFormatted, endFormatted } = getMonthRange(month);
+    const settings = settingsDb.getAll();
+
+    const sales = invoicesDb
+      .getIssuedByDateRange(startFormatted, endFormatted)
+      .map((invoice) => toSaleRow(invoice, invoiceItemsDb.getByInvoiceId(invoice.id)));
+
+    const purchases = expensesDb
+      .getByDateRange(startFormatted, endFormatted)
+      .filter((expense) => expense.vat_grosze > 0 && expense.vat_deductible_percent > 0 && isInvoicedPurchase(expense))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id)
+      .map(toPurchaseRow);
+
+    const xml = generateJpkV7mXml({
+      month,
+      purpose: options.purpose,
+      tax_office_code: settings.tax_office_code,
+      taxpayer: {
+        nip: settings.company_nip,
+        name: settings.company_name,
+        email: settings.company_email,
+        phone: settings.company_phone,
+        first_name: settings.taxpayer_first_name,
+        last_name: settings.taxpayer_last_name,
+        birth_date: settings.taxpayer_birth_date,
+      },
+      sales,
+      purchases,
+      carry_over: options.carryOver,
+    });
+
+    await ensureInvoiceDirectories();
+    const xmlPath = getJpkV7mPath(month);
+    await fs.writeFile(xmlPath, xml, { encoding: 'utf8' });
+
+    await validateJpkV7mXml(xmlPath);
+
+    return xmlPath;
+  }
+}
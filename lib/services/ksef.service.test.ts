@@ -0,0 +1,123 @@
+import { spawn, type ChildProcess } from 'child_process';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { invoicesDb, settingsDb } from '@/lib/db';
+import { ClientService } from './client.service';
+import { InvoiceService } from './invoice.service';
+import { KsefService } from './ksef.service';
+
+const MOCK_SERVER = fileURLToPath(new URL('../../scripts/ksef-mock-server.mjs', import.meta.url));
+const COMPANY_NIP = '1234567890';
+
+let server: ChildProcess;
+const invoiceService = new InvoiceService();
+const ksefService = new KsefService();
+let clientId: number;
+
+function startMockServer(port: number): Promise<ChildProcess> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [MOCK_SERVER], {
+      env: { ...process.env, KSEF_MOCK_PORT: String(port), KSEF_MOCK_TOKEN: 'test-token' },
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    child.once('error', reject);
+    child.once('exit', (code) => reject(new Error(`KSeF mock exited with ${code}`)));
+    child.stdout!.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('listening')) resolve(child);
+    });
+  });
+}
+
+async function issuedInvoice(issueDate: string) {
+  const invoice = await invoiceService.createInvoice({
+    issue_date: issueDate,
+    sale_date: issueDate,
+    client_id: clientId,
+    payment_method: 'bank_transfer',
+    currency: 'PLN',
+    items: [{ name: 'Development', quantity: '10', unit: 'h', unit_price_grosze: 15000, vat_rate: 23 }],
+  });
+  await invoiceService.issueInvoice(invoice.id);
+  return invoice;
+}
+
+beforeAll(async () => {
+  const port = 20000 + (process.pid % 10000);
+  server = await startMockServer(port);
+  process.env.KSEF_API_URL = `http://localhost:${port}`;
+  process.env.KSEF_TOKEN = 'test-token';
+
+  for (const [key, value] of Object.entries({
+    company_name: 'Firma Testowa',
+    company_nip: COMPANY_NIP,
+    company_address: 'ul. Długa 1',
+    company_postal_code: '30-001',
+    company_city: 'Kraków',
+    company_email: 'biuro@example.com',
+  })) {
+    settingsDb.set(key, value);
+  }
+  clientId = (await new ClientService().createClient({ name: 'Klient', nip: '5260250274' })).id;
+}, 30_000);
+
+afterAll(() => {
+  server?.kill();
+});
+
+describe('KsefService', () => {
+  it('sends an issued invoice, waits for acceptance and stores the UPO', async () => {
+    const invoice = await issuedInvoice('2026-10-01');
+
+    const sent = await ksefService.submitInvoice(invoice.id);
+
+    expect(sent.ksef_status).toBe('accepted');
+    expect(sent.ksef_number).toMatch(new RegExp(`^${COMPANY_NIP}-20\\d{6}-`));
+    expect(sent.ksef_error).toBeNull();
+    const upo = fs.readFileSync(sent.ksef_upo_path!, 'utf8');
+    expect(upo).toContain(`<NumerKSeFDokumentu>${sent.ksef_number}</NumerKSeFDokumentu>`);
+    expect(upo).toContain(`<NumerFaktury>${invoice.invoice_number}</NumerFaktury>`);
+
+    await expect(ksefService.submitInvoice(invoice.id)).rejects.toThrow(`already in KSeF as ${sent.ksef_number}`);
+  }, 20_000);
+
+  it("stores KSeF's reason when it rejects an invoice", async () => {
+    const invoice = await issuedInvoice('2026-10-02');
+    await ksefService.submitInvoice(invoice.id);
+    // Sending the same invoice number again is a duplicate for KSeF
+    invoicesDb.update(invoice.id, { ksef_status: null, ksef_number: null, ksef_upo_path: null });
+
+    const resent = await ksefService.submitInvoice(invoice.id);
+
+    expect(resent.ksef_status).toBe('rejected');
+    expect(resent.ksef_error).toBe(`440 Duplikat faktury: ${invoice.invoice_number}`);
+  }, 20_000);
+
+  it('keeps a failed UPO download on the invoice until a refresh fetches it', async () => {
+    const invoice = await issuedInvoice('2026-10-03');
+    const sent = await ksefService.submitInvoice(invoice.id);
+    invoicesDb.update(invoice.id, { ksef_number: `${sent.ksef_number}-X`, ksef_upo_path: null });
+
+    const failed = await ksefService.refreshStatus(invoice.id);
+    expect(failed.ksef_upo_path).toBeNull();
+    expect(failed.ksef_error).toMatch(/^UPO not downloaded: KSeF API error: 404/);
+
+    invoicesDb.update(invoice.id, { ksef_number: sent.ksef_number });
+    const refreshed = await ksefService.refreshStatus(invoice.id);
+    expect(refreshed.ksef_upo_path).not.toBeNull();
+    expect(refreshed.ksef_error).toBeNull();
+  }, 20_000);
+
+  it('only sends issued invoices', async () => {
+    const draft = await invoiceService.createInvoice({
+      issue_date: '2026-10-04',
+      sale_date: '2026-10-04',
+      client_id: clientId,
+      payment_method: 'bank_transfer',
+      currency: 'PLN',
+      items: [{ name: 'Development', quantity: '1', unit: 'h', unit_price_grosze: 15000, vat_rate: 23 }],
+    });
+
+    await expect(ksefService.submitInvoice(draft.id)).rejects.toThrow('Only issued invoices can be sent to KSeF');
+  });
+});
@@ -0,0 +1,143 @@
+import fs from 'fs/promises';
+import { invoicesDb, settingsDb } from '@/lib/db';
+import { getKsefClient } from '@/lib/ksef';
+import type { Invoice } from '@/types';
+import { ensureInvoiceDirectories, getUpoPath } from '../utils/invoice-files';
+import { InvoiceService } from './invoice.service';
+
+// How long a submission waits for KSeF before leaving the invoice as "processing"
+const SUBMIT_STATUS_ATTEMPTS = 5;
+const STATUS_POLL_DELAY_MS = 1000;
+
+const sqliteTimestamp = () => new Date().toISOString().replace('T', ' ').slice(0, 19);
+
+export class KsefService {
+  private invoiceService = new InvoiceService();
+
+  /**
+   * Sends an issued invoice's FA(3) XML in a new online session, closes the
+   * session and waits briefly for KSeF to accept or reject it.
+   */
+  async submitInvoice(invoiceId: number): Promise<Invoice> {
+    const data = await this.invoiceService.getInvoice(invoiceId);
+    if (!data) throw new Error('Invoice not found');
+
+    const { invoice, corrected_invoice: corrected } = data;
+    if (invoice.status !== 'issued') {
+      throw new Error('Only issued invoices can be sent to KSeF');
+    }
+    if (invoice.invoice_type === 'PRO') {
+      throw new Error('Proforma invoices are not sent to KSeF');
+    }
+    if (invoice.ksef_status === 'accepted') {
+      throw new Error(`Invoice is already in KSeF as ${invoice.ksef_number}`);
+    }
+    if (invoice.ksef_status === 'processing') {
+      throw new Error('Invoice is still being processed by KSeF; refresh its status instead');
+    }
+
+    let xmlPath = invoice.xml_path;
+    if (invoice.invoice_type === 'KOR' && corrected) {
+      if (corrected.ksef_status === 'processing') {
+        throw new Error(`Wait until KSeF finishes processing ${corrected.invoice_number}`);
+      }
+      // The correction must point at the corrected invoice's KSeF number when it has one
+      xmlPath = await this.invoiceService.generateAndPersistXml(invoiceId);
+    } else if (!xmlPath) {
+      xmlPath = await this.invoiceService.generateAndPersistXml(invoiceId);
+    }
+
+    const client = getKsefClient(this.getCompanyNip());
+    const xml = await fs.readFile(xmlPath);
+
+    const session = await client.openSession();
+    const invoiceReference = await client.sendInvoice(session, xml);
+
+    invoicesDb.update(invoiceId, {
+      ksef_status: 'processing',
+      ksef_session_reference: session.referenceNumber,
+      ksef_reference_number: invoiceReference,
+      ksef_number: null,
+      ksef_upo_path: null,
+      ksef_error: null,
+      ksef_sent_at: sqliteTimestamp(),
+    });
+
+    try {
+      await client.closeSession(session.referenceNumber);
+    } catch {
+      // The invoice is already sent; KSeF closes abandoned sessions on its own
+    }
+
+    return this.refreshStatus(invoiceId, SUBMIT_STATUS_ATTEMPTS);
+  }
+
+  /**
+   * Polls KSeF for a sent invoice. On acceptance stores the KSeF number and
+   * downloads the UPO; on rejection stores KSeF's reason.
+   */
+  async refreshStatus(invoiceId: number, attempts = 1): Promise<Invoice> {
+    const invoice = invoicesDb.getById(invoiceId);
+    if (!invoice) throw new Error('Invoice not found');
+    if (!invoice.ksef_status || !invoice.ksef_session_reference || !invoice.ksef_reference_number) {
+      throw new Error('Invoice has not been sent to KSeF');
+    }
+
+    // Accepted before the UPO was ready; only the UPO is missing
+    if (invoice.ksef_status === 'accepted') {
+      if (invoice.ksef_number && !invoice.ksef_upo_path) await this.downloadUpo(invoice, invoice.ksef_number);
+      return invoicesDb.getById(invoiceId)!;
+    }
+    if (invoice.ksef_status === 'rejected') return invoice;
+
+    const client = getKsefClient(this.getCompanyNip());
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) await new Promise((resolve) => setTimeout(resolve, STATUS_POLL_DELAY_MS));
+
+      const result = await client.getInvoiceStatus(invoice.ksef_session_reference, invoice.ksef_reference_number);
+      const { code, description, details } = result.status;
+
+      if (code === 200 && result.ksefNumber) {
+        invoicesDb.update(invoiceId, { ksef_status: 'accepted', ksef_number: result.ksefNumber, ksef_error: null });
+        await this.downloadUpo(invoice, result.ksefNumber);
+        return invoicesDb.getById(invoiceId)!;
+      }
+
+      if (code >= 300) {
+        invoicesDb.update(invoiceId, {
+          ksef_status: 'rejected',
+          ksef_error: [`${code} ${description}`, ...(details ?? [])].join(': '),
+        });
+        return invoicesDb.getById(invoiceId)!;
+      }
+    }
+
+    return invoicesDb.getById(invoiceId)!;
+  }
+
+  private async downloadUpo(invoice: Invoice, ksefNumber: string): Promise<void> {
+    try {
+      const upo = await getKsefClient(this.getCompanyNip()).getInvoiceUpo(invoice.ksef_session_reference!, ksefNumber);
+
+      await ensureInvoiceDirectories();
+      const upoPath = getUpoPath(invoice.invoice_number);
+      await fs.writeFile(upoPath, upo, { encoding: 'utf8' });
+
+      invoicesDb.update(invoice.id, { ksef_upo_path: upoPath, ksef_error: null });
+    } catch (error) {
+      // Kept on the invoice until the next status refresh retries the download
+      invoicesDb.update(invoice.id, {
+        ksef_error: `UPO not downloaded: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+
+  private getCompanyNip(): string {
+    const nip = settingsDb.get('company_nip')?.replace(/[^\d]/g, '');
+    if (!nip || !/^\d{10}$/.test(nip)) {
+      throw new Error('Set the company NIP in Settings before sending invoices to KSeF');
+    }
+    return nip;
+  }
+}
@@ -0,0 +1,93 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { settingsDb } from '@/lib/db';
+import { ClientService } from './client.service';
+import { InvoiceService } from './invoice.service';
+import { PaymentService } from './payment.service';
+
+const invoiceService = new InvoiceService();
+const paymentService = new PaymentService();
+let clientId: number;
+
+// 150 PLN net per hour at 23%; 10 hours are 1845.00 PLN gross
+const hours = (quantity: string) => [
+  { name: 'Development', quantity, unit: 'h', unit_price_grosze: 15000, vat_rate: 23 as const },
+];
+
+async function issuedInvoice() {
+  const invoice = await invoiceService.createInvoice({
+    issue_date: '2026-10-01',
+    sale_date: '2026-10-01',
+    payment_deadline: '2099-12-31',
+    client_id: clientId,
+    payment_method: 'bank_transfer',
+    currency: 'PLN',
+    items: hours('10'),
+  });
+  await invoiceService.issueInvoice(invoice.id);
+  return invoice;
+}
+
+async function correction(invoiceId: number, quantity: string, issue = true) {
+  const kor = await invoiceService.createCorrection(invoiceId, { issue_date: '2026-10-05', reason: 'Hours', items: hours(quantity) });
+  if (issue) await invoiceService.issueInvoice(kor.id);
+  return kor;
+}
+
+const pay = (invoiceId: number, amount: number) =>
+  paymentService.addPayment(invoiceId, { amount_grosze: amount, payment_date: '2026-10-10', method: 'bank_transfer' });
+
+beforeAll(async () => {
+  for (const [key, value] of Object.entries({
+    company_name: 'Firma Testowa',
+    company_nip: '1234567890',
+    company_address: 'ul. Długa 1',
+    company_postal_code: '30-001',
+    company_city: 'Kraków',
+  })) {
+    settingsDb.set(key, value);
+  }
+  clientId = (await new ClientService().createClient({ name: 'Klient', nip: '5260250274' })).id;
+});
+
+describe('PaymentService', () => {
+  it('tracks partial and full payment of an invoice', async () => {
+    const invoice = await issuedInvoice();
+
+    await pay(invoice.id, 100000);
+    let { balance } = await paymentService.getPayments(invoice.id);
+    expect(balance).toMatchObject({ due_grosze: 184500, paid_grosze: 100000, outstanding_grosze: 84500, payment_status: 'partially_paid' });
+
+    await pay(invoice.id, 84500);
+    ({ balance } = await paymentService.getPayments(invoice.id));
+    expect(balance).toMatchObject({ outstanding_grosze: 0, payment_status: 'paid' });
+  });
+
+  it('counts every issued correction in a chain towards the amount due', async () => {
+    const invoice = await issuedInvoice();
+    const first = await correction(invoice.id, '8');
+    await correction(first.id, '6');
+    await correction(invoice.id, '1', false);
+
+    const { balance } = await paymentService.getPayments(invoice.id);
+
+    // 6 hours: 900.00 net + 207.00 VAT; the draft does not count
+    expect(balance.due_grosze).toBe(110700);
+    expect(balance.outstanding_grosze).toBe(110700);
+  });
+
+  it('refuses payments above the outstanding amount', async () => {
+    const invoice = await issuedInvoice();
+    await correction(invoice.id, '5');
+
+    await expect(pay(invoice.id, 92251)).rejects.toThrow('Payment exceeds the outstanding amount of 922.50 PLN');
+    await pay(invoice.id, 92250);
+    expect((await paymentService.getPayments(invoice.id)).balance.payment_status).toBe('paid');
+  });
+
+  it('records payments on VAT invoices only', async () => {
+    const invoice = await issuedInvoice();
+    const kor = await correction(invoice.id, '9');
+
+    await expect(pay(kor.id, 100)).rejects.toThrow('Payments can only be recorded for issued VAT invoices');
+  });
+});
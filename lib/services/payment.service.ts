@@ -0,0 +1,124 @@
+import db, { bankTransactionsDb, invoicesDb, paymentsDb } from '@/lib/db';
+import type {
+  AgingBucket,
+  CreatePaymentInput,
+  InvoiceBalance,
+  Payment,
+  ReceivableInvoice,
+  ReceivablesSummary,
+  ReceivablesTotals,
+} from '@/types';
+import { INVOICE_BALANCE_COLUMNS } from '@/lib/utils/invoice-balance';
+import { groszeToPlnString } from '@/lib/utils/invoice-calculations';
+import { format } from 'date-fns';
+
+function agingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return 'current';
+  if (daysOverdue <= 30) return 'days_1_30';
+  if (daysOverdue <= 60) return 'days_31_60';
+  if (daysOverdue <= 90) return 'days_61_90';
+  return 'days_90_plus';
+}
+
+export class PaymentService {
+  async getPayments(invoiceId: number): Promise<{ payments: Payment[]; balance: InvoiceBalance }> {
+    const balance = this.getBalance(invoiceId);
+    return { payments: paymentsDb.getByInvoiceId(invoiceId), balance };
+  }
+
+  async addPayment(invoiceId: number, input: CreatePaymentInput): Promise<Payment> {
+    const tx = db.transaction((data: CreatePaymentInput) => {
+      const invoice = invoicesDb.getById(invoiceId);
+      if (!invoice) throw new Error('Invoice not found');
+      if (invoice.status !== 'issued' || invoice.invoice_type !== 'VAT') {
+        throw new Error('Payments can only be recorded for issued VAT invoices');
+      }
+
+      const balance = this.getBalance(invoiceId);
+      if (data.amount_grosze > balance.outstanding_grosze) {
+        throw new Error(
+          `Payment exceeds the outstanding amount of ${groszeToPlnString(balance.outstanding_grosze)} ${invoice.currency}`
+        );
+      }
+
+      return paymentsDb.create({
+        invoice_id: invoiceId,
+        amount_grosze: data.amount_grosze,
+        payment_date: data.payment_date,
+        method: data.method,
+        reference: data.reference?.trim() || null,
+        notes: data.notes?.trim() || null,
+      });
+    });
+
+    return tx(input);
+  }
+
+  async deletePayment(invoiceId: number, paymentId: number): Promise<void> {
+    const payment = paymentsDb.getById(paymentId);
+    if (!payment || payment.invoice_id !== invoiceId) {
+      throw new Error('Payment not found');
+    }
+    db.transaction(() => {
+      bankTransactionsDb.unlinkPayment(paymentId);
+      paymentsDb.delete(paymentId);
+    })();
+  }
+
+  async getReceivables(): Promise<ReceivablesSummary> {
+    const invoices = db
+      .prepare(
+        `
+        SELECT * FROM (
+          SELECT
+            i.id AS invoice_id,
+            i.invoice_number,
+            i.client_id,
+            c.name AS client_name,
+            i.issue_date,
+            i.payment_deadline,
+            i.currency,
+            ${INVOICE_BALANCE_COLUMNS}
+          FROM invoices i
+          INNER JOIN clients c ON c.id = i.client_id
+          WHERE i.status = 'issued' AND i.invoice_type = 'VAT'
+        )
+        WHERE payment_status IN ('unpaid', 'partially_paid') AND outstanding_grosze > 0
+        ORDER BY days_overdue DESC, payment_deadline ASC, issue_date ASC
+      `
+      )
+      .all() as ReceivableInvoice[];
+
+    const totalsByCurrency = new Map<string, ReceivablesTotals>();
+    for (const inv of invoices) {
+      let totals = totalsByCurrency.get(inv.currency);
+      if (!totals) {
+        totals = {
+          currency: inv.currency,
+          outstanding_grosze: 0,
+          overdue_grosze: 0,
+          buckets: { current: 0, days_1_30: 0, days_31_60: 0, days_61_90: 0, days_90_plus: 0 },
+        };
+        totalsByCurrency.set(inv.currency, totals);
+      }
+
+      totals.outstanding_grosze += inv.outstanding_grosze;
+      if (inv.days_overdue > 0) totals.overdue_grosze += inv.outstanding_grosze;
+      totals.buckets[agingBucket(inv.days_overdue)] += inv.outstanding_grosze;
+    }
+
+    return {
+      as_of: format(new Date(), 'yyyy-MM-dd'),
+      totals: Array.from(totalsByCurrency.values()).sort((a, b) => b.outstanding_grosze - a.outstanding_grosze),
+      invoices,
+    };
+  }
+
+  private getBalance(invoiceId: number): InvoiceBalance {
+    const balance = db
+      .prepare(`SELECT ${INVOICE_BALANCE_COLUMNS} FROM invoices i WHERE i.id = ?`)
+      .get(invoiceId) as InvoiceBalance | undefined;
+    if (!balance) throw new Error('Invoice not found');
+    return balance;
+  }
+}
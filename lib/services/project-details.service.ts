@@ -1,18 +1,21 @@
-import { ProjectDetails, TaskTimeEntry, DailyStats, EverhourTimeEntry, ProjectRate } from '@/types';
+import { format } from 'date-fns';
+import { ProjectDetails, TaskTimeEntry, DailyStats, TrackedTimeEntry } from '@/types';
 import { getCurrentMonthRange } from '../utils/date';
 import { roundToTwoDecimals, secondsToHours } from '../utils/formatters';
-import { fetchCurrentUserTimeEntries, fetchProjectNamesMap, getProjectIdFromEntry } from '../utils/everhour-utils';
-import { getRatesMap, getDefaultRate, getProjectRate } from '../utils/rates';
+import { getProjectIdFromEntry, getTaskIdFromEntry } from '../utils/time-entries';
+import { getEntryRate, getProjectRate, getRateContext, type EntryRate } from '../utils/rates';
+import { TimeEntryService } from './time-entry.service';
 
 export class ProjectDetailsService {
+  private timeEntries = new TimeEntryService();
+
   async getProjectDetails(projectId: string): Promise<ProjectDetails> {
     const { startFormatted, endFormatted } = getCurrentMonthRange();
     
     // Fetch data
-    const { entries } = await fetchCurrentUserTimeEntries(startFormatted, endFormatted);
-    const projectNamesMap = await fetchProjectNamesMap();
-    const ratesMap = getRatesMap();
-    const defaultRate = getDefaultRate();
+    const entries = await this.timeEntries.getEntries(startFormatted, endFormatted);
+    const projectNamesMap = await this.timeEntries.getProjectNamesMap();
+    const rates = getRateContext();
     
     // Filter for this project
     const projectEntries = entries.filter(
@@ -25,12 +28,14 @@ export class ProjectDetailsService {
     
     // Calculate details
     const projectName = this.getProjectName(projectId, projectNamesMap);
-    const hourlyRate = getProjectRate(projectId, ratesMap, defaultRate);
-    const dailyBreakdown = this.aggregateByDay(projectEntries, hourlyRate);
-    const tasks = this.aggregateByTask(projectEntries);
+    // Entries are priced by their billing rule or the rate of their day; the header shows today's project rate
+    const entryRates = new Map(projectEntries.map((entry) => [entry.id, getEntryRate(entry, rates)]));
+    const hourlyRate = getProjectRate(projectId, format(new Date(), 'yyyy-MM-dd'), rates.ratesMap, rates.defaultRates);
+    const dailyBreakdown = this.aggregateByDay(projectEntries, entryRates);
+    const tasks = this.aggregateByTask(projectEntries, entryRates);
     const stats = this.calculateStats(dailyBreakdown);
     const totalHours = this.calculateTotalHours(projectEntries);
-    const totalIncome = this.calculateTotalIncome(projectEntries, hourlyRate);
+    const totalIncome = this.calculateTotalIncome(projectEntries, entryRates);
     
     return {
       project_id: projectId,
@@ -49,22 +54,24 @@ export class ProjectDetailsService {
   }
   
   private aggregateByDay(
-    entries: EverhourTimeEntry[],
-    hourlyRate: number | null
+    entries: TrackedTimeEntry[],
+    entryRates: Map<string, EntryRate>
   ): DailyStats[] {
-    const dailyMap = new Map<string, { seconds: number; income: number }>();
+    const dailyMap = new Map<string, { seconds: number; nonBillableSeconds: number; income: number }>();
     
     entries.forEach((entry) => {
       const date = entry.date;
-      const hours = secondsToHours(entry.time);
-      const income = hourlyRate !== null ? hours * hourlyRate : 0;
+      const { billable, hourly_rate: rate } = entryRates.get(entry.id)!;
+      const hours = secondsToHours(entry.seconds);
+      const income = hours * (rate ?? 0);
 
       if (!dailyMap.has(date)) {
-        dailyMap.set(date, { seconds: 0, income: 0 });
+        dailyMap.set(date, { seconds: 0, nonBillableSeconds: 0, income: 0 });
       }
 
       const day = dailyMap.get(date)!;
-      day.seconds += entry.time;
+      day.seconds += entry.seconds;
+      if (!billable) day.nonBillableSeconds += entry.seconds;
       day.income += income;
     });
 
@@ -72,29 +79,43 @@ export class ProjectDetailsService {
       .map(([date, data]) => ({
         date,
         hours: roundToTwoDecimals(secondsToHours(data.seconds)),
+        billable_hours: roundToTwoDecimals(secondsToHours(data.seconds - data.nonBillableSeconds)),
+        non_billable_hours: roundToTwoDecimals(secondsToHours(data.nonBillableSeconds)),
         income: roundToTwoDecimals(data.income),
       }))
       .sort((a, b) => a.date.localeCompare(b.date));
   }
   
-  private aggregateByTask(entries: EverhourTimeEntry[]): TaskTimeEntry[] {
-    const taskMap = new Map<string, { name: string; seconds: number; dates: Set<string> }>();
+  private aggregateByTask(entries: TrackedTimeEntry[], entryRates: Map<string, EntryRate>): TaskTimeEntry[] {
+    const taskMap = new Map<
+      string,
+      { name: string; seconds: number; pricedSeconds: number; income: number; billable: boolean; dates: Set<string> }
+    >();
     
     entries.forEach((entry) => {
-      const taskId = entry.task.id;
-      const taskName = entry.task.name;
+      const taskId = getTaskIdFromEntry(entry);
+      const taskName = entry.task_name || 'Other';
       const date = entry.date;
+      const { billable, hourly_rate: rate } = entryRates.get(entry.id)!;
 
       if (!taskMap.has(taskId)) {
         taskMap.set(taskId, {
           name: taskName,
           seconds: 0,
+          pricedSeconds: 0,
+          income: 0,
+          billable: false,
           dates: new Set(),
         });
       }
 
       const task = taskMap.get(taskId)!;
-      task.seconds += entry.time;
+      task.seconds += entry.seconds;
+      task.billable ||= billable;
+      if (rate !== null) {
+        task.pricedSeconds += entry.seconds;
+        task.income += secondsToHours(entry.seconds) * rate;
+      }
       task.dates.add(date);
     });
 
@@ -103,6 +124,9 @@ export class ProjectDetailsService {
         task_id: taskId,
         task_name: data.name,
         hours: roundToTwoDecimals(secondsToHours(data.seconds)),
+        billable: data.billable,
+        hourly_rate:
+          data.pricedSeconds > 0 ? roundToTwoDecimals(data.income / secondsToHours(data.pricedSeconds)) : null,
         dates: Array.from(data.dates).sort(),
       }))
       .sort((a, b) => b.hours - a.hours);
@@ -127,15 +151,15 @@ export class ProjectDetailsService {
     };
   }
   
-  private calculateTotalHours(entries: EverhourTimeEntry[]): number {
-    const totalSeconds = entries.reduce((sum, entry) => sum + entry.time, 0);
+  private calculateTotalHours(entries: TrackedTimeEntry[]): number {
+    const totalSeconds = entries.reduce((sum, entry) => sum + entry.seconds, 0);
     return secondsToHours(totalSeconds);
   }
   
-  private calculateTotalIncome(entries: EverhourTimeEntry[], hourlyRate: number | null): number | null {
-    if (hourlyRate === null) return null;
-    const totalHours = this.calculateTotalHours(entries);
-    return totalHours * hourlyRate;
+  private calculateTotalIncome(entries: TrackedTimeEntry[], entryRates: Map<string, EntryRate>): number | null {
+    const priced = entries.filter((entry) => entryRates.get(entry.id)!.hourly_rate !== null);
+    if (priced.length === 0) return null;
+    return priced.reduce((sum, entry) => sum + secondsToHours(entry.seconds) * entryRates.get(entry.id)!.hourly_rate!, 0);
   }
 }
 
@@ -0,0 +1,97 @@
+import { format } from 'date-fns';
+import db, { defaultRatePeriodsDb, projectRatePeriodsDb, projectRatesDb } from '@/lib/db';
+import type { ProjectRateWithPeriods } from '@/types';
+import type { ProjectRateInput } from '../schemas/project-rates';
+import { getRatePeriod, getRatesMap } from '../utils/rates';
+import { getFirstOpenDay } from './time-entry-sync.service';
+
+// A period starting in a closed month would reprice income that is already final
+function assertOpen(effectiveFrom: string | null, firstOpenDay: string, message: string): void {
+  if (effectiveFrom === null || effectiveFrom < firstOpenDay) {
+    throw new Error(`${message}; months before ${firstOpenDay} are closed`);
+  }
+}
+
+export class ProjectRateService {
+  async getRates(): Promise<ProjectRateWithPeriods[]> {
+    return Array.from(getRatesMap().values());
+  }
+
+  /**
+   * Sets a project's rate from a date on (the first day of the current month by
+   * default). Earlier periods keep pricing the days before it.
+   */
+  async setRate(input: ProjectRateInput, now: Date = new Date()): Promise<ProjectRateWithPeriods> {
+    const effectiveFrom = input.effective_from ?? `${format(now, 'yyyy-MM')}-01`;
+    assertOpen(effectiveFrom, getFirstOpenDay(now), 'A new rate cannot start before the open months');
+
+    db.transaction(() => {
+      projectRatesDb.upsert({
+        project_id: input.project_id,
+        project_name: input.project_name,
+        hourly_rate: input.hourly_rate,
+      });
+      projectRatePeriodsDb.upsert({
+        project_id: input.project_id,
+        hourly_rate: input.hourly_rate,
+        effective_from: effectiveFrom,
+      });
+      this.syncLatestRate(input.project_id);
+    })();
+
+    return getRatesMap().get(input.project_id)!;
+  }
+
+  /**
+   * Changes the default rate from the first open day on; closed months keep the
+   * default rate they were priced with.
+   */
+  async setDefaultRate(hourlyRate: number, now: Date = new Date()): Promise<void> {
+    const firstOpenDay = getFirstOpenDay(now);
+    if (getRatePeriod(defaultRatePeriodsDb.getAll(), firstOpenDay)?.hourly_rate === hourlyRate) return;
+
+    defaultRatePeriodsDb.upsert({ hourly_rate: hourlyRate, effective_from: firstOpenDay });
+  }
+
+  async deleteRate(id: number, now: Date = new Date()): Promise<boolean> {
+    const rate = projectRatesDb.getById(id);
+    if (!rate) return false;
+
+    const firstOpenDay = getFirstOpenDay(now);
+    for (const period of projectRatePeriodsDb.getByProjectId(rate.project_id)) {
+      assertOpen(period.effective_from, firstOpenDay, 'This rate already priced closed months, set a new rate instead');
+    }
+
+    return projectRatesDb.delete(id);
+  }
+
+  /** Removes a period not yet in effect for a closed month; the one before it applies again. */
+  async deletePeriod(id: number, now: Date = new Date()): Promise<boolean> {
+    const period = projectRatePeriodsDb.getById(id);
+    if (!period) return false;
+
+    assertOpen(period.effective_from, getFirstOpenDay(now), 'This rate period already priced closed months');
+
+    db.transaction(() => {
+      projectRatePeriodsDb.delete(id);
+      if (projectRatePeriodsDb.getByProjectId(period.project_id).length === 0) {
+        const rate = projectRatesDb.getByProjectId(period.project_id);
+        if (rate) projectRatesDb.delete(rate.id);
+      } else {
+        this.syncLatestRate(period.project_id);
+      }
+    })();
+
+    return true;
+  }
+
+  // project_rates.hourly_rate mirrors the latest period for lists that show one rate
+  private syncLatestRate(projectId: string): void {
+    const periods = projectRatePeriodsDb.getByProjectId(projectId);
+    const latest = periods[periods.length - 1];
+    const rate = projectRatesDb.getByProjectId(projectId);
+    if (latest && rate && rate.hourly_rate !== latest.hourly_rate) {
+      projectRatesDb.update(rate.id, { hourly_rate: latest.hourly_rate });
+    }
+  }
+}
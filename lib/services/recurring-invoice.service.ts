@@ -0,0 +1,161 @@
+import { addDays, addMonths, format, getDaysInMonth, parseISO } from 'date-fns';
+import { clientsDb, recurringInvoiceRunsDb, recurringInvoicesDb } from '@/lib/db';
+import type {
+  CreateRecurringInvoiceInput,
+  RecurringInvoice,
+  RecurringInvoiceScheduleItem,
+  RecurringRunResult,
+} from '@/types';
+import { calculateInvoiceTotals, calculateLineAmounts } from '../utils/invoice-calculations';
+import { InvoiceService } from './invoice.service';
+
+// Issue date of a template in a given month, with day 31 meaning "last day" in shorter months
+function issueDateFor(period: string, dayOfMonth: number): string {
+  const monthStart = parseISO(`${period}-01`);
+  const day = Math.min(dayOfMonth, getDaysInMonth(monthStart));
+  return `${period}-${String(day).padStart(2, '0')}`;
+}
+
+const nextPeriod = (period: string) => format(addMonths(parseISO(`${period}-01`), 1), 'yyyy-MM');
+
+// First month whose issue date falls on or after start_date
+function firstPeriod(template: RecurringInvoice): string {
+  const period = template.start_date.slice(0, 7);
+  return issueDateFor(period, template.day_of_month) < template.start_date ? nextPeriod(period) : period;
+}
+
+function periodAfter(template: RecurringInvoice, lastPeriod: string | null): string {
+  const first = firstPeriod(template);
+  if (!lastPeriod) return first;
+  const next = nextPeriod(lastPeriod);
+  return next > first ? next : first;
+}
+
+const withinEnd = (template: RecurringInvoice, issueDate: string) =>
+  !template.end_date || issueDate <= template.end_date;
+
+// One catch-up at a time, whether triggered on startup or from the API
+let runInProgress: Promise<RecurringRunResult> | null = null;
+
+export class RecurringInvoiceService {
+  private invoiceService = new InvoiceService();
+
+  async getSchedule(): Promise<RecurringInvoiceScheduleItem[]> {
+    return recurringInvoicesDb.getAll().map((template) => {
+      const last = recurringInvoiceRunsDb.getLatest(template.id);
+      const period = periodAfter(template, last?.period ?? null);
+      const issueDate = issueDateFor(period, template.day_of_month);
+
+      return {
+        ...template,
+        client_name: clientsDb.getById(template.client_id)?.name ?? '',
+        total_grosze: this.calculateTotal(template),
+        last_period: last?.period ?? null,
+        last_invoice_id: last?.invoice_id ?? null,
+        next_issue_date: template.active && withinEnd(template, issueDate) ? issueDate : null,
+      };
+    });
+  }
+
+  async getTemplate(id: number): Promise<RecurringInvoice | undefined> {
+    return recurringInvoicesDb.getById(id);
+  }
+
+  async createTemplate(input: CreateRecurringInvoiceInput): Promise<RecurringInvoice> {
+    this.validate(input);
+    return recurringInvoicesDb.create({ ...input, name: input.name.trim(), notes: input.notes?.trim() || null });
+  }
+
+  async updateTemplate(id: number, input: Partial<CreateRecurringInvoiceInput>): Promise<RecurringInvoice> {
+    const existing = recurringInvoicesDb.getById(id);
+    if (!existing) throw new Error('Recurring invoice not found');
+
+    this.validate({ ...existing, ...input });
+    return recurringInvoicesDb.update(id, {
+      ...input,
+      name: input.name?.trim(),
+      notes: input.notes === undefined ? undefined : input.notes?.trim() || null,
+    })!;
+  }
+
+  async deleteTemplate(id: number): Promise<void> {
+    // Drafts created so far stay; only the schedule goes away
+    const deleted = recurringInvoicesDb.delete(id);
+    if (!deleted) throw new Error('Recurring invoice not found');
+  }
+
+  /**
+   * Creates a draft for every period that became due up to `today` and has not
+   * been generated yet, oldest first. A template that fails (e.g. no exchange
+   * rate yet) stops at that period and is retried on the next run.
+   */
+  async runDue(today: Date = new Date()): Promise<RecurringRunResult> {
+    if (!runInProgress) {
+      runInProgress = this.generateDue(format(today, 'yyyy-MM-dd')).finally(() => {
+        runInProgress = null;
+      });
+    }
+    return runInProgress;
+  }
+
+  private async generateDue(today: string): Promise<RecurringRunResult> {
+    const result: RecurringRunResult = { created: [], failed: [] };
+
+    for (const template of recurringInvoicesDb.getAll().filter((t) => t.active)) {
+      let period = periodAfter(template, recurringInvoiceRunsDb.getLatest(template.id)?.period ?? null);
+
+      for (;;) {
+        const issueDate = issueDateFor(period, template.day_of_month);
+        if (issueDate > today || !withinEnd(template, issueDate)) break;
+
+        if (recurringInvoiceRunsDb.reserve(template.id, period)) {
+          try {
+            const invoice = await this.invoiceService.createInvoice({
+              issue_date: issueDate,
+              sale_date: issueDate,
+              client_id: template.client_id,
+              status: 'draft',
+              payment_method: template.payment_method,
+              payment_deadline: format(addDays(parseISO(issueDate), template.payment_days), 'yyyy-MM-dd'),
+              currency: template.currency,
+              notes: template.notes ?? undefined,
+              items: template.items,
+            });
+            recurringInvoiceRunsDb.setInvoice(template.id, period, invoice.id);
+            result.created.push({
+              recurring_invoice_id: template.id,
+              period,
+              invoice_id: invoice.id,
+              invoice_number: invoice.invoice_number,
+            });
+          } catch (error) {
+            recurringInvoiceRunsDb.release(template.id, period);
+            result.failed.push({
+              recurring_invoice_id: template.id,
+              period,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            break;
+          }
+        }
+
+        period = nextPeriod(period);
+      }
+    }
+
+    return result;
+  }
+
+  private validate(input: CreateRecurringInvoiceInput): void {
+    if (!clientsDb.getById(input.client_id)) throw new Error('Client not found');
+    if (input.end_date && input.end_date < input.start_date) {
+      throw new Error('End date must not be before the start date');
+    }
+    this.calculateTotal(input);
+  }
+
+  private calculateTotal(template: Pick<CreateRecurringInvoiceInput, 'items'>): number {
+    return calculateInvoiceTotals(template.items.map((item) => calculateLineAmounts(item))).total_grosze;
+  }
+}
+
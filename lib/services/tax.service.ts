@@ -0,0 +1,74 @@
+import { format } from 'date-fns';
+import type { TaxForm, TaxProfile, TaxYearEstimate, ZusTier } from '@/types';
+import { getMonthRange } from '../utils/date';
+import { expenseCostGrosze } from '../utils/expenses';
+import { invoiceNetPlnGrosze } from '../utils/invoice-calculations';
+import { estimateTaxYear } from '../utils/tax';
+import { expensesDb, invoicesDb, settingsDb } from '../db';
+
+const DEFAULT_RYCZALT_RATE = 12;
+const DEFAULT_FUEL_COST_PERCENT = 100;
+
+function parseNumberSetting(key: string, fallback: number): number {
+  const value = parseFloat(settingsDb.get(key) ?? '');
+  return isNaN(value) ? fallback : value;
+}
+
+export class TaxService {
+  getTaxProfile(): TaxProfile {
+    return {
+      tax_form: (settingsDb.get('tax_form') as TaxForm | undefined) || 'liniowy',
+      ryczalt_rate: parseNumberSetting('ryczalt_rate', DEFAULT_RYCZALT_RATE),
+      zus_tier: (settingsDb.get('zus_tier') as ZusTier | undefined) || 'full',
+      zus_tier_until: settingsDb.get('zus_tier_until') || null,
+      sickness_insurance: settingsDb.get('zus_sickness') !== 'false',
+      fuel_cost_percent: parseNumberSetting('fuel_cost_percent', DEFAULT_FUEL_COST_PERCENT),
+    };
+  }
+
+  /**
+   * Estimated PIT advances, ZUS and health for a year, month by month up to the current
+   * month. Revenue is the net PLN total of issued invoices by issue date; costs are the
+   * recorded expenses, fuel counted at its configured share.
+   */
+  async getYearEstimate(year: number, now: Date = new Date()): Promise<TaxYearEstimate> {
+    const profile = this.getTaxProfile();
+    const currentMonth = format(now, 'yyyy-MM');
+    const lastMonth = year < now.getFullYear() ? 12 : year > now.getFullYear() ? 0 : now.getMonth() + 1;
+
+    const months = Array.from({ length: lastMonth }, (_, i) => `${year}-${String(i + 1).padStart(2, '0')}`)
+      .filter((month) => month <= currentMonth);
+    if (months.length === 0) {
+      return { year, profile, ...estimateTaxYear(year, [], profile) };
+    }
+
+    const from = getMonthRange(months[0]).startFormatted;
+    const to = getMonthRange(months[months.length - 1]).endFormatted;
+
+    const revenueGrosze = new Map<string, number>();
+    for (const invoice of invoicesDb.getIssuedByDateRange(from, to)) {
+      const month = invoice.issue_date.slice(0, 7);
+      revenueGrosze.set(month, (revenueGrosze.get(month) ?? 0) + invoiceNetPlnGrosze(invoice));
+    }
+
+    // Costs reduce net income under every form; the estimate leaves them out of ryczałt itself
+    const costsGrosze = new Map<string, number>();
+    for (const expense of expensesDb.getByDateRange(from, to)) {
+      const month = expense.date.slice(0, 7);
+      const share = expense.category === 'fuel' ? profile.fuel_cost_percent / 100 : 1;
+      costsGrosze.set(month, (costsGrosze.get(month) ?? 0) + expenseCostGrosze(expense) * share);
+    }
+
+    const estimate = estimateTaxYear(
+      year,
+      months.map((month) => ({
+        month,
+        revenue: (revenueGrosze.get(month) ?? 0) / 100,
+        costs: (costsGrosze.get(month) ?? 0) / 100,
+      })),
+      profile
+    );
+
+    return { year, profile, ...estimate };
+  }
+}
@@ -0,0 +1,176 @@
+import type {
+  BillableTimeLine,
+  BillableTimePreview,
+  BillTimeInput,
+  CreateInvoiceItemInput,
+  TrackedTimeEntry,
+  Invoice,
+  ProjectClient,
+  TimeBillingGroupBy,
+} from '@/types';
+import { getMonthRange } from '../utils/date';
+import { getProjectIdFromEntry, getTaskIdFromEntry } from '../utils/time-entries';
+import { getEntryRate, getRateContext, type RateContext } from '../utils/rates';
+import { getProjectClientsMap } from '../utils/project-clients';
+import { calculateLineAmounts, secondsToQuantity } from '../utils/invoice-calculations';
+import { invoiceTimeEntriesDb } from '../db';
+import { InvoiceService } from './invoice.service';
+import { TimeEntryService } from './time-entry.service';
+
+interface LineAccumulator {
+  group_key: string; // project or project:task, shared by the lines of one rate change
+  project_id: string;
+  project_name: string;
+  client_id: number | null;
+  task_name: string | null;
+  hourly_rate: number | null;
+  seconds: number;
+  time_entry_ids: string[];
+}
+
+export class TimeBillingService {
+  private invoiceService = new InvoiceService();
+  private timeEntries = new TimeEntryService();
+
+  async getBillableTime(month: string, groupBy: TimeBillingGroupBy): Promise<BillableTimePreview> {
+    const { startFormatted, endFormatted } = getMonthRange(month);
+
+    const entries = await this.timeEntries.getEntries(startFormatted, endFormatted);
+    const projectNamesMap = await this.timeEntries.getProjectNamesMap();
+    const rates = getRateContext();
+    const projectClientsMap = getProjectClientsMap();
+
+    const invoicedIds = invoiceTimeEntriesDb.getInvoicedIds(entries.map((e) => e.id));
+    // Time a billing rule marks non-billable never reaches an invoice
+    const billable = entries.filter(
+      (e) => e.seconds > 0 && !invoicedIds.has(e.id) && getEntryRate(e, rates).billable
+    );
+
+    return {
+      month,
+      group_by: groupBy,
+      lines: this.groupEntries(billable, groupBy, month, projectNamesMap, rates, projectClientsMap),
+      invoiced_entries: invoicedIds.size,
+    };
+  }
+
+  async createDraftFromTime(input: BillTimeInput): Promise<Invoice> {
+    const preview = await this.getBillableTime(input.month, input.group_by);
+    const linesByKey = new Map(preview.lines.map((line) => [line.key, line]));
+
+    const items: CreateInvoiceItemInput[] = [];
+    const timeEntryIds: string[] = [];
+
+    for (const requested of input.lines) {
+      const line = linesByKey.get(requested.key);
+      if (!line) {
+        throw new Error(`No unbilled time left for "${requested.name}"`);
+      }
+      if (line.unit_price_grosze === null) {
+        throw new Error(`Set an hourly rate for ${line.project_name} before billing it`);
+      }
+
+      items.push({
+        name: requested.name.trim() || line.name,
+        quantity: line.quantity,
+        unit: 'h',
+        unit_price_grosze: line.unit_price_grosze,
+        vat_rate: input.vat_rate,
+      });
+      timeEntryIds.push(...line.time_entry_ids);
+    }
+
+    if (items.length === 0) {
+      throw new Error('Select at least one line to bill');
+    }
+
+    return this.invoiceService.createInvoice({
+      invoice_type: input.invoice_type,
+      issue_date: input.issue_date,
+      sale_date: input.sale_date,
+      client_id: input.client_id,
+      status: 'draft',
+      payment_method: input.payment_method,
+      payment_deadline: input.payment_deadline ?? undefined,
+      currency: input.currency,
+      notes: input.notes ?? undefined,
+      items,
+      time_entry_ids: timeEntryIds,
+    });
+  }
+
+  private groupEntries(
+    entries: TrackedTimeEntry[],
+    groupBy: TimeBillingGroupBy,
+    month: string,
+    projectNamesMap: Map<string, string>,
+    rates: RateContext,
+    projectClientsMap: Map<string, ProjectClient>
+  ): BillableTimeLine[] {
+    const groups = new Map<string, LineAccumulator>();
+
+    entries.forEach((entry) => {
+      const projectId = getProjectIdFromEntry(entry);
+      const taskId = getTaskIdFromEntry(entry);
+      const groupKey = groupBy === 'task' ? `${projectId}:${taskId}` : projectId;
+      // A rate change or billing rule within the group splits it into one line per rate
+      const hourlyRate = getEntryRate(entry, rates).hourly_rate;
+      const key = `${groupKey}@${hourlyRate ?? ''}`;
+
+      if (!groups.has(key)) {
+        const rateInfo = rates.ratesMap.get(projectId);
+        groups.set(key, {
+          group_key: groupKey,
+          project_id: projectId,
+          project_name: rateInfo?.project_name || projectNamesMap.get(projectId) || 'Unknown Project',
+          client_id: projectClientsMap.get(projectId)?.client_id ?? null,
+          task_name: groupBy === 'task' ? entry.task_name || 'Other' : null,
+          hourly_rate: hourlyRate,
+          seconds: 0,
+          time_entry_ids: [],
+        });
+      }
+
+      const group = groups.get(key)!;
+      group.seconds += entry.seconds;
+      group.time_entry_ids.push(entry.id);
+    });
+
+    const linesPerGroup = new Map<string, number>();
+    groups.forEach((group) => linesPerGroup.set(group.group_key, (linesPerGroup.get(group.group_key) ?? 0) + 1));
+
+    return Array.from(groups.entries())
+      .map(([key, group]) => {
+        const quantity = secondsToQuantity(group.seconds);
+        const unitPriceGrosze = group.hourly_rate !== null ? Math.round(group.hourly_rate * 100) : null;
+        const netGrosze =
+          unitPriceGrosze !== null
+            ? calculateLineAmounts({ quantity, unit_price_grosze: unitPriceGrosze, vat_rate: 23 }).net_grosze
+            : null;
+
+        const baseName = group.task_name
+          ? `${group.project_name}: ${group.task_name} (${month})`
+          : `Usługi informatyczne za ${month} – ${group.project_name}`;
+
+        return {
+          key,
+          project_id: group.project_id,
+          project_name: group.project_name,
+          client_id: group.client_id,
+          task_name: group.task_name,
+          name:
+            linesPerGroup.get(group.group_key)! > 1 && group.hourly_rate !== null
+              ? `${baseName}, stawka ${group.hourly_rate}/h`
+              : baseName,
+          quantity,
+          hourly_rate: group.hourly_rate,
+          unit_price_grosze: unitPriceGrosze,
+          net_grosze: netGrosze,
+          time_entry_ids: group.time_entry_ids,
+        };
+      })
+      // Entries shorter than the 3-decimal resolution round to zero hours
+      .filter((line) => line.quantity !== '0')
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
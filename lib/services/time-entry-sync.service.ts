@@ -0,0 +1,177 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { timeEntriesDb, timeEntryProjectsDb, timeSyncMonthsDb } from '@/lib/db';
+import type { TimeEntry, TimeProviderName, TimeSyncMonth, TimeSyncMonthStatus, TrackedProject } from '@/types';
+import { createTimeProvider, type TimeTrackingProvider } from '../time-providers';
+import { addMonths, getCurrentMonth, getMonthRange, getMonthsInRange } from '../utils/date';
+
+// Entries are still added and edited after a month ends; it is re-fetched until this many days later
+const MONTH_CLOSES_AFTER_DAYS = 7;
+
+// How old the cached copy of an open month may get before a read triggers a sync
+const OPEN_MONTH_MAX_AGE_MS = 10 * 60 * 1000;
+
+// One fetch per provider and month at a time, shared by concurrent readers
+const inFlight = new Map<string, Promise<void>>();
+
+const closingDate = (month: string) =>
+  format(addDays(parseISO(`${addMonths(month, 1)}-01`), MONTH_CLOSES_AFTER_DAYS), 'yyyy-MM-dd');
+
+const isOpen = (month: string, today: string) => today < closingDate(month);
+
+/** First day of the oldest month still open; everything before it is closed for good. */
+export function getFirstOpenDay(now: Date = new Date()): string {
+  const current = format(now, 'yyyy-MM');
+  const previous = addMonths(current, -1);
+  return `${isOpen(previous, format(now, 'yyyy-MM-dd')) ? previous : current}-01`;
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+const parseTimestamp = (value: string) => Date.parse(`${value.replace(' ', 'T')}Z`);
+
+function withState(sync: TimeSyncMonth, now: Date): TimeSyncMonthStatus {
+  const open = isOpen(sync.month, format(now, 'yyyy-MM-dd'));
+  return {
+    ...sync,
+    open,
+    // A closed month synced after closing already has its final entries
+    frozen: !open && !!sync.synced_at && sync.synced_at.slice(0, 10) >= closingDate(sync.month),
+  };
+}
+
+export class TimeEntrySyncService {
+  // Without an explicit provider the one selected in settings is used, looked up on every call
+  constructor(private readonly providerOverride?: TimeTrackingProvider) {}
+
+  private get provider(): TimeTrackingProvider {
+    return this.providerOverride ?? createTimeProvider();
+  }
+
+  isProviderConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  /**
+   * Time entries for a date range from the local cache. Months that are missing,
+   * stale or not yet frozen are fetched first; when the provider is unreachable the
+   * last good copy is used.
+   */
+  async getEntries(from: string, to: string): Promise<TimeEntry[]> {
+    const provider = this.provider;
+    await this.ensureMonths(provider, getMonthsInRange(from, to));
+    return timeEntriesDb.getByDateRange(provider.name, from, to);
+  }
+
+  /** Projects of the current provider, refreshed when it is reachable. */
+  async getProjects(): Promise<TrackedProject[]> {
+    const provider = this.provider;
+    await this.syncProjects(provider);
+    return timeEntryProjectsDb.getAll(provider.name);
+  }
+
+  async getProjectNamesMap(): Promise<Map<string, string>> {
+    const provider = this.provider;
+    let projects = timeEntryProjectsDb.getAll(provider.name);
+    if (projects.length === 0) {
+      await this.syncProjects(provider);
+      projects = timeEntryProjectsDb.getAll(provider.name);
+    }
+    return new Map(projects.map((p) => [p.id, p.name]));
+  }
+
+  getStatus(now: Date = new Date()): TimeSyncMonthStatus[] {
+    return timeSyncMonthsDb.getAll(this.provider.name).map((sync) => withState(sync, now));
+  }
+
+  getMonthStatus(month: string, now: Date = new Date()): TimeSyncMonthStatus | null {
+    const sync = timeSyncMonthsDb.get(this.provider.name, month);
+    return sync ? withState(sync, now) : null;
+  }
+
+  /**
+   * Background sync: refreshes the current month and every month that is still
+   * open or closed but not yet frozen. Failures are recorded per month.
+   */
+  async syncOpenMonths(now: Date = new Date()): Promise<TimeSyncMonthStatus[]> {
+    const provider = this.provider;
+    const current = getCurrentMonth();
+    const recorded = timeSyncMonthsDb.getAll(provider.name).map((s) => s.month);
+    const due = Array.from(new Set([current, addMonths(current, -1), ...recorded]))
+      .filter((month) => month <= current && this.needsSync(provider.name, month, now))
+      .sort();
+
+    if (due.length > 0) await this.syncProjects(provider);
+    for (const month of due) {
+      try {
+        await this.syncMonth(provider, month);
+      } catch (error) {
+        console.error(`Failed to sync ${provider.name} time entries for ${month}:`, error);
+      }
+    }
+
+    return due.map((month) => withState(timeSyncMonthsDb.get(provider.name, month)!, now));
+  }
+
+  /** Re-fetches one month regardless of its state, including frozen months. */
+  async resyncMonth(month: string): Promise<TimeSyncMonthStatus> {
+    const provider = this.provider;
+    await this.syncProjects(provider);
+    await this.syncMonth(provider, month);
+    return withState(timeSyncMonthsDb.get(provider.name, month)!, new Date());
+  }
+
+  private async ensureMonths(provider: TimeTrackingProvider, months: string[], now: Date = new Date()): Promise<void> {
+    const due = months.filter((month) => this.needsSync(provider.name, month, now));
+    if (due.length === 0) return;
+
+    await this.syncProjects(provider);
+    for (const month of due) {
+      try {
+        await this.syncMonth(provider, month);
+      } catch (error) {
+        // Serve the last good copy; only a month that was never fetched has nothing to show
+        if (!timeSyncMonthsDb.get(provider.name, month)?.synced_at) throw error;
+        console.error(`Using cached ${provider.name} time entries for ${month}:`, error);
+      }
+    }
+  }
+
+  private needsSync(source: TimeProviderName, month: string, now: Date): boolean {
+    const sync = timeSyncMonthsDb.get(source, month);
+    if (!sync?.synced_at) return true;
+
+    const state = withState(sync, now);
+    if (state.open) return now.getTime() - parseTimestamp(sync.synced_at) > OPEN_MONTH_MAX_AGE_MS;
+    return !state.frozen;
+  }
+
+  private syncMonth(provider: TimeTrackingProvider, month: string): Promise<void> {
+    const key = `${provider.name}:${month}`;
+    let running = inFlight.get(key);
+    if (!running) {
+      running = this.fetchMonth(provider, month).finally(() => inFlight.delete(key));
+      inFlight.set(key, running);
+    }
+    return running;
+  }
+
+  private async fetchMonth(provider: TimeTrackingProvider, month: string): Promise<void> {
+    const { startFormatted, endFormatted } = getMonthRange(month);
+    try {
+      const entries = await provider.getTimeEntries(startFormatted, endFormatted);
+      timeEntriesDb.replaceRange(provider.name, startFormatted, endFormatted, entries);
+      timeSyncMonthsDb.recordSuccess(provider.name, month, entries.length);
+    } catch (error) {
+      timeSyncMonthsDb.recordFailure(provider.name, month, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  // Project names only label entries, so a failed refresh keeps the previous ones
+  private async syncProjects(provider: TimeTrackingProvider): Promise<void> {
+    try {
+      timeEntryProjectsDb.replaceAll(provider.name, await provider.getProjects());
+    } catch (error) {
+      console.error(`Failed to sync ${provider.name} projects:`, error);
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import db, { invoiceTimeEntriesDb, manualTimeEntriesDb } from '@/lib/db';
+import type {
+  ManualTimeEntry,
+  ManualTimeEntryInput,
+  TimesheetColumnMapping,
+  TimesheetImportResult,
+  TimeSyncMonthStatus,
+  TrackedProject,
+  TrackedTimeEntry,
+} from '@/types';
+import { parseTimesheetCsv } from '../utils/timesheet-csv';
+import { TimeEntrySyncService } from './time-entry-sync.service';
+
+// Projects that exist only on manual entries, e.g. for a client who does not use the time tracker
+const localProjectId = (name: string) => `local:${name.trim()}`;
+
+const manualEntryId = (id: number) => `manual:${id}`;
+
+function toTrackedEntry(entry: ManualTimeEntry): TrackedTimeEntry {
+  return {
+    id: manualEntryId(entry.id),
+    source: entry.source,
+    date: entry.date,
+    seconds: entry.seconds,
+    task_id: null,
+    task_name: entry.task_name,
+    project_id: entry.project_id,
+    user_id: null,
+    user_name: null,
+    tags: [],
+  };
+}
+
+/**
+ * The time entries stats and billing work with: the provider's entries from the local
+ * cache plus entries added by hand or imported from a timesheet.
+ */
+export class TimeEntryService {
+  private sync = new TimeEntrySyncService();
+
+  async getEntries(from: string, to: string): Promise<TrackedTimeEntry[]> {
+    // Without credentials the dashboard runs on manual entries alone
+    const tracked = this.sync.isProviderConfigured() ? await this.sync.getEntries(from, to) : [];
+    const manual = manualTimeEntriesDb.getByDateRange(from, to).map(toTrackedEntry);
+    return [...tracked, ...manual].sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /** Provider projects followed by the projects only manual entries use. */
+  async getProjects(): Promise<TrackedProject[]> {
+    const tracked = this.sync.isProviderConfigured() ? await this.sync.getProjects() : [];
+    const trackedIds = new Set(tracked.map((p) => p.id));
+    return [...tracked, ...manualTimeEntriesDb.getProjects().filter((p) => !trackedIds.has(p.id))];
+  }
+
+  async getProjectNamesMap(): Promise<Map<string, string>> {
+    const names = new Map(manualTimeEntriesDb.getProjects().map((p) => [p.id, p.name]));
+    if (this.sync.isProviderConfigured()) {
+      // Provider names win over the ones remembered on manual entries
+      for (const [id, name] of await this.sync.getProjectNamesMap()) names.set(id, name);
+    }
+    return names;
+  }
+
+  getMonthStatus(month: string): TimeSyncMonthStatus | null {
+    return this.sync.getMonthStatus(month);
+  }
+
+  async getManualEntries(from: string, to: string): Promise<ManualTimeEntry[]> {
+    return manualTimeEntriesDb.getByDateRange(from, to);
+  }
+
+  async createManualEntry(input: ManualTimeEntryInput): Promise<ManualTimeEntry> {
+    return manualTimeEntriesDb.create({
+      source: 'manual',
+      date: input.date,
+      seconds: Math.round(input.hours * 3600),
+      project_id: input.project_id || localProjectId(input.project_name),
+      project_name: input.project_name.trim(),
+      task_name: input.task_name?.trim() || null,
+      import_key: null,
+    });
+  }
+
+  async updateManualEntry(id: number, input: Partial<ManualTimeEntryInput>): Promise<ManualTimeEntry> {
+    this.getEditableEntry(id);
+
+    return manualTimeEntriesDb.update(id, {
+      date: input.date,
+      seconds: input.hours !== undefined ? Math.round(input.hours * 3600) : undefined,
+      project_id:
+        input.project_id || (input.project_name !== undefined ? localProjectId(input.project_name) : undefined),
+      project_name: input.project_name?.trim(),
+      task_name: input.task_name !== undefined ? input.task_name?.trim() || null : undefined,
+    })!;
+  }
+
+  async deleteManualEntry(id: number): Promise<void> {
+    this.getEditableEntry(id);
+    manualTimeEntriesDb.delete(id);
+  }
+
+  /**
+   * Adds every row of a timesheet as an imported entry. Project names are matched to
+   * the provider's projects and otherwise become local projects; rows imported before
+   * (same content and position among identical rows) are skipped.
+   */
+  async importTimesheet(content: string, mapping?: TimesheetColumnMapping): Promise<TimesheetImportResult> {
+    const rows = parseTimesheetCsv(content, mapping);
+    const projectsByName = new Map((await this.getProjects()).map((p) => [p.name.toLowerCase(), p.id]));
+
+    const occurrences = new Map<string, number>();
+    const tx = db.transaction(() => {
+      const result: TimesheetImportResult = { imported: 0, skipped: 0 };
+
+      for (const row of rows) {
+        if (row.seconds === 0) continue;
+
+        const key = [row.date, row.project ?? '', row.task ?? '', row.seconds].join('\u0000');
+        const occurrence = (occurrences.get(key) ?? 0) + 1;
+        occurrences.set(key, occurrence);
+        const importKey = crypto.createHash('sha1').update(`${key}\u0000${occurrence}`).digest('hex');
+
+        if (manualTimeEntriesDb.hasImportKey(importKey)) {
+          result.skipped++;
+          continue;
+        }
+
+        manualTimeEntriesDb.create({
+          source: 'import',
+          date: row.date,
+          seconds: row.seconds,
+          project_id: row.project ? projectsByName.get(row.project.toLowerCase()) ?? localProjectId(row.project) : null,
+          project_name: row.project,
+          task_name: row.task,
+          import_key: importKey,
+        });
+        result.imported++;
+      }
+
+      return result;
+    });
+
+    return tx();
+  }
+
+  // Billed hours stay as they were invoiced
+  private getEditableEntry(id: number): ManualTimeEntry {
+    const entry = manualTimeEntriesDb.getById(id);
+    if (!entry) {
+      throw new Error('Time entry not found');
+    }
+    if (invoiceTimeEntriesDb.getInvoicedIds([manualEntryId(id)]).size > 0) {
+      throw new Error('Time entry has already been invoiced');
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,117 @@
+import { eachDayOfInterval, format, isWeekend, parseISO } from 'date-fns';
+import { settingsDb, timeOffDb } from '@/lib/db';
+import type { CalendarDay, TimeOff, TimeOffCalendar, VacationAllowance } from '@/types';
+import type { TimeOffInput } from '../schemas/time-off';
+import { getMonthRange } from '../utils/date';
+import { roundToTwoDecimals, secondsToHours } from '../utils/formatters';
+import { getTimeOffDays } from '../utils/time-off';
+import { getWorkingDates } from '../utils/working-days';
+import { HolidaysService } from './holidays.service';
+import { TimeEntryService } from './time-entry.service';
+
+// Statutory leave for a full-time employee in Poland with 10+ years of service
+const DEFAULT_VACATION_DAYS_PER_YEAR = 26;
+
+const toRecord = (input: TimeOffInput) => ({
+  start_date: input.start_date,
+  end_date: input.end_date,
+  type: input.type,
+  label: input.label?.trim() || null,
+});
+
+export class TimeOffService {
+  private timeEntries = new TimeEntryService();
+  private holidays = new HolidaysService();
+
+  async getTimeOff(year?: number): Promise<TimeOff[]> {
+    return year ? timeOffDb.getOverlapping(`${year}-01-01`, `${year}-12-31`) : timeOffDb.getAll();
+  }
+
+  async createTimeOff(input: TimeOffInput): Promise<TimeOff> {
+    this.assertNoOverlap(input);
+    return timeOffDb.create(toRecord(input));
+  }
+
+  async updateTimeOff(id: number, input: TimeOffInput): Promise<TimeOff> {
+    this.getExisting(id);
+    this.assertNoOverlap(input, id);
+    return timeOffDb.update(id, toRecord(input))!;
+  }
+
+  async deleteTimeOff(id: number): Promise<void> {
+    this.getExisting(id);
+    timeOffDb.delete(id);
+  }
+
+  /** Every day of the month with its public holiday, time off and logged hours. */
+  async getCalendar(month: string, now: Date = new Date()): Promise<TimeOffCalendar> {
+    const { start, end, startFormatted, endFormatted } = getMonthRange(month);
+    const today = format(now, 'yyyy-MM-dd');
+
+    const holidays = new Map(
+      (await this.holidays.getHolidaysForYear(start.getFullYear())).map((h) => [h.date, h.name])
+    );
+    const timeOff = getTimeOffDays(startFormatted, endFormatted);
+
+    // Days that have not come yet have no hours; reading them would only record empty syncs
+    const hoursByDate = new Map<string, number>();
+    if (startFormatted <= today) {
+      const entries = await this.timeEntries.getEntries(startFormatted, endFormatted < today ? endFormatted : today);
+      entries.forEach((entry) => {
+        hoursByDate.set(entry.date, (hoursByDate.get(entry.date) ?? 0) + secondsToHours(entry.seconds));
+      });
+    }
+
+    const days: CalendarDay[] = eachDayOfInterval({ start, end }).map((day) => {
+      const date = format(day, 'yyyy-MM-dd');
+      const off = timeOff.get(date);
+      return {
+        date,
+        weekend: isWeekend(day),
+        holiday: holidays.get(date) ?? null,
+        time_off: off ? { id: off.id, type: off.type, label: off.label } : null,
+        hours: roundToTwoDecimals(hoursByDate.get(date) ?? 0),
+      };
+    });
+
+    return { month, days, allowance: await this.getAllowance(start.getFullYear(), now) };
+  }
+
+  /** Vacation days of the year counted in working days, against the yearly allowance. */
+  async getAllowance(year: number, now: Date = new Date()): Promise<VacationAllowance> {
+    const today = format(now, 'yyyy-MM-dd');
+    const allowance = parseInt(settingsDb.get('vacation_days_per_year') || '', 10);
+    const allowanceDays = isNaN(allowance) ? DEFAULT_VACATION_DAYS_PER_YEAR : allowance;
+
+    const timeOff = getTimeOffDays(`${year}-01-01`, `${year}-12-31`);
+    const vacationDays = (await getWorkingDates(parseISO(`${year}-01-01`), parseISO(`${year}-12-31`))).filter(
+      (date) => timeOff.get(date)?.type === 'vacation'
+    );
+    const usedDays = vacationDays.filter((date) => date <= today).length;
+    const plannedDays = vacationDays.length - usedDays;
+
+    return {
+      year,
+      allowance_days: allowanceDays,
+      used_days: usedDays,
+      planned_days: plannedDays,
+      remaining_days: allowanceDays - vacationDays.length,
+    };
+  }
+
+  private getExisting(id: number): TimeOff {
+    const timeOff = timeOffDb.getById(id);
+    if (!timeOff) {
+      throw new Error('Time off not found');
+    }
+    return timeOff;
+  }
+
+  // A day is either off for one reason or not at all
+  private assertNoOverlap(input: TimeOffInput, ignoreId?: number): void {
+    const clash = timeOffDb.getOverlapping(input.start_date, input.end_date).find((t) => t.id !== ignoreId);
+    if (clash) {
+      throw new Error(`Time off overlaps ${clash.start_date} – ${clash.end_date}`);
+    }
+  }
+}
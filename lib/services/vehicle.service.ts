@@ -0,0 +1,228 @@
+import { clientsDb, fuelTransactionsDb, projectClientsDb, settingsDb, tripsDb, vehiclesDb } from '@/lib/db';
+import type { Trip, TripRoute, Vehicle, VehicleLogbook } from '@/types';
+import type { TripInput, TripRouteInput, VehicleInput } from '../schemas/vehicle';
+import { getMonthRange } from '../utils/date';
+import { getDistanceKm } from '../utils/distance';
+import { generateLogbookPdf } from '../utils/logbook-pdf-generator';
+import { GeocodingService } from './geocoding.service';
+import { TimeEntryService } from './time-entry.service';
+
+const roundKm = (km: number) => Math.round(km * 10) / 10;
+
+// An address, with its coordinates when they are already known
+interface RoutePoint {
+  address: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export class VehicleService {
+  private geocoding = new GeocodingService();
+  private timeEntries = new TimeEntryService();
+
+  async getVehicles(): Promise<Vehicle[]> {
+    return vehiclesDb.getAll();
+  }
+
+  async createVehicle(input: VehicleInput): Promise<Vehicle> {
+    if (vehiclesDb.getByRegistration(input.registration_number)) {
+      throw new Error(`Vehicle ${input.registration_number} already exists`);
+    }
+    return vehiclesDb.create(input);
+  }
+
+  /** Deletes a vehicle with its logbook; fill-ups stay in the fuel log without it. */
+  async deleteVehicle(id: number): Promise<void> {
+    this.getExisting(id);
+    vehiclesDb.delete(id);
+  }
+
+  /**
+   * A month of a vehicle's logbook. The logbook covers every trip, so the odometer at the
+   * start of the month is the initial reading plus everything logged before.
+   */
+  async getLogbook(vehicleId: number, month: string): Promise<VehicleLogbook> {
+    const vehicle = this.getExisting(vehicleId);
+    const { startFormatted, endFormatted } = getMonthRange(month);
+
+    const trips = tripsDb.getByVehicle(vehicleId, startFormatted, endFormatted);
+    const totalKm = roundKm(trips.reduce((sum, trip) => sum + trip.distance_km, 0));
+    const startOdometerKm = roundKm(vehicle.initial_odometer_km + tripsDb.getDistanceBefore(vehicleId, startFormatted));
+
+    return {
+      vehicle,
+      month,
+      trips,
+      start_odometer_km: startOdometerKm,
+      end_odometer_km: roundKm(startOdometerKm + totalKm),
+      total_km: totalKm,
+    };
+  }
+
+  async generateLogbookPdf(vehicleId: number, month: string): Promise<Buffer> {
+    const flat = settingsDb.getAll();
+    return generateLogbookPdf({
+      logbook: await this.getLogbook(vehicleId, month),
+      company: {
+        company_name: flat.company_name,
+        company_nip: flat.company_nip,
+        company_address: flat.company_address,
+        company_city: flat.company_city,
+        company_postal_code: flat.company_postal_code,
+      },
+    });
+  }
+
+  async createTrip(input: TripInput): Promise<Trip> {
+    return tripsDb.create(await this.toTripRecord(input));
+  }
+
+  async updateTrip(id: number, input: TripInput): Promise<Trip> {
+    this.getExistingTrip(id);
+    return tripsDb.update(id, await this.toTripRecord(input))!;
+  }
+
+  async deleteTrip(id: number): Promise<void> {
+    this.getExistingTrip(id);
+    tripsDb.delete(id);
+  }
+
+  /**
+   * Fills in the home location and the client's address a trip leaves out, with the
+   * straight-line distance between them. Roads are longer, so the distance is a starting
+   * point to correct rather than the logged value.
+   */
+  async estimateRoute(input: TripRouteInput): Promise<TripRoute> {
+    const clientId = this.getTripClientId(input);
+    const origin = this.getOrigin(input.origin);
+    const destination = this.getDestination(input.destination, clientId);
+
+    return {
+      origin: origin.address,
+      destination: destination.address,
+      client_id: clientId,
+      distance_km: roundKm(await this.measureDistance(origin, destination)),
+    };
+  }
+
+  // Readings must grow with the date, from the vehicle's initial reading on
+  assertOdometerReading(vehicleId: number, date: string, odometerKm: number | null): void {
+    const vehicle = this.getExisting(vehicleId);
+    if (odometerKm === null) return;
+
+    if (date >= vehicle.logbook_start_date && odometerKm < vehicle.initial_odometer_km) {
+      throw new Error(`Odometer reading is below the initial ${vehicle.initial_odometer_km} km of ${vehicle.name}`);
+    }
+
+    const { previous, next } = fuelTransactionsDb.getOdometerBounds(vehicleId, date);
+    if (previous !== null && odometerKm < previous) {
+      throw new Error(`Odometer reading is below the earlier reading of ${previous} km`);
+    }
+    if (next !== null && odometerKm > next) {
+      throw new Error(`Odometer reading is above the later reading of ${next} km`);
+    }
+  }
+
+  private async toTripRecord(input: TripInput): Promise<Omit<Trip, 'id' | 'created_at' | 'updated_at'>> {
+    const vehicle = this.getExisting(input.vehicle_id);
+    if (input.date < vehicle.logbook_start_date) {
+      throw new Error(`The logbook of ${vehicle.name} starts on ${vehicle.logbook_start_date}`);
+    }
+    if (input.project_id && !(await this.timeEntries.getProjectNamesMap()).has(input.project_id)) {
+      throw new Error('Project not found');
+    }
+
+    const clientId = this.getTripClientId(input);
+    const origin = this.getOrigin(input.origin);
+    const destination = this.getDestination(input.destination, clientId);
+
+    const distanceKm = roundKm(input.distance_km ?? (await this.measureDistance(origin, destination)));
+    if (distanceKm <= 0) {
+      throw new Error('Origin and destination are the same place; enter the distance');
+    }
+
+    return {
+      vehicle_id: input.vehicle_id,
+      date: input.date,
+      origin: origin.address,
+      destination: destination.address,
+      purpose: input.purpose,
+      distance_km: distanceKm,
+      driver: input.driver?.trim() || null,
+      project_id: input.project_id ?? null,
+      client_id: clientId,
+    };
+  }
+
+  // A trip for a project visits the project's client unless another client is given
+  private getTripClientId(input: TripRouteInput): number | null {
+    if (input.client_id) {
+      if (!clientsDb.getById(input.client_id)) {
+        throw new Error('Client not found');
+      }
+      return input.client_id;
+    }
+    return input.project_id ? (projectClientsDb.getByProjectId(input.project_id)?.client_id ?? null) : null;
+  }
+
+  // Trips start from home unless told otherwise; its coordinates are stored with the settings
+  private getOrigin(origin: string | null | undefined): RoutePoint {
+    if (origin) return { address: origin };
+
+    const address = settingsDb.get('home_address')?.trim();
+    if (!address) {
+      throw new Error('Enter the origin or set the home address in settings');
+    }
+    const latitude = parseFloat(settingsDb.get('home_latitude') ?? '');
+    const longitude = parseFloat(settingsDb.get('home_longitude') ?? '');
+    return isNaN(latitude) || isNaN(longitude) ? { address } : { address, latitude, longitude };
+  }
+
+  private getDestination(destination: string | null | undefined, clientId: number | null): RoutePoint {
+    if (destination) return { address: destination };
+
+    const client = clientId ? clientsDb.getById(clientId) : undefined;
+    if (!client) {
+      throw new Error('Destination is required');
+    }
+    const address = [client.address, [client.postal_code, client.city].filter(Boolean).join(' ')]
+      .filter(Boolean)
+      .join(', ');
+    if (!address) {
+      throw new Error(`${client.name} has no address; enter the destination`);
+    }
+    return { address };
+  }
+
+  private async measureDistance(origin: RoutePoint, destination: RoutePoint): Promise<number> {
+    // One after the other: Nominatim allows a request per second
+    const from = await this.locate(origin);
+    const to = await this.locate(destination);
+    return getDistanceKm(from.latitude, from.longitude, to.latitude, to.longitude);
+  }
+
+  private async locate(point: RoutePoint): Promise<{ latitude: number; longitude: number }> {
+    if (point.latitude !== undefined && point.longitude !== undefined) {
+      return { latitude: point.latitude, longitude: point.longitude };
+    }
+    const result = await this.geocoding.geocodeAddress(point.address);
+    if (!result) throw new Error(`Address not found: ${point.address}`);
+    return result;
+  }
+
+  private getExisting(id: number): Vehicle {
+    const vehicle = vehiclesDb.getById(id);
+    if (!vehicle) {
+      throw new Error('Vehicle not found');
+    }
+    return vehicle;
+  }
+
+  private getExistingTrip(id: number): Trip {
+    const trip = tripsDb.getById(id);
+    if (!trip) {
+      throw new Error('Trip not found');
+    }
+    return trip;
+  }
+}
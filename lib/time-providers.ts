@@ -0,0 +1,311 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { addDays, format, parseISO } from 'date-fns';
+import type { TimeProviderName, TrackedProject, TrackedTimeEntry, TrackedUser } from '@/types';
+import { getEverhourClient } from './everhour';
+import { settingsDb } from './db';
+import { parseTimesheetCsv } from './utils/timesheet-csv';
+
+/**
+ * A time-tracking service the dashboard reads hours from. Every implementation returns
+ * the current user's entries in the same normalised shape; project ids are prefixed by
+ * provider so rates and client links of different providers never collide.
+ */
+export interface TimeTrackingProvider {
+  readonly name: TimeProviderName;
+  isConfigured(): boolean;
+  getCurrentUser(): Promise<TrackedUser>;
+  /** Entries dated from..to (YYYY-MM-DD, inclusive, local dates) */
+  getTimeEntries(from: string, to: string): Promise<TrackedTimeEntry[]>;
+  getProjects(): Promise<TrackedProject[]>;
+}
+
+// Toggl and Clockify filter by timestamp; local midnights keep entries on the day they were logged
+const startOfLocalDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+const startOfNextLocalDay = (date: string) => startOfLocalDay(format(addDays(parseISO(date), 1), 'yyyy-MM-dd'));
+const toLocalDate = (timestamp: string) => format(new Date(timestamp), 'yyyy-MM-dd');
+
+async function requestJson<T>(service: string, url: string, headers: Record<string, string>): Promise<T> {
+  const response = await fetch(url, { headers: { ...headers, 'Content-Type': 'application/json' } });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${service} API error: ${response.status} ${response.statusText} - ${errorText} ${url}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+export class EverhourTimeProvider implements TimeTrackingProvider {
+  readonly name = 'everhour' as const;
+
+  isConfigured(): boolean {
+    return !!process.env.EVERHOUR_API_TOKEN;
+  }
+
+  async getCurrentUser(): Promise<TrackedUser> {
+    const user = await getEverhourClient().getCurrentUser();
+    return { id: String(user.id), name: user.name ?? null };
+  }
+
+  async getTimeEntries(from: string, to: string): Promise<TrackedTimeEntry[]> {
+    const client = getEverhourClient();
+    const user = await client.getCurrentUser();
+    const entries = await client.getTimeEntries(from, to, user.id);
+
+    return entries.map((entry) => ({
+      id: `everhour:${entry.id}`,
+      source: this.name,
+      date: entry.date,
+      seconds: entry.time,
+      task_id: entry.task?.id ?? null,
+      task_name: entry.task?.name ?? null,
+      // Everhour ids already carry a source prefix ("ev:", "as:"), so existing rates keep matching
+      project_id: entry.task?.projects?.[0] ?? null,
+      user_id: String(entry.user.id),
+      user_name: entry.user.name ?? null,
+      tags: entry.task?.labels ?? [],
+    }));
+  }
+
+  async getProjects(): Promise<TrackedProject[]> {
+    const projects = await getEverhourClient().getProjects();
+    return projects.map((p) => ({ id: p.id, name: p.name }));
+  }
+}
+
+interface TogglUser {
+  id: number;
+  fullname: string;
+}
+
+interface TogglTimeEntry {
+  id: number;
+  start: string;
+  duration: number; // seconds, negative while the timer runs
+  description: string | null;
+  project_id: number | null;
+  task_id: number | null;
+  user_id: number;
+  tags: string[] | null;
+}
+
+interface TogglProject {
+  id: number;
+  name: string;
+}
+
+export class TogglTimeProvider implements TimeTrackingProvider {
+  readonly name = 'toggl' as const;
+
+  constructor(
+    private readonly apiToken: string = process.env.TOGGL_API_TOKEN || '',
+    private readonly baseUrl: string = process.env.TOGGL_API_URL || 'https://api.track.toggl.com/api/v9'
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.apiToken;
+  }
+
+  async getCurrentUser(): Promise<TrackedUser> {
+    const me = await this.request<TogglUser>('/me');
+    return { id: String(me.id), name: me.fullname || null };
+  }
+
+  async getTimeEntries(from: string, to: string): Promise<TrackedTimeEntry[]> {
+    const user = await this.getCurrentUser();
+    const query = `start_date=${encodeURIComponent(startOfLocalDay(from))}&end_date=${encodeURIComponent(startOfNextLocalDay(to))}`;
+    const entries = await this.request<TogglTimeEntry[]>(`/me/time_entries?${query}`);
+
+    return entries
+      .filter((entry) => entry.duration >= 0)
+      .map((entry) => ({
+        id: `toggl:${entry.id}`,
+        source: this.name,
+        date: toLocalDate(entry.start),
+        seconds: entry.duration,
+        task_id: entry.task_id ? `toggl:${entry.task_id}` : null,
+        task_name: entry.description || null,
+        project_id: entry.project_id ? `toggl:${entry.project_id}` : null,
+        user_id: String(entry.user_id),
+        user_name: user.name,
+        tags: entry.tags ?? [],
+      }))
+      .filter((entry) => entry.date >= from && entry.date <= to);
+  }
+
+  async getProjects(): Promise<TrackedProject[]> {
+    const projects = await this.request<TogglProject[]>('/me/projects?include_archived=true');
+    return projects.map((p) => ({ id: `toggl:${p.id}`, name: p.name }));
+  }
+
+  private request<T>(endpoint: string): Promise<T> {
+    if (!this.apiToken) {
+      throw new Error('TOGGL_API_TOKEN environment variable is not set');
+    }
+    const credentials = Buffer.from(`${this.apiToken}:api_token`).toString('base64');
+    return requestJson<T>('Toggl', `${this.baseUrl}${endpoint}`, { Authorization: `Basic ${credentials}` });
+  }
+}
+
+interface ClockifyUser {
+  id: string;
+  name: string;
+  activeWorkspace: string;
+}
+
+interface ClockifyTimeEntry {
+  id: string;
+  description: string;
+  projectId: string | null;
+  task?: { id: string; name: string } | null; // present with hydrated=true
+  tags?: { id: string; name: string }[] | null; // present with hydrated=true
+  timeInterval: { start: string; end: string | null }; // end is null while the timer runs
+}
+
+interface ClockifyProject {
+  id: string;
+  name: string;
+}
+
+const CLOCKIFY_PAGE_SIZE = 500;
+
+export class ClockifyTimeProvider implements TimeTrackingProvider {
+  readonly name = 'clockify' as const;
+
+  constructor(
+    private readonly apiKey: string = process.env.CLOCKIFY_API_KEY || '',
+    private readonly workspaceId: string = process.env.CLOCKIFY_WORKSPACE_ID || '',
+    private readonly baseUrl: string = process.env.CLOCKIFY_API_URL || 'https://api.clockify.me/api/v1'
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async getCurrentUser(): Promise<TrackedUser> {
+    const user = await this.request<ClockifyUser>('/user');
+    return { id: user.id, name: user.name || null };
+  }
+
+  async getTimeEntries(from: string, to: string): Promise<TrackedTimeEntry[]> {
+    const user = await this.request<ClockifyUser>('/user');
+    const workspace = this.workspaceId || user.activeWorkspace;
+    const query = `start=${encodeURIComponent(startOfLocalDay(from))}&end=${encodeURIComponent(startOfNextLocalDay(to))}&hydrated=true`;
+    const entries = await this.requestAllPages<ClockifyTimeEntry>(`/workspaces/${workspace}/user/${user.id}/time-entries?${query}`);
+
+    return entries
+      .filter((entry) => entry.timeInterval.end)
+      .map((entry) => ({
+        id: `clockify:${entry.id}`,
+        source: this.name,
+        date: toLocalDate(entry.timeInterval.start),
+        seconds: Math.round((Date.parse(entry.timeInterval.end!) - Date.parse(entry.timeInterval.start)) / 1000),
+        task_id: entry.task ? `clockify:${entry.task.id}` : null,
+        task_name: entry.task?.name || entry.description || null,
+        project_id: entry.projectId ? `clockify:${entry.projectId}` : null,
+        user_id: user.id,
+        user_name: user.name || null,
+        tags: entry.tags?.map((tag) => tag.name) ?? [],
+      }))
+      .filter((entry) => entry.date >= from && entry.date <= to);
+  }
+
+  async getProjects(): Promise<TrackedProject[]> {
+    const workspace = this.workspaceId || (await this.request<ClockifyUser>('/user')).activeWorkspace;
+    const projects = await this.requestAllPages<ClockifyProject>(`/workspaces/${workspace}/projects?`);
+    return projects.map((p) => ({ id: `clockify:${p.id}`, name: p.name }));
+  }
+
+  private async requestAllPages<T>(endpoint: string): Promise<T[]> {
+    const separator = endpoint.endsWith('?') ? '' : '&';
+    const items: T[] = [];
+    for (let page = 1; ; page++) {
+      const batch = await this.request<T[]>(`${endpoint}${separator}page=${page}&page-size=${CLOCKIFY_PAGE_SIZE}`);
+      items.push(...batch);
+      if (batch.length < CLOCKIFY_PAGE_SIZE) return items;
+    }
+  }
+
+  private request<T>(endpoint: string): Promise<T> {
+    if (!this.apiKey) {
+      throw new Error('CLOCKIFY_API_KEY environment variable is not set');
+    }
+    return requestJson<T>('Clockify', `${this.baseUrl}${endpoint}`, { 'X-Api-Key': this.apiKey });
+  }
+}
+
+/**
+ * Reads a timesheet CSV kept by hand or exported from another tool (see
+ * parseTimesheetCsv for the recognised columns). The file is re-read on every sync.
+ */
+export class CsvTimeProvider implements TimeTrackingProvider {
+  readonly name = 'csv' as const;
+
+  constructor(private readonly filePath: string = process.env.TIME_CSV_PATH || '') {}
+
+  isConfigured(): boolean {
+    return !!this.filePath;
+  }
+
+  async getCurrentUser(): Promise<TrackedUser> {
+    return { id: 'csv', name: null };
+  }
+
+  async getTimeEntries(from: string, to: string): Promise<TrackedTimeEntry[]> {
+    const rows = await this.readRows();
+    const occurrences = new Map<string, number>();
+
+    return rows
+      .map((row) => {
+        // Rows have no ids of their own; identical rows are told apart by their order
+        const key = [row.date, row.project ?? '', row.task ?? '', row.seconds, row.user ?? ''].join('\u0000');
+        const occurrence = (occurrences.get(key) ?? 0) + 1;
+        occurrences.set(key, occurrence);
+        const hash = crypto.createHash('sha1').update(`${key}\u0000${occurrence}`).digest('hex').slice(0, 16);
+
+        return {
+          id: `csv:${hash}`,
+          source: this.name,
+          date: row.date,
+          seconds: row.seconds,
+          task_id: null,
+          task_name: row.task,
+          project_id: row.project ? csvProjectId(row.project) : null,
+          user_id: null,
+          user_name: row.user,
+          tags: [],
+        };
+      })
+      .filter((entry) => entry.date >= from && entry.date <= to);
+  }
+
+  async getProjects(): Promise<TrackedProject[]> {
+    const names = new Set((await this.readRows()).map((row) => row.project).filter((name): name is string => !!name));
+    return Array.from(names, (name) => ({ id: csvProjectId(name), name }));
+  }
+
+  private async readRows() {
+    if (!this.filePath) {
+      throw new Error('TIME_CSV_PATH environment variable is not set');
+    }
+    return parseTimesheetCsv(await fs.readFile(this.filePath, 'utf8'));
+  }
+}
+
+const csvProjectId = (name: string) => `csv:${name}`;
+
+export function getSelectedTimeProvider(): TimeProviderName {
+  return (settingsDb.get('time_provider') as TimeProviderName | undefined) || 'everhour';
+}
+
+export function createTimeProvider(name: TimeProviderName = getSelectedTimeProvider()): TimeTrackingProvider {
+  switch (name) {
+    case 'toggl':
+      return new TogglTimeProvider();
+    case 'clockify':
+      return new ClockifyTimeProvider();
+    case 'csv':
+      return new CsvTimeProvider();
+    default:
+      return new EverhourTimeProvider();
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { parseBankStatement, parseStatementAmount } from './bank-statement-parser';
+
+describe('parseStatementAmount', () => {
+  it.each([
+    ['1 230,00', 123000],
+    ['-50,5 PLN', -5050],
+    ['1.234,56', 123456],
+    ['1,234.56', 123456],
+    ['1 234 567.8', 123456780],
+    ['+12', 1200],
+  ])('reads %s', (value, grosze) => {
+    expect(parseStatementAmount(value)).toBe(grosze);
+  });
+
+  it.each(['abc', '12,345', ''])('rejects %s', (value) => {
+    expect(() => parseStatementAmount(value)).toThrow('Invalid amount in statement');
+  });
+});
+
+describe('parseBankStatement', () => {
+  it('reads CSV rows whose quoted title spans lines', () => {
+    const csv = [
+      '#Data operacji;#Opis operacji;#Tytuł;#Nadawca/Odbiorca;#Kwota;',
+      '2026-10-01;PRZELEW;"FV/2026/10/0001',
+      'i FV/2026/10/0002";"Klient; Sp. z o.o.";"1.845,00 PLN";',
+      '2026-10-02;PRZELEW;Zaliczka;Klient;500,00;',
+    ].join('\r\n');
+
+    const statement = parseBankStatement(csv);
+
+    expect(statement.bank).toBe('mbank');
+    expect(statement.unreadable).toEqual([]);
+    expect(statement.transactions.map((t) => [t.title, t.counterparty_name, t.amount_grosze])).toEqual([
+      ['FV/2026/10/0001 i FV/2026/10/0002', 'Klient; Sp. z o.o.', 184500],
+      ['Zaliczka', 'Klient', 50000],
+    ]);
+  });
+
+  it('leaves out and reports CSV rows with an unreadable amount', () => {
+    const csv = [
+      '#Data operacji;#Tytuł;#Kwota;',
+      '2026-10-01;A;100,00;',
+      '2026-10-02;B;sto złotych;',
+      '2026-10-03;C;200,00;',
+      ';Saldo końcowe;300,00;',
+    ].join('\n');
+
+    const statement = parseBankStatement(csv);
+
+    expect(statement.transactions.map((t) => t.title)).toEqual(['A', 'C']);
+    expect(statement.unreadable).toEqual(['Line 3: Invalid amount in statement: sto złotych']);
+  });
+
+  it('reads MT940 and reports :61: lines it does not recognise', () => {
+    const mt940 = [
+      ':20:STATEMENT',
+      ':25:/PL61109010140000071219812874',
+      ':60F:C261001PLN0,00',
+      ':61:2610011001C1845,00NTRFNONREF//B1',
+      ':86:020~00PRZELEW~20FV/2026/10/0001~32KLIENT',
+      ':61:garbage',
+      ':86:~20???',
+      ':61:2610021002D10,00NTRFNONREF',
+      ':86:~20Opłata',
+      '-',
+    ].join('\n');
+
+    const statement = parseBankStatement(mt940);
+
+    expect(statement.account).toBe('61109010140000071219812874');
+    expect(statement.transactions.map((t) => [t.title, t.amount_grosze, t.counterparty_name])).toEqual([
+      ['FV/2026/10/0001', 184500, 'KLIENT'],
+      ['Opłata', -1000, null],
+    ]);
+    expect(statement.unreadable).toEqual(['Unrecognised :61: line: garbage']);
+  });
+});
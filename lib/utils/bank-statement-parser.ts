@@ -0,0 +1,221 @@
+import type { ParsedBankStatement, ParsedBankTransaction } from '@/types';
+import { detectCsvDelimiter, parseCsv } from './csv';
+
+// Bank statements: MT940 (SWIFT, Polish :86: subfields) and the CSV exports of mBank and ING.
+
+export function normalizeAccountNumber(value: string): string | null {
+  const compact = value.replace(/[\s-]/g, '').toUpperCase();
+  const match = /^(?:PL)?(\d{26})$/.exec(compact) ?? /(?:PL)?(\d{26})/.exec(compact);
+  return match ? match[1] : null;
+}
+
+// "1 230,00", "-50,5 PLN", "1.234,56" or "1,234.56" -> grosze; the last separator is the decimal point
+export function parseStatementAmount(value: string): number {
+  const compact = value.replace(/[\s\u00a0']/g, '').replace(/[A-Z]{3}$/i, '');
+  const decimalAt = Math.max(compact.lastIndexOf(','), compact.lastIndexOf('.'));
+  const cleaned =
+    decimalAt === -1
+      ? compact
+      : `${compact.slice(0, decimalAt).replace(/[.,]/g, '')}.${compact.slice(decimalAt + 1)}`;
+  const match = /^([+-]?)(\d+)(?:\.(\d{1,2}))?$/.exec(cleaned);
+  if (!match) throw new Error(`Invalid amount in statement: ${value}`);
+
+  const grosze = Number(match[2]) * 100 + Number((match[3] ?? '').padEnd(2, '0'));
+  return match[1] === '-' ? -grosze : grosze;
+}
+
+function parseStatementDate(value: string): string | null {
+  const v = value.trim();
+  let m = /^(\d{4})-(\d{2})-(\d{2})/.exec(v);
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+  m = /^(\d{2})[.\-/](\d{2})[.\-/](\d{4})$/.exec(v);
+  if (m) return `${m[3]}-${m[2]}-${m[1]}`;
+  return null;
+}
+
+export function detectStatementFormat(content: string): 'mt940' | 'csv' {
+  return /^:20:/m.test(content) && /^:61:/m.test(content) ? 'mt940' : 'csv';
+}
+
+export function parseBankStatement(content: string): ParsedBankStatement {
+  return detectStatementFormat(content) === 'mt940' ? parseMt940(content) : parseBankCsv(content);
+}
+
+// --- MT940 ---
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+function splitMt940Fields(content: string): Mt940Field[] {
+  const fields: Mt940Field[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+$/, '');
+    const tagMatch = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (tagMatch) {
+      fields.push({ tag: tagMatch[1], value: tagMatch[2] });
+    } else if (fields.length > 0 && line && !/^-\}?$/.test(line) && !line.startsWith('{')) {
+      // Continuation of a wrapped field
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+  return fields;
+}
+
+// :61:YYMMDD[MMDD](C|D|RC|RD)[funds code]amount N+type reference[//bank reference]
+const MT940_61 = /^(\d{2})(\d{2})(\d{2})(?:\d{4})?(RC|RD|C|D)[A-Z]?(\d+,\d{0,2})[A-Z][A-Z0-9]{3}([^\n]*?)(?:\/\/([^\n]*))?(?:\n|$)/;
+
+// Polish banks put structured data in :86: as ~NN (or <NN) subfields
+function parseMt940Details(value: string): { title: string; name: string | null; account: string | null } {
+  const flat = value.replace(/\r?\n/g, '');
+  const sep = /^(?:\d{3})?([~<^])\d{2}/.exec(flat)?.[1];
+  if (!sep) return { title: flat.trim(), name: null, account: null };
+
+  const sub = new Map<string, string>();
+  for (const part of flat.split(sep).slice(1)) {
+    const code = part.slice(0, 2);
+    sub.set(code, (sub.get(code) ?? '') + part.slice(2));
+  }
+  const join = (codes: string[]) =>
+    codes
+      .map((c) => sub.get(c) ?? '')
+      .join('')
+      .trim();
+
+  const title = join(['20', '21', '22', '23', '24', '25', '26', '60', '61', '62', '63']);
+  const name = join(['27', '28', '32', '33']);
+  const account = normalizeAccountNumber(sub.get('38') ?? '') ?? normalizeAccountNumber(join(['30', '31']));
+
+  return { title: title || flat.trim(), name: name || null, account };
+}
+
+export function parseMt940(content: string): ParsedBankStatement {
+  const fields = splitMt940Fields(content);
+  let account: string | null = null;
+  let currency = 'PLN';
+  const transactions: ParsedBankTransaction[] = [];
+  const unreadable: string[] = [];
+
+  for (let i = 0; i < fields.length; i++) {
+    const { tag, value } = fields[i];
+
+    if (tag === '25') {
+      account = account ?? normalizeAccountNumber(value.replace(/^\//, ''));
+    } else if (tag === '60F' || tag === '60M') {
+      currency = value.slice(7, 10) || currency;
+    } else if (tag === '61') {
+      const m = MT940_61.exec(value);
+      if (!m) {
+        unreadable.push(`Unrecognised :61: line: ${value.split('\n')[0]}`);
+        continue;
+      }
+
+      const [, yy, mm, dd, mark, amountRaw, customerRef, bankRef] = m;
+      const amount = parseStatementAmount(amountRaw);
+      // RD reverses a debit (money in), RC reverses a credit (money out)
+      const incoming = mark === 'C' || mark === 'RD';
+
+      const next = fields[i + 1]?.tag === '86' ? parseMt940Details(fields[i + 1].value) : null;
+      const reference = bankRef?.trim() || (customerRef.trim() && customerRef.trim() !== 'NONREF' ? customerRef.trim() : null);
+
+      transactions.push({
+        booking_date: `20${yy}-${mm}-${dd}`,
+        amount_grosze: incoming ? amount : -amount,
+        currency,
+        title: next?.title ?? '',
+        counterparty_name: next?.name ?? null,
+        counterparty_account: next?.account ?? null,
+        reference,
+      });
+    }
+  }
+
+  if (transactions.length === 0 && !fields.some((f) => f.tag === '20')) {
+    throw new Error('Not an MT940 statement');
+  }
+
+  return { format: 'mt940', bank: null, account, transactions, unreadable };
+}
+
+// --- CSV (mBank, ING) ---
+
+// ING wraps account and transaction numbers in apostrophes so spreadsheets keep them as text
+const unquoteCell = (cell: string) => cell.replace(/^'([\s\S]*)'$/, '$1');
+
+const normalizeHeader = (cell: string) => cell.replace(/^#/, '').trim().toLowerCase();
+
+function findColumn(headers: string[], candidates: string[]): number {
+  for (const candidate of candidates) {
+    const index = headers.indexOf(candidate);
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+export function parseBankCsv(content: string): ParsedBankStatement {
+  const rows = parseCsv(content, detectCsvDelimiter(content)).map((row) => ({ ...row, cells: row.cells.map(unquoteCell) }));
+
+  const headerIndex = rows.findIndex((row) => {
+    const cells = row.cells.map(normalizeHeader);
+    return cells.some((c) => c.startsWith('data')) && cells.some((c) => c.startsWith('kwota'));
+  });
+  if (headerIndex === -1) throw new Error('Unrecognised CSV statement: no header with date and amount columns');
+  const headers = rows[headerIndex].cells.map(normalizeHeader);
+
+  const col = {
+    date: findColumn(headers, ['data księgowania', 'data operacji', 'data transakcji', 'data']),
+    amount: findColumn(headers, ['kwota transakcji (waluta rachunku)', 'kwota', 'kwota operacji']),
+    title: findColumn(headers, ['tytuł', 'opis operacji', 'opis']),
+    name: findColumn(headers, ['nadawca/odbiorca', 'dane kontrahenta', 'kontrahent']),
+    account: findColumn(headers, ['numer konta', 'nr rachunku', 'rachunek kontrahenta']),
+    reference: findColumn(headers, ['nr transakcji', 'numer referencyjny']),
+  };
+  if (col.date === -1 || col.amount === -1) {
+    throw new Error('Unrecognised CSV statement: missing date or amount column');
+  }
+  // ING repeats "Waluta" after each amount column; take the one next to the amount
+  const currencyCol = headers[col.amount + 1] === 'waluta' ? col.amount + 1 : headers.indexOf('waluta');
+
+  const preamble = rows
+    .slice(0, headerIndex)
+    .map((row) => row.cells.join(' '))
+    .join('\n');
+  const account = normalizeAccountNumber(/(?:PL)?\d{2}(?:[\s-]?\d{4}){6}/.exec(preamble)?.[0] ?? '');
+  const bank = headers.includes('dane kontrahenta')
+    ? 'ing'
+    : rows[headerIndex].cells.some((c) => c.startsWith('#')) || /mbank/i.test(preamble)
+      ? 'mbank'
+      : null;
+
+  const transactions: ParsedBankTransaction[] = [];
+  const unreadable: string[] = [];
+  for (const { line, cells } of rows.slice(headerIndex + 1)) {
+    const date = parseStatementDate(cells[col.date] ?? '');
+    // Summary rows at the bottom of mBank exports have no date
+    if (!date || !cells[col.amount]) continue;
+
+    const amountCell = cells[col.amount];
+    let amount: number;
+    try {
+      amount = parseStatementAmount(amountCell);
+    } catch (error) {
+      unreadable.push(`Line ${line}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    const currency =
+      (currencyCol !== -1 && cells[currencyCol]) || /([A-Z]{3})\s*$/.exec(amountCell)?.[1] || 'PLN';
+
+    transactions.push({
+      booking_date: date,
+      amount_grosze: amount,
+      currency: currency.toUpperCase(),
+      title: col.title !== -1 ? cells[col.title].replace(/\s+/g, ' ') : '',
+      counterparty_name: col.name !== -1 ? cells[col.name].replace(/\s+/g, ' ') || null : null,
+      counterparty_account: col.account !== -1 ? normalizeAccountNumber(cells[col.account] ?? '') : null,
+      reference: col.reference !== -1 ? cells[col.reference] || null : null,
+    });
+  }
+
+  return { format: 'csv', bank, account, transactions, unreadable };
+}
@@ -0,0 +1,45 @@
+// ISO 3166 codes of EU member states and the prefixes of their VAT numbers (Greece uses EL)
+const EU_VAT_PREFIXES: Record<string, string> = {
+  AT: 'AT', BE: 'BE', BG: 'BG', CY: 'CY', CZ: 'CZ', DE: 'DE', DK: 'DK', EE: 'EE', ES: 'ES',
+  FI: 'FI', FR: 'FR', GR: 'EL', HR: 'HR', HU: 'HU', IE: 'IE', IT: 'IT', LT: 'LT', LU: 'LU',
+  LV: 'LV', MT: 'MT', NL: 'NL', PL: 'PL', PT: 'PT', RO: 'RO', SE: 'SE', SI: 'SI', SK: 'SK',
+};
+
+export const DOMESTIC_COUNTRY_CODE = 'PL';
+
+export function getEuVatPrefix(countryCode: string): string | null {
+  return EU_VAT_PREFIXES[countryCode] ?? null;
+}
+
+export function isForeignEuCountry(countryCode: string): boolean {
+  return countryCode !== DOMESTIC_COUNTRY_CODE && getEuVatPrefix(countryCode) !== null;
+}
+
+// Tax number as printed: EU VAT numbers carry their country prefix
+export function formatTaxId(taxId: string, countryCode: string): string {
+  const prefix = countryCode === DOMESTIC_COUNTRY_CODE ? null : getEuVatPrefix(countryCode);
+  return prefix ? `${prefix}${taxId}` : taxId;
+}
+
+/**
+ * Tax number of a client as stored: the 10 digits of a Polish NIP, the VAT number of an EU
+ * client without its country prefix, or the tax id of another country as given.
+ */
+export function normalizeTaxId(taxId: string, countryCode: string): string {
+  if (countryCode === DOMESTIC_COUNTRY_CODE) {
+    const nip = taxId.replace(/[^\d]/g, '');
+    if (!/^\d{10}$/.test(nip)) throw new Error('Invalid NIP format (must be 10 digits)');
+    return nip;
+  }
+
+  const compact = taxId.replace(/[\s.-]/g, '').toUpperCase();
+  const prefix = getEuVatPrefix(countryCode);
+  if (prefix) {
+    const vatNumber = compact.startsWith(prefix) ? compact.slice(prefix.length) : compact;
+    if (!/^[\dA-Z+*]{1,12}$/.test(vatNumber)) throw new Error(`Invalid ${prefix} VAT number`);
+    return vatNumber;
+  }
+
+  if (!compact || compact.length > 50) throw new Error('Invalid tax id (1-50 characters)');
+  return compact;
+}
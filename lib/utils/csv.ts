@@ -0,0 +1,64 @@
+// Minimal CSV reading shared by the statement and timesheet importers
+
+export interface CsvRow {
+  line: number; // 1-based line of the file the row starts on
+  cells: string[];
+}
+
+/**
+ * Rows of a CSV file, read in one pass so quoted cells may hold delimiters and line breaks.
+ * Drops the byte-order mark Excel adds to UTF-8 exports; blank lines come back as one empty cell.
+ */
+export function parseCsv(content: string, delimiter: string): CsvRow[] {
+  const text = content.replace(/^﻿/, '');
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(current);
+    rows.push({ line: rowLine, cells: cells.map((c) => c.trim()) });
+    cells = [];
+    current = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\r' && text[i + 1] === '\n') continue;
+    if (ch === '\n') line++;
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(current);
+      current = '';
+    } else if (ch === '\n') {
+      endRow();
+      rowLine = line;
+    } else {
+      current += ch;
+    }
+  }
+  if (current || cells.length > 0) endRow();
+
+  return rows;
+}
+
+export const isBlankCsvRow = (row: CsvRow) => row.cells.every((c) => !c);
+
+// Polish exports use semicolons because the comma is the decimal separator
+export function detectCsvDelimiter(content: string): ';' | ',' {
+  return content.includes(';') ? ';' : ',';
+}
@@ -83,3 +83,28 @@ export function isValidMonth(month: string): boolean {
   }
 }
 
+
+/**
+ * List the months touched by a date range
+ * @param from - Start date in YYYY-MM-DD format
+ * @param to - End date in YYYY-MM-DD format (inclusive)
+ * @returns Month strings in YYYY-MM format, oldest first
+ */
+export function getMonthsInRange(from: string, to: string): string[] {
+  const months: string[] = [];
+  for (let month = from.slice(0, 7); month <= to.slice(0, 7); month = addMonths(month, 1)) {
+    months.push(month);
+  }
+  return months;
+}
+
+/**
+ * Get the calendar quarter a month belongs to
+ * @param month - Month string in YYYY-MM format
+ * @returns First and last month of the quarter in YYYY-MM format
+ */
+export function getQuarterMonths(month: string): { from: string; to: string } {
+  const firstMonth = Math.floor((Number(month.slice(5, 7)) - 1) / 3) * 3 + 1;
+  const from = `${month.slice(0, 4)}-${String(firstMonth).padStart(2, '0')}`;
+  return { from, to: addMonths(from, 2) };
+}
@@ -0,0 +1,71 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import type { DocumentMimeType } from '@/types';
+import { assertSafeFilename } from './invoice-files';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const DOCUMENTS_DIR = path.join(DATA_DIR, 'documents');
+const THUMBNAILS_DIR = path.join(DOCUMENTS_DIR, 'thumbnails');
+
+const EXTENSIONS: Record<DocumentMimeType, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+};
+
+const THUMBNAIL_SIZE = 240;
+
+/**
+ * Type from the file's leading bytes; the uploaded name and Content-Type are not trusted.
+ * Returns null for anything but PDF, JPEG or PNG.
+ */
+export function detectDocumentMimeType(content: Buffer): DocumentMimeType | null {
+  if (content.subarray(0, 5).toString('latin1') === '%PDF-') return 'application/pdf';
+  if (content[0] === 0xff && content[1] === 0xd8 && content[2] === 0xff) return 'image/jpeg';
+  if (content.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  return null;
+}
+
+export async function ensureDocumentDirectories(): Promise<void> {
+  await fs.mkdir(DOCUMENTS_DIR, { recursive: true });
+  await fs.mkdir(THUMBNAILS_DIR, { recursive: true });
+}
+
+// Stored under a generated name; the uploaded filename only ever reaches the database
+export function newDocumentPath(mimeType: DocumentMimeType): string {
+  const filename = `${randomUUID()}.${EXTENSIONS[mimeType]}`;
+  assertSafeFilename(filename);
+  const full = path.join(DOCUMENTS_DIR, filename);
+  if (!full.startsWith(DOCUMENTS_DIR + path.sep)) throw new Error('Resolved document path escapes base directory');
+  return full;
+}
+
+export function getThumbnailPath(documentPath: string): string {
+  const filename = `${path.basename(documentPath, path.extname(documentPath))}.jpg`;
+  assertSafeFilename(filename);
+  const full = path.join(THUMBNAILS_DIR, filename);
+  if (!full.startsWith(THUMBNAILS_DIR + path.sep)) throw new Error('Resolved thumbnail path escapes base directory');
+  return full;
+}
+
+/** Small JPEG preview of a scanned receipt; PDFs have none. */
+export async function createThumbnail(content: Buffer, mimeType: DocumentMimeType): Promise<Buffer | null> {
+  if (mimeType === 'application/pdf') return null;
+  return sharp(content)
+    .rotate() // honour the EXIF orientation of phone photos
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 75 })
+    .toBuffer();
+}
+
+// Upload names end up in Content-Disposition; keep them to one printable line
+export function sanitizeOriginalName(name: string): string {
+  const cleaned = path
+    .basename(name.replace(/\\/g, '/'))
+    .replace(/[\u0000-\u001f\u007f"]/g, '')
+    .trim()
+    .slice(0, 200);
+  return cleaned || 'document';
+}
@@ -0,0 +1,22 @@
+import type { Expense } from '@/types';
+
+// Fuel log entries hold the gross price; fuel in Poland carries 23% VAT
+const FUEL_VAT_RATE = 23;
+
+/**
+ * What an expense costs the business: the net amount plus the VAT that cannot be
+ * deducted (e.g. half of it for a car that is also used privately).
+ */
+export function expenseCostGrosze(expense: Pick<Expense, 'net_grosze' | 'vat_grosze' | 'vat_deductible_percent'>): number {
+  return expense.net_grosze + Math.round((expense.vat_grosze * (100 - expense.vat_deductible_percent)) / 100);
+}
+
+export function deductibleVatGrosze(expense: Pick<Expense, 'vat_grosze' | 'vat_deductible_percent'>): number {
+  return Math.round((expense.vat_grosze * expense.vat_deductible_percent) / 100);
+}
+
+export function fuelExpenseAmounts(totalAmount: number): Pick<Expense, 'net_grosze' | 'vat_rate' | 'vat_grosze' | 'gross_grosze'> {
+  const grossGrosze = Math.round(totalAmount * 100);
+  const netGrosze = Math.round(grossGrosze / (1 + FUEL_VAT_RATE / 100));
+  return { net_grosze: netGrosze, vat_rate: FUEL_VAT_RATE, vat_grosze: grossGrosze - netGrosze, gross_grosze: grossGrosze };
+}
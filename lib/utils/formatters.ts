@@ -31,3 +31,9 @@ export function secondsToHours(seconds: number): number {
   return seconds / 3600;
 }
 
+
+// Change from previous to current in percent, one decimal; null when there is nothing to compare with
+export function percentageChange(current: number, previous: number | undefined): number | null {
+  if (previous === undefined || previous === 0) return null;
+  return Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10;
+}
@@ -0,0 +1,30 @@
+// SQL fragments for the payment state of an invoice aliased as `i`.
+// Kept in SQL so invoice lists can filter on them.
+
+export const PAID_SQL = `COALESCE((SELECT SUM(p.amount_grosze) FROM payments p WHERE p.invoice_id = i.id), 0)`;
+
+// Issued corrections change what the buyer owes; every correction in a chain points at its first invoice
+export const DUE_SQL = `(i.total_grosze + COALESCE((
+  SELECT SUM(k.total_grosze) FROM invoices k WHERE k.corrected_invoice_id = i.id AND k.status = 'issued'
+), 0))`;
+
+export const PAYMENT_STATUS_SQL = `(CASE
+  WHEN i.status != 'issued' OR i.invoice_type != 'VAT' THEN NULL
+  WHEN ${PAID_SQL} >= ${DUE_SQL} THEN 'paid'
+  WHEN ${PAID_SQL} > 0 THEN 'partially_paid'
+  ELSE 'unpaid'
+END)`;
+
+export const DAYS_OVERDUE_SQL = `(CASE
+  WHEN ${PAYMENT_STATUS_SQL} IN ('unpaid', 'partially_paid') AND i.payment_deadline < date('now', 'localtime')
+    THEN CAST(julianday(date('now', 'localtime')) - julianday(i.payment_deadline) AS INTEGER)
+  ELSE 0
+END)`;
+
+export const INVOICE_BALANCE_COLUMNS = `
+  ${DUE_SQL} AS due_grosze,
+  ${PAID_SQL} AS paid_grosze,
+  MAX(${DUE_SQL} - ${PAID_SQL}, 0) AS outstanding_grosze,
+  ${PAYMENT_STATUS_SQL} AS payment_status,
+  ${DAYS_OVERDUE_SQL} AS days_overdue
+`;
@@ -1,4 +1,4 @@
-import type { VatRate } from '@/types';
+import type { Invoice, VatRate } from '@/types';
 
 function divRound(numerator: bigint, denominator: bigint): bigint {
   if (denominator === 0n) throw new Error('Division by zero');
@@ -22,6 +22,13 @@ export function normalizeQuantity(quantity: string): string {
   return fracNorm ? `${intNorm}.${fracNorm}` : intNorm;
 }
 
+// Tracked seconds -> hours quantity, rounded to the 3 decimals an invoice line allows
+export function secondsToQuantity(seconds: number): string {
+  const milli = Math.round((seconds * 1000) / 3600);
+  const fraction = String(milli % 1000).padStart(3, '0');
+  return normalizeQuantity(`${Math.floor(milli / 1000)}.${fraction}`);
+}
+
 export function quantityToMilli(quantity: string): bigint {
   const q = quantity.trim().replace(',', '.');
   const [intPart, fracPartRaw] = q.split('.');
@@ -53,6 +60,38 @@ export function groszeToPlnString(grosze: number): string {
   return `${sign}${zl}.${gr}`;
 }
 
+// Exchange rates are kept as decimal strings (NBP publishes 4 decimals; FA(3) allows up to 6)
+export function normalizeExchangeRate(rate: string): string {
+  const r = rate.trim().replace(',', '.');
+  if (!/^\d+(\.\d{1,6})?$/.test(r)) {
+    throw new Error('Invalid exchange rate format');
+  }
+  const [intPart, fracRaw] = r.split('.');
+  const frac = (fracRaw ?? '').replace(/0+$/, '');
+  const normalized = frac ? `${String(Number(intPart))}.${frac}` : String(Number(intPart));
+  if (/^0(\.0*)?$/.test(normalized)) throw new Error('Exchange rate must be greater than 0');
+  return normalized;
+}
+
+// Amount in a foreign currency (minor units) -> PLN grosze at the given rate
+export function convertToPlnGrosze(amountMinor: number, rate: string): number {
+  const [intPart, fracRaw] = normalizeExchangeRate(rate).split('.');
+  const scale = BigInt(1_000_000);
+  const rateMicro = BigInt(intPart) * scale + BigInt((fracRaw ?? '').padEnd(6, '0'));
+  const pln = divRound(BigInt(amountMinor) * rateMicro, scale);
+  if (pln > BigInt(Number.MAX_SAFE_INTEGER) || pln < -BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error('Amount too large');
+  }
+  return Number(pln);
+}
+
+// Net amount of an invoice in PLN grosze; foreign-currency invoices count at the rate they were issued with
+export function invoiceNetPlnGrosze(invoice: Pick<Invoice, 'currency' | 'exchange_rate' | 'subtotal_grosze'>): number {
+  return invoice.currency === 'PLN' || !invoice.exchange_rate
+    ? invoice.subtotal_grosze
+    : convertToPlnGrosze(invoice.subtotal_grosze, invoice.exchange_rate);
+}
+
 export function vatRateToNumber(rate: VatRate): number {
   if (rate === 'ZW' || rate === 'NP') return 0;
   return rate;
@@ -100,3 +139,17 @@ export function calculateInvoiceTotals(items: Array<{ net_grosze: number; vat_gr
 }
 
 
+
+// Correction invoices carry the difference between the state after and before correction.
+export function calculateCorrectionTotals(
+  before: Array<{ net_grosze: number; vat_grosze: number; gross_grosze: number }>,
+  after: Array<{ net_grosze: number; vat_grosze: number; gross_grosze: number }>
+): { subtotal_grosze: number; tax_grosze: number; total_grosze: number } {
+  const b = calculateInvoiceTotals(before);
+  const a = calculateInvoiceTotals(after);
+  return {
+    subtotal_grosze: a.subtotal_grosze - b.subtotal_grosze,
+    tax_grosze: a.tax_grosze - b.tax_grosze,
+    total_grosze: a.total_grosze - b.total_grosze,
+  };
+}
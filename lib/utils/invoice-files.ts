@@ -5,8 +5,10 @@ const DATA_DIR = path.join(process.cwd(), 'data');
 const INVOICES_DIR = path.join(DATA_DIR, 'invoices');
 const XML_DIR = path.join(INVOICES_DIR, 'xml');
 const PDF_DIR = path.join(INVOICES_DIR, 'pdf');
+const UPO_DIR = path.join(INVOICES_DIR, 'upo');
+const JPK_DIR = path.join(INVOICES_DIR, 'jpk');
 
-function assertSafeFilename(name: string): void {
+export function assertSafeFilename(name: string): void {
   if (!name || name.length > 255) throw new Error('Invalid filename');
   if (name.includes('/') || name.includes('\\')) throw new Error('Invalid filename (path separators)');
   if (name.includes('..')) throw new Error('Invalid filename (path traversal)');
@@ -34,6 +36,8 @@ export function sanitizeFilenameFromInvoiceNumber(invoiceNumber: string, ext: 'x
 export async function ensureInvoiceDirectories(): Promise<void> {
   await fs.mkdir(XML_DIR, { recursive: true });
   await fs.mkdir(PDF_DIR, { recursive: true });
+  await fs.mkdir(UPO_DIR, { recursive: true });
+  await fs.mkdir(JPK_DIR, { recursive: true });
 }
 
 export function getXmlPath(invoiceNumber: string): string {
@@ -51,4 +55,27 @@ export function getPdfPath(invoiceNumber: string): string {
   return full;
 }
 
+// UPO files share the invoice's XML filename in their own directory
+export function getUpoPath(invoiceNumber: string): string {
+  const filename = sanitizeFilenameFromInvoiceNumber(invoiceNumber, 'xml');
+  const full = path.join(UPO_DIR, filename);
+  if (!full.startsWith(UPO_DIR + path.sep)) throw new Error('Resolved UPO path escapes base directory');
+  return full;
+}
+
+// One JPK_V7M file per month, overwritten on every export
+export function getJpkV7mPath(month: string): string {
+  if (!/^\d{4}-\d{2}$/.test(month)) throw new Error('Invalid month');
+  return path.join(JPK_DIR, getJpkV7mFilename(month));
+}
 
+export function getJpkV7mFilename(month: string): string {
+  return `JPK_V7M-${month}.xml`;
+}
+
+// Logbooks are generated on every download, so only the name is needed
+export function getLogbookPdfFilename(registrationNumber: string, month: string): string {
+  const filename = `ewidencja-przebiegu-${registrationNumber}-${month}.pdf`;
+  assertSafeFilename(filename);
+  return filename;
+}
@@ -1,10 +1,34 @@
-import db, { invoiceSequencesDb, invoicesDb } from '@/lib/db';
+import db, { invoiceSequencesDb, invoicesDb, settingsDb } from '@/lib/db';
+import type { InvoiceType, NumberingReset } from '@/types';
+import {
+  DEFAULT_NUMBERING,
+  NumberingScheme,
+  formatNumberingTemplate,
+  getNumberingPeriod,
+  validateNumberingTemplate,
+} from './numbering-template';
 
-export function formatInvoiceNumber(year: number, month: number, sequence: number): string {
-  const yyyy = String(year).padStart(4, '0');
-  const mm = String(month).padStart(2, '0');
-  const nnnn = String(sequence).padStart(4, '0');
-  return `FV/${yyyy}/${mm}/${nnnn}`;
+const NUMBERING_SETTING_KEYS: Record<InvoiceType, { template: string; reset: string }> = {
+  VAT: { template: 'invoice_number_template', reset: 'invoice_number_reset' },
+  KOR: { template: 'correction_number_template', reset: 'correction_number_reset' },
+  PRO: { template: 'proforma_number_template', reset: 'proforma_number_reset' },
+};
+
+const NUMBERING_RESETS: NumberingReset[] = ['monthly', 'yearly', 'never'];
+
+export function getNumberingScheme(type: InvoiceType): NumberingScheme {
+  const keys = NUMBERING_SETTING_KEYS[type];
+  const template = settingsDb.get(keys.template)?.trim();
+  const reset = settingsDb.get(keys.reset) as NumberingReset | undefined;
+
+  return {
+    template: template && validateNumberingTemplate(template) === null ? template : DEFAULT_NUMBERING[type].template,
+    reset: reset && NUMBERING_RESETS.includes(reset) ? reset : DEFAULT_NUMBERING[type].reset,
+  };
+}
+
+export function formatInvoiceNumber(template: string, year: number, month: number, sequence: number): string {
+  return formatNumberingTemplate(template, year, month, sequence);
 }
 
 export function parseYearMonth(issueDate: string): { year: number; month: number } {
@@ -19,7 +43,7 @@ export function parseYearMonth(issueDate: string): { year: number; month: number
   return { year, month };
 }
 
-export function generateNextInvoiceNumber(issueDate: string, manualOverride?: string): string {
+export function generateNextInvoiceNumber(issueDate: string, manualOverride?: string, type: InvoiceType = 'VAT'): string {
   if (manualOverride) {
     const trimmed = manualOverride.trim();
     if (!trimmed) throw new Error('Invoice number cannot be empty');
@@ -30,22 +54,22 @@ export function generateNextInvoiceNumber(issueDate: string, manualOverride?: st
   }
 
   const { year, month } = parseYearMonth(issueDate);
+  const { template, reset } = getNumberingScheme(type);
+  const period = getNumberingPeriod(reset, year, month);
 
   const tx = db.transaction(() => {
-    const existing = invoiceSequencesDb.get(year, month);
-    const next = (existing?.last_number ?? 0) + 1;
-    invoiceSequencesDb.upsert(year, month, next);
-    return formatInvoiceNumber(year, month, next);
-  });
+    let next = (invoiceSequencesDb.get(type, period)?.last_number ?? 0) + 1;
+    let generated = formatInvoiceNumber(template, year, month, next);
 
-  const generated = tx();
+    // Template or reset changes (or manual numbers) can make a counter land on a taken number; skip past it
+    while (invoicesDb.getByNumber(generated)) {
+      next++;
+      generated = formatInvoiceNumber(template, year, month, next);
+    }
 
-  // Extra guard: should not happen with sequences, but keep it safe.
-  if (invoicesDb.getByNumber(generated)) {
-    throw new Error('Generated invoice number already exists');
-  }
+    invoiceSequencesDb.upsert(type, period, next);
+    return generated;
+  });
 
-  return generated;
+  return tx();
 }
-
-
@@ -1,25 +1,34 @@
 import PDFDocument from 'pdfkit';
 import type { Invoice, InvoiceItem, Client } from '@/types';
 import type { CompanySettings } from '@/types/settings';
-import { groszeToPlnString } from './invoice-calculations';
+import { formatTaxId } from './countries';
+import { convertToPlnGrosze, groszeToPlnString } from './invoice-calculations';
+import { registerPdfFonts } from './pdf-fonts';
 
 export interface InvoicePdfData {
   invoice: Invoice;
   client: Client;
   company: CompanySettings;
   items: InvoiceItem[];
+  correctedInvoice?: Invoice | null;
+  proforma?: Invoice | null; // proforma a VAT invoice was converted from
 }
 
+const LEFT_COLUMN = 50;
+
 export function generateInvoicePdf(data: InvoicePdfData): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     try {
-      const { invoice, client, company, items } = data;
+      const { invoice, client, company, items, correctedInvoice, proforma } = data;
+      const isCorrection = invoice.invoice_type === 'KOR';
+      const isProforma = invoice.invoice_type === 'PRO';
+      const title = isCorrection ? 'FAKTURA KORYGUJĄCA' : isProforma ? 'FAKTURA PROFORMA' : 'FAKTURA VAT';
 
       const doc = new PDFDocument({
         size: 'A4',
         margin: 50,
         info: {
-          Title: `Faktura ${invoice.invoice_number}`,
+          Title: `${isProforma ? 'Proforma' : 'Faktura'} ${invoice.invoice_number}`,
           Author: company.company_name || 'Company',
           Subject: `Invoice ${invoice.invoice_number}`,
           Creator: 'Freelance Dashboard',
@@ -32,39 +41,27 @@ export function generateInvoicePdf(data: InvoicePdfData): Promise<Buffer> {
       doc.on('end', () => resolve(Buffer.concat(buffers)));
       doc.on('error', reject);
 
-      // Register system fonts that support Polish characters
-      // macOS: Use system fonts, Linux: fallback to DejaVu, Windows: Arial
-      try {
-        // Try macOS system fonts first
-        doc.registerFont('Regular', '/System/Library/Fonts/Supplemental/Arial.ttf');
-        doc.registerFont('Bold', '/System/Library/Fonts/Supplemental/Arial Bold.ttf');
-        doc.registerFont('Italic', '/System/Library/Fonts/Supplemental/Arial Italic.ttf');
-      } catch {
-        try {
-          // Fallback to Linux DejaVu fonts
-          doc.registerFont('Regular', '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf');
-          doc.registerFont('Bold', '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf');
-          doc.registerFont('Italic', '/usr/share/fonts/truetype/dejavu/DejaVuSans-Oblique.ttf');
-        } catch {
-          // Final fallback: use Courier (monospace but works)
-          doc.registerFont('Regular', 'Courier');
-          doc.registerFont('Bold', 'Courier-Bold');
-          doc.registerFont('Italic', 'Courier-Oblique');
-        }
-      }
-      
+      registerPdfFonts(doc);
+
       const regularFont = 'Regular';
       const boldFont = 'Bold';
       const italicFont = 'Italic';
 
       // Header
-      doc.fontSize(24).font(boldFont).text('FAKTURA VAT', { align: 'center' });
+      doc.fontSize(24).font(boldFont).text(title, { align: 'center' });
       doc.moveDown(0.5);
       doc.fontSize(12).font(regularFont).text(invoice.invoice_number, { align: 'center' });
+      if (isProforma) {
+        doc.moveDown(0.3);
+        doc
+          .fontSize(9)
+          .font(italicFont)
+          .text('Dokument nie jest fakturą VAT i nie stanowi podstawy do odliczenia podatku', { align: 'center' });
+      }
   doc.moveDown(1.5);
 
   // Seller and Buyer blocks side by side
-  const leftColumn = 50;
+  const leftColumn = LEFT_COLUMN;
   const rightColumn = 320;
   const currentY = doc.y;
 
@@ -98,7 +95,7 @@ export function generateInvoicePdf(data: InvoicePdfData): Promise<Buffer> {
       doc.moveDown(0.3);
       doc.font(regularFont);
   doc.text(client.name, rightColumn);
-  doc.text(`NIP: ${client.nip}`, rightColumn);
+  doc.text(`NIP: ${formatTaxId(client.nip, client.country_code)}`, rightColumn);
   if (client.address) {
     doc.text(client.address, rightColumn);
   }
@@ -123,57 +120,35 @@ export function generateInvoicePdf(data: InvoicePdfData): Promise<Buffer> {
   doc.text(`Termin płatności: ${invoice.payment_deadline || 'N/A'}`, leftColumn);
   doc.text(`Sposób płatności: ${formatPaymentMethod(invoice.payment_method)}`, leftColumn);
   doc.text(`Waluta: ${invoice.currency}`, leftColumn);
+  if (invoice.currency !== 'PLN' && invoice.exchange_rate) {
+    const rateSource = invoice.exchange_rate_table
+      ? ` (tabela NBP ${invoice.exchange_rate_table} z dnia ${invoice.exchange_rate_date})`
+      : '';
+    doc.text(`Kurs: 1 ${invoice.currency} = ${invoice.exchange_rate} PLN${rateSource}`, leftColumn);
+  }
+  if (isCorrection && correctedInvoice) {
+    doc.text(`Dotyczy faktury: ${correctedInvoice.invoice_number} z dnia ${correctedInvoice.issue_date}`, leftColumn);
+    if (invoice.correction_reason) {
+      doc.text(`Przyczyna korekty: ${invoice.correction_reason}`, leftColumn, undefined, { width: 495 });
+    }
+  }
+  if (proforma) {
+    doc.text(`Dotyczy faktury proforma: ${proforma.invoice_number} z dnia ${proforma.issue_date}`, leftColumn);
+  }
 
   doc.moveDown(1.5);
 
-  // Line items table
-  const tableTop = doc.y;
-  const colLp = leftColumn;
-  const colNazwa = colLp + 30;
-  const colIlosc = colNazwa + 180;
-  const colJm = colIlosc + 50;
-  const colCenaNetto = colJm + 30;
-  const colVAT = colCenaNetto + 60;
-  const colWartoscNetto = colVAT + 40;
-  const colWartoscBrutto = colWartoscNetto + 60;
-
-      // Table header
-      doc.fontSize(9).font(boldFont);
-  doc.text('Lp.', colLp, tableTop);
-  doc.text('Nazwa', colNazwa, tableTop);
-  doc.text('Ilość', colIlosc, tableTop);
-  doc.text('J.m.', colJm, tableTop);
-  doc.text('Cena netto', colCenaNetto, tableTop);
-  doc.text('VAT%', colVAT, tableTop);
-  doc.text('Netto', colWartoscNetto, tableTop);
-  doc.text('Brutto', colWartoscBrutto, tableTop);
-
-  // Horizontal line below header
-  doc.moveTo(leftColumn, tableTop + 15).lineTo(545, tableTop + 15).stroke();
-
-      // Table rows
-      doc.font(regularFont).fontSize(9);
-  let rowY = tableTop + 20;
-  items.forEach((item, index) => {
-    const unitPricePln = groszeToPlnString(item.unit_price_grosze);
-    const netPln = groszeToPlnString(item.net_grosze);
-    const grossPln = groszeToPlnString(item.gross_grosze);
-    const vatRateDisplay = typeof item.vat_rate === 'number' ? `${item.vat_rate}%` : item.vat_rate;
-
-    doc.text(`${index + 1}`, colLp, rowY);
-    doc.text(item.name, colNazwa, rowY, { width: 170 });
-    doc.text(item.quantity, colIlosc, rowY);
-    doc.text(item.unit, colJm, rowY);
-    doc.text(unitPricePln, colCenaNetto, rowY);
-    doc.text(vatRateDisplay, colVAT, rowY);
-    doc.text(netPln, colWartoscNetto, rowY);
-    doc.text(grossPln, colWartoscBrutto, rowY);
-
-    rowY += 20;
-  });
-
-  // Horizontal line after items
-  doc.moveTo(leftColumn, rowY).lineTo(545, rowY).stroke();
+  // Line items table(s): corrections show the state before and after correction
+  let rowY = doc.y;
+  if (isCorrection) {
+    doc.fontSize(10).font(boldFont).text('Przed korektą:', leftColumn, rowY);
+    rowY = drawItemsTable(doc, items.filter((i) => i.state_before), rowY + 15, regularFont, boldFont);
+    rowY += 10;
+    doc.fontSize(10).font(boldFont).text('Po korekcie:', leftColumn, rowY);
+    rowY = drawItemsTable(doc, items.filter((i) => !i.state_before), rowY + 15, regularFont, boldFont);
+  } else {
+    rowY = drawItemsTable(doc, items, rowY, regularFont, boldFont);
+  }
   rowY += 10;
 
       // Totals
@@ -181,17 +156,25 @@ export function generateInvoicePdf(data: InvoicePdfData): Promise<Buffer> {
   const totalNetPln = groszeToPlnString(invoice.subtotal_grosze);
   const totalVatPln = groszeToPlnString(invoice.tax_grosze);
   const totalGrossPln = groszeToPlnString(invoice.total_grosze);
+  const totalsLabelX = TABLE_COLUMNS.net - 100;
+  const totalsLabelPrefix = isCorrection ? 'Różnica' : 'Suma';
 
-  doc.text('Suma netto:', colWartoscNetto - 100, rowY);
-  doc.text(totalNetPln, colWartoscNetto, rowY);
+  doc.text(`${totalsLabelPrefix} netto:`, totalsLabelX, rowY);
+  doc.text(totalNetPln, TABLE_COLUMNS.net, rowY);
   rowY += 15;
 
-  doc.text('Suma VAT:', colWartoscNetto - 100, rowY);
-  doc.text(totalVatPln, colWartoscNetto, rowY);
+  doc.text(`${totalsLabelPrefix} VAT:`, totalsLabelX, rowY);
+  doc.text(totalVatPln, TABLE_COLUMNS.net, rowY);
   rowY += 15;
 
-  doc.text('Suma brutto:', colWartoscNetto - 100, rowY);
-  doc.text(totalGrossPln, colWartoscNetto, rowY);
+  if (invoice.currency !== 'PLN' && invoice.exchange_rate) {
+    doc.text(`${totalsLabelPrefix} VAT w PLN:`, totalsLabelX, rowY);
+    doc.text(groszeToPlnString(vatInPln(items, invoice.exchange_rate)), TABLE_COLUMNS.net, rowY);
+    rowY += 15;
+  }
+
+  doc.text(isCorrection ? 'Do zapłaty / zwrotu:' : 'Suma brutto:', totalsLabelX, rowY);
+  doc.text(totalGrossPln, TABLE_COLUMNS.net, rowY);
   rowY += 20;
 
       // Payment instructions (if bank account available)
@@ -210,6 +193,15 @@ export function generateInvoicePdf(data: InvoicePdfData): Promise<Buffer> {
         rowY += 35;
       }
 
+      // Diagonal mark so a printed proforma cannot pass for a VAT invoice
+      if (isProforma) {
+        doc.save();
+        doc.rotate(-45, { origin: [doc.page.width / 2, doc.page.height / 2] });
+        doc.fontSize(90).font(boldFont).fillColor('gray').fillOpacity(0.12);
+        doc.text('PROFORMA', 0, doc.page.height / 2 - 45, { width: doc.page.width, align: 'center', lineBreak: false });
+        doc.restore();
+      }
+
       // Footer watermark
       doc.fontSize(8).font(italicFont).fillColor('gray');
       doc.text(
@@ -226,6 +218,82 @@ export function generateInvoicePdf(data: InvoicePdfData): Promise<Buffer> {
   });
 }
 
+const TABLE_COLUMNS = {
+  lp: LEFT_COLUMN,
+  name: LEFT_COLUMN + 30,
+  quantity: LEFT_COLUMN + 210,
+  unit: LEFT_COLUMN + 260,
+  unitPrice: LEFT_COLUMN + 290,
+  vat: LEFT_COLUMN + 350,
+  net: LEFT_COLUMN + 390,
+  gross: LEFT_COLUMN + 450,
+};
+
+// Draws the line items table starting at tableTop and returns the Y position below it
+function drawItemsTable(
+  doc: PDFKit.PDFDocument,
+  items: InvoiceItem[],
+  tableTop: number,
+  regularFont: string,
+  boldFont: string
+): number {
+  const cols = TABLE_COLUMNS;
+
+  // Table header
+  doc.fontSize(9).font(boldFont);
+  doc.text('Lp.', cols.lp, tableTop);
+  doc.text('Nazwa', cols.name, tableTop);
+  doc.text('Ilość', cols.quantity, tableTop);
+  doc.text('J.m.', cols.unit, tableTop);
+  doc.text('Cena netto', cols.unitPrice, tableTop);
+  doc.text('VAT%', cols.vat, tableTop);
+  doc.text('Netto', cols.net, tableTop);
+  doc.text('Brutto', cols.gross, tableTop);
+
+  // Horizontal line below header
+  doc.moveTo(LEFT_COLUMN, tableTop + 15).lineTo(545, tableTop + 15).stroke();
+
+  // Table rows
+  doc.font(regularFont).fontSize(9);
+  let rowY = tableTop + 20;
+  items.forEach((item, index) => {
+    const unitPricePln = groszeToPlnString(item.unit_price_grosze);
+    const netPln = groszeToPlnString(item.net_grosze);
+    const grossPln = groszeToPlnString(item.gross_grosze);
+    const vatRateDisplay = typeof item.vat_rate === 'number' ? `${item.vat_rate}%` : item.vat_rate;
+
+    doc.text(`${index + 1}`, cols.lp, rowY);
+    doc.text(item.name, cols.name, rowY, { width: 170 });
+    doc.text(item.quantity, cols.quantity, rowY);
+    doc.text(item.unit, cols.unit, rowY);
+    doc.text(unitPricePln, cols.unitPrice, rowY);
+    doc.text(vatRateDisplay, cols.vat, rowY);
+    doc.text(netPln, cols.net, rowY);
+    doc.text(grossPln, cols.gross, rowY);
+
+    rowY += 20;
+  });
+
+  // Horizontal line after items
+  doc.moveTo(LEFT_COLUMN, rowY).lineTo(545, rowY).stroke();
+  return rowY;
+}
+
+// Converted per VAT rate like P_14_xW in the XML, so both documents show the same PLN amount
+function vatInPln(items: InvoiceItem[], exchangeRate: string): number {
+  const vatByRate = new Map<string, number>();
+  for (const item of items) {
+    const key = String(item.vat_rate);
+    const vat = item.state_before ? -item.vat_grosze : item.vat_grosze;
+    vatByRate.set(key, (vatByRate.get(key) ?? 0) + vat);
+  }
+  let total = 0;
+  vatByRate.forEach((vat) => {
+    total += convertToPlnGrosze(vat, exchangeRate);
+  });
+  return total;
+}
+
 function formatPaymentMethod(method: string): string {
   const map: Record<string, string> = {
     cash: 'Gotówka',
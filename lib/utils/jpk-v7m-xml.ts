@@ -0,0 +1,169 @@
+import type { JpkSaleField, JpkSaleRow, JpkV7mInput } from '@/types';
+import { groszeToPlnString } from '@/lib/utils/invoice-calculations';
+import { isoUtcDateTimeZ, tag, validateXmlAgainstSchema } from '@/lib/utils/xml';
+
+// JPK_V7M (2) with the VAT-7 (22) declaration; bump together with the vendored schema
+const JPK_NAMESPACE = 'http://crd.gov.pl/wzor/2021/12/27/11148/';
+const ETD_NAMESPACE = 'http://crd.gov.pl/xml/schematy/dziedzinowe/mf/2021/06/08/eD/DefinicjeTypy/';
+
+// Register columns in schema order; each K_n adds up into declaration field P_n. K_12 is part
+// of K_11, so it stays out of the net total
+const SALE_FIELDS: JpkSaleField[] = ['K_10', 'K_11', 'K_12', 'K_13', 'K_15', 'K_16', 'K_17', 'K_18', 'K_19', 'K_20'];
+const NET_SALE_FIELDS: JpkSaleField[] = ['K_10', 'K_11', 'K_13', 'K_15', 'K_17', 'K_19'];
+const VAT_SALE_FIELDS: JpkSaleField[] = ['K_16', 'K_18', 'K_20'];
+
+function required(value: string | undefined | null, field: string): string {
+  const v = value?.trim();
+  if (!v) throw new Error(`Missing required field: ${field}`);
+  return v;
+}
+
+// Declaration amounts are whole złoty
+const toZloty = (grosze: number) => Math.round(grosze / 100);
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+function pushPodmiot1(lines: string[], input: JpkV7mInput): void {
+  const { taxpayer } = input;
+  const nip = required(taxpayer.nip, 'company.company_nip').replace(/[^\d]/g, '');
+  if (!/^\d{10}$/.test(nip)) throw new Error('Invalid company NIP (must be 10 digits)');
+  const email = required(taxpayer.email, 'company.company_email');
+
+  lines.push('<Podmiot1 rola="Podatnik">');
+  if (taxpayer.first_name?.trim() && taxpayer.last_name?.trim() && taxpayer.birth_date) {
+    lines.push('<OsobaFizyczna>');
+    lines.push(tag('etd:NIP', nip));
+    lines.push(tag('etd:ImiePierwsze', taxpayer.first_name.trim()));
+    lines.push(tag('etd:Nazwisko', taxpayer.last_name.trim()));
+    lines.push(tag('etd:DataUrodzenia', taxpayer.birth_date));
+    lines.push(tag('Email', email));
+    if (taxpayer.phone?.trim()) lines.push(tag('Telefon', taxpayer.phone.trim()));
+    lines.push('</OsobaFizyczna>');
+  } else {
+    lines.push('<OsobaNiefizyczna>');
+    lines.push(tag('NIP', nip));
+    lines.push(tag('PelnaNazwa', required(taxpayer.name, 'company.company_name')));
+    lines.push(tag('Email', email));
+    if (taxpayer.phone?.trim()) lines.push(tag('Telefon', taxpayer.phone.trim()));
+    lines.push('</OsobaNiefizyczna>');
+  }
+  lines.push('</Podmiot1>');
+}
+
+function sumSaleField(sales: JpkSaleRow[], field: JpkSaleField): number {
+  return sum(sales.map((row) => row.amounts[field] ?? 0));
+}
+
+export function generateJpkV7mXml(input: JpkV7mInput): string {
+  const [year, month] = input.month.split('-').map(Number);
+  const taxOfficeCode = required(input.tax_office_code, 'tax_office_code');
+  if (!/^\d{4}$/.test(taxOfficeCode)) throw new Error('Invalid tax office code (must be 4 digits)');
+
+  // Declaration (VAT-7) fields, whole złoty
+  const declaration = new Map<string, number>();
+  for (const field of SALE_FIELDS) {
+    declaration.set(field.replace('K_', 'P_'), toZloty(sumSaleField(input.sales, field)));
+  }
+  const outputVat = sum(VAT_SALE_FIELDS.map((field) => declaration.get(field.replace('K_', 'P_'))!));
+  const purchaseNet = sum(input.purchases.map((row) => row.net_grosze));
+  const purchaseVat = sum(input.purchases.map((row) => row.vat_grosze));
+  const inputVat = input.carry_over + toZloty(purchaseVat);
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<JPK xmlns="${JPK_NAMESPACE}" xmlns:etd="${ETD_NAMESPACE}">`);
+
+  lines.push('<Naglowek>');
+  lines.push(tag('KodFormularza', 'JPK_VAT', { kodSystemowy: 'JPK_V7M (2)', wersjaSchemy: '1-0E' }));
+  lines.push(tag('WariantFormularza', 2));
+  lines.push(tag('DataWytworzeniaJPK', isoUtcDateTimeZ(new Date())));
+  lines.push(tag('NazwaSystemu', 'Codex-Rave'));
+  lines.push(tag('CelZlozenia', input.purpose, { poz: 'P_7' }));
+  lines.push(tag('KodUrzedu', taxOfficeCode));
+  lines.push(tag('Rok', year));
+  lines.push(tag('Miesiac', month));
+  lines.push('</Naglowek>');
+
+  pushPodmiot1(lines, input);
+
+  lines.push('<Deklaracja>');
+  lines.push('<Naglowek>');
+  lines.push(
+    tag('KodFormularzaDekl', 'VAT-7', {
+      kodSystemowy: 'VAT-7 (22)',
+      kodPodatku: 'VAT',
+      rodzajZobowiazania: 'Z',
+      wersjaSchemy: '1-0E',
+    })
+  );
+  lines.push(tag('WariantFormularzaDekl', 22));
+  lines.push('</Naglowek>');
+  lines.push('<PozycjeSzczegolowe>');
+  for (const [field, amount] of declaration) {
+    if (amount) lines.push(tag(field, amount));
+  }
+  lines.push(tag('P_37', sum(NET_SALE_FIELDS.map((field) => declaration.get(field.replace('K_', 'P_'))!))));
+  lines.push(tag('P_38', outputVat));
+  if (input.carry_over) lines.push(tag('P_39', input.carry_over));
+  if (purchaseNet || purchaseVat) {
+    lines.push(tag('P_42', toZloty(purchaseNet)));
+    lines.push(tag('P_43', toZloty(purchaseVat)));
+  }
+  lines.push(tag('P_48', inputVat));
+  // Tax due, or the excess of input VAT carried to the next month
+  lines.push(tag('P_51', Math.max(outputVat - inputVat, 0)));
+  if (inputVat > outputVat) {
+    lines.push(tag('P_53', inputVat - outputVat));
+    lines.push(tag('P_62', inputVat - outputVat));
+  }
+  lines.push('</PozycjeSzczegolowe>');
+  lines.push(tag('Pouczenia', 1));
+  lines.push('</Deklaracja>');
+
+  lines.push('<Ewidencja>');
+  input.sales.forEach((row, index) => {
+    lines.push('<SprzedazWiersz>');
+    lines.push(tag('LpSprzedazy', index + 1));
+    if (row.counterparty_country_code) lines.push(tag('KodKrajuNadaniaTIN', row.counterparty_country_code));
+    lines.push(tag('NrKontrahenta', row.counterparty_nip));
+    lines.push(tag('NazwaKontrahenta', row.counterparty_name));
+    lines.push(tag('DowodSprzedazy', row.document_number));
+    lines.push(tag('DataWystawienia', row.issue_date));
+    if (row.sale_date !== row.issue_date) lines.push(tag('DataSprzedazy', row.sale_date));
+    for (const field of SALE_FIELDS) {
+      const amount = row.amounts[field];
+      if (amount) lines.push(tag(field, groszeToPlnString(amount)));
+    }
+    lines.push('</SprzedazWiersz>');
+  });
+  lines.push('<SprzedazCtrl>');
+  lines.push(tag('LiczbaWierszySprzedazy', input.sales.length));
+  lines.push(tag('PodatekNalezny', groszeToPlnString(sum(VAT_SALE_FIELDS.map((f) => sumSaleField(input.sales, f))))));
+  lines.push('</SprzedazCtrl>');
+
+  input.purchases.forEach((row, index) => {
+    lines.push('<ZakupWiersz>');
+    lines.push(tag('LpZakupu', index + 1));
+    lines.push(tag('NrDostawcy', row.supplier_nip));
+    lines.push(tag('NazwaDostawcy', row.supplier_name));
+    lines.push(tag('DowodZakupu', row.document_number));
+    lines.push(tag('DataZakupu', row.purchase_date));
+    lines.push(tag('K_42', groszeToPlnString(row.net_grosze)));
+    lines.push(tag('K_43', groszeToPlnString(row.vat_grosze)));
+    lines.push('</ZakupWiersz>');
+  });
+  lines.push('<ZakupCtrl>');
+  lines.push(tag('LiczbaWierszyZakupow', input.purchases.length));
+  lines.push(tag('PodatekNaliczony', groszeToPlnString(purchaseVat)));
+  lines.push('</ZakupCtrl>');
+  lines.push('</Ewidencja>');
+
+  lines.push('</JPK>');
+
+  return lines.join('\n');
+}
+
+/** Validates against the JPK_V7M schema set vendored in lib/schemas/jpk/v7m. */
+export async function validateJpkV7mXml(xmlPath: string): Promise<void> {
+  await validateXmlAgainstSchema(xmlPath, ['jpk', 'v7m'], 'JPK_V7M');
+}
@@ -1,44 +1,17 @@
-import type { Client, Invoice, InvoiceItem, VatRate } from '@/types';
+import type { Client, Fa3Party, Fa3VatTotal, Invoice, InvoiceItem, ParsedFa3Invoice, VatRate } from '@/types';
 import type { CompanySettings } from '@/types/settings';
-import { groszeToPlnString } from '@/lib/utils/invoice-calculations';
-import path from 'path';
-import { execFile } from 'child_process';
-import { promisify } from 'util';
-import fs from 'fs/promises';
-
-const execFileAsync = promisify(execFile);
-
-function escapeXml(value: string): string {
-  return value
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
-}
-
-function isoUtcDateTimeZ(d: Date): string {
-  // XML schema requires Zulu time in allowed range; use seconds precision.
-  const pad = (n: number) => String(n).padStart(2, '0');
-  return (
-    `${d.getUTCFullYear()}-` +
-    `${pad(d.getUTCMonth() + 1)}-` +
-    `${pad(d.getUTCDate())}T` +
-    `${pad(d.getUTCHours())}:` +
-    `${pad(d.getUTCMinutes())}:` +
-    `${pad(d.getUTCSeconds())}Z`
-  );
-}
-
-function tag(name: string, content?: string | number | null, attrs?: Record<string, string>): string {
-  const attrStr = attrs
-    ? Object.entries(attrs)
-        .map(([k, v]) => ` ${k}="${escapeXml(v)}"`)
-        .join('')
-    : '';
-  if (content === undefined || content === null) return `<${name}${attrStr}/>`;
-  return `<${name}${attrStr}>${escapeXml(String(content))}</${name}>`;
-}
+import { DOMESTIC_COUNTRY_CODE, getEuVatPrefix, isForeignEuCountry, normalizeTaxId } from '@/lib/utils/countries';
+import { convertToPlnGrosze, groszeToPlnString, plnToGrosze } from '@/lib/utils/invoice-calculations';
+import {
+  isoUtcDateTimeZ,
+  parseXml,
+  tag,
+  validateXmlAgainstSchema,
+  xmlChild,
+  xmlChildren,
+  xmlText,
+  type XmlElement,
+} from '@/lib/utils/xml';
 
 function normalizeDigits(value: string): string {
   return value.replace(/[^\d]/g, '');
@@ -50,9 +23,10 @@ function required(value: string | undefined | null, field: string): string {
   return v;
 }
 
-function vatRateToFa3Stawka(rate: VatRate): string {
+// Services outside Poland for an EU business buyer (art. 100 ust. 1 pkt 4) are "np II"
+function vatRateToFa3Stawka(rate: VatRate, euServices: boolean): string {
   if (rate === 'ZW') return 'zw';
-  if (rate === 'NP') return 'np I';
+  if (rate === 'NP') return euServices ? 'np II' : 'np I';
   if (rate === 0) return '0 KR';
   return String(rate);
 }
@@ -66,7 +40,7 @@ function formatAddressLine(address?: string | null, postal?: string | null, city
   return line || null;
 }
 
-function sumByVat(items: InvoiceItem[]): {
+interface VatTotals {
   net23: number;
   vat23: number;
   net8: number;
@@ -76,7 +50,9 @@ function sumByVat(items: InvoiceItem[]): {
   net0: number;
   netZw: number;
   netNp: number;
-} {
+}
+
+function sumByVat(items: InvoiceItem[]): VatTotals {
   let net23 = 0,
     vat23 = 0,
     net8 = 0,
@@ -109,21 +85,48 @@ function sumByVat(items: InvoiceItem[]): {
   return { net23, vat23, net8, vat8, net5, vat5, net0, netZw, netNp };
 }
 
+// Correction invoices report P_13_x/P_14_x as the difference (after - before)
+function subtractVatTotals(after: VatTotals, before: VatTotals): VatTotals {
+  const result = { ...after };
+  for (const key of Object.keys(result) as Array<keyof VatTotals>) {
+    result[key] = after[key] - before[key];
+  }
+  return result;
+}
+
+function pushFaWiersz(lines: string[], rowNumber: number, it: InvoiceItem, euServices: boolean): void {
+  lines.push('<FaWiersz>');
+  lines.push(tag('NrWierszaFa', rowNumber));
+  lines.push(tag('P_7', it.name));
+  lines.push(tag('P_8A', it.unit));
+  lines.push(tag('P_8B', it.quantity));
+  lines.push(tag('P_9A', groszeToPlnString(it.unit_price_grosze)));
+  lines.push(tag('P_11', groszeToPlnString(it.net_grosze)));
+  lines.push(tag('P_12', vatRateToFa3Stawka(it.vat_rate as VatRate, euServices)));
+  if (it.state_before) lines.push(tag('StanPrzed', 1));
+  lines.push('</FaWiersz>');
+}
+
 export function generateFa3Xml(input: {
   invoice: Invoice;
   client: Client;
   company: CompanySettings;
   items: InvoiceItem[];
+  correctedInvoice?: Invoice | null; // required when invoice_type is KOR
 }): string {
-  const { invoice, client, company, items } = input;
+  const { invoice, client, company, items, correctedInvoice } = input;
+  const isCorrection = invoice.invoice_type === 'KOR';
+  if (isCorrection && !correctedInvoice) throw new Error('Missing corrected invoice for correction (KOR)');
 
   const companyName = required(company.company_name, 'company.company_name');
   const companyNip = normalizeDigits(required(company.company_nip, 'company.company_nip'));
   if (!/^\d{10}$/.test(companyNip)) throw new Error('Invalid company NIP (must be 10 digits)');
 
   const clientName = required(client.name, 'client.name');
-  const clientNip = normalizeDigits(required(client.nip, 'client.nip'));
-  if (!/^\d{10}$/.test(clientNip)) throw new Error('Invalid client NIP (must be 10 digits)');
+  const clientCountry = client.country_code || DOMESTIC_COUNTRY_CODE;
+  const clientTaxId = client.nip?.trim() ? normalizeTaxId(client.nip, clientCountry) : null;
+  if (clientCountry === DOMESTIC_COUNTRY_CODE && !clientTaxId) throw new Error('Missing required field: client.nip');
+  const euServices = isForeignEuCountry(clientCountry) && clientTaxId !== null;
 
   const sellerAddr = required(
     formatAddressLine(company.company_address ?? null, company.company_postal_code ?? null, company.company_city ?? null) ??
@@ -136,14 +139,21 @@ export function generateFa3Xml(input: {
     null;
 
   const currency = required(invoice.currency, 'invoice.currency');
+  // Foreign-currency invoices must also state the VAT amounts in PLN (P_14_xW)
+  const exchangeRate = currency === 'PLN' ? null : required(invoice.exchange_rate, 'invoice.exchange_rate');
   const issueDate = required(invoice.issue_date, 'invoice.issue_date');
   const saleDate = required(invoice.sale_date, 'invoice.sale_date');
   const invoiceNumber = required(invoice.invoice_number, 'invoice.invoice_number');
 
-  const totalsByVat = sumByVat(items);
+  const beforeItems = items.filter((i) => i.state_before);
+  const afterItems = items.filter((i) => !i.state_before);
+
+  const totalsByVat = isCorrection
+    ? subtractVatTotals(sumByVat(afterItems), sumByVat(beforeItems))
+    : sumByVat(afterItems);
   const totalGrossPln = groszeToPlnString(invoice.total_grosze);
 
-  const hasZw = items.some((i) => i.vat_rate === 'ZW');
+  const hasZw = afterItems.some((i) => i.vat_rate === 'ZW');
 
   const lines: string[] = [];
   lines.push('<?xml version="1.0" encoding="UTF-8"?>');
@@ -183,12 +193,24 @@ export function generateFa3Xml(input: {
   // Podmiot2 (buyer) (required)
   lines.push('<Podmiot2>');
   lines.push('<DaneIdentyfikacyjne>');
-  lines.push(tag('NIP', clientNip));
+  // Polish buyers by NIP, EU buyers by VAT number, others by their own tax id
+  const euVatPrefix = getEuVatPrefix(clientCountry);
+  if (!clientTaxId) {
+    lines.push(tag('BrakID', 1));
+  } else if (clientCountry === DOMESTIC_COUNTRY_CODE) {
+    lines.push(tag('NIP', clientTaxId));
+  } else if (euVatPrefix) {
+    lines.push(tag('KodUE', euVatPrefix));
+    lines.push(tag('NrVatUE', clientTaxId));
+  } else {
+    lines.push(tag('KodKraju', clientCountry));
+    lines.push(tag('NrID', clientTaxId));
+  }
   lines.push(tag('Nazwa', clientName));
   lines.push('</DaneIdentyfikacyjne>');
   if (buyerAddr) {
     lines.push('<Adres>');
-    lines.push(tag('KodKraju', 'PL'));
+    lines.push(tag('KodKraju', clientCountry));
     lines.push(tag('AdresL1', buyerAddr));
     lines.push('</Adres>');
   }
@@ -209,20 +231,23 @@ export function generateFa3Xml(input: {
   if (totalsByVat.net23 || totalsByVat.vat23) {
     lines.push(tag('P_13_1', groszeToPlnString(totalsByVat.net23)));
     lines.push(tag('P_14_1', groszeToPlnString(totalsByVat.vat23)));
+    if (exchangeRate) lines.push(tag('P_14_1W', groszeToPlnString(convertToPlnGrosze(totalsByVat.vat23, exchangeRate))));
   }
   if (totalsByVat.net8 || totalsByVat.vat8) {
     lines.push(tag('P_13_2', groszeToPlnString(totalsByVat.net8)));
     lines.push(tag('P_14_2', groszeToPlnString(totalsByVat.vat8)));
+    if (exchangeRate) lines.push(tag('P_14_2W', groszeToPlnString(convertToPlnGrosze(totalsByVat.vat8, exchangeRate))));
   }
   if (totalsByVat.net5 || totalsByVat.vat5) {
     lines.push(tag('P_13_3', groszeToPlnString(totalsByVat.net5)));
     lines.push(tag('P_14_3', groszeToPlnString(totalsByVat.vat5)));
+    if (exchangeRate) lines.push(tag('P_14_3W', groszeToPlnString(convertToPlnGrosze(totalsByVat.vat5, exchangeRate))));
   }
 
   // Other optional totals
   if (totalsByVat.net0) lines.push(tag('P_13_6_1', groszeToPlnString(totalsByVat.net0)));
   if (totalsByVat.netZw) lines.push(tag('P_13_7', groszeToPlnString(totalsByVat.netZw)));
-  if (totalsByVat.netNp) lines.push(tag('P_13_8', groszeToPlnString(totalsByVat.netNp)));
+  if (totalsByVat.netNp) lines.push(tag(euServices ? 'P_13_9' : 'P_13_8', groszeToPlnString(totalsByVat.netNp)));
 
   // Required: total due
   lines.push(tag('P_15', totalGrossPln));
@@ -231,7 +256,8 @@ export function generateFa3Xml(input: {
   lines.push('<Adnotacje>');
   lines.push(tag('P_16', 2));
   lines.push(tag('P_17', 2));
-  lines.push(tag('P_18', 2));
+  // The EU buyer settles the VAT on services outside Poland
+  lines.push(tag('P_18', euServices && totalsByVat.netNp ? 1 : 2));
   lines.push(tag('P_18A', 2));
 
   // Zwolnienie (required choice)
@@ -262,58 +288,143 @@ export function generateFa3Xml(input: {
   lines.push('</Adnotacje>');
 
   // Required: invoice type
-  lines.push(tag('RodzajFaktury', 'VAT'));
-
-  // Line items (optional in schema, but we emit them for normal invoices)
-  for (let idx = 0; idx < items.length; idx++) {
-    const it = items[idx];
-    lines.push('<FaWiersz>');
-    lines.push(tag('NrWierszaFa', idx + 1));
-    lines.push(tag('P_7', it.name));
-    lines.push(tag('P_8A', it.unit));
-    lines.push(tag('P_8B', it.quantity));
-    lines.push(tag('P_9A', groszeToPlnString(it.unit_price_grosze)));
-    lines.push(tag('P_11', groszeToPlnString(it.net_grosze)));
-    lines.push(tag('P_12', vatRateToFa3Stawka(it.vat_rate as VatRate)));
-    lines.push('</FaWiersz>');
+  lines.push(tag('RodzajFaktury', isCorrection ? 'KOR' : 'VAT'));
+
+  if (isCorrection && correctedInvoice) {
+    if (invoice.correction_reason?.trim()) {
+      lines.push(tag('PrzyczynaKorekty', invoice.correction_reason.trim()));
+    }
+    // Effect recorded on the correction's issue date
+    lines.push(tag('TypKorekty', 2));
+    lines.push('<DaneFaKorygowanej>');
+    lines.push(tag('DataWystFaKorygowanej', required(correctedInvoice.issue_date, 'correctedInvoice.issue_date')));
+    lines.push(tag('NrFaKorygowanej', required(correctedInvoice.invoice_number, 'correctedInvoice.invoice_number')));
+    if (correctedInvoice.ksef_number) {
+      lines.push(tag('NrKSeF', 1));
+      lines.push(tag('NrKSeFFaKorygowanej', correctedInvoice.ksef_number));
+    } else {
+      // Corrected invoice was issued outside KSeF
+      lines.push(tag('NrKSeFN', 1));
+    }
+    lines.push('</DaneFaKorygowanej>');
   }
 
+  // Line items (optional in schema, but we emit them for normal invoices).
+  // Corrections list the corrected rows first (StanPrzed) followed by the state after correction.
+  let rowNumber = 0;
+  for (const it of beforeItems) pushFaWiersz(lines, ++rowNumber, it, euServices);
+  for (const it of afterItems) pushFaWiersz(lines, ++rowNumber, it, euServices);
+
   lines.push('</Fa>');
   lines.push('</Faktura>');
 
   return lines.join('\n');
 }
 
-export async function validateFa3Xml(xmlPath: string): Promise<void> {
-  const schemaPath = path.join(process.cwd(), 'lib', 'schemas', 'ksef', 'fa3', 'schemat.xsd');
-  const catalogPath = path.join(process.cwd(), 'lib', 'schemas', 'ksef', 'fa3', 'catalog.xml');
-
-  // Fail fast with clear errors when schema files are missing.
-  await fs.access(schemaPath);
-  await fs.access(catalogPath);
-  await fs.access(xmlPath);
+// Received invoices: P_13_x/P_14_x(W) fields and the rate they stand for
+const FA3_VAT_TOTAL_FIELDS: Array<{ net: string; vat?: string; vatPln?: string; rate: VatRate }> = [
+  { net: 'P_13_1', vat: 'P_14_1', vatPln: 'P_14_1W', rate: 23 },
+  { net: 'P_13_2', vat: 'P_14_2', vatPln: 'P_14_2W', rate: 8 },
+  { net: 'P_13_3', vat: 'P_14_3', vatPln: 'P_14_3W', rate: 5 },
+  { net: 'P_13_6_1', rate: 0 },
+  { net: 'P_13_6_2', rate: 0 },
+  { net: 'P_13_6_3', rate: 0 },
+  { net: 'P_13_7', rate: 'ZW' },
+  { net: 'P_13_8', rate: 'NP' },
+  { net: 'P_13_9', rate: 'NP' },
+];
+
+// Taxi flat rate, OSS, reverse charge and margin scheme totals have no expense equivalent
+const UNSUPPORTED_FA3_TOTAL_FIELDS: Record<string, string> = {
+  P_13_4: 'taxi flat rate',
+  P_13_5: 'OSS procedure',
+  P_13_10: 'reverse charge',
+  P_13_11: 'margin scheme',
+};
+
+function fa3StawkaToVatRate(stawka: string | null): VatRate | null {
+  if (stawka === '23' || stawka === '22') return 23;
+  if (stawka === '8' || stawka === '7') return 8;
+  if (stawka === '5') return 5;
+  if (stawka?.startsWith('0 ')) return 0;
+  if (stawka === 'zw') return 'ZW';
+  if (stawka?.startsWith('np')) return 'NP';
+  return null;
+}
 
+function fa3Amount(parent: XmlElement | undefined, field: string): number | null {
+  const value = xmlText(parent, field);
+  if (value === null) return null;
   try {
-    await execFileAsync(
-      'xmllint',
-      [
-        '--noout',
-        '--nonet',
-        '--catalogs',
-        '--schema',
-        schemaPath,
-        xmlPath,
-      ],
-      {
-        // libxml2 honors catalogs via flags and env; set both.
-        env: { ...process.env, XML_CATALOG_FILES: catalogPath, SGML_CATALOG_FILES: catalogPath },
-      }
-    );
-  } catch (err: any) {
-    const stderr = typeof err?.stderr === 'string' ? err.stderr.trim() : '';
-    const msg = stderr || err?.message || 'Unknown xmllint error';
-    throw new Error(`FA(3) XML validation failed: ${msg}`);
+    // Corrections carry negative differences
+    return value.startsWith('-') ? -plnToGrosze(value.slice(1)) : plnToGrosze(value);
+  } catch {
+    throw new Error(`Unsupported amount in ${field}: ${value}`);
   }
 }
 
+function parseFa3Party(element: XmlElement | undefined): Fa3Party {
+  const nip = xmlText(element, 'DaneIdentyfikacyjne', 'NIP');
+  const address = [xmlText(element, 'Adres', 'AdresL1'), xmlText(element, 'Adres', 'AdresL2')].filter(Boolean).join(', ');
+  return {
+    nip: nip ? normalizeDigits(nip) : null,
+    name: xmlText(element, 'DaneIdentyfikacyjne', 'Nazwa'),
+    address: address || null,
+    country_code: xmlText(element, 'Adres', 'KodKraju'),
+    email: xmlText(element, 'DaneKontaktowe', 'Email'),
+    phone: xmlText(element, 'DaneKontaktowe', 'Telefon'),
+  };
+}
+
+/**
+ * Reads a received FA(3) invoice: parties, lines and VAT totals. The XML is expected
+ * to have passed validateFa3Xml; amounts stay in the invoice currency.
+ */
+export function parseFa3Xml(xml: string): ParsedFa3Invoice {
+  const root = parseXml(xml.replace(/^\uFEFF/, ''));
+  const fa = xmlChild(root, 'Fa');
+  if (root.name !== 'Faktura' || !fa) throw new Error('Not an FA(3) invoice');
+
+  for (const [field, scheme] of Object.entries(UNSUPPORTED_FA3_TOTAL_FIELDS)) {
+    if (xmlChild(fa, field)) throw new Error(`Invoices with ${scheme} amounts (${field}) are not supported`);
+  }
+
+  const vatTotals: Fa3VatTotal[] = [];
+  for (const field of FA3_VAT_TOTAL_FIELDS) {
+    const net = fa3Amount(fa, field.net);
+    if (net === null) continue;
+    const vat = field.vat ? (fa3Amount(fa, field.vat) ?? 0) : 0;
+    const vatPln = field.vatPln ? fa3Amount(fa, field.vatPln) : null;
+
+    const existing = vatTotals.find((t) => t.vat_rate === field.rate);
+    if (existing) {
+      existing.net_grosze += net;
+      existing.vat_grosze += vat;
+    } else {
+      vatTotals.push({ vat_rate: field.rate, net_grosze: net, vat_grosze: vat, vat_pln_grosze: vatPln });
+    }
+  }
 
+  return {
+    invoice_number: required(xmlText(fa, 'P_2'), 'Fa/P_2'),
+    invoice_type: required(xmlText(fa, 'RodzajFaktury'), 'Fa/RodzajFaktury'),
+    issue_date: required(xmlText(fa, 'P_1'), 'Fa/P_1'),
+    sale_date: xmlText(fa, 'P_6'),
+    currency: required(xmlText(fa, 'KodWaluty'), 'Fa/KodWaluty'),
+    seller: parseFa3Party(xmlChild(root, 'Podmiot1')),
+    buyer: parseFa3Party(xmlChild(root, 'Podmiot2')),
+    lines: xmlChildren(fa, 'FaWiersz').map((row) => ({
+      name: xmlText(row, 'P_7') ?? '',
+      unit: xmlText(row, 'P_8A'),
+      quantity: xmlText(row, 'P_8B'),
+      net_grosze: fa3Amount(row, 'P_11'),
+      vat_rate: fa3StawkaToVatRate(xmlText(row, 'P_12')),
+    })),
+    vat_totals: vatTotals,
+    total_grosze: fa3Amount(fa, 'P_15') ?? 0,
+  };
+}
+
+export async function validateFa3Xml(xmlPath: string): Promise<void> {
+  await validateXmlAgainstSchema(xmlPath, ['ksef', 'fa3'], 'FA(3)');
+}
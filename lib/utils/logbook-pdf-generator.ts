@@ -0,0 +1,148 @@
+import PDFDocument from 'pdfkit';
+import type { Trip, VehicleLogbook } from '@/types';
+import type { CompanySettings } from '@/types/settings';
+import { registerPdfFonts } from './pdf-fonts';
+
+export interface LogbookPdfData {
+  logbook: VehicleLogbook;
+  company: CompanySettings;
+}
+
+const MARGIN = 40;
+
+// Landscape A4: route and purpose need the width
+const TABLE_COLUMNS = [
+  { key: 'lp', title: 'Lp.', width: 30 },
+  { key: 'date', title: 'Data wyjazdu', width: 75 },
+  { key: 'route', title: 'Opis trasy (skąd - dokąd)', width: 250 },
+  { key: 'purpose', title: 'Cel wyjazdu', width: 220 },
+  { key: 'km', title: 'Liczba km', width: 70 },
+  { key: 'driver', title: 'Kierujący', width: 117 },
+] as const;
+
+type TableColumn = (typeof TABLE_COLUMNS)[number]['key'];
+
+const formatKm = (km: number) => km.toFixed(1);
+
+function rowCells(trip: Trip, index: number): Record<TableColumn, string> {
+  return {
+    lp: String(index + 1),
+    date: trip.date,
+    route: `${trip.origin} - ${trip.destination}`,
+    purpose: trip.purpose,
+    km: formatKm(trip.distance_km),
+    driver: trip.driver ?? '',
+  };
+}
+
+function rowHeight(doc: PDFKit.PDFDocument, cells: Record<TableColumn, string>, font: string): number {
+  doc.font(font).fontSize(9);
+  return Math.max(...TABLE_COLUMNS.map((column) => doc.heightOfString(cells[column.key], { width: column.width - 6 }))) + 8;
+}
+
+// Draws one table row from y and returns the y below it
+function drawRow(doc: PDFKit.PDFDocument, cells: Record<TableColumn, string>, y: number, font: string): number {
+  const bottom = y + rowHeight(doc, cells, font);
+
+  let x = MARGIN;
+  for (const column of TABLE_COLUMNS) {
+    doc.text(cells[column.key], x + 3, y + 4, { width: column.width - 6, align: column.key === 'km' ? 'right' : 'left' });
+    x += column.width;
+  }
+
+  doc.moveTo(MARGIN, bottom).lineTo(x, bottom).stroke();
+  return bottom;
+}
+
+function drawHeaderRow(doc: PDFKit.PDFDocument, y: number): number {
+  const header = Object.fromEntries(TABLE_COLUMNS.map((column) => [column.key, column.title])) as Record<TableColumn, string>;
+  const tableRight = MARGIN + TABLE_COLUMNS.reduce((sum, column) => sum + column.width, 0);
+  doc.moveTo(MARGIN, y).lineTo(tableRight, y).stroke();
+  return drawRow(doc, header, y, 'Bold');
+}
+
+/**
+ * Monthly vehicle mileage log (ewidencja przebiegu pojazdu, art. 86a ust. 7 of the VAT act):
+ * the vehicle, odometer readings at the start and end of the period and every trip.
+ */
+export function generateLogbookPdf(data: LogbookPdfData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    try {
+      const { logbook, company } = data;
+      const { vehicle } = logbook;
+
+      const doc = new PDFDocument({
+        size: 'A4',
+        layout: 'landscape',
+        margin: MARGIN,
+        info: {
+          Title: `Ewidencja przebiegu pojazdu ${vehicle.registration_number} ${logbook.month}`,
+          Author: company.company_name || 'Company',
+          Creator: 'Freelance Dashboard',
+        },
+      });
+
+      const buffers: Buffer[] = [];
+      doc.on('data', (chunk) => buffers.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(buffers)));
+      doc.on('error', reject);
+
+      registerPdfFonts(doc);
+
+      doc.fontSize(18).font('Bold').text('EWIDENCJA PRZEBIEGU POJAZDU', { align: 'center' });
+      doc.fontSize(11).font('Regular').text(`Okres: ${logbook.month}`, { align: 'center' });
+      doc.moveDown(1);
+
+      // Taxpayer (left) and vehicle (right)
+      const blockY = doc.y;
+      const rightColumn = 440;
+      doc.fontSize(10).font('Bold').text('Podatnik:', MARGIN, blockY);
+      doc.font('Regular');
+      doc.text(company.company_name || 'N/A', MARGIN);
+      if (company.company_nip) doc.text(`NIP: ${company.company_nip}`, MARGIN);
+      const address = [company.company_address, [company.company_postal_code, company.company_city].filter(Boolean).join(' ')]
+        .filter(Boolean)
+        .join(', ');
+      if (address) doc.text(address, MARGIN);
+      const leftBottom = doc.y;
+
+      doc.font('Bold').text('Pojazd:', rightColumn, blockY);
+      doc.font('Regular');
+      doc.text(`${vehicle.name}, nr rejestracyjny ${vehicle.registration_number}`, rightColumn);
+      doc.text(`Ewidencja prowadzona od: ${vehicle.logbook_start_date}`, rightColumn);
+      doc.text(`Stan licznika na początek okresu: ${formatKm(logbook.start_odometer_km)} km`, rightColumn);
+      doc.text(`Stan licznika na koniec okresu: ${formatKm(logbook.end_odometer_km)} km`, rightColumn);
+
+      let y = Math.max(leftBottom, doc.y) + 20;
+      doc.lineWidth(0.5);
+      y = drawHeaderRow(doc, y);
+
+      const pageBottom = doc.page.height - MARGIN - 40;
+      logbook.trips.forEach((trip, index) => {
+        const cells = rowCells(trip, index);
+        if (y + rowHeight(doc, cells, 'Regular') > pageBottom) {
+          doc.addPage();
+          y = drawHeaderRow(doc, MARGIN);
+        }
+        y = drawRow(doc, cells, y, 'Regular');
+      });
+
+      if (logbook.trips.length === 0) {
+        doc.font('Italic').fontSize(9).text('Brak przejazdów w tym okresie', MARGIN + 3, y + 6);
+        y += 24;
+      }
+
+      if (y + 60 > pageBottom) {
+        doc.addPage();
+        y = MARGIN;
+      }
+      doc.fontSize(10).font('Bold');
+      doc.text(`Liczba przejechanych kilometrów w okresie: ${formatKm(logbook.total_km)} km`, MARGIN, y + 12);
+      doc.font('Regular').text('Podpis podatnika: ..............................', MARGIN, y + 45);
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
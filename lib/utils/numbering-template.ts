@@ -0,0 +1,62 @@
+import type { InvoiceType } from '@/types/invoice';
+import type { NumberingReset } from '@/types/settings';
+
+// Kept free of DB imports so the settings UI can preview numbers client-side.
+
+export interface NumberingScheme {
+  template: string;
+  reset: NumberingReset;
+}
+
+export const DEFAULT_NUMBERING: Record<InvoiceType, NumberingScheme> = {
+  VAT: { template: 'FV/{YYYY}/{MM}/{N:4}', reset: 'monthly' },
+  KOR: { template: 'KOR/{YYYY}/{MM}/{N:4}', reset: 'monthly' },
+  PRO: { template: 'PRO/{YYYY}/{MM}/{N:4}', reset: 'monthly' },
+};
+
+const TOKEN_PATTERN = /\{([^}]*)\}/g;
+const LITERAL_PATTERN = /^[A-Za-z0-9/_.\- ]*$/;
+const SEQUENCE_TOKEN = /^N(?::(\d{1,2}))?$/;
+
+export function validateNumberingTemplate(template: string): string | null {
+  let sequenceTokens = 0;
+
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    const token = match[1];
+    if (token === 'YYYY' || token === 'YY' || token === 'MM') continue;
+
+    const seq = SEQUENCE_TOKEN.exec(token);
+    if (!seq) return `Unknown token {${token}}`;
+    if (seq[1] !== undefined && (Number(seq[1]) < 1 || Number(seq[1]) > 10)) {
+      return 'Sequence padding must be between 1 and 10 digits';
+    }
+    sequenceTokens++;
+  }
+
+  if (sequenceTokens !== 1) return 'Template must contain exactly one {N} or {N:width} token';
+
+  const literals = template.replace(TOKEN_PATTERN, '');
+  if (!LITERAL_PATTERN.test(literals)) {
+    return 'Only letters, digits, spaces and / _ . - are allowed outside tokens';
+  }
+
+  return null;
+}
+
+export function formatNumberingTemplate(template: string, year: number, month: number, sequence: number): string {
+  return template.replace(TOKEN_PATTERN, (_, token: string) => {
+    if (token === 'YYYY') return String(year).padStart(4, '0');
+    if (token === 'YY') return String(year % 100).padStart(2, '0');
+    if (token === 'MM') return String(month).padStart(2, '0');
+
+    const width = SEQUENCE_TOKEN.exec(token)?.[1];
+    return String(sequence).padStart(width ? Number(width) : 1, '0');
+  });
+}
+
+// Counters restart whenever the period key changes
+export function getNumberingPeriod(reset: NumberingReset, year: number, month: number): string {
+  if (reset === 'never') return 'all';
+  if (reset === 'yearly') return String(year).padStart(4, '0');
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}`;
+}
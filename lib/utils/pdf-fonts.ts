@@ -0,0 +1,24 @@
+/**
+ * Registers Regular, Bold and Italic fonts that support Polish characters.
+ * macOS: system Arial, Linux: DejaVu, otherwise the built-in Courier.
+ */
+export function registerPdfFonts(doc: PDFKit.PDFDocument): void {
+  try {
+    // Try macOS system fonts first
+    doc.registerFont('Regular', '/System/Library/Fonts/Supplemental/Arial.ttf');
+    doc.registerFont('Bold', '/System/Library/Fonts/Supplemental/Arial Bold.ttf');
+    doc.registerFont('Italic', '/System/Library/Fonts/Supplemental/Arial Italic.ttf');
+  } catch {
+    try {
+      // Fallback to Linux DejaVu fonts
+      doc.registerFont('Regular', '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf');
+      doc.registerFont('Bold', '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf');
+      doc.registerFont('Italic', '/usr/share/fonts/truetype/dejavu/DejaVuSans-Oblique.ttf');
+    } catch {
+      // Final fallback: use Courier (monospace but works)
+      doc.registerFont('Regular', 'Courier');
+      doc.registerFont('Bold', 'Courier-Bold');
+      doc.registerFont('Italic', 'Courier-Oblique');
+    }
+  }
+}
@@ -0,0 +1,7 @@
+import { projectClientsDb } from '../db';
+import { ProjectClient } from '@/types';
+
+export function getProjectClientsMap(): Map<string, ProjectClient> {
+  const mappings = projectClientsDb.getAll();
+  return new Map(mappings.map(pc => [pc.project_id, pc]));
+}
@@ -1,22 +1,110 @@
-import { projectRatesDb, settingsDb } from '../db';
-import { ProjectRate } from '@/types';
+import { format } from 'date-fns';
+import { billingRulesDb, defaultRatePeriodsDb, projectRatePeriodsDb, projectRatesDb } from '../db';
+import {
+  BillingRule,
+  BillingRuleMatch,
+  DefaultRatePeriod,
+  ProjectRatePeriod,
+  ProjectRateWithPeriods,
+  TrackedTimeEntry,
+} from '@/types';
+import { getProjectIdFromEntry } from './time-entries';
+
+export function getRatesMap(today: string = format(new Date(), 'yyyy-MM-dd')): Map<string, ProjectRateWithPeriods> {
+  const periodsByProject = new Map<string, ProjectRatePeriod[]>();
+  for (const period of projectRatePeriodsDb.getAll()) {
+    const periods = periodsByProject.get(period.project_id) ?? [];
+    periods.push(period);
+    periodsByProject.set(period.project_id, periods);
+  }
 
-export function getRatesMap(): Map<string, ProjectRate> {
   const rates = projectRatesDb.getAll();
-  return new Map(rates.map(pr => [pr.everhour_project_id, pr]));
+  return new Map(rates.map(pr => {
+    const periods = periodsByProject.get(pr.project_id) ?? [];
+    return [pr.project_id, { ...pr, periods, current_rate: getRatePeriod(periods, today)?.hourly_rate ?? null }];
+  }));
 }
 
-export function getDefaultRate(): number {
-  const setting = settingsDb.get('default_hourly_rate');
-  return parseFloat(setting || '0');
+// Periods come oldest first; an open-ended (null) start sorts before every date
+export function getRatePeriod<T extends { effective_from: string | null }>(periods: T[], date: string): T | undefined {
+  let match: T | undefined;
+  for (const period of periods) {
+    if (period.effective_from !== null && period.effective_from > date) break;
+    match = period;
+  }
+  return match;
 }
 
+/** Rate of a project on the given day; the default rate of that day covers days before its first period. */
 export function getProjectRate(
   projectId: string,
-  ratesMap: Map<string, ProjectRate>,
-  defaultRate: number
+  date: string,
+  ratesMap: Map<string, ProjectRateWithPeriods>,
+  defaultRates: DefaultRatePeriod[]
 ): number | null {
-  const rateInfo = ratesMap.get(projectId);
-  return rateInfo?.hourly_rate || (defaultRate > 0 ? defaultRate : null);
+  const period = getRatePeriod(ratesMap.get(projectId)?.periods ?? [], date);
+  return period?.hourly_rate || getRatePeriod(defaultRates, date)?.hourly_rate || null;
+}
+
+// Project rules win over global ones; among those a task id is the most specific match
+const MATCH_PRECEDENCE: Record<BillingRuleMatch, number> = { task_id: 0, tag: 1, task_name: 2 };
+
+/** Billing rules in the order they are tried, the newest first among equals. */
+export function getBillingRules(): BillingRule[] {
+  return billingRulesDb.getAll().sort(
+    (a, b) =>
+      Number(a.project_id === null) - Number(b.project_id === null) ||
+      MATCH_PRECEDENCE[a.match_type] - MATCH_PRECEDENCE[b.match_type] ||
+      b.id - a.id
+  );
+}
+
+// "Meeting*" matches "Meetings with client"; everything else is literal
+const wildcardToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+
+function ruleMatches(rule: BillingRule, entry: TrackedTimeEntry): boolean {
+  if (entry.date < rule.effective_from || (rule.effective_until && entry.date > rule.effective_until)) return false;
+
+  const pattern = rule.pattern.toLowerCase();
+  switch (rule.match_type) {
+    case 'task_id':
+      return entry.task_id?.toLowerCase() === pattern;
+    case 'tag':
+      return entry.tags.some((tag) => tag.toLowerCase() === pattern);
+    case 'task_name':
+      return !!entry.task_name && wildcardToRegExp(rule.pattern).test(entry.task_name);
+  }
 }
 
+export interface RateContext {
+  ratesMap: Map<string, ProjectRateWithPeriods>;
+  defaultRates: DefaultRatePeriod[]; // oldest first
+  rules: BillingRule[];
+}
+
+export function getRateContext(): RateContext {
+  return { ratesMap: getRatesMap(), defaultRates: defaultRatePeriodsDb.getAll(), rules: getBillingRules() };
+}
+
+export interface EntryRate {
+  billable: boolean;
+  hourly_rate: number | null; // null when non-billable or no rate applies
+  rule: BillingRule | null;
+}
+
+/** How an entry is billed: the first matching rule, otherwise its project's rate on the day. */
+export function getEntryRate(entry: TrackedTimeEntry, { ratesMap, defaultRates, rules }: RateContext): EntryRate {
+  const projectId = getProjectIdFromEntry(entry);
+  const rule =
+    rules.find((r) => (r.project_id === null || r.project_id === projectId) && ruleMatches(r, entry)) ?? null;
+
+  if (rule && !rule.billable) {
+    return { billable: false, hourly_rate: null, rule };
+  }
+  return {
+    billable: true,
+    hourly_rate: rule?.hourly_rate ?? getProjectRate(projectId, entry.date, ratesMap, defaultRates),
+    rule,
+  };
+}
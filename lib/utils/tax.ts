@@ -0,0 +1,216 @@
+import { format, parseISO, addMonths as dateFnsAddMonths } from 'date-fns';
+import type { MonthlyTaxEstimate, TaxProfile, TaxTotals, ZusTier } from '@/types';
+import { roundToTwoDecimals } from './formatters';
+
+/**
+ * Yearly amounts the contributions are based on (PLN). Health contributions really run
+ * from February to January; the estimate uses calendar years.
+ */
+interface TaxYearParameters {
+  minimumWage: number;
+  averageWageForecast: number; // prognozowane przeciętne wynagrodzenie, base of full ZUS
+  ryczaltHealthBase: number; // average wage in Q4 of the previous year
+  healthMinimumBase: number; // floor of the skala and liniowy health base
+  liniowyHealthDeductionLimit: number; // yearly
+}
+
+const TAX_YEARS: Record<number, TaxYearParameters> = {
+  2024: {
+    minimumWage: 4242,
+    averageWageForecast: 7824,
+    ryczaltHealthBase: 7767.85,
+    healthMinimumBase: 4242,
+    liniowyHealthDeductionLimit: 11600,
+  },
+  2025: {
+    minimumWage: 4666,
+    averageWageForecast: 8673,
+    ryczaltHealthBase: 8549.18,
+    healthMinimumBase: 3499.5,
+    liniowyHealthDeductionLimit: 12900,
+  },
+  2026: {
+    minimumWage: 4806,
+    averageWageForecast: 9420,
+    ryczaltHealthBase: 9228.64,
+    healthMinimumBase: 3604.5,
+    liniowyHealthDeductionLimit: 14100,
+  },
+};
+
+// Contribution rates in percent of the ZUS base
+const PENSION_RATE = 19.52;
+const DISABILITY_RATE = 8;
+const SICKNESS_RATE = 2.45;
+const ACCIDENT_RATE = 1.67;
+const LABOUR_FUND_RATE = 2.45;
+
+// Ryczałt rates a sole proprietor can be taxed at, in percent
+export const RYCZALT_RATES = [17, 15, 14, 12, 10, 8.5, 5.5, 3, 2];
+
+const HEALTH_RATE = 9;
+const LINIOWY_HEALTH_RATE = 4.9;
+// Ryczałt health is a share of the average wage, stepped by yearly revenue
+const RYCZALT_HEALTH_TIERS = [
+  { revenueUpTo: 60000, baseShare: 0.6 },
+  { revenueUpTo: 300000, baseShare: 1 },
+  { revenueUpTo: Infinity, baseShare: 1.8 },
+];
+
+const SKALA_THRESHOLD = 120000;
+const SKALA_LOWER_RATE = 12;
+const SKALA_UPPER_RATE = 32;
+const SKALA_TAX_REDUCTION = 3600; // kwota zmniejszająca podatek, tax-free 30 000 PLN
+const LINIOWY_RATE = 19;
+
+const NEXT_TIER: Record<ZusTier, ZusTier> = { start: 'preferential', preferential: 'full', full: 'full' };
+
+/** Parameters of a year; years not listed use the closest known one. */
+export function getTaxYearParameters(year: number): TaxYearParameters {
+  const years = Object.keys(TAX_YEARS).map(Number).sort((a, b) => a - b);
+  const known = years.filter((y) => y <= year).pop() ?? years[0];
+  return TAX_YEARS[known];
+}
+
+const percentOf = (amount: number, rate: number) => roundToTwoDecimals((amount * rate) / 100);
+
+export function getZusTier(profile: TaxProfile, month: string): ZusTier {
+  return profile.zus_tier_until && month > profile.zus_tier_until ? NEXT_TIER[profile.zus_tier] : profile.zus_tier;
+}
+
+/** Monthly social contributions; the Labour Fund is left out when the base is below the minimum wage. */
+export function calculateSocialZus(
+  tier: ZusTier,
+  year: number,
+  sicknessInsurance: boolean
+): { deductible: number; labour_fund: number; total: number } {
+  if (tier === 'start') return { deductible: 0, labour_fund: 0, total: 0 };
+
+  const params = getTaxYearParameters(year);
+  const base = roundToTwoDecimals(
+    tier === 'full' ? params.averageWageForecast * 0.6 : params.minimumWage * 0.3
+  );
+
+  const deductible =
+    percentOf(base, PENSION_RATE) +
+    percentOf(base, DISABILITY_RATE) +
+    (sicknessInsurance ? percentOf(base, SICKNESS_RATE) : 0) +
+    percentOf(base, ACCIDENT_RATE);
+  const labourFund = base >= params.minimumWage ? percentOf(base, LABOUR_FUND_RATE) : 0;
+
+  return {
+    deductible: roundToTwoDecimals(deductible),
+    labour_fund: labourFund,
+    total: roundToTwoDecimals(deductible + labourFund),
+  };
+}
+
+/** Health contribution for a month; income is the month's revenue less costs and social ZUS. */
+export function calculateHealthContribution(
+  profile: TaxProfile,
+  year: number,
+  monthIncome: number,
+  revenueToDate: number
+): number {
+  const params = getTaxYearParameters(year);
+
+  if (profile.tax_form === 'ryczalt') {
+    const tier = RYCZALT_HEALTH_TIERS.find((t) => revenueToDate <= t.revenueUpTo)!;
+    return percentOf(params.ryczaltHealthBase * tier.baseShare, HEALTH_RATE);
+  }
+
+  const minimum = percentOf(params.healthMinimumBase, HEALTH_RATE);
+  const rate = profile.tax_form === 'liniowy' ? LINIOWY_HEALTH_RATE : HEALTH_RATE;
+  return Math.max(percentOf(Math.max(monthIncome, 0), rate), minimum);
+}
+
+// Tax bases and tax are rounded to full złoty
+const roundToZloty = (value: number) => Math.round(value);
+
+/** Income tax due on the year's income so far, before advances already paid. */
+export function calculateTaxToDate(
+  profile: TaxProfile,
+  year: number,
+  ytd: { revenue: number; costs: number; social_deductible: number; health: number }
+): number {
+  if (profile.tax_form === 'ryczalt') {
+    // Half of the health contributions paid reduces ryczałt revenue
+    const base = roundToZloty(Math.max(ytd.revenue - ytd.social_deductible - ytd.health / 2, 0));
+    return roundToZloty((base * profile.ryczalt_rate) / 100);
+  }
+
+  const income = ytd.revenue - ytd.costs - ytd.social_deductible;
+
+  if (profile.tax_form === 'liniowy') {
+    const healthDeduction = Math.min(ytd.health, getTaxYearParameters(year).liniowyHealthDeductionLimit);
+    const base = roundToZloty(Math.max(income - healthDeduction, 0));
+    return roundToZloty((base * LINIOWY_RATE) / 100);
+  }
+
+  const base = roundToZloty(Math.max(income, 0));
+  const tax =
+    base <= SKALA_THRESHOLD
+      ? (base * SKALA_LOWER_RATE) / 100 - SKALA_TAX_REDUCTION
+      : (SKALA_THRESHOLD * SKALA_LOWER_RATE) / 100 - SKALA_TAX_REDUCTION + ((base - SKALA_THRESHOLD) * SKALA_UPPER_RATE) / 100;
+  return Math.max(roundToZloty(tax), 0);
+}
+
+/**
+ * Month-by-month estimate of PIT advances, ZUS and health for one year. Advances are
+ * worked out cumulatively: the tax on the year's income so far less what was already paid.
+ */
+export function estimateTaxYear(
+  year: number,
+  months: { month: string; revenue: number; costs: number }[],
+  profile: TaxProfile
+): { months: MonthlyTaxEstimate[]; totals: TaxTotals } {
+  const ytd = { revenue: 0, costs: 0, social_deductible: 0, health: 0 };
+  let advancesPaid = 0;
+
+  const estimates = months.map(({ month, revenue, costs }): MonthlyTaxEstimate => {
+    const tier = getZusTier(profile, month);
+    const social = calculateSocialZus(tier, year, profile.sickness_insurance);
+    // Ryczałt is paid on revenue alone; under skala and liniowy the Labour Fund is a business cost too
+    const deductibleCosts = profile.tax_form === 'ryczalt' ? 0 : costs + social.labour_fund;
+
+    ytd.revenue += revenue;
+    ytd.costs += deductibleCosts;
+    ytd.social_deductible += social.deductible;
+
+    const health = calculateHealthContribution(profile, year, revenue - deductibleCosts - social.deductible, ytd.revenue);
+    ytd.health += health;
+
+    const pitAdvance = Math.max(calculateTaxToDate(profile, year, ytd) - advancesPaid, 0);
+    advancesPaid += pitAdvance;
+
+    const totalBurden = social.total + health + pitAdvance;
+    return {
+      month,
+      revenue: roundToTwoDecimals(revenue),
+      costs: roundToTwoDecimals(costs),
+      zus_tier: tier,
+      social_zus: social.total,
+      health,
+      pit_advance: pitAdvance,
+      due_date: `${format(dateFnsAddMonths(parseISO(`${month}-01`), 1), 'yyyy-MM')}-20`,
+      total_burden: roundToTwoDecimals(totalBurden),
+      net_income: roundToTwoDecimals(revenue - costs - totalBurden),
+    };
+  });
+
+  const sum = (key: keyof MonthlyTaxEstimate) =>
+    roundToTwoDecimals(estimates.reduce((total, m) => total + (m[key] as number), 0));
+
+  return {
+    months: estimates,
+    totals: {
+      revenue: sum('revenue'),
+      costs: sum('costs'),
+      social_zus: sum('social_zus'),
+      health: sum('health'),
+      pit: sum('pit_advance'),
+      total_burden: sum('total_burden'),
+      net_income: sum('net_income'),
+    },
+  };
+}
@@ -0,0 +1,10 @@
+import type { TrackedTimeEntry } from '@/types';
+
+export function getProjectIdFromEntry(entry: TrackedTimeEntry): string {
+  return entry.project_id || 'unknown';
+}
+
+// Toggl descriptions and CSV rows carry a task name but no task id
+export function getTaskIdFromEntry(entry: TrackedTimeEntry): string {
+  return entry.task_id || entry.task_name || 'no-task';
+}
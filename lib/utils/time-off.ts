@@ -0,0 +1,22 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { timeOffDb } from '../db';
+import type { TimeOff } from '@/types';
+
+/**
+ * Every day from..to (YYYY-MM-DD, inclusive) covered by personal time off,
+ * mapped to the period covering it. Weekends and holidays are included.
+ */
+export function getTimeOffDays(from: string, to: string): Map<string, TimeOff> {
+  const days = new Map<string, TimeOff>();
+  if (from > to) return days;
+
+  timeOffDb.getOverlapping(from, to).forEach((timeOff) => {
+    const start = timeOff.start_date > from ? timeOff.start_date : from;
+    const end = timeOff.end_date < to ? timeOff.end_date : to;
+    eachDayOfInterval({ start: parseISO(start), end: parseISO(end) }).forEach((day) => {
+      days.set(format(day, 'yyyy-MM-dd'), timeOff);
+    });
+  });
+
+  return days;
+}
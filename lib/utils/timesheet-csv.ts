@@ -0,0 +1,95 @@
+import type { ParsedTimesheetRow, TimesheetColumnMapping } from '@/types';
+import { detectCsvDelimiter, isBlankCsvRow, parseCsv } from './csv';
+
+// Timesheets: CSV exports of Toggl, Clockify and Everhour, or a hand-kept spreadsheet.
+
+// Header names recognised without a mapping, most specific first
+const COLUMN_CANDIDATES: Record<keyof TimesheetColumnMapping, string[]> = {
+  date: ['date', 'start date', 'data', 'dzień'],
+  duration: ['duration (decimal)', 'duration (h)', 'duration', 'hours', 'time', 'czas', 'godziny', 'liczba godzin'],
+  project: ['project', 'projekt'],
+  task: ['task', 'description', 'zadanie', 'opis'],
+  user: ['user', 'member', 'osoba', 'użytkownik'],
+};
+
+// "1.5", "1,5" (hours) or "1:30", "01:30:00" -> seconds
+export function parseTimesheetDuration(value: string): number | null {
+  const v = value.trim();
+  let m = /^(\d+):([0-5]\d)(?::([0-5]\d))?$/.exec(v);
+  if (m) return Number(m[1]) * 3600 + Number(m[2]) * 60 + Number(m[3] ?? 0);
+  m = /^\d+(?:[.,]\d+)?$/.exec(v);
+  if (m) return Math.round(parseFloat(v.replace(',', '.')) * 3600);
+  return null;
+}
+
+// YYYY-MM-DD (optionally followed by a time) or DD.MM.YYYY
+export function parseTimesheetDate(value: string): string | null {
+  const v = value.trim();
+  let m = /^(\d{4})-(\d{2})-(\d{2})(?:[ T].*)?$/.exec(v);
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+  m = /^(\d{2})\.(\d{2})\.(\d{4})$/.exec(v);
+  if (m) return `${m[3]}-${m[2]}-${m[1]}`;
+  return null;
+}
+
+export function detectTimesheetColumns(headers: string[]): Partial<TimesheetColumnMapping> {
+  const normalized = headers.map((h) => h.trim().toLowerCase());
+  const mapping: Partial<TimesheetColumnMapping> = {};
+
+  for (const field of Object.keys(COLUMN_CANDIDATES) as Array<keyof TimesheetColumnMapping>) {
+    const index = COLUMN_CANDIDATES[field].map((c) => normalized.indexOf(c)).find((i) => i !== -1);
+    if (index !== undefined) mapping[field] = headers[index];
+  }
+  return mapping;
+}
+
+/**
+ * Rows of a timesheet with a header line. Columns are recognised by name unless a
+ * mapping is given; a row with an unreadable date or duration fails the whole file.
+ */
+export function parseTimesheetCsv(content: string, mapping?: TimesheetColumnMapping): ParsedTimesheetRow[] {
+  const csvRows = parseCsv(content, detectCsvDelimiter(content));
+  const headerIndex = csvRows.findIndex((row) => !isBlankCsvRow(row));
+  if (headerIndex === -1) return [];
+
+  const headers = csvRows[headerIndex].cells;
+  const columns = mapping ?? detectTimesheetColumns(headers);
+  if (!columns.date || !columns.duration) {
+    throw new Error('Timesheet needs a date and a duration column');
+  }
+
+  const indexOf = (header: string | null | undefined) => (header ? headers.indexOf(header) : -1);
+  const col = {
+    date: indexOf(columns.date),
+    duration: indexOf(columns.duration),
+    project: indexOf(columns.project),
+    task: indexOf(columns.task),
+    user: indexOf(columns.user),
+  };
+  if (col.date === -1 || col.duration === -1) {
+    throw new Error(`Timesheet has no "${col.date === -1 ? columns.date : columns.duration}" column`);
+  }
+
+  const rows: ParsedTimesheetRow[] = [];
+  csvRows.slice(headerIndex + 1).forEach((row) => {
+    if (isBlankCsvRow(row)) return;
+    const { line: lineNumber, cells } = row;
+    const optional = (index: number) => (index !== -1 && cells[index] ? cells[index] : null);
+
+    const date = parseTimesheetDate(cells[col.date] ?? '');
+    if (!date) throw new Error(`Line ${lineNumber}: unreadable date "${cells[col.date] ?? ''}"`);
+    const seconds = parseTimesheetDuration(cells[col.duration] ?? '');
+    if (seconds === null) throw new Error(`Line ${lineNumber}: unreadable duration "${cells[col.duration] ?? ''}"`);
+
+    rows.push({
+      line: lineNumber,
+      date,
+      seconds,
+      project: optional(col.project),
+      task: optional(col.task),
+      user: optional(col.user),
+    });
+  });
+
+  return rows;
+}
@@ -0,0 +1,74 @@
+import { expensesDb, fuelTransactionsDb, tripsDb } from '../db';
+import { getMonthRange } from './date';
+import { expenseCostGrosze } from './expenses';
+
+export interface ProjectTravel {
+  distance_km: number;
+  cost: number;
+}
+
+/**
+ * Fuel cost per km of each vehicle in a month, in PLN. Fuel costs what its expense
+ * costs the business, as in the monthly profit.
+ */
+function getMonthCostPerKm(month: string): (vehicleId: number) => number {
+  const { startFormatted, endFormatted } = getMonthRange(month);
+  const fuelExpenses = expensesDb
+    .getByDateRange(startFormatted, endFormatted)
+    .filter((expense) => expense.category === 'fuel');
+  const costByTransaction = new Map(
+    fuelExpenses
+      .filter((expense) => expense.fuel_transaction_id !== null)
+      .map((expense) => [expense.fuel_transaction_id!, expenseCostGrosze(expense) / 100])
+  );
+
+  const measuredCost = new Map<number, number>();
+  for (const fillUp of fuelTransactionsDb.getMeasuredFillUps(month)) {
+    const cost = costByTransaction.get(fillUp.id) ?? 0;
+    measuredCost.set(fillUp.vehicle_id, (measuredCost.get(fillUp.vehicle_id) ?? 0) + cost);
+  }
+
+  const stats = fuelTransactionsDb.getMonthlyStats(month);
+  const measured = new Map(
+    stats.byVehicle
+      .filter((row) => row.distance_km > 0)
+      .map((row) => [row.vehicle_id, (measuredCost.get(row.vehicle_id) ?? 0) / row.distance_km])
+  );
+
+  // Fuel not bought for a vehicle with readings is spread over the kilometres logged with the others
+  const vehicleByTransaction = new Map(fuelTransactionsDb.getByMonth(month).map((t) => [t.id, t.vehicle_id ?? null]));
+  const sharedCost = fuelExpenses
+    .filter((expense) => {
+      const vehicleId = expense.fuel_transaction_id !== null ? vehicleByTransaction.get(expense.fuel_transaction_id) : null;
+      return vehicleId == null || !measured.has(vehicleId);
+    })
+    .reduce((sum, expense) => sum + expenseCostGrosze(expense) / 100, 0);
+  const sharedKm = stats.byVehicle
+    .filter((row) => !measured.has(row.vehicle_id))
+    .reduce((sum, row) => sum + row.logged_km, 0);
+  const shared = sharedKm > 0 ? sharedCost / sharedKm : 0;
+
+  return (vehicleId) => measured.get(vehicleId) ?? shared;
+}
+
+/**
+ * Kilometres driven for each project between from and to (YYYY-MM-DD, inclusive), priced
+ * at the fuel cost per km of the vehicle in the month of the trip.
+ */
+export function getProjectTravelMap(from: string, to: string): Map<string, ProjectTravel> {
+  const costPerKmByMonth = new Map<string, (vehicleId: number) => number>();
+  const travelMap = new Map<string, ProjectTravel>();
+
+  tripsDb.getProjectDistances(from, to).forEach((row) => {
+    if (!costPerKmByMonth.has(row.month)) {
+      costPerKmByMonth.set(row.month, getMonthCostPerKm(row.month));
+    }
+
+    const travel = travelMap.get(row.project_id) ?? { distance_km: 0, cost: 0 };
+    travel.distance_km += row.distance_km;
+    travel.cost += row.distance_km * costPerKmByMonth.get(row.month)!(row.vehicle_id);
+    travelMap.set(row.project_id, travel);
+  });
+
+  return travelMap;
+}
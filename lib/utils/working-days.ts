@@ -1,14 +1,28 @@
 import { eachDayOfInterval, isWeekend, format, parse } from 'date-fns';
 import { HolidaysService } from '../services/holidays.service';
+import { getTimeOffDays } from './time-off';
 
 const holidaysService = new HolidaysService();
 
-export async function calculateWorkingDays(
+interface WorkingDaysOptions {
+  excludeTimeOff?: boolean; // also skip personal days off, e.g. for goals
+}
+
+/**
+ * Weekdays between the dates (inclusive) that are not public holidays
+ * @returns Dates in YYYY-MM-DD format, oldest first
+ */
+export async function getWorkingDates(
   startDate: Date,
-  endDate: Date
-): Promise<number> {
+  endDate: Date,
+  { excludeTimeOff = false }: WorkingDaysOptions = {}
+): Promise<string[]> {
+  if (startDate > endDate) {
+    return [];
+  }
+
   // Get holidays for the year(s) covered by the date range
-  const years = new Set<number>();
+  const years = new Set<number>([endDate.getFullYear()]);
   const currentDate = new Date(startDate);
   while (currentDate <= endDate) {
     years.add(currentDate.getFullYear());
@@ -21,27 +35,41 @@ export async function calculateWorkingDays(
     const holidays = await holidaysService.getHolidaysForYear(year);
     holidays.forEach(h => allHolidays.add(h.date));
   }
+
+  const timeOff = excludeTimeOff
+    ? getTimeOffDays(format(startDate, 'yyyy-MM-dd'), format(endDate, 'yyyy-MM-dd'))
+    : new Map();
   
-  // Count working days
+  // Collect working days
   const allDays = eachDayOfInterval({ start: startDate, end: endDate });
   
-  return allDays.filter(day => {
+  return allDays.map(day => format(day, 'yyyy-MM-dd')).filter((dateStr, index) => {
     // Exclude weekends
-    if (isWeekend(day)) {
+    if (isWeekend(allDays[index])) {
       return false;
     }
     
-    // Exclude holidays
-    const dateStr = format(day, 'yyyy-MM-dd');
-    if (allHolidays.has(dateStr)) {
+    // Exclude holidays and days off
+    if (allHolidays.has(dateStr) || timeOff.has(dateStr)) {
       return false;
     }
     
     return true;
-  }).length;
+  });
 }
 
-export async function calculateMonthlyWorkingDays(monthOrDate?: string | Date): Promise<number> {
+export async function calculateWorkingDays(
+  startDate: Date,
+  endDate: Date,
+  options: WorkingDaysOptions = {}
+): Promise<number> {
+  return (await getWorkingDates(startDate, endDate, options)).length;
+}
+
+export async function calculateMonthlyWorkingDays(
+  monthOrDate?: string | Date,
+  options: WorkingDaysOptions = {}
+): Promise<number> {
   let date: Date;
   
   if (typeof monthOrDate === 'string') {
@@ -56,6 +84,6 @@ export async function calculateMonthlyWorkingDays(monthOrDate?: string | Date):
   const startOfMonth = new Date(date.getFullYear(), date.getMonth(), 1);
   const endOfMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0);
   
-  return calculateWorkingDays(startOfMonth, endOfMonth);
+  return calculateWorkingDays(startOfMonth, endOfMonth, options);
 }
 
@@ -0,0 +1,158 @@
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+
+const execFileAsync = promisify(execFile);
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function isoUtcDateTimeZ(d: Date): string {
+  // XML schema requires Zulu time in allowed range; use seconds precision.
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${d.getUTCFullYear()}-` +
+    `${pad(d.getUTCMonth() + 1)}-` +
+    `${pad(d.getUTCDate())}T` +
+    `${pad(d.getUTCHours())}:` +
+    `${pad(d.getUTCMinutes())}:` +
+    `${pad(d.getUTCSeconds())}Z`
+  );
+}
+
+export function tag(name: string, content?: string | number | null, attrs?: Record<string, string>): string {
+  const attrStr = attrs
+    ? Object.entries(attrs)
+        .map(([k, v]) => ` ${k}="${escapeXml(v)}"`)
+        .join('')
+    : '';
+  if (content === undefined || content === null) return `<${name}${attrStr}/>`;
+  return `<${name}${attrStr}>${escapeXml(String(content))}</${name}>`;
+}
+
+/**
+ * Validates an XML file with xmllint against a schema vendored under lib/schemas.
+ * The directory holds schemat.xsd and a catalog.xml mapping imported XSD URLs to local files.
+ */
+export async function validateXmlAgainstSchema(xmlPath: string, schemaDir: string[], label: string): Promise<void> {
+  const schemaPath = path.join(process.cwd(), 'lib', 'schemas', ...schemaDir, 'schemat.xsd');
+  const catalogPath = path.join(process.cwd(), 'lib', 'schemas', ...schemaDir, 'catalog.xml');
+
+  // Fail fast with clear errors when schema files are missing.
+  for (const file of [schemaPath, catalogPath]) {
+    await fs.access(file).catch(() => {
+      throw new Error(`${label} schema file not found: ${path.relative(process.cwd(), file)}`);
+    });
+  }
+  await fs.access(xmlPath);
+
+  try {
+    await execFileAsync(
+      'xmllint',
+      [
+        '--noout',
+        '--nonet',
+        '--catalogs',
+        '--schema',
+        schemaPath,
+        xmlPath,
+      ],
+      {
+        // libxml2 honors catalogs via flags and env; set both.
+        env: { ...process.env, XML_CATALOG_FILES: catalogPath, SGML_CATALOG_FILES: catalogPath },
+      }
+    );
+  } catch (err: any) {
+    const stderr = typeof err?.stderr === 'string' ? err.stderr.trim() : '';
+    const msg = stderr || err?.message || 'Unknown xmllint error';
+    throw new Error(`${label} XML validation failed: ${msg}`);
+  }
+}
+
+export interface XmlElement {
+  name: string; // local name, namespace prefix dropped
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity];
+  });
+}
+
+const localName = (qualifiedName: string) => qualifiedName.slice(qualifiedName.indexOf(':') + 1);
+
+/**
+ * Reads an XML document into an element tree. Meant for files already checked by
+ * validateXmlAgainstSchema: DTDs are skipped and only the predefined entities are decoded.
+ */
+export function parseXml(content: string): XmlElement {
+  const root: XmlElement = { name: '', attributes: {}, children: [], text: '' };
+  const stack = [root];
+  const token =
+    /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([\w.:-]+)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+
+  let position = 0;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(content)) !== null) {
+    if (match.index !== position) break;
+    position = token.lastIndex;
+
+    const [, cdata, closing, name, attributes, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+    if (text !== undefined) {
+      current.text += decodeXml(text);
+    } else if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (name === undefined) {
+      continue; // comment, processing instruction or DOCTYPE
+    } else if (closing) {
+      if (stack.length === 1 || current.name !== localName(name)) {
+        throw new Error(`Malformed XML: unexpected </${name}>`);
+      }
+      stack.pop();
+    } else {
+      const element: XmlElement = { name: localName(name), attributes: {}, children: [], text: '' };
+      for (const [, key, , doubleQuoted, singleQuoted] of attributes.matchAll(/([\w.:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+        element.attributes[localName(key)] = decodeXml(doubleQuoted ?? singleQuoted);
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (position !== content.length || stack.length !== 1 || root.children.length !== 1) {
+    throw new Error('Malformed XML');
+  }
+  return root.children[0];
+}
+
+export function xmlChild(parent: XmlElement | undefined, ...path: string[]): XmlElement | undefined {
+  let element = parent;
+  for (const name of path) {
+    element = element?.children.find((child) => child.name === name);
+  }
+  return element;
+}
+
+export function xmlChildren(parent: XmlElement | undefined, name: string): XmlElement[] {
+  return parent?.children.filter((child) => child.name === name) ?? [];
+}
+
+// Trimmed text of a descendant, null when it is missing or empty
+export function xmlText(parent: XmlElement | undefined, ...path: string[]): string | null {
+  return xmlChild(parent, ...path)?.text.trim() || null;
+}
@@ -0,0 +1,287 @@
+#!/usr/bin/env node
+// Local stand-in for the KSeF 2.0 API, enough for the submission flow in lib/ksef.ts.
+//
+//   node scripts/ksef-mock-server.mjs            # listens on http://localhost:8089
+//   KSEF_API_URL=http://localhost:8089 KSEF_TOKEN=mock-token npm run dev
+//
+// Env: KSEF_MOCK_PORT (8089), KSEF_MOCK_TOKEN (mock-token).
+// Invoices are decrypted and checked like KSeF does at a basic level: hashes,
+// seller NIP = session NIP, and duplicate invoice numbers are rejected.
+// Requires the openssl CLI to create a throwaway certificate.
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { execFileSync } from 'node:child_process';
+
+const PORT = Number(process.env.KSEF_MOCK_PORT || 8089);
+const TOKEN = process.env.KSEF_MOCK_TOKEN || 'mock-token';
+
+// --- Keys -----------------------------------------------------------------
+
+const keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ksef-mock-'));
+execFileSync(
+  'openssl',
+  ['req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-days', '2', '-subj', '/CN=KSeF mock',
+    '-keyout', path.join(keyDir, 'key.pem'), '-out', path.join(keyDir, 'cert.pem')],
+  { stdio: 'ignore' }
+);
+const privateKey = crypto.createPrivateKey(fs.readFileSync(path.join(keyDir, 'key.pem')));
+const certificate = new crypto.X509Certificate(fs.readFileSync(path.join(keyDir, 'cert.pem')));
+fs.rmSync(keyDir, { recursive: true, force: true });
+
+const rsaDecrypt = (base64) =>
+  crypto.privateDecrypt(
+    { key: privateKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+    Buffer.from(base64, 'base64')
+  );
+
+const sha256 = (buf) => crypto.createHash('sha256').update(buf).digest('base64');
+
+// --- State ----------------------------------------------------------------
+
+const challenges = new Map(); // challenge -> timestamp
+const authOperations = new Map(); // referenceNumber -> { token, nip }
+const accessTokens = new Map(); // token -> nip
+const sessions = new Map(); // referenceNumber -> { nip, key, iv, closed, invoices: Map }
+const acceptedNumbers = new Set(); // `${nip}|${invoiceNumber}`
+
+const reference = () => {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  return `${date}-SO-${crypto.randomBytes(5).toString('hex').toUpperCase()}-${crypto.randomBytes(5).toString('hex').toUpperCase()}-${crypto.randomBytes(1).toString('hex').toUpperCase()}`;
+};
+
+// CRC-8 (poly 0x07) checksum used by KSeF numbers
+function crc8(text) {
+  let crc = 0;
+  for (const byte of Buffer.from(text, 'utf8')) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc.toString(16).toUpperCase().padStart(2, '0');
+}
+
+function ksefNumber(nip) {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  const hex = crypto.randomBytes(6).toString('hex').toUpperCase();
+  const body = `${nip}-${date}-${hex.slice(0, 6)}-${hex.slice(6)}`;
+  return `${body}-${crc8(body)}`;
+}
+
+// --- HTTP helpers -----------------------------------------------------------
+
+function send(res, status, body, contentType = 'application/json') {
+  res.writeHead(status, body === undefined ? {} : { 'Content-Type': contentType });
+  res.end(body === undefined ? undefined : contentType === 'application/json' ? JSON.stringify(body) : body);
+}
+
+function fail(res, status, code, description, details = []) {
+  send(res, status, { exception: { exceptionDetailList: [{ exceptionCode: code, exceptionDescription: description, details }] } });
+}
+
+const bearer = (req) => (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+
+async function readJson(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : {};
+}
+
+// --- Routes ---------------------------------------------------------------
+
+const routes = [
+  ['GET', /^\/security\/public-key-certificates$/, (req, res) => {
+    const cert = {
+      certificate: certificate.raw.toString('base64'),
+      validFrom: new Date(certificate.validFrom).toISOString(),
+      validTo: new Date(certificate.validTo).toISOString(),
+    };
+    send(res, 200, [
+      { ...cert, usage: ['KsefTokenEncryption'] },
+      { ...cert, usage: ['SymmetricKeyEncryption'] },
+    ]);
+  }],
+
+  ['POST', /^\/auth\/challenge$/, (req, res) => {
+    const challenge = reference().replace('-SO-', '-CR-');
+    const timestamp = new Date().toISOString();
+    challenges.set(challenge, Date.parse(timestamp));
+    send(res, 200, { challenge, timestamp });
+  }],
+
+  ['POST', /^\/auth\/ksef-token$/, async (req, res) => {
+    const body = await readJson(req);
+    const timestamp = challenges.get(body.challenge);
+    if (timestamp === undefined) return fail(res, 400, 21001, 'Nieznane wyzwanie autoryzacyjne');
+    challenges.delete(body.challenge);
+
+    let token;
+    try {
+      token = rsaDecrypt(body.encryptedToken).toString('utf8');
+    } catch {
+      return fail(res, 400, 21002, 'Nie udało się odszyfrować tokena');
+    }
+    if (token !== `${TOKEN}|${timestamp}`) return fail(res, 401, 21003, 'Nieprawidłowy token KSeF');
+
+    const nip = body.contextIdentifier?.value;
+    if (!/^\d{10}$/.test(nip || '')) return fail(res, 400, 21004, 'Nieprawidłowy identyfikator kontekstu');
+
+    const referenceNumber = reference().replace('-SO-', '-AU-');
+    const authToken = crypto.randomBytes(24).toString('hex');
+    authOperations.set(referenceNumber, { token: authToken, nip });
+    send(res, 202, { referenceNumber, authenticationToken: { token: authToken, validUntil: new Date(Date.now() + 600_000).toISOString() } });
+  }],
+
+  ['GET', /^\/auth\/([\w-]+)$/, (req, res, [ref]) => {
+    const op = authOperations.get(ref);
+    if (!op || op.token !== bearer(req)) return fail(res, 401, 21005, 'Brak autoryzacji');
+    send(res, 200, { status: { code: 200, description: 'Uwierzytelnianie zakończone sukcesem' } });
+  }],
+
+  ['POST', /^\/auth\/token\/redeem$/, (req, res) => {
+    const entry = [...authOperations.entries()].find(([, op]) => op.token === bearer(req));
+    if (!entry) return fail(res, 401, 21005, 'Brak autoryzacji');
+    authOperations.delete(entry[0]);
+
+    const accessToken = crypto.randomBytes(24).toString('hex');
+    accessTokens.set(accessToken, entry[1].nip);
+    const validUntil = new Date(Date.now() + 900_000).toISOString();
+    send(res, 200, {
+      accessToken: { token: accessToken, validUntil },
+      refreshToken: { token: crypto.randomBytes(24).toString('hex'), validUntil },
+    });
+  }],
+
+  ['POST', /^\/sessions\/online$/, async (req, res) => {
+    const nip = accessTokens.get(bearer(req));
+    if (!nip) return fail(res, 401, 21005, 'Brak autoryzacji');
+
+    const body = await readJson(req);
+    if (body.formCode?.systemCode !== 'FA (3)') return fail(res, 400, 21405, 'Nieobsługiwany formularz');
+
+    const key = rsaDecrypt(body.encryption.encryptedSymmetricKey);
+    const iv = Buffer.from(body.encryption.initializationVector, 'base64');
+    const referenceNumber = reference();
+    sessions.set(referenceNumber, { nip, key, iv, closed: false, invoices: new Map() });
+    send(res, 201, { referenceNumber, validUntil: new Date(Date.now() + 43_200_000).toISOString() });
+  }],
+
+  ['POST', /^\/sessions\/online\/([\w-]+)\/invoices$/, async (req, res, [ref]) => {
+    const session = sessions.get(ref);
+    if (!session || accessTokens.get(bearer(req)) !== session.nip) return fail(res, 401, 21005, 'Brak autoryzacji');
+    if (session.closed) return fail(res, 400, 21180, 'Sesja jest zamknięta');
+
+    const body = await readJson(req);
+    const encrypted = Buffer.from(body.encryptedInvoiceContent, 'base64');
+    if (sha256(encrypted) !== body.encryptedInvoiceHash || encrypted.length !== body.encryptedInvoiceSize) {
+      return fail(res, 400, 21170, 'Skrót zaszyfrowanej faktury jest niepoprawny');
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-cbc', session.key, session.iv);
+    const xml = Buffer.concat([decipher.update(encrypted), decipher.final()]);
+    if (sha256(xml) !== body.invoiceHash || xml.length !== body.invoiceSize) {
+      return fail(res, 400, 21171, 'Skrót faktury jest niepoprawny');
+    }
+
+    const text = xml.toString('utf8');
+    const invoiceNumber = /<P_2>([^<]*)<\/P_2>/.exec(text)?.[1] ?? null;
+    const sellerNip = /<Podmiot1>[\s\S]*?<NIP>(\d{10})<\/NIP>/.exec(text)?.[1] ?? null;
+
+    let status = { code: 200, description: 'Sukces' };
+    if (!text.includes('<Faktura') || !invoiceNumber) {
+      status = { code: 450, description: 'Błąd weryfikacji semantyki dokumentu faktury', details: ['Brak elementu Faktura lub P_2'] };
+    } else if (sellerNip !== session.nip) {
+      status = { code: 450, description: 'Błąd weryfikacji semantyki dokumentu faktury', details: [`NIP sprzedawcy ${sellerNip} nie zgadza się z kontekstem ${session.nip}`] };
+    } else if (acceptedNumbers.has(`${session.nip}|${invoiceNumber}`)) {
+      status = { code: 440, description: 'Duplikat faktury', details: [invoiceNumber] };
+    }
+
+    const referenceNumber = reference().replace('-SO-', '-EE-');
+    const accepted = status.code === 200;
+    if (accepted) acceptedNumbers.add(`${session.nip}|${invoiceNumber}`);
+
+    session.invoices.set(referenceNumber, {
+      referenceNumber,
+      invoiceNumber,
+      ksefNumber: accepted ? ksefNumber(session.nip) : null,
+      status,
+      polls: 0,
+      hash: body.invoiceHash,
+    });
+    send(res, 202, { referenceNumber });
+  }],
+
+  ['POST', /^\/sessions\/online\/([\w-]+)\/close$/, (req, res, [ref]) => {
+    const session = sessions.get(ref);
+    if (!session || accessTokens.get(bearer(req)) !== session.nip) return fail(res, 401, 21005, 'Brak autoryzacji');
+    session.closed = true;
+    send(res, 204);
+  }],
+
+  ['GET', /^\/sessions\/([\w-]+)\/invoices\/ksef\/([\w-]+)\/upo$/, (req, res, [ref, number]) => {
+    const session = sessions.get(ref);
+    if (!session || accessTokens.get(bearer(req)) !== session.nip) return fail(res, 401, 21005, 'Brak autoryzacji');
+    const invoice = [...session.invoices.values()].find((i) => i.ksefNumber === number);
+    if (!invoice) return fail(res, 404, 21404, 'Nie znaleziono faktury');
+
+    send(res, 200, [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<Potwierdzenie xmlns="http://ksef.mf.gov.pl/schema/gtw/svc/types/2025/01/01/0001">',
+      '  <NazwaPodmiotuPrzyjmujacego>Ministerstwo Finansów (mock)</NazwaPodmiotuPrzyjmujacego>',
+      `  <NumerReferencyjnySesji>${ref}</NumerReferencyjnySesji>`,
+      `  <Uwierzytelnienie><IdKontekstu><Nip>${session.nip}</Nip></IdKontekstu></Uwierzytelnienie>`,
+      '  <Dokument>',
+      `    <NumerKSeFDokumentu>${invoice.ksefNumber}</NumerKSeFDokumentu>`,
+      `    <NumerFaktury>${invoice.invoiceNumber}</NumerFaktury>`,
+      `    <SkrotDokumentu>${invoice.hash}</SkrotDokumentu>`,
+      `    <DataPrzyjecia>${new Date().toISOString()}</DataPrzyjecia>`,
+      '  </Dokument>',
+      '</Potwierdzenie>',
+    ].join('\n'), 'application/xml');
+  }],
+
+  ['GET', /^\/sessions\/([\w-]+)\/invoices\/([\w-]+)$/, (req, res, [ref, invoiceRef]) => {
+    const session = sessions.get(ref);
+    if (!session || accessTokens.get(bearer(req)) !== session.nip) return fail(res, 401, 21005, 'Brak autoryzacji');
+    const invoice = session.invoices.get(invoiceRef);
+    if (!invoice) return fail(res, 404, 21404, 'Nie znaleziono faktury');
+
+    // Report "processing" once so clients exercise their polling
+    invoice.polls++;
+    if (invoice.polls === 1) {
+      return send(res, 200, { referenceNumber: invoiceRef, invoiceNumber: invoice.invoiceNumber, status: { code: 150, description: 'Trwa przetwarzanie' } });
+    }
+    send(res, 200, {
+      referenceNumber: invoiceRef,
+      invoiceNumber: invoice.invoiceNumber,
+      ksefNumber: invoice.ksefNumber,
+      status: invoice.status,
+    });
+  }],
+];
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const pathname = url.pathname.replace(/^\/api\/v2/, '');
+  try {
+    for (const [method, pattern, handler] of routes) {
+      const match = req.method === method && pattern.exec(pathname);
+      if (match) {
+        await handler(req, res, match.slice(1));
+        console.log(`${req.method} ${pathname} -> ${res.statusCode}`);
+        return;
+      }
+    }
+    fail(res, 404, 21404, `Unknown endpoint ${req.method} ${pathname}`);
+  } catch (error) {
+    console.error(error);
+    fail(res, 500, 10000, 'Internal mock error', [String(error)]);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`KSeF mock listening on http://localhost:${PORT} (token: ${TOKEN})`);
+});
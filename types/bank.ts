@@ -0,0 +1,57 @@
+export type BankStatementFormat = 'mt940' | 'csv';
+
+export type BankTransactionStatus = 'unmatched' | 'proposed' | 'matched' | 'ignored';
+
+// Why a transaction was proposed for an invoice
+export type MatchReason = 'invoice_number' | 'amount' | 'nip';
+
+export interface ParsedBankTransaction {
+  booking_date: string; // YYYY-MM-DD
+  amount_grosze: number; // positive for incoming, negative for outgoing
+  currency: string;
+  title: string;
+  counterparty_name: string | null;
+  counterparty_account: string | null;
+  reference: string | null; // bank's own transaction reference
+}
+
+export interface ParsedBankStatement {
+  format: BankStatementFormat;
+  bank: string | null; // 'mbank' | 'ing' when recognised
+  account: string | null; // IBAN digits of the account the statement is for, when present
+  transactions: ParsedBankTransaction[];
+  unreadable: string[]; // rows left out because they could not be read, with the reason
+}
+
+export interface BankStatement {
+  id: number;
+  format: BankStatementFormat;
+  bank: string | null;
+  account: string | null;
+  file_name: string;
+  imported_at: string;
+}
+
+export interface BankTransaction extends ParsedBankTransaction {
+  id: number;
+  statement_id: number;
+  fingerprint: string; // stable per transaction so re-imports are skipped
+  status: BankTransactionStatus;
+  proposed_invoice_id: number | null;
+  match_reasons: string | null; // comma-separated MatchReason values
+  payment_id: number | null;
+  created_at: string;
+}
+
+export interface BankTransactionListItem extends BankTransaction {
+  proposed_invoice_number: string | null;
+}
+
+export interface BankImportResult {
+  statement: BankStatement;
+  imported: number;
+  duplicates: number;
+  skipped_outgoing: number;
+  proposed: number;
+  unreadable: string[];
+}
@@ -0,0 +1,20 @@
+export type DocumentMimeType = 'application/pdf' | 'image/jpeg' | 'image/png';
+
+// Receipt or supplier invoice kept in the local document store (data/documents)
+export interface StoredDocument {
+  id: number;
+  original_name: string; // filename as uploaded, used for downloads
+  path: string;
+  mime_type: DocumentMimeType;
+  size_bytes: number;
+  thumbnail_path: string | null; // images only
+  expense_id: number | null;
+  fuel_transaction_id: number | null;
+  created_at: string;
+}
+
+// What a document belongs to; at most one of the two
+export interface DocumentLink {
+  expense_id?: number | null;
+  fuel_transaction_id?: number | null;
+}
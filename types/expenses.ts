@@ -0,0 +1,91 @@
+import type { VatRate } from './invoice';
+
+export type ExpenseCategory =
+  | 'fuel' // kept in sync with the fuel log
+  | 'software'
+  | 'hardware'
+  | 'coworking'
+  | 'phone'
+  | 'office'
+  | 'travel'
+  | 'services'
+  | 'other';
+
+// Business cost, amounts in PLN grosze
+export interface Expense {
+  id: number;
+  date: string; // YYYY-MM-DD
+  category: ExpenseCategory;
+  description: string;
+  supplier_name: string | null;
+  supplier_nip: string | null; // digits only
+  document_number: string | null; // supplier's invoice or receipt number
+  net_grosze: number;
+  vat_rate: VatRate;
+  vat_grosze: number;
+  gross_grosze: number;
+  vat_deductible_percent: number; // share of VAT deducted, e.g. 50 for a car also used privately
+  document_count: number; // receipts and invoices in the document store, a fuel entry's included
+  fuel_transaction_id: number | null; // set for expenses recorded through the fuel log
+  created_at: string;
+  updated_at: string;
+}
+
+// Supplier known by NIP, created when one of its invoices is imported
+export interface Counterparty {
+  id: number;
+  name: string;
+  nip: string; // digits only
+  address: string | null; // AdresL1 and AdresL2 of the invoice, joined
+  country_code: string | null;
+  email: string | null;
+  phone: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Fa3Party {
+  nip: string | null; // absent for foreign or private buyers
+  name: string | null;
+  address: string | null;
+  country_code: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface Fa3InvoiceLine {
+  name: string;
+  unit: string | null;
+  quantity: string | null;
+  net_grosze: number | null; // P_11, in the invoice currency
+  vat_rate: VatRate | null; // null for rates without an expense equivalent
+}
+
+// One P_13_x/P_14_x pair of the invoice, same-rate fields merged
+export interface Fa3VatTotal {
+  vat_rate: VatRate;
+  net_grosze: number; // in the invoice currency
+  vat_grosze: number;
+  vat_pln_grosze: number | null; // P_14_xW, stated on foreign-currency invoices
+}
+
+// Received invoice read from FA(3) XML (the mirror of generateFa3Xml)
+export interface ParsedFa3Invoice {
+  invoice_number: string;
+  invoice_type: string; // RodzajFaktury: VAT, KOR, ZAL, ...
+  issue_date: string; // YYYY-MM-DD
+  sale_date: string | null;
+  currency: string;
+  seller: Fa3Party;
+  buyer: Fa3Party;
+  lines: Fa3InvoiceLine[];
+  vat_totals: Fa3VatTotal[];
+  total_grosze: number; // P_15
+}
+
+export interface ExpenseImportResult {
+  invoice: ParsedFa3Invoice;
+  counterparty: Counterparty;
+  counterparty_created: boolean;
+  expenses: Expense[]; // one per VAT rate of the invoice
+}
@@ -1,12 +1,52 @@
+import type { TimeSyncMonthStatus } from './time-entries';
+import type { VehicleFuelStats } from './vehicles';
+
 export interface ProjectRate {
   id: number;
-  everhour_project_id: string;
+  project_id: string;
   project_name: string;
-  hourly_rate: number;
+  hourly_rate: number; // rate of the latest period; entries are priced through project_rate_periods
   created_at: string;
   updated_at: string;
 }
 
+// Rate of a project from a date on, until the next period starts
+export interface ProjectRatePeriod {
+  id: number;
+  project_id: string;
+  hourly_rate: number;
+  effective_from: string | null; // YYYY-MM-DD; null for a rate set before periods existed, which applies from the start
+  created_at: string;
+}
+
+// Default hourly rate from a date on; prices days without a project rate
+export interface DefaultRatePeriod {
+  id: number;
+  hourly_rate: number;
+  effective_from: string | null; // YYYY-MM-DD; null for the rate set before periods existed
+  created_at: string;
+}
+
+export type BillingRuleMatch = 'task_id' | 'task_name' | 'tag';
+
+// Prices matching entries differently from their project, or leaves them unbilled
+export interface BillingRule {
+  id: number;
+  project_id: string | null; // null applies to every project
+  match_type: BillingRuleMatch;
+  pattern: string; // task id, task name with * wildcards, or tag; case-insensitive
+  billable: boolean;
+  hourly_rate: number | null; // null bills matches at the project rate
+  effective_from: string; // YYYY-MM-DD
+  effective_until: string | null; // set when a rule that priced closed months is retired
+  created_at: string;
+}
+
+export interface ProjectRateWithPeriods extends ProjectRate {
+  periods: ProjectRatePeriod[]; // oldest first
+  current_rate: number | null; // effective today; null while the first period has not started
+}
+
 export interface EverhourTimeEntry {
   id: number;
   time: number; // seconds
@@ -15,6 +55,7 @@ export interface EverhourTimeEntry {
     id: string;
     name: string;
     projects?: string[];
+    labels?: string[];
   };
   user: {
     id: number;
@@ -32,29 +73,151 @@ export interface EverhourProject {
   };
 }
 
+export interface ProjectClient {
+  project_id: string;
+  client_id: number;
+  client_name: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface ProjectStats {
   project_id: string;
   project_name: string;
+  client_id: number | null;
+  client_name: string | null;
   hours: number;
+  billable_hours: number;
+  non_billable_hours: number;
   hourly_rate: number | null;
   income: number | null;
+  travel_km: number; // logged trips for the project
+  travel_cost: number; // fuel cost of those kilometres
+  net_profit: number | null; // income less travel cost
   percentage: number;
 }
 
+export interface ClientStats {
+  client_id: number | null; // null groups projects not linked to a client
+  client_name: string | null;
+  hours: number;
+  income: number;
+  percentage: number; // share of total income
+}
+
 export interface DailyStats {
   date: string;
   hours: number;
+  billable_hours: number;
+  non_billable_hours: number;
   income: number;
 }
 
 export interface DashboardStats {
   total_hours: number;
   total_income: number;
+  total_expenses: number;
+  profit: number; // total_income less total_expenses
   active_projects: number;
   monthly_goal: number;
   goal_percentage: number;
   projects: ProjectStats[];
+  clients: ClientStats[];
   daily_breakdown: DailyStats[];
+  time_sync: TimeSyncMonthStatus | null; // freshness of the cached entries behind these numbers
+}
+
+export type TimeOffType = 'vacation' | 'sick' | 'l4' | 'custom'; // l4: sick leave on a doctor's certificate
+
+// Personal days off; working days inside the period do not count toward goals
+export interface TimeOff {
+  id: number;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, inclusive
+  type: TimeOffType;
+  label: string | null; // required for custom time off
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  weekend: boolean;
+  holiday: string | null; // public holiday name
+  time_off: Pick<TimeOff, 'id' | 'type' | 'label'> | null;
+  hours: number; // logged
+}
+
+export interface VacationAllowance {
+  year: number;
+  allowance_days: number;
+  used_days: number; // vacation working days up to today
+  planned_days: number; // vacation working days after today
+  remaining_days: number; // may go negative when the allowance is overbooked
+}
+
+export interface TimeOffCalendar {
+  month: string; // YYYY-MM
+  days: CalendarDay[];
+  allowance: VacationAllowance;
+}
+
+// Where a month is heading at the current pace; past months are final, future months start from zero
+export interface IncomeForecast {
+  month: string; // YYYY-MM
+  as_of: string; // YYYY-MM-DD, the last day counted as worked
+  hours_to_date: number;
+  income_to_date: number;
+  working_days: number; // weekdays of the month that are not public holidays
+  working_days_elapsed: number;
+  working_days_remaining: number; // after planned time off
+  planned_days_off: number; // working days off after as_of, from the time-off calendar
+  daily_pace_hours: number; // hours per working day over the recent weeks
+  hourly_income: number; // income per logged hour over the same weeks
+  forecast_hours: number;
+  forecast_income: number;
+  monthly_goal: number;
+  goal_shortfall_hours: number; // 0 when the forecast reaches the goal
+  required_daily_hours: number | null; // to reach the goal on the remaining days; null when none are left
+}
+
+// Amounts in PLN
+export interface PeriodTotals {
+  hours: number;
+  billable_hours: number;
+  income: number; // tracked hours priced at their rates
+  invoiced: number; // net amount of issued invoices and corrections
+  fuel_cost: number;
+  expenses: number; // net expenses plus the VAT that cannot be deducted, fuel included
+  profit: number; // income less expenses
+}
+
+export interface MonthlyTotals extends PeriodTotals {
+  month: string; // YYYY-MM
+}
+
+export interface PeriodComparison {
+  from: string; // YYYY-MM-DD
+  to: string;
+  totals: PeriodTotals;
+  monthly: MonthlyTotals[];
+}
+
+// Dashboard numbers for a range of whole months, e.g. a quarter or a year
+export interface RangeStats {
+  from: string; // YYYY-MM-DD, first day of the first month
+  to: string; // YYYY-MM-DD, last day of the last month
+  total_hours: number;
+  total_income: number;
+  active_projects: number;
+  hours_goal: number;
+  goal_percentage: number;
+  projects: ProjectStats[];
+  clients: ClientStats[];
+  daily_breakdown: DailyStats[];
+  totals: PeriodTotals;
+  monthly: MonthlyTotals[];
+  previous_year: PeriodComparison | null; // same months a year earlier; null when it could not be loaded
 }
 
 // Legacy flat settings interface (kept for backward compatibility)
@@ -72,6 +235,8 @@ export type {
   FuelSettings,
   AppSettings,
   FlatSettings,
+  NumberingReset,
+  InvoicingSettings,
 } from './settings';
 export { toGroupedSettings, toFlatSettings } from './settings';
 
@@ -79,6 +244,8 @@ export interface TaskTimeEntry {
   task_id: string;
   task_name: string;
   hours: number;
+  billable: boolean; // false when every entry of the task is non-billable
+  hourly_rate: number | null; // rate applied to its billable hours; averaged across rate changes
   dates: string[]; // List of dates worked on this task
 }
 
@@ -109,6 +276,9 @@ export interface FuelTransaction {
   station_id?: number;
   station_name?: string;
   station_address?: string;
+  vehicle_id?: number | null;
+  odometer_km?: number | null; // reading at the fill-up, for consumption
+  document_count?: number; // attached receipts, set by list queries
   created_at: string;
 }
 
@@ -125,6 +295,7 @@ export interface FuelMonthlyStats {
     total_liters: number;
     avg_price_per_liter: number;
   }>;
+  byVehicle: VehicleFuelStats[];
 }
 
 export interface FuelPriceApiResponse {
@@ -166,8 +337,10 @@ export interface GeocodingResult {
 
 export type {
   InvoiceStatus,
+  InvoiceType,
   PaymentMethod,
   VatRate,
+  KsefStatus,
   Client,
   Invoice,
   InvoiceItem,
@@ -176,5 +349,99 @@ export type {
   CreateClientInput,
   CreateInvoiceItemInput,
   CreateInvoiceInput,
+  CreateCorrectionInput,
+  ConvertProformaInput,
+  ExchangeRate,
+  PaymentStatus,
+  PaymentFilter,
+  Payment,
+  CreatePaymentInput,
+  InvoiceBalance,
+  ReceivableInvoice,
+  AgingBucket,
+  ReceivablesTotals,
+  ReceivablesSummary,
+  TimeBillingGroupBy,
+  BillableTimeLine,
+  BillableTimePreview,
+  BillTimeInput,
+  RecurringInvoiceContent,
+  RecurringInvoice,
+  CreateRecurringInvoiceInput,
+  RecurringInvoiceRun,
+  RecurringInvoiceScheduleItem,
+  RecurringRunResult,
 } from './invoice';
 
+
+export type {
+  BankStatementFormat,
+  BankTransactionStatus,
+  MatchReason,
+  ParsedBankTransaction,
+  ParsedBankStatement,
+  BankStatement,
+  BankTransaction,
+  BankTransactionListItem,
+  BankImportResult,
+} from './bank';
+
+export type {
+  TaxForm,
+  ZusTier,
+  TaxProfile,
+  MonthlyTaxEstimate,
+  TaxTotals,
+  TaxYearEstimate,
+} from './tax';
+
+export type {
+  JpkPurpose,
+  JpkSaleField,
+  JpkSaleRow,
+  JpkPurchaseRow,
+  JpkTaxpayer,
+  JpkV7mInput,
+} from './jpk';
+
+export type {
+  ExpenseCategory,
+  Expense,
+  Counterparty,
+  Fa3Party,
+  Fa3InvoiceLine,
+  Fa3VatTotal,
+  ParsedFa3Invoice,
+  ExpenseImportResult,
+} from './expenses';
+
+export type {
+  Vehicle,
+  Trip,
+  TripRoute,
+  VehicleLogbook,
+  VehicleFuelStats,
+} from './vehicles';
+
+export type {
+  DocumentMimeType,
+  StoredDocument,
+  DocumentLink,
+} from './documents';
+
+export type {
+  TimeSyncStatus,
+  TimeEntry,
+  TimeProviderName,
+  TimeEntrySource,
+  TrackedTimeEntry,
+  ManualTimeEntry,
+  ManualTimeEntryInput,
+  TimesheetImportResult,
+  TrackedProject,
+  TrackedUser,
+  TimesheetColumnMapping,
+  ParsedTimesheetRow,
+  TimeSyncMonth,
+  TimeSyncMonthStatus,
+} from './time-entries';
@@ -1,13 +1,21 @@
 export type InvoiceStatus = 'draft' | 'issued' | 'cancelled';
 
+// FA(3) RodzajFaktury: regular VAT invoice or correction (faktura korygująca).
+// PRO is a proforma: a payment request with no tax effect, never sent as FA(3).
+export type InvoiceType = 'VAT' | 'KOR' | 'PRO';
+
 export type PaymentMethod = 'cash' | 'bank_transfer' | 'card' | 'other';
 
 export type VatRate = 23 | 8 | 5 | 0 | 'ZW' | 'NP';
 
+// Submission state in KSeF; null until the invoice is sent
+export type KsefStatus = 'processing' | 'accepted' | 'rejected';
+
 export interface Client {
   id: number;
   name: string;
-  nip: string; // digits only
+  nip: string; // digits of a Polish NIP, or a foreign tax id without the country prefix
+  country_code: string; // ISO 3166 alpha-2
   address?: string | null;
   city?: string | null;
   postal_code?: string | null;
@@ -24,16 +32,29 @@ export interface Invoice {
   sale_date: string; // YYYY-MM-DD
   client_id: number;
   status: InvoiceStatus;
+  invoice_type: InvoiceType;
+  corrected_invoice_id?: number | null; // set for KOR invoices
+  correction_reason?: string | null;
+  proforma_id?: number | null; // proforma a VAT invoice was converted from
   payment_method: PaymentMethod;
   payment_deadline?: string | null; // YYYY-MM-DD
   currency: string; // ISO 4217, typically PLN
-  exchange_rate?: string | null; // decimal string
+  exchange_rate?: string | null; // decimal string, PLN per unit of currency
+  exchange_rate_date?: string | null; // YYYY-MM-DD the rate was published
+  exchange_rate_table?: string | null; // e.g. NBP table number "012/A/NBP/2026"
   notes?: string | null;
   subtotal_grosze: number;
   tax_grosze: number;
   total_grosze: number;
   xml_path?: string | null;
   pdf_path?: string | null;
+  ksef_status?: KsefStatus | null;
+  ksef_session_reference?: string | null; // online session the invoice was sent in
+  ksef_reference_number?: string | null; // reference of the invoice within that session
+  ksef_number?: string | null; // number assigned by KSeF once accepted
+  ksef_upo_path?: string | null; // UPO (official receipt) XML
+  ksef_error?: string | null; // rejection reason, or why the UPO of an accepted invoice is missing
+  ksef_sent_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -49,13 +70,13 @@ export interface InvoiceItem {
   net_grosze: number;
   vat_grosze: number;
   gross_grosze: number;
+  state_before: number; // 1 = row as it was on the corrected invoice (FA(3) StanPrzed)
   created_at: string;
 }
 
 export interface InvoiceSequence {
-  id: number;
-  year: number;
-  month: number;
+  series: string; // numbering series, one per invoice type
+  period: string; // "YYYY-MM", "YYYY" or "all", depending on the reset period
   last_number: number;
   created_at: string;
   updated_at: string;
@@ -65,11 +86,14 @@ export interface InvoiceWithItems {
   invoice: Invoice;
   client: Client;
   items: InvoiceItem[];
+  corrected_invoice?: Invoice | null;
+  proforma?: Invoice | null;
 }
 
 export interface CreateClientInput {
   name: string;
   nip: string;
+  country_code?: string;
   address?: string;
   city?: string;
   postal_code?: string;
@@ -87,6 +111,7 @@ export interface CreateInvoiceItemInput {
 
 export interface CreateInvoiceInput {
   invoice_number?: string; // optional manual override
+  invoice_type?: Exclude<InvoiceType, 'KOR'>; // corrections are created from the invoice they correct
   issue_date: string;
   sale_date: string;
   client_id: number;
@@ -94,9 +119,174 @@ export interface CreateInvoiceInput {
   payment_method: PaymentMethod;
   payment_deadline?: string;
   currency: string;
-  exchange_rate?: string;
+  exchange_rate?: string | null; // manual override; fetched from NBP when omitted for non-PLN invoices
   notes?: string;
   items: CreateInvoiceItemInput[];
+  time_entry_ids?: string[]; // tracked time entries billed by this invoice
+  proforma_id?: number; // set when converting a proforma; not accepted from the API
+}
+
+export interface ConvertProformaInput {
+  issue_date?: string; // defaults to today
+  sale_date?: string; // defaults to the issue date
+  payment_deadline?: string; // defaults to the proforma's payment term from the issue date
+}
+
+export interface CreateCorrectionInput {
+  invoice_number?: string; // optional manual override
+  issue_date: string;
+  sale_date?: string; // defaults to the corrected invoice's sale date
+  payment_deadline?: string;
+  reason: string;
+  notes?: string;
+  items: CreateInvoiceItemInput[]; // state after correction
+}
+
+// Derived from payments; only issued VAT invoices have one
+export type PaymentStatus = 'unpaid' | 'partially_paid' | 'paid';
+export type PaymentFilter = PaymentStatus | 'overdue';
+
+export interface Payment {
+  id: number;
+  invoice_id: number;
+  amount_grosze: number; // in the invoice currency
+  payment_date: string; // YYYY-MM-DD
+  method: PaymentMethod;
+  reference?: string | null; // e.g. bank transfer title
+  notes?: string | null;
+  created_at: string;
 }
 
+export interface CreatePaymentInput {
+  amount_grosze: number;
+  payment_date: string;
+  method: PaymentMethod;
+  reference?: string | null;
+  notes?: string | null;
+}
+
+export interface InvoiceBalance {
+  due_grosze: number; // total adjusted by issued corrections
+  paid_grosze: number;
+  outstanding_grosze: number;
+  payment_status: PaymentStatus | null;
+  days_overdue: number; // 0 unless unpaid past the deadline
+}
+
+export interface ReceivableInvoice extends InvoiceBalance {
+  invoice_id: number;
+  invoice_number: string;
+  client_id: number;
+  client_name: string;
+  issue_date: string;
+  payment_deadline: string | null;
+  currency: string;
+}
+
+export type AgingBucket = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_90_plus';
+
+export interface ReceivablesTotals {
+  currency: string;
+  outstanding_grosze: number;
+  overdue_grosze: number;
+  buckets: Record<AgingBucket, number>; // outstanding grosze by days overdue
+}
+
+export interface ReceivablesSummary {
+  as_of: string; // YYYY-MM-DD
+  totals: ReceivablesTotals[]; // one per currency
+  invoices: ReceivableInvoice[]; // most overdue first
+}
 
+export interface ExchangeRate {
+  currency: string; // ISO 4217
+  effective_date: string; // YYYY-MM-DD the rate was published
+  rate: string; // decimal string, PLN per unit of currency
+  table_no?: string | null;
+  source: string; // which ExchangeRateSource supplied it
+  fetched_at?: string;
+}
+
+export type TimeBillingGroupBy = 'project' | 'task';
+
+export interface BillableTimeLine {
+  key: string; // project id, or "projectId:taskId" when grouped per task
+  project_id: string;
+  project_name: string;
+  client_id: number | null; // client the project is linked to
+  task_name: string | null;
+  name: string; // suggested invoice line name
+  quantity: string; // hours, decimal string (up to 3 decimals)
+  hourly_rate: number | null; // PLN, null when no project or default rate is set
+  unit_price_grosze: number | null;
+  net_grosze: number | null;
+  time_entry_ids: string[];
+}
+
+export interface BillableTimePreview {
+  month: string; // YYYY-MM
+  group_by: TimeBillingGroupBy;
+  lines: BillableTimeLine[];
+  invoiced_entries: number; // entries skipped because they are already on an invoice
+}
+
+export interface BillTimeInput {
+  invoice_type?: Exclude<InvoiceType, 'KOR'>;
+  month: string;
+  group_by: TimeBillingGroupBy;
+  client_id: number;
+  issue_date: string;
+  sale_date: string;
+  payment_method: PaymentMethod;
+  payment_deadline?: string | null;
+  currency: string;
+  vat_rate: VatRate;
+  notes?: string | null;
+  lines: Array<{ key: string; name: string }>; // which groups to bill, with the final line name
+}
+
+// Fields of CreateInvoiceInput that a recurring template fixes for every draft it produces
+export interface RecurringInvoiceContent extends Pick<CreateInvoiceInput, 'client_id' | 'payment_method' | 'currency' | 'items'> {
+  notes?: string | null;
+}
+
+export interface RecurringInvoice extends RecurringInvoiceContent {
+  id: number;
+  name: string;
+  day_of_month: number; // 1-31, clamped to the last day of shorter months
+  payment_days: number; // deadline = issue date + payment_days
+  start_date: string; // YYYY-MM-DD, first possible issue date
+  end_date: string | null; // YYYY-MM-DD, last possible issue date
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateRecurringInvoiceInput extends RecurringInvoiceContent {
+  name: string;
+  day_of_month: number;
+  payment_days: number;
+  start_date: string;
+  end_date?: string | null;
+  active?: boolean;
+}
+
+export interface RecurringInvoiceRun {
+  recurring_invoice_id: number;
+  period: string; // YYYY-MM
+  invoice_id: number | null; // null once the draft is deleted; the period is not generated again
+  created_at: string;
+}
+
+export interface RecurringInvoiceScheduleItem extends RecurringInvoice {
+  client_name: string;
+  total_grosze: number; // gross amount of one draft
+  last_period: string | null;
+  last_invoice_id: number | null;
+  next_issue_date: string | null; // null when paused or past end_date
+}
+
+export interface RecurringRunResult {
+  created: Array<{ recurring_invoice_id: number; period: string; invoice_id: number; invoice_number: string }>;
+  failed: Array<{ recurring_invoice_id: number; period: string; error: string }>;
+}
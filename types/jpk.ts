@@ -0,0 +1,51 @@
+// JPK_V7M: monthly VAT return (deklaracja VAT-7) with the sales and purchase registers
+
+// CelZlozenia: 1 first filing for the month, 2 correction
+export type JpkPurpose = 1 | 2;
+
+// Sales register columns of the rates invoices can carry: K_10 exempt, K_11 outside Poland
+// (K_12 the part of it that is services to EU businesses), K_13 0%, K_15/K_16 5%,
+// K_17/K_18 8%, K_19/K_20 23% (net / VAT)
+export type JpkSaleField = 'K_10' | 'K_11' | 'K_12' | 'K_13' | 'K_15' | 'K_16' | 'K_17' | 'K_18' | 'K_19' | 'K_20';
+
+// Amounts in PLN grosze
+export interface JpkSaleRow {
+  counterparty_country_code: string | null; // foreign counterparties only
+  counterparty_nip: string; // "brak" when the client has none
+  counterparty_name: string;
+  document_number: string;
+  issue_date: string; // YYYY-MM-DD
+  sale_date: string; // YYYY-MM-DD
+  amounts: Partial<Record<JpkSaleField, number>>;
+}
+
+// Other purchases (K_42 full net, K_43 deductible VAT)
+export interface JpkPurchaseRow {
+  supplier_nip: string;
+  supplier_name: string;
+  document_number: string;
+  purchase_date: string; // YYYY-MM-DD
+  net_grosze: number;
+  vat_grosze: number;
+}
+
+// Sole proprietors file as a natural person when their name and birth date are set
+export interface JpkTaxpayer {
+  nip: string;
+  name: string; // full name of a company
+  email: string;
+  phone?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  birth_date?: string | null; // YYYY-MM-DD
+}
+
+export interface JpkV7mInput {
+  month: string; // YYYY-MM
+  purpose: JpkPurpose;
+  tax_office_code: string; // 4-digit code of the urząd skarbowy
+  taxpayer: JpkTaxpayer;
+  sales: JpkSaleRow[];
+  purchases: JpkPurchaseRow[];
+  carry_over: number; // whole PLN of input VAT carried from the previous month (P_39)
+}
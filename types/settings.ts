@@ -1,11 +1,16 @@
 // Settings Types organized by sections
 
+import type { TimeProviderName } from './time-entries';
+import type { TaxForm, ZusTier } from './tax';
+
 export type Currency = 'PLN' | 'USD' | 'EUR' | 'GBP';
 
 export interface GeneralSettings {
   default_hourly_rate: string;
   currency: Currency;
   daily_hours_target: string;
+  time_provider?: TimeProviderName; // everhour when unset
+  vacation_days_per_year?: string; // 26 when unset
 }
 
 export interface LocationSettings {
@@ -34,11 +39,38 @@ export interface CompanySettings {
   company_bank_account?: string;
 }
 
+export type NumberingReset = 'monthly' | 'yearly' | 'never';
+
+export interface InvoicingSettings {
+  invoice_number_template?: string; // e.g. "FV/{YYYY}/{MM}/{N:4}"
+  invoice_number_reset?: NumberingReset;
+  correction_number_template?: string;
+  correction_number_reset?: NumberingReset;
+  proforma_number_template?: string;
+  proforma_number_reset?: NumberingReset;
+}
+
+export interface TaxSettings {
+  tax_form?: TaxForm; // liniowy when unset
+  ryczalt_rate?: string; // percent
+  zus_tier?: ZusTier; // full when unset
+  zus_tier_until?: string; // YYYY-MM, empty when the tier has no end
+  zus_sickness?: string; // "true" | "false"
+  fuel_cost_percent?: string; // 100 when unset
+  fuel_vat_deduction_percent?: string; // deductible VAT share of new fuel expenses, 50 when unset
+  tax_office_code?: string; // 4-digit urząd skarbowy code for JPK_V7M
+  taxpayer_first_name?: string; // with last name and birth date, JPK is filed as a natural person
+  taxpayer_last_name?: string;
+  taxpayer_birth_date?: string; // YYYY-MM-DD
+}
+
 export interface AppSettings {
   general: GeneralSettings;
   location: LocationSettings;
   fuel: FuelSettings;
   company: CompanySettings;
+  invoicing: InvoicingSettings;
+  tax: TaxSettings;
 }
 
 // Flat settings format for backward compatibility with DB
@@ -46,6 +78,8 @@ export interface FlatSettings {
   default_hourly_rate: string;
   currency: Currency;
   daily_hours_target: string;
+  time_provider?: TimeProviderName;
+  vacation_days_per_year?: string;
   home_address?: string;
   home_latitude?: string;
   home_longitude?: string;
@@ -66,6 +100,27 @@ export interface FlatSettings {
   company_email?: string;
   company_phone?: string;
   company_bank_account?: string;
+
+  // Invoice numbering
+  invoice_number_template?: string;
+  invoice_number_reset?: NumberingReset;
+  correction_number_template?: string;
+  correction_number_reset?: NumberingReset;
+  proforma_number_template?: string;
+  proforma_number_reset?: NumberingReset;
+
+  // Tax estimate
+  tax_form?: TaxForm;
+  ryczalt_rate?: string;
+  zus_tier?: ZusTier;
+  zus_tier_until?: string;
+  zus_sickness?: string;
+  fuel_cost_percent?: string;
+  fuel_vat_deduction_percent?: string;
+  tax_office_code?: string;
+  taxpayer_first_name?: string;
+  taxpayer_last_name?: string;
+  taxpayer_birth_date?: string;
 }
 
 // Helper to convert flat settings to grouped
@@ -75,6 +130,8 @@ export function toGroupedSettings(flat: FlatSettings): AppSettings {
       default_hourly_rate: flat.default_hourly_rate,
       currency: flat.currency,
       daily_hours_target: flat.daily_hours_target,
+      time_provider: flat.time_provider,
+      vacation_days_per_year: flat.vacation_days_per_year,
     },
     location: {
       home_address: flat.home_address,
@@ -99,6 +156,27 @@ export function toGroupedSettings(flat: FlatSettings): AppSettings {
       company_phone: flat.company_phone,
       company_bank_account: flat.company_bank_account,
     },
+    invoicing: {
+      invoice_number_template: flat.invoice_number_template,
+      invoice_number_reset: flat.invoice_number_reset,
+      correction_number_template: flat.correction_number_template,
+      correction_number_reset: flat.correction_number_reset,
+      proforma_number_template: flat.proforma_number_template,
+      proforma_number_reset: flat.proforma_number_reset,
+    },
+    tax: {
+      tax_form: flat.tax_form,
+      ryczalt_rate: flat.ryczalt_rate,
+      zus_tier: flat.zus_tier,
+      zus_tier_until: flat.zus_tier_until,
+      zus_sickness: flat.zus_sickness,
+      fuel_cost_percent: flat.fuel_cost_percent,
+      fuel_vat_deduction_percent: flat.fuel_vat_deduction_percent,
+      tax_office_code: flat.tax_office_code,
+      taxpayer_first_name: flat.taxpayer_first_name,
+      taxpayer_last_name: flat.taxpayer_last_name,
+      taxpayer_birth_date: flat.taxpayer_birth_date,
+    },
   };
 }
 
@@ -109,6 +187,8 @@ export function toFlatSettings(grouped: AppSettings): FlatSettings {
     ...grouped.location,
     ...grouped.fuel,
     ...grouped.company,
+    ...grouped.invoicing,
+    ...grouped.tax,
   };
 }
 
@@ -0,0 +1,45 @@
+// Polish income tax forms for a sole proprietorship
+export type TaxForm = 'ryczalt' | 'liniowy' | 'skala';
+
+// ZUS social contribution tiers: ulga na start (none), preferencyjny (30% of minimum wage), pełny (60% of forecast average wage)
+export type ZusTier = 'start' | 'preferential' | 'full';
+
+export interface TaxProfile {
+  tax_form: TaxForm;
+  ryczalt_rate: number; // percent, e.g. 12 for IT services
+  zus_tier: ZusTier;
+  zus_tier_until: string | null; // YYYY-MM, last month of the tier; the next tier follows
+  sickness_insurance: boolean; // voluntary chorobowe
+  fuel_cost_percent: number; // share of fuel spending booked as a cost
+}
+
+// Amounts in PLN
+export interface MonthlyTaxEstimate {
+  month: string; // YYYY-MM
+  revenue: number; // net of issued invoices
+  costs: number;
+  zus_tier: ZusTier;
+  social_zus: number; // pension, disability, sickness, accident and Labour Fund
+  health: number;
+  pit_advance: number; // zaliczka for the month
+  due_date: string; // YYYY-MM-DD, PIT and ZUS are paid by the 20th of the next month
+  total_burden: number; // social_zus + health + pit_advance
+  net_income: number; // revenue - costs - total_burden
+}
+
+export interface TaxTotals {
+  revenue: number;
+  costs: number;
+  social_zus: number;
+  health: number;
+  pit: number;
+  total_burden: number;
+  net_income: number;
+}
+
+export interface TaxYearEstimate {
+  year: number;
+  profile: TaxProfile;
+  months: MonthlyTaxEstimate[]; // January up to the current month
+  totals: TaxTotals; // year to date
+}
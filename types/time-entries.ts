@@ -0,0 +1,98 @@
+// Time-tracking services entries can be read from, chosen in settings
+export type TimeProviderName = 'everhour' | 'toggl' | 'clockify' | 'csv';
+
+// Where an entry came from: the selected provider, or added in the dashboard
+export type TimeEntrySource = TimeProviderName | 'manual' | 'import';
+
+// One time record, normalised from whichever provider supplied it or kept locally
+export interface TrackedTimeEntry {
+  id: string; // "<source>:<record id>", unique across sources ("manual:" for local entries)
+  source: TimeEntrySource;
+  date: string; // YYYY-MM-DD
+  seconds: number;
+  task_id: string | null;
+  task_name: string | null;
+  project_id: string | null; // key of project_rates and project_clients
+  user_id: string | null;
+  user_name: string | null;
+  tags: string[]; // provider tags or labels, matched by billing rules
+}
+
+export interface TrackedProject {
+  id: string;
+  name: string;
+}
+
+export interface TrackedUser {
+  id: string;
+  name: string | null;
+}
+
+// CSV header holding each field of a timesheet row
+export interface TimesheetColumnMapping {
+  date: string;
+  duration: string; // decimal hours ("1.5", "1,5") or h:mm[:ss]
+  project: string | null;
+  task: string | null;
+  user: string | null;
+}
+
+export interface ParsedTimesheetRow {
+  line: number; // 1-based line in the file
+  date: string; // YYYY-MM-DD
+  seconds: number;
+  project: string | null;
+  task: string | null;
+  user: string | null;
+}
+
+// Entry added by hand or imported from a timesheet; not touched by provider syncs
+export interface ManualTimeEntry {
+  id: number;
+  source: Extract<TimeEntrySource, 'manual' | 'import'>;
+  date: string; // YYYY-MM-DD
+  seconds: number;
+  project_id: string | null;
+  project_name: string | null; // name at entry time; local projects have no other
+  task_name: string | null;
+  import_key: string | null; // set on imported rows so re-importing a file skips them
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ManualTimeEntryInput {
+  date: string;
+  hours: number;
+  project_id?: string | null; // omitted for a project that only exists locally
+  project_name: string;
+  task_name?: string | null;
+}
+
+export interface TimesheetImportResult {
+  imported: number;
+  skipped: number; // rows already imported from an earlier file
+}
+
+// Tracked entry as stored in the local cache
+export interface TimeEntry extends TrackedTimeEntry {
+  source: TimeProviderName;
+  synced_at: string;
+}
+
+// Outcome of the last attempt to fetch a month from the provider
+export type TimeSyncStatus = 'ok' | 'error';
+
+export interface TimeSyncMonth {
+  source: TimeProviderName;
+  month: string; // YYYY-MM
+  status: TimeSyncStatus;
+  entry_count: number; // entries stored by the last successful sync
+  synced_at: string | null; // last successful sync
+  attempted_at: string;
+  error: string | null; // set when the last attempt failed
+}
+
+export interface TimeSyncMonthStatus extends TimeSyncMonth {
+  open: boolean; // still re-fetched automatically
+  frozen: boolean; // closed and synced after closing; only a manual resync fetches it again
+}
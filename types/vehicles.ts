@@ -0,0 +1,59 @@
+// Car used for business; its logbook (ewidencja przebiegu) starts at a known odometer reading
+export interface Vehicle {
+  id: number;
+  name: string; // e.g. "Skoda Octavia"
+  registration_number: string;
+  logbook_start_date: string; // YYYY-MM-DD the initial reading was taken
+  initial_odometer_km: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Logbook entry: one business trip
+export interface Trip {
+  id: number;
+  vehicle_id: number;
+  date: string; // YYYY-MM-DD
+  origin: string;
+  destination: string;
+  purpose: string;
+  distance_km: number; // one decimal
+  driver: string | null;
+  project_id: string | null; // project the trip served; its fuel cost counts against it
+  client_id: number | null; // client visited; their address is the default destination
+  created_at: string;
+  updated_at: string;
+}
+
+// Where a trip goes once the defaults are filled in, with the straight-line distance
+export interface TripRoute {
+  origin: string;
+  destination: string;
+  client_id: number | null;
+  distance_km: number;
+}
+
+// A vehicle's month of the logbook; odometer readings follow from the logged trips
+export interface VehicleLogbook {
+  vehicle: Vehicle;
+  month: string; // YYYY-MM
+  trips: Trip[];
+  start_odometer_km: number;
+  end_odometer_km: number;
+  total_km: number;
+}
+
+/**
+ * Fuel efficiency of a vehicle in a month. Every fill-up with an odometer reading is
+ * treated as a full tank, so its liters cover the distance since the previous reading.
+ */
+export interface VehicleFuelStats {
+  vehicle_id: number;
+  vehicle_name: string;
+  distance_km: number; // between fill-ups with readings, ending in the month
+  liters: number; // fuel bought at those fill-ups
+  fuel_cost: number;
+  consumption_l_per_100km: number | null;
+  cost_per_km: number | null;
+  logged_km: number; // trips in the logbook
+}
@@ -0,0 +1,15 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    include: ['lib/**/*.test.ts'],
+    setupFiles: ['./vitest.setup.ts'],
+    // The setup changes the working directory, which worker threads do not allow
+    pool: 'forks',
+  },
+});
@@ -0,0 +1,17 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+// Each test file gets an empty database and its own data/ directory for generated files.
+// Schemas are looked up from the working directory, so they are linked in.
+const root = process.cwd();
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dashboard-test-'));
+fs.mkdirSync(path.join(dir, 'lib'));
+fs.symlinkSync(path.join(root, 'lib', 'schemas'), path.join(dir, 'lib', 'schemas'));
+process.env.DATABASE_PATH = path.join(dir, 'test.db');
+process.chdir(dir);
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});